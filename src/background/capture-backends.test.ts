@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { cropImage } from "../lib/image-encoding"
+import { tabBackend } from "./capture-backends"
+
+vi.mock("../lib/image-encoding", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/image-encoding")>()),
+  cropImage: vi.fn(async () => croppedBlob)
+}))
+
+const croppedBlob = vi.hoisted(
+  () => new Blob(["cropped"], { type: "image/png" })
+)
+
+const PNG_DATA_URL = "data:image/png;base64,cG5n"
+
+const tab = { id: 1, windowId: 3, active: true } as chrome.tabs.Tab
+
+describe("background/capture-backends", () => {
+  describe("tabBackend", () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it("should crop the viewport screenshot to the slide", async () => {
+      chrome.tabs.captureVisibleTab = vi.fn().mockResolvedValue(PNG_DATA_URL)
+
+      const capture = tabBackend.capture(tab, {
+        x: 100,
+        y: 500,
+        width: 800,
+        height: 450,
+        devicePixelRatio: 2,
+        scrollX: 0,
+        scrollY: 400
+      })
+      await vi.runAllTimersAsync()
+      const blob = await capture
+
+      expect(chrome.tabs.captureVisibleTab).toHaveBeenCalledWith(3, {
+        format: "png"
+      })
+      // Viewport-relative, in device pixels
+      expect(cropImage).toHaveBeenCalledWith(expect.any(Blob), {
+        x: 200,
+        y: 200,
+        width: 1600,
+        height: 900
+      })
+      expect(blob).toBe(croppedBlob)
+    })
+
+    it("should wait out the per-second quota and retry", async () => {
+      chrome.tabs.captureVisibleTab = vi
+        .fn()
+        .mockRejectedValueOnce(
+          new Error(
+            "This request exceeds the MAX_CAPTURE_VISIBLE_TAB_CALLS_PER_SECOND quota."
+          )
+        )
+        .mockResolvedValueOnce(PNG_DATA_URL)
+
+      const capture = tabBackend.capture(tab)
+      await vi.runAllTimersAsync()
+      const blob = await capture
+
+      expect(chrome.tabs.captureVisibleTab).toHaveBeenCalledTimes(2)
+      expect(blob.type).toBe("image/png")
+    })
+
+    it("should refuse to capture a tab in the background", async () => {
+      await expect(
+        tabBackend.capture({ ...tab, active: false })
+      ).rejects.toThrow("Keep the document tab in front")
+      expect(chrome.tabs.captureVisibleTab).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,186 @@
+/**
+ * Capture backends
+ * Screenshots of a page come from one of two backends: the DevTools protocol
+ * over the capture's debugger session ("cdp"), or
+ * chrome.tabs.captureVisibleTab ("tab"), which needs no debugger permission
+ * but only sees the visible viewport of the active tab and is rate limited
+ * by Chrome. Each capture picks its backend once when it starts.
+ */
+
+import {
+  hasDebuggerPermission,
+  type CaptureBackendId
+} from "../lib/capture-backend"
+import { cropImage } from "../lib/image-encoding"
+import { base64ToBlob } from "../lib/page-store"
+import { getSettings } from "../lib/settings"
+import type { CaptureClip } from "../lib/slide-bounds"
+import { debuggerSessions } from "./debugger-session"
+
+export interface CaptureBackend {
+  id: CaptureBackendId
+  // Start holding whatever the backend needs for a whole capture
+  open(tabId: number): Promise<void>
+  close(tabId: number): Promise<void>
+  // Screenshot the tab as a PNG, cropped to `clip` when given
+  capture(tab: chrome.tabs.Tab, clip?: CaptureClip): Promise<Blob>
+}
+
+// Chrome allows MAX_CAPTURE_VISIBLE_TAB_CALLS_PER_SECOND (2) calls a second
+const TAB_CAPTURE_INTERVAL_MS = 550
+const TAB_CAPTURE_MAX_ATTEMPTS = 3
+
+export const cdpBackend: CaptureBackend = {
+  id: "cdp",
+
+  open: (tabId) => debuggerSessions.attach(tabId),
+
+  async close(tabId) {
+    await debuggerSessions.detach(tabId)
+  },
+
+  async capture(tab, clip) {
+    const tabId = tab.id as number
+    // A page captured outside a capture gets a session of its own
+    const singlePage = !debuggerSessions.isAttached(tabId)
+
+    if (singlePage) {
+      await debuggerSessions.attach(tabId)
+    }
+    try {
+      const result = await debuggerSessions.sendCommand<{ data: string }>(
+        tabId,
+        "Page.captureScreenshot",
+        {
+          format: "png",
+          captureBeyondViewport: false,
+          ...(clip && {
+            clip: {
+              x: clip.x,
+              y: clip.y,
+              width: clip.width,
+              height: clip.height,
+              scale: 1
+            }
+          })
+        }
+      )
+      return base64ToBlob(result.data, "image/png")
+    } finally {
+      if (singlePage) {
+        await debuggerSessions.detach(tabId)
+      }
+    }
+  }
+}
+
+let lastTabCaptureAt = 0
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function isTabCaptureQuotaError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    error.message.includes("MAX_CAPTURE_VISIBLE_TAB_CALLS_PER_SECOND")
+  )
+}
+
+// captureVisibleTab, spaced out to stay under Chrome's per-second quota and
+// retried when the quota is hit anyway (e.g. by another extension)
+async function captureVisibleTab(windowId: number): Promise<string> {
+  for (let attempt = 1; ; attempt++) {
+    const wait = lastTabCaptureAt + TAB_CAPTURE_INTERVAL_MS - Date.now()
+    if (wait > 0) {
+      await sleep(wait)
+    }
+    lastTabCaptureAt = Date.now()
+
+    try {
+      return await chrome.tabs.captureVisibleTab(windowId, { format: "png" })
+    } catch (error) {
+      if (
+        !isTabCaptureQuotaError(error) ||
+        attempt >= TAB_CAPTURE_MAX_ATTEMPTS
+      ) {
+        throw error
+      }
+      console.warn("[CaptureBackend] Tab capture quota hit; retrying", {
+        attempt
+      })
+    }
+  }
+}
+
+export const tabBackend: CaptureBackend = {
+  id: "tab",
+
+  // Nothing is held between pages
+  open: async () => {},
+  close: async () => {},
+
+  async capture(tab, clip) {
+    if (!tab.active) {
+      throw new Error("Keep the document tab in front while Flow captures it")
+    }
+
+    const dataUrl = await captureVisibleTab(tab.windowId)
+    const png = base64ToBlob(dataUrl.slice(dataUrl.indexOf(",") + 1))
+    if (!clip) {
+      return png
+    }
+
+    // The screenshot covers the viewport only, in device pixels
+    const scale = clip.devicePixelRatio
+    return cropImage(png, {
+      x: (clip.x - clip.scrollX) * scale,
+      y: (clip.y - clip.scrollY) * scale,
+      width: clip.width * scale,
+      height: clip.height * scale
+    })
+  }
+}
+
+/**
+ * Backend the setting asks for, using tab capture when the debugger
+ * permission hasn't been granted
+ */
+export async function chooseCaptureBackend(): Promise<CaptureBackend> {
+  const { captureBackend: preference } = await getSettings()
+  if (preference !== "tab" && (await hasDebuggerPermission())) {
+    return cdpBackend
+  }
+  return tabBackend
+}
+
+/**
+ * Pick and open the backend for a capture in `tabId`. With the "auto"
+ * setting, tab capture is used when the debugger can't attach (e.g. DevTools
+ * is open on the tab).
+ */
+export async function openCaptureBackend(
+  tabId: number
+): Promise<CaptureBackend> {
+  const { captureBackend: preference } = await getSettings()
+  if (preference === "cdp" && !(await hasDebuggerPermission())) {
+    throw new Error(
+      "Flow needs the debugger permission for this screenshot method. Allow it in Settings or switch the screenshot method."
+    )
+  }
+
+  const backend = await chooseCaptureBackend()
+  try {
+    await backend.open(tabId)
+    return backend
+  } catch (error) {
+    if (preference === "cdp") {
+      throw error
+    }
+    console.warn(
+      "[CaptureBackend] Debugger unavailable; using tab capture:",
+      error
+    )
+    return tabBackend
+  }
+}
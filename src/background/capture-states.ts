@@ -0,0 +1,121 @@
+/**
+ * Tab capture states
+ * The background's copy of each tab's capture state machine (see
+ * lib/capture-state). Events are applied in the order they're dispatched;
+ * each new state is written to storage for the popup and sent to the tab
+ * for its inline button.
+ */
+
+import {
+  applyCaptureEvent,
+  CAPTURE_STATES_KEY,
+  createCaptureState,
+  isUploadPhase,
+  type CaptureEvent,
+  type TabCaptureState,
+  type TabCaptureStates
+} from "../lib/capture-state"
+import { sendTabMessage } from "../lib/messages"
+import { storage } from "../lib/storage"
+import { createWriteQueue } from "../lib/write-queue"
+
+export async function getCaptureStates(): Promise<TabCaptureStates> {
+  return (await storage.get<TabCaptureStates>(CAPTURE_STATES_KEY)) ?? {}
+}
+
+export async function getTabCaptureState(
+  tabId: number
+): Promise<TabCaptureState> {
+  return (await getCaptureStates())[tabId] ?? createCaptureState(tabId)
+}
+
+// Events arrive from several messages at once, so writes are chained to
+// apply them one after another. `update` returns null when it changed
+// nothing, which leaves storage alone.
+const enqueueWrite = createWriteQueue()
+
+function updateCaptureStates<T>(
+  update: (states: TabCaptureStates) => T | null
+): Promise<T | null> {
+  return enqueueWrite(async () => {
+    const states = await getCaptureStates()
+    const value = update(states)
+    if (value !== null) {
+      await storage.set(CAPTURE_STATES_KEY, states)
+    }
+    return value
+  })
+}
+
+/**
+ * Move the tab's capture state along with `event`. Resolves the new state,
+ * or null when the event doesn't apply to the tab's current state.
+ */
+export async function dispatchCaptureEvent(
+  tabId: number,
+  event: CaptureEvent
+): Promise<TabCaptureState | null> {
+  const next = await updateCaptureStates((states) => {
+    const current = states[tabId] ?? createCaptureState(tabId)
+    const state = applyCaptureEvent(current, event)
+    if (!state) {
+      console.log("[CaptureState] Ignoring event", {
+        tabId,
+        phase: current.phase,
+        event: event.type
+      })
+      return null
+    }
+    if (state.phase !== current.phase) {
+      console.log(
+        `[CaptureState] Tab ${tabId}: ${current.phase} → ${state.phase}`
+      )
+    }
+    states[tabId] = state
+    return state
+  })
+
+  if (next) {
+    sendTabMessage(tabId, { type: "CAPTURE_STATE", state: next }).catch(() => {
+      // The tab is gone or has no inline button
+    })
+  }
+  return next
+}
+
+/**
+ * Apply `event` to the tab running upload `jobId`, if any
+ */
+export async function dispatchUploadEvent(
+  jobId: string,
+  event: CaptureEvent
+): Promise<TabCaptureState | null> {
+  const state = Object.values(await getCaptureStates()).find(
+    (s) => s.upload?.jobId === jobId
+  )
+  return state ? dispatchCaptureEvent(state.tabId, event) : null
+}
+
+/**
+ * Forget the state of a closed tab. A running upload outlives its tab, so
+ * its state is kept until the upload ends.
+ */
+export async function removeTabCaptureState(tabId: number): Promise<void> {
+  await updateCaptureStates((states) => {
+    if (!states[tabId] || isUploadPhase(states[tabId].phase)) {
+      return null
+    }
+    delete states[tabId]
+    return tabId
+  })
+}
+
+/**
+ * Drop every state, e.g. on browser startup when no tab from before is left
+ */
+export async function clearCaptureStates(): Promise<void> {
+  await updateCaptureStates((states) => {
+    Object.keys(states).forEach((tabId) => delete states[Number(tabId)])
+    return states
+  })
+}
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import { DebuggerSessionManager } from "./debugger-session"
+
+describe("background/debugger-session", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("should reuse one session until it is detached", async () => {
+    const sessions = new DebuggerSessionManager()
+
+    await sessions.attach(1)
+    await sessions.attach(1)
+    await sessions.sendCommand(1, "Page.captureScreenshot", { format: "png" })
+
+    expect(chrome.debugger.attach).toHaveBeenCalledTimes(1)
+    expect(await sessions.detach(1)).toBe(true)
+    expect(await sessions.detach(1)).toBe(false)
+    expect(chrome.debugger.detach).toHaveBeenCalledTimes(1)
+  })
+
+  it("should refuse commands without a session", async () => {
+    const sessions = new DebuggerSessionManager()
+
+    await expect(
+      sessions.sendCommand(1, "Page.captureScreenshot")
+    ).rejects.toThrow("No debugger session for tab 1")
+    expect(chrome.debugger.sendCommand).not.toHaveBeenCalled()
+  })
+
+  it("should take over a session left by a restarted worker", async () => {
+    Reflect.set(chrome.runtime, "id", "flow-extension")
+    chrome.debugger.attach = vi
+      .fn()
+      .mockRejectedValue(new Error("Another debugger is already attached"))
+    chrome.debugger.getTargets = vi
+      .fn()
+      .mockResolvedValue([
+        { tabId: 2, attached: true, extensionId: "flow-extension" }
+      ])
+    const sessions = new DebuggerSessionManager()
+
+    await sessions.attach(2)
+
+    expect(sessions.isAttached(2)).toBe(true)
+  })
+
+  it("should detach sessions left idle", async () => {
+    vi.useFakeTimers()
+    const sessions = new DebuggerSessionManager()
+
+    await sessions.attach(3)
+    await vi.advanceTimersByTimeAsync(2 * 60 * 1000)
+
+    expect(sessions.isAttached(3)).toBe(false)
+    expect(chrome.debugger.detach).toHaveBeenCalledWith({ tabId: 3 })
+  })
+
+  it("should forget sessions Chrome ended", async () => {
+    const sessions = new DebuggerSessionManager()
+
+    await sessions.attach(4)
+
+    expect(sessions.handleDetach({ tabId: 4 })).toBe(true)
+    expect(sessions.handleDetach({ tabId: 4 })).toBe(false)
+    expect(sessions.isAttached(4)).toBe(false)
+  })
+})
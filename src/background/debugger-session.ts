@@ -0,0 +1,140 @@
+/**
+ * Debugger sessions for captures
+ * A capture attaches the debugger to its tab once and reuses the session for
+ * every Page.captureScreenshot call, instead of attaching per page (which
+ * flashes Chrome's "is debugging this browser" banner and shifts the
+ * layout). Sessions end when the capture finishes or stops, when they sit
+ * idle, or when Chrome detaches them (tab closed, banner dismissed).
+ */
+
+const PROTOCOL_VERSION = "1.3"
+
+// A content script that reloads mid-capture never ends its session
+const SESSION_IDLE_TIMEOUT_MS = 2 * 60 * 1000
+
+interface DebuggerSession {
+  // Emulated device metrics are active on the session
+  emulated: boolean
+  idleTimer?: ReturnType<typeof setTimeout>
+}
+
+export class DebuggerSessionManager {
+  private sessions = new Map<number, DebuggerSession>()
+
+  isAttached(tabId: number): boolean {
+    return this.sessions.has(tabId)
+  }
+
+  isEmulating(tabId: number): boolean {
+    return this.sessions.get(tabId)?.emulated ?? false
+  }
+
+  /**
+   * Attach to the tab unless a session is already open for it
+   */
+  async attach(tabId: number): Promise<void> {
+    if (this.sessions.has(tabId)) {
+      this.touch(tabId)
+      return
+    }
+
+    try {
+      await chrome.debugger.attach({ tabId }, PROTOCOL_VERSION)
+    } catch (error) {
+      // A session opened before the service worker restarted is still ours
+      if (!(await this.isAttachedByExtension(tabId))) {
+        throw error
+      }
+      console.log("[Background] Reusing debugger session for tab", tabId)
+    }
+
+    this.sessions.set(tabId, { emulated: false })
+    this.touch(tabId)
+  }
+
+  /**
+   * Send a DevTools protocol command on the tab's open session
+   */
+  async sendCommand<T = unknown>(
+    tabId: number,
+    method: string,
+    params?: Record<string, unknown>
+  ): Promise<T> {
+    if (!this.sessions.has(tabId)) {
+      throw new Error(`No debugger session for tab ${tabId}`)
+    }
+    this.touch(tabId)
+    return (await chrome.debugger.sendCommand({ tabId }, method, params)) as T
+  }
+
+  setEmulated(tabId: number, emulated: boolean) {
+    const session = this.sessions.get(tabId)
+    if (session) {
+      session.emulated = emulated
+    }
+  }
+
+  /**
+   * End the tab's session. Resolves false when none was open.
+   */
+  async detach(tabId: number): Promise<boolean> {
+    const session = this.forget(tabId)
+    if (!session) {
+      return false
+    }
+
+    try {
+      await chrome.debugger.detach({ tabId })
+    } catch (error) {
+      // Already gone, e.g. the tab closed first
+      console.warn("[Background] Failed to detach debugger:", error)
+    }
+    return true
+  }
+
+  /**
+   * Forget a session Chrome ended on its own. Resolves true when the tab had
+   * one open.
+   */
+  handleDetach(source: chrome.debugger.Debuggee): boolean {
+    return source.tabId !== undefined && this.forget(source.tabId) !== undefined
+  }
+
+  private forget(tabId: number): DebuggerSession | undefined {
+    const session = this.sessions.get(tabId)
+    if (session) {
+      clearTimeout(session.idleTimer)
+      this.sessions.delete(tabId)
+    }
+    return session
+  }
+
+  // Restart the idle countdown for the tab's session
+  private touch(tabId: number) {
+    const session = this.sessions.get(tabId)
+    if (!session) {
+      return
+    }
+    clearTimeout(session.idleTimer)
+    session.idleTimer = setTimeout(() => {
+      console.log("[Background] Detaching idle debugger session", { tabId })
+      void this.detach(tabId)
+    }, SESSION_IDLE_TIMEOUT_MS)
+  }
+
+  private async isAttachedByExtension(tabId: number): Promise<boolean> {
+    try {
+      const targets = await chrome.debugger.getTargets()
+      return targets.some(
+        (target) =>
+          target.tabId === tabId &&
+          target.attached &&
+          target.extensionId === chrome.runtime.id
+      )
+    } catch {
+      return false
+    }
+  }
+}
+
+export const debuggerSessions = new DebuggerSessionManager()
@@ -1,20 +1,67 @@
 import { beforeEach, describe, expect, it, vi } from "vitest"
 
+import type { CaptureResolution } from "../lib/capture-resolution"
+import type { TabCaptureStates } from "../lib/capture-state"
+import { analyzeFrame } from "../lib/frame-analysis"
+import {
+  deleteSession,
+  getPages,
+  getStoredPageNumbers,
+  savePage
+} from "../lib/page-store"
+import { abortMultipartSessions, uploadScreenshots } from "../lib/upload-to-r2"
 import {
   getChromeStorageData,
   resetChromeStorage,
   resetMessageListeners,
-  triggerChromeMessage
+  setChromeStorageData,
+  triggerChromeInstalled,
+  triggerChromeMessage,
+  triggerChromeStartup,
+  triggerDebuggerDetach,
+  triggerTabRemoved,
+  triggerTabUpdated
 } from "../test/mocks/chrome"
-import { createMockDataUrl, mockFetchResponse } from "../test/utils"
-
-import { uploadScreenshots } from "../lib/upload-to-r2"
+import { mockFetchResponse } from "../test/utils"
+import type { UploadJob } from "./upload-queue"
+// Import background script once (this registers the message listener)
+import "./index"
 
 // Mock the upload-to-r2 module
 vi.mock("../lib/upload-to-r2", () => ({
-  uploadScreenshots: vi.fn()
+  uploadScreenshots: vi.fn(),
+  abortAbandonedUploads: vi.fn(async () => 0),
+  abortMultipartSessions: vi.fn(async () => 0)
+}))
+
+// Clerk's background client only works inside the extension runtime
+vi.mock("../lib/clerk-auth", () => ({
+  getAuthHeaders: vi.fn(async () => ({}))
+}))
+
+// Serve stored pages from memory instead of IndexedDB
+vi.mock("../lib/page-store", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/page-store")>()),
+  savePage: vi.fn(async () => {}),
+  getPages: vi.fn(async (sessionId: string, pageNumbers: number[] = []) =>
+    pageNumbers.map((pageNumber) => ({
+      sessionId,
+      pageNumber,
+      blob: new Blob(["page"], { type: "image/png" }),
+      capturedAt: new Date().toISOString()
+    }))
+  ),
+  getStoredPageNumbers: vi.fn(async () => []),
+  deleteSession: vi.fn(async () => {})
 }))
 
+// Frames are analysed for real unless a test says otherwise; jsdom has no
+// OffscreenCanvas, so that lets every frame through
+vi.mock("../lib/frame-analysis", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../lib/frame-analysis")>()
+  return { ...actual, analyzeFrame: vi.fn(actual.analyzeFrame) }
+})
+
 // Mock @plasmohq/storage to use direct chrome.storage.local
 vi.mock("../lib/storage", () => ({
   storage: {
@@ -34,12 +81,14 @@ vi.mock("../lib/storage", () => ({
   }
 }))
 
-// Import background script once (this registers the message listener)
-import "./index"
-
 // Mock environment
 vi.stubEnv("PLASMO_PUBLIC_CLERK_SYNC_HOST", "http://localhost")
 
+// Capture state the background keeps for a tab
+function getTabState(tabId: number) {
+  return (getChromeStorageData().captureStates as TabCaptureStates)?.[tabId]
+}
+
 describe("background/index", () => {
   beforeEach(async () => {
     vi.clearAllMocks()
@@ -49,8 +98,8 @@ describe("background/index", () => {
     // Reset upload mock with default behavior
     ;(uploadScreenshots as ReturnType<typeof vi.fn>).mockReset()
     ;(uploadScreenshots as ReturnType<typeof vi.fn>).mockResolvedValue([
-      { key: "test-key-1", filename: "page_1.png" },
-      { key: "test-key-2", filename: "page_2.png" }
+      { status: "uploaded", key: "test-key-1", filename: "page_1.png" },
+      { status: "uploaded", key: "test-key-2", filename: "page_2.png" }
     ])
   })
 
@@ -80,9 +129,16 @@ describe("background/index", () => {
           }
         )
 
-        triggerChromeMessage({ type: "CAPTURE_SCREENSHOT" }, {
-          tab: { id: 1 }
-        } as chrome.runtime.MessageSender)
+        triggerChromeMessage(
+          {
+            type: "CAPTURE_SCREENSHOT",
+            sessionId: "test-session",
+            pageNumber: 1
+          },
+          {
+            tab: { id: 1 }
+          } as chrome.runtime.MessageSender
+        )
       })
 
       // Verify debugger was attached
@@ -102,34 +158,221 @@ describe("background/index", () => {
       expect(chrome.debugger.detach).toHaveBeenCalledWith({ tabId: 1 })
     })
 
+    it("should store the captured page instead of returning it", async () => {
+      chrome.debugger.attach = vi.fn().mockResolvedValue(undefined)
+      chrome.debugger.sendCommand = vi.fn().mockResolvedValue({
+        data: btoa("png-bytes")
+      })
+
+      const responses = await triggerChromeMessage(
+        { type: "CAPTURE_SCREENSHOT", sessionId: "session-1", pageNumber: 3 },
+        { tab: { id: 1 } } as chrome.runtime.MessageSender
+      )
+
+      await vi.waitFor(() => expect(responses).toHaveLength(1))
+
+      expect(savePage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sessionId: "session-1",
+          pageNumber: 3,
+          blob: expect.any(Blob)
+        })
+      )
+      expect(responses[0]).toEqual({
+        stored: true,
+        pageNumber: 3,
+        bytes: "png-bytes".length,
+        captureMode: "viewport"
+      })
+    })
+
+    it("should crop the screenshot to the slide bounds", async () => {
+      chrome.debugger.sendCommand = vi.fn().mockResolvedValue({
+        data: btoa("png-bytes")
+      })
+
+      const responses = await triggerChromeMessage(
+        {
+          type: "CAPTURE_SCREENSHOT",
+          sessionId: "session-1",
+          pageNumber: 4,
+          clip: { x: 40, y: 64, width: 960, height: 540, devicePixelRatio: 2 }
+        },
+        { tab: { id: 1 } } as chrome.runtime.MessageSender
+      )
+
+      await vi.waitFor(() => expect(responses).toHaveLength(1))
+
+      expect(chrome.debugger.sendCommand).toHaveBeenCalledWith(
+        { tabId: 1 },
+        "Page.captureScreenshot",
+        {
+          format: "png",
+          captureBeyondViewport: false,
+          clip: { x: 40, y: 64, width: 960, height: 540, scale: 1 }
+        }
+      )
+      expect(savePage).toHaveBeenCalledWith(
+        expect.objectContaining({ pageNumber: 4, captureMode: "slide" })
+      )
+      expect(responses[0]).toMatchObject({ captureMode: "slide" })
+    })
+
+    it("should keep the PNG when the page can't be re-encoded", async () => {
+      // jsdom has no OffscreenCanvas, so JPEG encoding fails
+      setChromeStorageData({ imageEncoding: { format: "jpeg", quality: 0.8 } })
+      chrome.debugger.sendCommand = vi.fn().mockResolvedValue({
+        data: btoa("png-bytes")
+      })
+
+      const responses = await triggerChromeMessage(
+        { type: "CAPTURE_SCREENSHOT", sessionId: "session-1", pageNumber: 1 },
+        { tab: { id: 1 } } as chrome.runtime.MessageSender
+      )
+
+      await vi.waitFor(() => expect(responses).toHaveLength(1))
+
+      const [[{ blob }]] = (savePage as ReturnType<typeof vi.fn>).mock.calls
+      expect(blob.type).toBe("image/png")
+      expect(responses[0]).toMatchObject({ stored: true })
+    })
+
+    it("should reject a blank frame unless the anomaly is accepted", async () => {
+      chrome.debugger.sendCommand = vi.fn().mockResolvedValue({
+        data: btoa("png-bytes")
+      })
+      const blankFrame = { hash: "0f0f", blank: true }
+      vi.mocked(analyzeFrame)
+        .mockResolvedValueOnce(blankFrame)
+        .mockResolvedValueOnce(blankFrame)
+
+      const rejected = await triggerChromeMessage(
+        { type: "CAPTURE_SCREENSHOT", sessionId: "session-1", pageNumber: 2 },
+        { tab: { id: 1 } } as chrome.runtime.MessageSender
+      )
+      await vi.waitFor(() => expect(rejected).toHaveLength(1))
+
+      expect(rejected[0]).toEqual({
+        stored: false,
+        pageNumber: 2,
+        anomaly: "blank"
+      })
+      expect(savePage).not.toHaveBeenCalled()
+
+      const accepted = await triggerChromeMessage(
+        {
+          type: "CAPTURE_SCREENSHOT",
+          sessionId: "session-1",
+          pageNumber: 2,
+          acceptAnomaly: true
+        },
+        { tab: { id: 1 } } as chrome.runtime.MessageSender
+      )
+      await vi.waitFor(() => expect(accepted).toHaveLength(1))
+
+      expect(accepted[0]).toMatchObject({ stored: true, anomaly: "blank" })
+      expect(savePage).toHaveBeenCalledWith(
+        expect.objectContaining({ pageNumber: 2, anomaly: "blank" })
+      )
+    })
+
+    it("should reject a frame that repeats the page before it", async () => {
+      chrome.debugger.sendCommand = vi.fn().mockResolvedValue({
+        data: btoa("png-bytes")
+      })
+      const frame = { hash: "a5a5a5a5", blank: false }
+      vi.mocked(analyzeFrame)
+        .mockResolvedValueOnce(frame)
+        .mockResolvedValueOnce(frame)
+
+      const first = await triggerChromeMessage(
+        { type: "CAPTURE_SCREENSHOT", sessionId: "session-2", pageNumber: 1 },
+        { tab: { id: 1 } } as chrome.runtime.MessageSender
+      )
+      await vi.waitFor(() => expect(first).toHaveLength(1))
+      expect(first[0]).toMatchObject({ stored: true })
+      expect(first[0]).not.toHaveProperty("anomaly")
+
+      const second = await triggerChromeMessage(
+        { type: "CAPTURE_SCREENSHOT", sessionId: "session-2", pageNumber: 2 },
+        { tab: { id: 1 } } as chrome.runtime.MessageSender
+      )
+      await vi.waitFor(() => expect(second).toHaveLength(1))
+
+      expect(second[0]).toEqual({
+        stored: false,
+        pageNumber: 2,
+        anomaly: "duplicate"
+      })
+      expect(savePage).toHaveBeenCalledTimes(1)
+    })
+
+    it("should store page images extracted by the content script", async () => {
+      const responses = await triggerChromeMessage(
+        {
+          type: "STORE_PAGE_IMAGE",
+          sessionId: "session-1",
+          pageNumber: 3,
+          dataUrl: `data:image/png;base64,${btoa("page-image")}`
+        },
+        { tab: { id: 1 } } as chrome.runtime.MessageSender
+      )
+
+      await vi.waitFor(() => expect(responses).toHaveLength(1))
+
+      expect(chrome.debugger.sendCommand).not.toHaveBeenCalled()
+      expect(savePage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sessionId: "session-1",
+          pageNumber: 3,
+          captureMode: "image"
+        })
+      )
+      const [[{ blob }]] = (savePage as ReturnType<typeof vi.fn>).mock.calls
+      expect(blob.size).toBe("page-image".length)
+      expect(responses[0]).toMatchObject({ stored: true, captureMode: "image" })
+    })
+
+    it("should reject page images that aren't data URLs", async () => {
+      const responses = await triggerChromeMessage(
+        {
+          type: "STORE_PAGE_IMAGE",
+          sessionId: "session-1",
+          pageNumber: 3,
+          dataUrl: "https://cdn.example.com/page-3.png"
+        },
+        { tab: { id: 1 } } as chrome.runtime.MessageSender
+      )
+
+      await vi.waitFor(() => expect(responses).toHaveLength(1))
+
+      expect(responses[0]).toEqual({
+        error: "Page image is not a base64 image data URL"
+      })
+      expect(savePage).not.toHaveBeenCalled()
+    })
+
     it("should handle screenshot capture errors gracefully", async () => {
       // Mock debugger to fail
       chrome.debugger.attach = vi
         .fn()
         .mockRejectedValue(new Error("Debugger attach failed"))
 
-      const responses: any[] = []
-      await new Promise<void>((resolve) => {
-        chrome.runtime.onMessage.addListener(
-          (message, sender, sendResponse) => {
-            if (message.type === "CAPTURE_SCREENSHOT") {
-              setTimeout(() => {
-                responses.push(sendResponse)
-                resolve()
-              }, 100)
-              return true
-            }
-            return false
-          }
-        )
-
-        triggerChromeMessage({ type: "CAPTURE_SCREENSHOT" }, {
+      const responses = await triggerChromeMessage(
+        {
+          type: "CAPTURE_SCREENSHOT",
+          sessionId: "test-session",
+          pageNumber: 1
+        },
+        {
           tab: { id: 1 }
-        } as chrome.runtime.MessageSender)
-      })
+        } as chrome.runtime.MessageSender
+      )
 
-      // Verify detach was attempted
-      expect(chrome.debugger.detach).toHaveBeenCalled()
+      await vi.waitFor(() => expect(responses).toHaveLength(1))
+
+      expect(responses[0]).toEqual({ error: "Debugger attach failed" })
+      expect(savePage).not.toHaveBeenCalled()
     })
 
     it("should return error when no tab ID is provided", async () => {
@@ -151,7 +394,11 @@ describe("background/index", () => {
 
         // Trigger without tab ID
         triggerChromeMessage(
-          { type: "CAPTURE_SCREENSHOT" },
+          {
+            type: "CAPTURE_SCREENSHOT",
+            sessionId: "test-session",
+            pageNumber: 1
+          },
           {} as chrome.runtime.MessageSender
         )
       })
@@ -161,7 +408,236 @@ describe("background/index", () => {
     })
   })
 
-  describe("updateUploadState", () => {
+  describe("debugger sessions", () => {
+    it("should attach once for every page of a capture", async () => {
+      chrome.debugger.attach = vi.fn().mockResolvedValue(undefined)
+      chrome.debugger.sendCommand = vi.fn().mockResolvedValue({
+        data: btoa("png-bytes")
+      })
+      const sender = { tab: { id: 4 } } as chrome.runtime.MessageSender
+
+      const attached = await triggerChromeMessage(
+        { type: "ATTACH_CAPTURE_BACKEND" },
+        sender
+      )
+      await vi.waitFor(() => expect(attached).toHaveLength(1))
+      expect(attached[0]).toEqual({ success: true, backend: "cdp" })
+
+      for (const pageNumber of [1, 2, 3]) {
+        const responses = await triggerChromeMessage(
+          { type: "CAPTURE_SCREENSHOT", sessionId: "session-1", pageNumber },
+          sender
+        )
+        await vi.waitFor(() => expect(responses).toHaveLength(1))
+        expect(responses[0]).toMatchObject({ stored: true, pageNumber })
+      }
+
+      expect(chrome.debugger.attach).toHaveBeenCalledTimes(1)
+      expect(chrome.debugger.detach).not.toHaveBeenCalled()
+
+      const detached = await triggerChromeMessage(
+        { type: "DETACH_CAPTURE_BACKEND" },
+        sender
+      )
+      await vi.waitFor(() => expect(detached).toHaveLength(1))
+
+      expect(detached[0]).toEqual({ success: true, detached: true })
+      expect(chrome.debugger.detach).toHaveBeenCalledTimes(1)
+    })
+
+    it("should tell the tab when the debugging banner is cancelled", async () => {
+      chrome.debugger.attach = vi.fn().mockResolvedValue(undefined)
+      const sender = { tab: { id: 5 } } as chrome.runtime.MessageSender
+
+      const attached = await triggerChromeMessage(
+        { type: "ATTACH_CAPTURE_BACKEND" },
+        sender
+      )
+      await vi.waitFor(() => expect(attached).toHaveLength(1))
+
+      triggerDebuggerDetach({ tabId: 5 }, "canceled_by_user")
+
+      expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(5, {
+        type: "CAPTURE_INTERRUPTED",
+        error: expect.stringContaining("debugging banner was cancelled")
+      })
+
+      // The session is gone, so ending the capture has nothing to detach
+      const detached = await triggerChromeMessage(
+        { type: "DETACH_CAPTURE_BACKEND" },
+        sender
+      )
+      await vi.waitFor(() => expect(detached).toHaveLength(1))
+      expect(detached[0]).toEqual({ success: true, detached: false })
+      expect(chrome.debugger.detach).not.toHaveBeenCalled()
+    })
+
+    it("should fall back to tab capture when the debugger can't attach", async () => {
+      chrome.debugger.attach = vi
+        .fn()
+        .mockRejectedValue(new Error("Another debugger is already attached"))
+      chrome.debugger.getTargets = vi.fn().mockResolvedValue([])
+      const sender = {
+        tab: { id: 6, windowId: 2, active: true }
+      } as chrome.runtime.MessageSender
+
+      const attached = await triggerChromeMessage(
+        { type: "ATTACH_CAPTURE_BACKEND" },
+        sender
+      )
+      await vi.waitFor(() => expect(attached).toHaveLength(1))
+      expect(attached[0]).toEqual({ success: true, backend: "tab" })
+
+      const captured = await triggerChromeMessage(
+        { type: "CAPTURE_SCREENSHOT", sessionId: "session-1", pageNumber: 1 },
+        sender
+      )
+      await vi.waitFor(() => expect(captured).toHaveLength(1))
+
+      expect(captured[0]).toMatchObject({ stored: true })
+      expect(chrome.tabs.captureVisibleTab).toHaveBeenCalledWith(2, {
+        format: "png"
+      })
+      expect(chrome.debugger.sendCommand).not.toHaveBeenCalled()
+    })
+
+    it("should use tab capture without the debugger permission", async () => {
+      chrome.permissions.contains = vi.fn().mockResolvedValue(false)
+      const sender = {
+        tab: { id: 10, windowId: 1, active: true }
+      } as chrome.runtime.MessageSender
+
+      const attached = await triggerChromeMessage(
+        { type: "ATTACH_CAPTURE_BACKEND" },
+        sender
+      )
+      await vi.waitFor(() => expect(attached).toHaveLength(1))
+
+      expect(attached[0]).toEqual({ success: true, backend: "tab" })
+      expect(chrome.debugger.attach).not.toHaveBeenCalled()
+    })
+
+    it("should fail when the debugger method is chosen but not allowed", async () => {
+      setChromeStorageData({ captureBackend: "cdp" })
+      chrome.permissions.contains = vi.fn().mockResolvedValue(false)
+
+      const attached = await triggerChromeMessage(
+        { type: "ATTACH_CAPTURE_BACKEND" },
+        { tab: { id: 11 } } as chrome.runtime.MessageSender
+      )
+      await vi.waitFor(() => expect(attached).toHaveLength(1))
+
+      expect(attached[0]).toMatchObject({
+        success: false,
+        error: expect.stringContaining("debugger permission")
+      })
+    })
+  })
+
+  describe("capture resolution", () => {
+    it("should emulate the preset's metrics for the whole capture", async () => {
+      chrome.debugger.attach = vi.fn().mockResolvedValue(undefined)
+      chrome.debugger.sendCommand = vi.fn().mockResolvedValue({
+        data: btoa("png-bytes")
+      })
+      const sender = { tab: { id: 7 } } as chrome.runtime.MessageSender
+
+      const attached = await triggerChromeMessage(
+        { type: "ATTACH_CAPTURE_BACKEND" },
+        sender
+      )
+      await vi.waitFor(() => expect(attached).toHaveLength(1))
+
+      const ensured = await triggerChromeMessage(
+        { type: "ENSURE_CAPTURE_RESOLUTION", resolution: "uhd" },
+        sender
+      )
+      await vi.waitFor(() => expect(ensured).toHaveLength(1))
+
+      expect(ensured[0]).toMatchObject({ success: true, applied: true })
+      expect(chrome.debugger.sendCommand).toHaveBeenCalledWith(
+        { tabId: 7 },
+        "Emulation.setDeviceMetricsOverride",
+        { width: 1920, height: 1080, deviceScaleFactor: 2, mobile: false }
+      )
+
+      // Pages are captured on the session that holds the override
+      const captured = await triggerChromeMessage(
+        { type: "CAPTURE_SCREENSHOT", sessionId: "session-1", pageNumber: 1 },
+        sender
+      )
+      await vi.waitFor(() => expect(captured).toHaveLength(1))
+
+      expect(captured[0]).toMatchObject({ stored: true })
+      expect(chrome.debugger.attach).toHaveBeenCalledTimes(1)
+      expect(chrome.debugger.detach).not.toHaveBeenCalled()
+
+      const restored = await triggerChromeMessage(
+        { type: "RESTORE_CAPTURE_RESOLUTION" },
+        sender
+      )
+      await vi.waitFor(() => expect(restored).toHaveLength(1))
+
+      expect(restored[0]).toEqual({ success: true, restored: true })
+      expect(chrome.debugger.sendCommand).toHaveBeenCalledWith(
+        { tabId: 7 },
+        "Emulation.clearDeviceMetricsOverride",
+        undefined
+      )
+
+      // The session outlives the override until the capture ends
+      expect(chrome.debugger.detach).not.toHaveBeenCalled()
+      const detached = await triggerChromeMessage(
+        { type: "DETACH_CAPTURE_BACKEND" },
+        sender
+      )
+      await vi.waitFor(() => expect(detached).toHaveLength(1))
+      expect(chrome.debugger.detach).toHaveBeenCalledWith({ tabId: 7 })
+    })
+
+    it("should leave the tab alone for the window size preset", async () => {
+      const sender = { tab: { id: 8 } } as chrome.runtime.MessageSender
+
+      const ensured = await triggerChromeMessage(
+        { type: "ENSURE_CAPTURE_RESOLUTION", resolution: "window" },
+        sender
+      )
+      await vi.waitFor(() => expect(ensured).toHaveLength(1))
+
+      expect(ensured[0]).toMatchObject({ success: true, applied: false })
+      expect(chrome.debugger.attach).not.toHaveBeenCalled()
+
+      const restored = await triggerChromeMessage(
+        { type: "RESTORE_CAPTURE_RESOLUTION" },
+        sender
+      )
+      await vi.waitFor(() => expect(restored).toHaveLength(1))
+
+      expect(restored[0]).toEqual({ success: true, restored: false })
+      expect(chrome.debugger.detach).not.toHaveBeenCalled()
+    })
+
+    it("should ignore unknown presets", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+      const responses = await triggerChromeMessage(
+        {
+          type: "ENSURE_CAPTURE_RESOLUTION",
+          resolution: "8k" as CaptureResolution
+        },
+        { tab: { id: 9 } } as chrome.runtime.MessageSender
+      )
+
+      expect(responses).toHaveLength(0)
+      expect(warn).toHaveBeenCalledWith(
+        "[Background] Ignoring malformed message:",
+        expect.objectContaining({ resolution: "8k" })
+      )
+      expect(chrome.debugger.attach).not.toHaveBeenCalled()
+      warn.mockRestore()
+    })
+  })
+
+  describe("upload state", () => {
     it("should store upload state in chrome.storage.local", async () => {
       // Trigger upload to set state
       ;(uploadScreenshots as ReturnType<typeof vi.fn>).mockImplementation(
@@ -177,12 +653,11 @@ describe("background/index", () => {
             })
           }
           return [
-            { key: "key1", filename: "page_1.png" },
-            { key: "key2", filename: "page_2.png" }
+            { status: "uploaded", key: "key1", filename: "page_1.png" },
+            { status: "uploaded", key: "key2", filename: "page_2.png" }
           ]
         }
       )
-
       ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue(
         mockFetchResponse({
           success: true,
@@ -194,7 +669,8 @@ describe("background/index", () => {
       triggerChromeMessage(
         {
           type: "UPLOAD_SCREENSHOTS",
-          screenshots: [createMockDataUrl(), createMockDataUrl()],
+          sessionId: "test-session",
+          pageNumbers: [1, 2],
           metadata: {
             url: "https://docsend.com/view/test",
             totalPages: 2,
@@ -208,17 +684,14 @@ describe("background/index", () => {
       // Wait longer for @plasmohq/storage async operations
       await new Promise((resolve) => setTimeout(resolve, 500))
 
-      const storageData = getChromeStorageData()
-      expect(storageData.uploadState).toBeDefined()
-      expect((storageData.uploadState as any).url).toBe(
-        "https://docsend.com/view/test"
-      )
+      const state = getTabState(1)
+      expect(state).toBeDefined()
+      expect(state.url).toBe("https://docsend.com/view/test")
     })
 
     it("should notify storage listeners of upload state changes", async () => {
       const storageChangeListener = vi.fn()
       chrome.storage.onChanged.addListener(storageChangeListener)
-
       ;(uploadScreenshots as ReturnType<typeof vi.fn>).mockImplementation(
         async (screenshots, onProgress) => {
           if (onProgress) {
@@ -233,7 +706,6 @@ describe("background/index", () => {
           return []
         }
       )
-
       ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue(
         mockFetchResponse({
           success: true,
@@ -245,7 +717,8 @@ describe("background/index", () => {
       triggerChromeMessage(
         {
           type: "UPLOAD_SCREENSHOTS",
-          screenshots: [createMockDataUrl(), createMockDataUrl()],
+          sessionId: "test-session",
+          pageNumbers: [1, 2],
           metadata: {
             url: "https://docsend.com/view/test",
             totalPages: 2,
@@ -261,13 +734,217 @@ describe("background/index", () => {
       expect(storageChangeListener).toHaveBeenCalled()
       expect(storageChangeListener).toHaveBeenCalledWith(
         expect.objectContaining({
-          uploadState: expect.any(Object)
+          captureStates: expect.any(Object)
         }),
         "local"
       )
     })
   })
 
+  describe("settings", () => {
+    it("should migrate saved settings when the extension is updated", async () => {
+      setChromeStorageData({
+        imageEncoding: { format: "jpeg", quality: 0.8 },
+        captureBackend: "tab"
+      })
+
+      triggerChromeInstalled()
+
+      await vi.waitFor(() =>
+        expect(getChromeStorageData().settings).toMatchObject({
+          imageEncoding: { format: "jpeg", quality: 0.8 },
+          captureBackend: "tab"
+        })
+      )
+      await vi.waitFor(() =>
+        expect(getChromeStorageData().imageEncoding).toBeUndefined()
+      )
+      expect(getChromeStorageData().captureBackend).toBeUndefined()
+    })
+  })
+
+  describe("save destination", () => {
+    const metadata = {
+      url: "https://docsend.com/view/test",
+      sender: "Acme",
+      totalPages: 2,
+      capturedAt: "2026-03-01T10:00:00.000Z"
+    }
+
+    it("should offer the folder last used for the sender", async () => {
+      setChromeStorageData({
+        saveDestinations: {
+          "docsend.com/acme": {
+            folderId: "folder-1",
+            updatedAt: "2026-03-01T10:00:00.000Z"
+          }
+        }
+      })
+      ;(global.fetch as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce(
+          mockFetchResponse({ folders: [{ id: "folder-1", name: "Deals" }] })
+        )
+        .mockResolvedValueOnce(mockFetchResponse({ tags: ["fintech"] }))
+
+      const responses = await triggerChromeMessage(
+        {
+          type: "GET_SAVE_OPTIONS",
+          url: "https://docsend.com/view/other",
+          sender: "Acme"
+        },
+        {} as chrome.runtime.MessageSender
+      )
+
+      await vi.waitFor(() => expect(responses).toHaveLength(1))
+      expect(responses[0]).toEqual({
+        folders: [{ id: "folder-1", name: "Deals" }],
+        tags: ["fintech"],
+        folderId: "folder-1"
+      })
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining("/api/extension/folders"),
+        expect.anything()
+      )
+    })
+
+    it("should report folders that can't be loaded", async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue(
+        mockFetchResponse({ error: "Unauthorized" }, false, 401)
+      )
+
+      const responses = await triggerChromeMessage(
+        { type: "GET_SAVE_OPTIONS", url: "https://docsend.com/view/test" },
+        {} as chrome.runtime.MessageSender
+      )
+
+      await vi.waitFor(() => expect(responses).toHaveLength(1))
+      expect(responses[0]).toMatchObject({
+        folders: [],
+        tags: [],
+        error: "Unauthorized"
+      })
+    })
+
+    it("should remember the folder an upload is saved to", async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue(
+        mockFetchResponse({ success: true, materialId: "material-1" })
+      )
+
+      triggerChromeMessage(
+        {
+          type: "UPLOAD_SCREENSHOTS",
+          sessionId: "test-session",
+          pageNumbers: [1, 2],
+          metadata,
+          destination: { folderId: "folder-2", tags: ["seed"] }
+        },
+        { tab: { id: 1 } } as chrome.runtime.MessageSender
+      )
+
+      await vi.waitFor(() =>
+        expect(getChromeStorageData().saveDestinations).toMatchObject({
+          "docsend.com/acme": { folderId: "folder-2" }
+        })
+      )
+    })
+
+    it("should save to the last folder when none was picked", async () => {
+      setChromeStorageData({
+        saveDestinations: {
+          "docsend.com/acme": {
+            folderId: "folder-1",
+            updatedAt: "2026-03-01T10:00:00.000Z"
+          }
+        }
+      })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue(
+        mockFetchResponse({ success: true, materialId: "material-1" })
+      )
+
+      triggerChromeMessage(
+        {
+          type: "UPLOAD_SCREENSHOTS",
+          sessionId: "test-session",
+          pageNumbers: [1, 2],
+          metadata
+        },
+        { tab: { id: 1 } } as chrome.runtime.MessageSender
+      )
+
+      await vi.waitFor(() =>
+        expect(global.fetch).toHaveBeenCalledWith(
+          expect.stringContaining("/api/extension/finalize-docsend-capture"),
+          expect.objectContaining({
+            body: expect.stringContaining(
+              '"destination":{"folderId":"folder-1"}'
+            )
+          })
+        )
+      )
+    })
+  })
+
+  describe("material lookup", () => {
+    const material = {
+      id: "material-1",
+      title: "Series A deck",
+      capturedAt: "2026-03-01T10:00:00.000Z"
+    }
+
+    it("should look up the document and cache the answer", async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue(
+        mockFetchResponse({ material })
+      )
+
+      const first = await triggerChromeMessage({
+        type: "LOOKUP_MATERIAL",
+        url: "https://docsend.com/view/abc123?utm=1"
+      })
+      await vi.waitFor(() => expect(first).toHaveLength(1))
+      const second = await triggerChromeMessage({
+        type: "LOOKUP_MATERIAL",
+        url: "https://docsend.com/view/abc123"
+      })
+      await vi.waitFor(() => expect(second).toHaveLength(1))
+
+      expect(first[0]).toEqual({ material })
+      expect(second[0]).toEqual({ material })
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining("/api/extension/lookup?"),
+        expect.anything()
+      )
+      const [lookupUrl] = (global.fetch as ReturnType<typeof vi.fn>).mock
+        .calls[0]
+      expect(new URL(lookupUrl).searchParams.get("documentId")).toBe("abc123")
+      expect(getChromeStorageData().materialLookups).toMatchObject({
+        "docsend.com/view/abc123": { material }
+      })
+    })
+
+    it("should fall back to a stale lookup when Flow can't be reached", async () => {
+      setChromeStorageData({
+        materialLookups: {
+          "docsend.com/view/abc123": {
+            material,
+            checkedAt: "2026-03-01T10:00:00.000Z"
+          }
+        }
+      })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new Error("Network error")
+      )
+
+      const responses = await triggerChromeMessage({
+        type: "LOOKUP_MATERIAL",
+        url: "https://docsend.com/view/abc123"
+      })
+
+      await vi.waitFor(() => expect(responses).toHaveLength(1))
+      expect(responses[0]).toEqual({ material, error: "Network error" })
+    })
+  })
+
   describe("uploadToAPI", () => {
     it("should upload screenshots and finalize successfully", async () => {
       ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue(
@@ -281,7 +958,8 @@ describe("background/index", () => {
       triggerChromeMessage(
         {
           type: "UPLOAD_SCREENSHOTS",
-          screenshots: [createMockDataUrl(), createMockDataUrl()],
+          sessionId: "test-session",
+          pageNumbers: [1, 2],
           metadata: {
             url: "https://docsend.com/view/test",
             totalPages: 2,
@@ -296,7 +974,11 @@ describe("background/index", () => {
       // Verify uploadScreenshots was called
       expect(uploadScreenshots).toHaveBeenCalledWith(
         expect.any(Array),
-        expect.any(Function)
+        expect.any(Function),
+        4,
+        expect.objectContaining({
+          filenames: ["page_1.png", "page_2.png"]
+        })
       )
 
       // Verify finalize API was called
@@ -324,7 +1006,8 @@ describe("background/index", () => {
       triggerChromeMessage(
         {
           type: "UPLOAD_SCREENSHOTS",
-          screenshots: [createMockDataUrl(), createMockDataUrl()],
+          sessionId: "test-session",
+          pageNumbers: [1, 2],
           metadata: {
             url: "https://docsend.com/view/test",
             totalPages: 2,
@@ -359,7 +1042,8 @@ describe("background/index", () => {
       triggerChromeMessage(
         {
           type: "UPLOAD_SCREENSHOTS",
-          screenshots: [createMockDataUrl(), createMockDataUrl()],
+          sessionId: "test-session",
+          pageNumbers: [1, 2],
           metadata: {
             url: "https://docsend.com/view/test",
             totalPages: 2,
@@ -395,7 +1079,8 @@ describe("background/index", () => {
       triggerChromeMessage(
         {
           type: "UPLOAD_SCREENSHOTS",
-          screenshots: [createMockDataUrl(), createMockDataUrl()],
+          sessionId: "test-session",
+          pageNumbers: [1, 2],
           metadata: {
             url: "https://docsend.com/view/test",
             totalPages: 2,
@@ -426,7 +1111,8 @@ describe("background/index", () => {
       triggerChromeMessage(
         {
           type: "UPLOAD_SCREENSHOTS",
-          screenshots: [createMockDataUrl(), createMockDataUrl()],
+          sessionId: "test-session",
+          pageNumbers: [1, 2],
           metadata: {
             url: "https://docsend.com/view/test",
             totalPages: 2,
@@ -439,12 +1125,10 @@ describe("background/index", () => {
       // Wait longer for @plasmohq/storage async operations
       await new Promise((resolve) => setTimeout(resolve, 500))
 
-      const storageData = getChromeStorageData()
-      const uploadState = storageData.uploadState as any
+      const state = getTabState(1)
 
-      expect(uploadState).toBeDefined()
-      expect(uploadState.isUploading).toBe(false)
-      expect(uploadState.percent).toBe(100)
+      expect(state.phase).toBe("done")
+      expect(state.upload.percent).toBe(100)
     })
 
     it("should handle upload errors gracefully", async () => {
@@ -457,7 +1141,8 @@ describe("background/index", () => {
       triggerChromeMessage(
         {
           type: "UPLOAD_SCREENSHOTS",
-          screenshots: [createMockDataUrl()],
+          sessionId: "test-session",
+          pageNumbers: [1],
           metadata: {
             url: "https://docsend.com/view/test",
             totalPages: 1,
@@ -488,7 +1173,8 @@ describe("background/index", () => {
       triggerChromeMessage(
         {
           type: "UPLOAD_SCREENSHOTS",
-          screenshots: [createMockDataUrl()],
+          sessionId: "test-session",
+          pageNumbers: [1],
           metadata: {
             url: "https://docsend.com/view/test",
             totalPages: 1,
@@ -519,7 +1205,8 @@ describe("background/index", () => {
       triggerChromeMessage(
         {
           type: "UPLOAD_SCREENSHOTS",
-          screenshots: [createMockDataUrl()],
+          sessionId: "test-session",
+          pageNumbers: [1],
           metadata: {
             url: "https://docsend.com/view/test",
             totalPages: 1,
@@ -546,7 +1233,8 @@ describe("background/index", () => {
       triggerChromeMessage(
         {
           type: "UPLOAD_SCREENSHOTS",
-          screenshots: [createMockDataUrl()],
+          sessionId: "test-session",
+          pageNumbers: [1],
           metadata: {
             url: "https://docsend.com/view/test",
             totalPages: 1,
@@ -559,12 +1247,10 @@ describe("background/index", () => {
       // Wait longer for @plasmohq/storage async operations
       await new Promise((resolve) => setTimeout(resolve, 500))
 
-      const storageData = getChromeStorageData()
-      const uploadState = storageData.uploadState as any
+      const state = getTabState(1)
 
-      expect(uploadState).toBeDefined()
-      expect(uploadState.isUploading).toBe(false)
-      expect(uploadState.error).toBe("Test error")
+      expect(state.phase).toBe("error")
+      expect(state.error).toBe("Test error")
     })
 
     it("should handle finalize API errors", async () => {
@@ -577,7 +1263,8 @@ describe("background/index", () => {
       triggerChromeMessage(
         {
           type: "UPLOAD_SCREENSHOTS",
-          screenshots: [createMockDataUrl(), createMockDataUrl()],
+          sessionId: "test-session",
+          pageNumbers: [1, 2],
           metadata: {
             url: "https://docsend.com/view/test",
             totalPages: 2,
@@ -587,20 +1274,39 @@ describe("background/index", () => {
         { tab: { id: 1 } } as chrome.runtime.MessageSender
       )
 
-      await new Promise((resolve) => setTimeout(resolve, 100))
+      await vi.waitFor(() =>
+        expect(notificationSpy).toHaveBeenCalledWith(
+          expect.objectContaining({
+            title: "DocSend Upload Incomplete"
+          })
+        )
+      )
 
-      expect(notificationSpy).toHaveBeenCalledWith(
-        expect.objectContaining({
-          title: "DocSend Upload Failed"
-        })
+      // The uploaded keys are kept so a retry only finalizes
+      const [job] = Object.values(
+        getChromeStorageData().uploadJobs as Record<string, UploadJob>
       )
+      expect(job).toMatchObject({
+        status: "failed",
+        pages: [
+          { status: "uploaded", key: "test-key-1" },
+          { status: "uploaded", key: "test-key-2" }
+        ]
+      })
+      expect(getTabState(1)).toMatchObject({
+        phase: "error",
+        upload: { jobId: job.id, failedPages: [] }
+      })
+      expect(getTabState(1).error).toContain("Server error")
+      expect(deleteSession).not.toHaveBeenCalled()
     })
 
     it("should not upload if no tab ID is provided", async () => {
       triggerChromeMessage(
         {
           type: "UPLOAD_SCREENSHOTS",
-          screenshots: [createMockDataUrl()],
+          sessionId: "test-session",
+          pageNumbers: [1],
           metadata: {
             url: "https://docsend.com/view/test",
             totalPages: 1,
@@ -630,7 +1336,7 @@ describe("background/index", () => {
               currentFile: 1,
               totalFiles: 4
             })
-            progressUpdates.push(getChromeStorageData().uploadState)
+            progressUpdates.push(getTabState(1).upload)
 
             await onProgress({
               uploadedBytes: 5000,
@@ -639,7 +1345,7 @@ describe("background/index", () => {
               currentFile: 2,
               totalFiles: 4
             })
-            progressUpdates.push(getChromeStorageData().uploadState)
+            progressUpdates.push(getTabState(1).upload)
 
             await onProgress({
               uploadedBytes: 10000,
@@ -648,18 +1354,17 @@ describe("background/index", () => {
               currentFile: 4,
               totalFiles: 4
             })
-            progressUpdates.push(getChromeStorageData().uploadState)
+            progressUpdates.push(getTabState(1).upload)
           }
 
           return [
-            { key: "key1", filename: "page_1.png" },
-            { key: "key2", filename: "page_2.png" },
-            { key: "key3", filename: "page_3.png" },
-            { key: "key4", filename: "page_4.png" }
+            { status: "uploaded", key: "key1", filename: "page_1.png" },
+            { status: "uploaded", key: "key2", filename: "page_2.png" },
+            { status: "uploaded", key: "key3", filename: "page_3.png" },
+            { status: "uploaded", key: "key4", filename: "page_4.png" }
           ]
         }
       )
-
       ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue(
         mockFetchResponse({
           success: true,
@@ -671,12 +1376,8 @@ describe("background/index", () => {
       triggerChromeMessage(
         {
           type: "UPLOAD_SCREENSHOTS",
-          screenshots: [
-            createMockDataUrl(),
-            createMockDataUrl(),
-            createMockDataUrl(),
-            createMockDataUrl()
-          ],
+          sessionId: "test-session",
+          pageNumbers: [1, 2, 3, 4],
           metadata: {
             url: "https://docsend.com/view/test",
             totalPages: 4,
@@ -694,7 +1395,439 @@ describe("background/index", () => {
     })
   })
 
-  describe("updateCaptureStatus", () => {
+  describe("stored pages", () => {
+    it("should upload the requested pages and clear them after finalizing", async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue(
+        mockFetchResponse({
+          success: true,
+          materialId: "test-material-id",
+          imageCount: 2
+        })
+      )
+
+      triggerChromeMessage(
+        {
+          type: "UPLOAD_SCREENSHOTS",
+          sessionId: "session-2",
+          pageNumbers: [1, 2],
+          metadata: {
+            url: "https://docsend.com/view/test",
+            totalPages: 2,
+            capturedAt: new Date().toISOString()
+          }
+        },
+        { tab: { id: 1 } } as chrome.runtime.MessageSender
+      )
+
+      await vi.waitFor(() =>
+        expect(deleteSession).toHaveBeenCalledWith("session-2")
+      )
+
+      expect(getPages).toHaveBeenCalledWith("session-2", [1, 2])
+      const [blobs] = (uploadScreenshots as ReturnType<typeof vi.fn>).mock
+        .calls[0]
+      expect(blobs).toHaveLength(2)
+      expect(blobs[0]).toBeInstanceOf(Blob)
+    })
+
+    it("should fail the upload when captured pages are missing", async () => {
+      ;(getPages as ReturnType<typeof vi.fn>).mockResolvedValueOnce([])
+
+      triggerChromeMessage(
+        {
+          type: "UPLOAD_SCREENSHOTS",
+          sessionId: "session-3",
+          pageNumbers: [1, 2],
+          metadata: {
+            url: "https://docsend.com/view/test",
+            totalPages: 2,
+            capturedAt: new Date().toISOString()
+          }
+        },
+        { tab: { id: 1 } } as chrome.runtime.MessageSender
+      )
+
+      await vi.waitFor(() =>
+        expect(getTabState(1)?.error).toContain(
+          "Only 0 of 2 captured pages were found"
+        )
+      )
+      expect(uploadScreenshots).not.toHaveBeenCalled()
+      // Nothing is left to retry, so the stored pages are dropped
+      await vi.waitFor(() =>
+        expect(deleteSession).toHaveBeenCalledWith("session-3")
+      )
+      expect(getChromeStorageData().uploadJobs).toEqual({})
+    })
+
+    it("should delete stored pages when a capture is discarded", () => {
+      triggerChromeMessage({ type: "DISCARD_CAPTURE", sessionId: "session-4" })
+
+      expect(deleteSession).toHaveBeenCalledWith("session-4")
+    })
+  })
+
+  describe("upload queue", () => {
+    it("should resume persisted upload jobs on browser startup", async () => {
+      const now = new Date().toISOString()
+      setChromeStorageData({
+        uploadJobs: {
+          "job-1": {
+            id: "job-1",
+            sessionId: "session-6",
+            tabId: 1,
+            metadata: {
+              url: "https://docsend.com/view/test",
+              totalPages: 2,
+              capturedAt: now
+            },
+            status: "uploading",
+            pages: [
+              {
+                pageNumber: 1,
+                status: "uploaded",
+                filename: "page_1.png",
+                key: "test-key-1"
+              },
+              { pageNumber: 2, status: "pending", filename: "page_2.png" }
+            ],
+            attempts: 1,
+            createdAt: now,
+            updatedAt: now
+          }
+        }
+      })
+      ;(uploadScreenshots as ReturnType<typeof vi.fn>).mockResolvedValue([
+        { status: "uploaded", key: "test-key-2", filename: "page_2.png" }
+      ])
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue(
+        mockFetchResponse({ success: true, materialId: "test-id" })
+      )
+
+      triggerChromeStartup()
+
+      await vi.waitFor(() =>
+        expect(deleteSession).toHaveBeenCalledWith("session-6")
+      )
+      expect(getPages).toHaveBeenCalledWith("session-6", [2])
+      expect(getChromeStorageData().uploadJobs).toEqual({})
+    })
+
+    it("should not fail an upload whose job is still being saved", async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue(
+        mockFetchResponse({ success: true, materialId: "test-id" })
+      )
+
+      triggerChromeMessage(
+        {
+          type: "UPLOAD_SCREENSHOTS",
+          sessionId: "session-7",
+          pageNumbers: [1, 2],
+          metadata: {
+            url: "https://docsend.com/view/test",
+            totalPages: 2,
+            capturedAt: new Date().toISOString()
+          }
+        },
+        { tab: { id: 1 } } as chrome.runtime.MessageSender
+      )
+      // The worker wakes up before the job is enqueued
+      triggerChromeStartup()
+
+      await vi.waitFor(() => expect(getTabState(1)?.phase).toBe("done"))
+      expect(chrome.tabs.sendMessage).not.toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({
+          type: "CAPTURE_STATE",
+          state: expect.objectContaining({ phase: "error" })
+        })
+      )
+    })
+
+    it("should cancel the upload started from the sending tab", async () => {
+      // Upload runs until it is aborted
+      ;(uploadScreenshots as ReturnType<typeof vi.fn>).mockImplementation(
+        (_blobs, _onProgress, _concurrency, options) =>
+          new Promise((_resolve, reject) => {
+            options.signal.addEventListener("abort", () =>
+              reject(new Error("Upload cancelled"))
+            )
+          })
+      )
+
+      triggerChromeMessage(
+        {
+          type: "UPLOAD_SCREENSHOTS",
+          sessionId: "session-7",
+          pageNumbers: [1, 2],
+          metadata: {
+            url: "https://docsend.com/view/test",
+            totalPages: 2,
+            capturedAt: new Date().toISOString()
+          }
+        },
+        { tab: { id: 3 } } as chrome.runtime.MessageSender
+      )
+      await vi.waitFor(() => expect(uploadScreenshots).toHaveBeenCalled())
+
+      const responses = await triggerChromeMessage({ type: "CANCEL_UPLOAD" }, {
+        tab: { id: 3 }
+      } as chrome.runtime.MessageSender)
+
+      await vi.waitFor(() => expect(responses).toEqual([{ cancelled: true }]))
+      expect(abortMultipartSessions).toHaveBeenCalledWith([
+        "session-7:1",
+        "session-7:2"
+      ])
+      expect(deleteSession).toHaveBeenCalledWith("session-7")
+      expect(getChromeStorageData().uploadJobs).toEqual({})
+      expect(getTabState(3).phase).toBe("cancelled")
+      expect(getTabState(3).error).toBeUndefined()
+      expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(3, {
+        type: "UPLOAD_CANCELLED"
+      })
+      expect(chrome.notifications.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("capture sessions", () => {
+    const session = {
+      sessionId: "session-5",
+      documentKey: "docsend.com/view/test",
+      url: "https://docsend.com/view/test",
+      viewerId: "docsend",
+      totalPages: 80,
+      capturedPages: [1, 2, 3],
+      lastPage: 3,
+      startedAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }
+
+    it("should return the session with the pages actually stored", async () => {
+      await chrome.storage.local.set({
+        captureSessions: { [session.documentKey]: session }
+      })
+      ;(getStoredPageNumbers as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+        [1, 2, 3, 4]
+      )
+
+      const responses = await triggerChromeMessage({
+        type: "GET_CAPTURE_SESSION",
+        documentKey: session.documentKey
+      })
+
+      await vi.waitFor(() => expect(responses).toHaveLength(1))
+      expect(getStoredPageNumbers).toHaveBeenCalledWith("session-5")
+      expect(responses[0]).toEqual({
+        session: { ...session, capturedPages: [1, 2, 3, 4] }
+      })
+    })
+
+    it("should forget sessions whose pages are gone", async () => {
+      await chrome.storage.local.set({
+        captureSessions: { [session.documentKey]: session }
+      })
+
+      const responses = await triggerChromeMessage({
+        type: "GET_CAPTURE_SESSION",
+        documentKey: session.documentKey
+      })
+
+      await vi.waitFor(() => expect(responses).toHaveLength(1))
+      expect(responses[0]).toEqual({ session: null })
+      await vi.waitFor(() =>
+        expect(getChromeStorageData().captureSessions).toEqual({})
+      )
+    })
+
+    it("should remove the session record when a capture is discarded", async () => {
+      await chrome.storage.local.set({
+        captureSessions: { [session.documentKey]: session }
+      })
+
+      triggerChromeMessage({
+        type: "DISCARD_CAPTURE",
+        sessionId: session.sessionId,
+        documentKey: session.documentKey
+      })
+
+      expect(deleteSession).toHaveBeenCalledWith("session-5")
+      await vi.waitFor(() =>
+        expect(getChromeStorageData().captureSessions).toEqual({})
+      )
+    })
+  })
+
+  describe("capture reviews", () => {
+    const review = {
+      sessionId: "session-8",
+      documentKey: "docsend.com/view/test",
+      url: "https://docsend.com/view/test",
+      pageNumbers: [1, 2, 3],
+      capturedAt: new Date().toISOString()
+    }
+
+    it("should hold a finished capture for review instead of uploading", async () => {
+      triggerChromeMessage({ type: "REVIEW_CAPTURE", review }, {
+        tab: { id: 4 }
+      } as chrome.runtime.MessageSender)
+
+      await vi.waitFor(() =>
+        expect(getChromeStorageData().captureReviews).toEqual({
+          [review.documentKey]: { ...review, tabId: 4 }
+        })
+      )
+      expect(uploadScreenshots).not.toHaveBeenCalled()
+    })
+
+    it("should replace an unreviewed capture of the same document", async () => {
+      setChromeStorageData({
+        captureReviews: {
+          [review.documentKey]: {
+            ...review,
+            sessionId: "session-old",
+            tabId: 4
+          }
+        }
+      })
+
+      triggerChromeMessage({ type: "REVIEW_CAPTURE", review }, {
+        tab: { id: 4 }
+      } as chrome.runtime.MessageSender)
+
+      await vi.waitFor(() =>
+        expect(
+          (getChromeStorageData().captureReviews as any)[review.documentKey]
+            .sessionId
+        ).toBe("session-8")
+      )
+      expect(deleteSession).toHaveBeenCalledWith("session-old")
+    })
+
+    it("should keep pages deleted while a retake was running", async () => {
+      setChromeStorageData({
+        captureReviews: {
+          [review.documentKey]: {
+            ...review,
+            tabId: 4,
+            anomalies: [{ pageNumber: 3, kind: "blank" }]
+          }
+        }
+      })
+      const popup = {} as chrome.runtime.MessageSender
+
+      // Page 1 is deleted while page 3 is being captured again
+      triggerChromeMessage(
+        {
+          type: "UPDATE_CAPTURE_REVIEW",
+          sessionId: "session-8",
+          edit: { type: "delete", pageNumber: 1 }
+        },
+        popup
+      )
+      triggerChromeMessage(
+        {
+          type: "UPDATE_CAPTURE_REVIEW",
+          sessionId: "session-8",
+          edit: { type: "retake", pageNumber: 3 }
+        },
+        popup
+      )
+
+      await vi.waitFor(() =>
+        expect(
+          (getChromeStorageData().captureReviews as any)[review.documentKey]
+        ).toMatchObject({ pageNumbers: [2, 3], anomalies: [] })
+      )
+    })
+
+    it("should upload reviewed pages from the popup in their reviewed order", async () => {
+      setChromeStorageData({
+        captureReviews: { [review.documentKey]: { ...review, tabId: 4 } }
+      })
+      ;(uploadScreenshots as ReturnType<typeof vi.fn>).mockResolvedValue([
+        { status: "uploaded", key: "key-3", filename: "page_1.png" },
+        { status: "uploaded", key: "key-1", filename: "page_2.png" }
+      ])
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue(
+        mockFetchResponse({ success: true, materialId: "test-id" })
+      )
+
+      // The popup has no tab, so the review's tab comes with the message
+      triggerChromeMessage(
+        {
+          type: "UPLOAD_SCREENSHOTS",
+          sessionId: "session-8",
+          pageNumbers: [3, 1],
+          tabId: 4,
+          metadata: {
+            url: review.url,
+            totalPages: 2,
+            capturedAt: review.capturedAt
+          }
+        },
+        {} as chrome.runtime.MessageSender
+      )
+
+      await vi.waitFor(() => expect(global.fetch).toHaveBeenCalled())
+      expect(getPages).toHaveBeenCalledWith("session-8", [3, 1])
+      const [, init] = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[0]
+      expect(JSON.parse(init.body)).toMatchObject({
+        imageKeys: ["key-3", "key-1"],
+        originalFileNames: ["page_1.png", "page_2.png"],
+        metadata: { totalPages: 2 }
+      })
+      expect(getChromeStorageData().captureReviews).toEqual({})
+      await vi.waitFor(() =>
+        expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(
+          4,
+          expect.objectContaining({ type: "UPLOAD_SUCCESS" })
+        )
+      )
+    })
+  })
+
+  describe("capture history", () => {
+    const now = new Date().toISOString()
+    const entry = (id: string) => ({
+      id,
+      url: "https://docsend.com/view/abc123",
+      pageCount: 3,
+      capturedAt: now,
+      status: "uploaded",
+      updatedAt: now
+    })
+
+    it("should remove the history entry the popup asks for", async () => {
+      setChromeStorageData({
+        captureHistory: [entry("job-2"), entry("job-1")]
+      })
+
+      triggerChromeMessage(
+        { type: "REMOVE_HISTORY_ENTRY", id: "job-2" },
+        {} as chrome.runtime.MessageSender
+      )
+
+      await vi.waitFor(() =>
+        expect(getChromeStorageData().captureHistory).toEqual([entry("job-1")])
+      )
+    })
+
+    it("should clear the history when the popup asks", async () => {
+      setChromeStorageData({ captureHistory: [entry("job-1")] })
+
+      triggerChromeMessage(
+        { type: "CLEAR_CAPTURE_HISTORY" },
+        {} as chrome.runtime.MessageSender
+      )
+
+      await vi.waitFor(() =>
+        expect(getChromeStorageData().captureHistory).toEqual([])
+      )
+    })
+  })
+
+  describe("capture status", () => {
     it("should store capture status in chrome.storage.local", async () => {
       triggerChromeMessage({
         type: "CAPTURE_STATUS",
@@ -709,12 +1842,12 @@ describe("background/index", () => {
       // Wait longer for @plasmohq/storage async operations
       await new Promise((resolve) => setTimeout(resolve, 500))
 
-      const storageData = getChromeStorageData()
-      expect(storageData.captureStatus).toBeDefined()
-      expect((storageData.captureStatus as any).isCapturing).toBe(true)
-      expect((storageData.captureStatus as any).currentPage).toBe(5)
-      expect((storageData.captureStatus as any).totalPages).toBe(10)
-      expect((storageData.captureStatus as any).capturedCount).toBe(5)
+      expect(getTabState(1)).toMatchObject({
+        phase: "capturing",
+        currentPage: 5,
+        totalPages: 10,
+        capturedCount: 5
+      })
     })
 
     it("should notify storage listeners of changes", async () => {
@@ -738,12 +1871,14 @@ describe("background/index", () => {
       // Verify storage change event was fired
       expect(storageChangeListener).toHaveBeenCalledWith(
         expect.objectContaining({
-          captureStatus: expect.objectContaining({
-            newValue: expect.objectContaining({
-              isCapturing: true,
-              currentPage: 3,
-              totalPages: 8
-            })
+          captureStates: expect.objectContaining({
+            newValue: {
+              1: expect.objectContaining({
+                phase: "capturing",
+                currentPage: 3,
+                totalPages: 8
+              })
+            }
           })
         }),
         "local"
@@ -765,11 +1900,10 @@ describe("background/index", () => {
       // Wait longer for @plasmohq/storage async operations
       await new Promise((resolve) => setTimeout(resolve, 500))
 
-      const storageData = getChromeStorageData()
-      expect(storageData.captureStatus).toBeDefined()
-      expect((storageData.captureStatus as any).error).toBe(
-        "Failed to capture page"
-      )
+      expect(getTabState(1)).toMatchObject({
+        phase: "error",
+        error: "Failed to capture page"
+      })
     })
 
     it("should always persist to storage (no dependency on message delivery)", async () => {
@@ -790,9 +1924,102 @@ describe("background/index", () => {
       await new Promise((resolve) => setTimeout(resolve, 500))
 
       // Status should be persisted
-      const storageData = getChromeStorageData()
-      expect(storageData.captureStatus).toBeDefined()
-      expect((storageData.captureStatus as any).isCapturing).toBe(true)
+      expect(getTabState(1).phase).toBe("capturing")
+    })
+  })
+
+  describe("capture state", () => {
+    const capturing = {
+      isCapturing: true,
+      currentPage: 2,
+      totalPages: 6,
+      capturedCount: 2
+    }
+
+    it("should send each new state to the tab", async () => {
+      await triggerChromeMessage({ type: "CAPTURE_STATUS", status: capturing })
+
+      await vi.waitFor(() => {
+        expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(1, {
+          type: "CAPTURE_STATE",
+          state: expect.objectContaining({ tabId: 1, phase: "capturing" })
+        })
+      })
+    })
+
+    it("should keep the review when the capture reports it stopped", async () => {
+      await triggerChromeMessage({ type: "CAPTURE_STATUS", status: capturing })
+      await triggerChromeMessage({
+        type: "REVIEW_CAPTURE",
+        review: {
+          sessionId: "review-session",
+          documentKey: "docsend.com/view/test",
+          url: "https://docsend.com/view/test",
+          pageNumbers: [1, 2],
+          capturedAt: new Date().toISOString()
+        }
+      })
+      await triggerChromeMessage({
+        type: "CAPTURE_STATUS",
+        status: { ...capturing, isCapturing: false }
+      })
+
+      await vi.waitFor(() => {
+        expect(getTabState(1)).toMatchObject({
+          phase: "reviewing",
+          capturedCount: 2
+        })
+      })
+    })
+
+    it("should end a capture when its tab reloads", async () => {
+      const log = vi.spyOn(console, "log")
+      await triggerChromeMessage({ type: "CAPTURE_STATUS", status: capturing })
+      await vi.waitFor(() => expect(getTabState(1)?.phase).toBe("capturing"))
+
+      triggerTabUpdated(1, { status: "loading" })
+
+      await vi.waitFor(() => expect(getTabState(1).phase).toBe("idle"))
+      expect(log).toHaveBeenCalledWith(
+        "[Background] Tab reloaded during capture",
+        { tabId: 1, phase: "capturing" }
+      )
+    })
+
+    it("should forget the state of a closed tab", async () => {
+      await triggerChromeMessage({ type: "CAPTURE_STATUS", status: capturing })
+      await vi.waitFor(() => expect(getTabState(1)).toBeDefined())
+
+      triggerTabRemoved(1)
+
+      await vi.waitFor(() => expect(getTabState(1)).toBeUndefined())
+    })
+
+    it("should answer GET_CAPTURE_STATE with the tab's state", async () => {
+      await triggerChromeMessage({ type: "CAPTURE_STATUS", status: capturing })
+      await vi.waitFor(() => expect(getTabState(1)).toBeDefined())
+
+      const responses = await triggerChromeMessage({
+        type: "GET_CAPTURE_STATE"
+      })
+
+      await vi.waitFor(() => {
+        expect(responses).toContainEqual({ state: getTabState(1) })
+      })
+    })
+
+    it("should dismiss finished states only", async () => {
+      await triggerChromeMessage({ type: "CAPTURE_STATUS", status: capturing })
+      await triggerChromeMessage({ type: "DISMISS_CAPTURE_STATE" })
+      await vi.waitFor(() => expect(getTabState(1)?.phase).toBe("capturing"))
+
+      await triggerChromeMessage({
+        type: "CAPTURE_STATUS",
+        status: { ...capturing, error: "Failed to capture page" }
+      })
+      await triggerChromeMessage({ type: "DISMISS_CAPTURE_STATE", tabId: 1 })
+
+      await vi.waitFor(() => expect(getTabState(1).phase).toBe("idle"))
     })
   })
 
@@ -812,11 +2039,9 @@ describe("background/index", () => {
   describe("Environment Configuration", () => {
     it("should use correct web app URL for localhost", () => {
       vi.stubEnv("PLASMO_PUBLIC_CLERK_SYNC_HOST", "http://localhost")
-
       ;(uploadScreenshots as ReturnType<typeof vi.fn>).mockResolvedValue([
-        { key: "test-key", filename: "page_1.png" }
+        { status: "uploaded", key: "test-key", filename: "page_1.png" }
       ])
-
       ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue(
         mockFetchResponse({
           success: true,
@@ -828,7 +2053,8 @@ describe("background/index", () => {
       triggerChromeMessage(
         {
           type: "UPLOAD_SCREENSHOTS",
-          screenshots: [createMockDataUrl()],
+          sessionId: "test-session",
+          pageNumbers: [1],
           metadata: {
             url: "https://docsend.com/view/test",
             totalPages: 1,
@@ -849,11 +2075,9 @@ describe("background/index", () => {
 
     it("should use correct web app URL for production", () => {
       vi.stubEnv("PLASMO_PUBLIC_CLERK_SYNC_HOST", "https://app.example.com")
-
       ;(uploadScreenshots as ReturnType<typeof vi.fn>).mockResolvedValue([
-        { key: "test-key", filename: "page_1.png" }
+        { status: "uploaded", key: "test-key", filename: "page_1.png" }
       ])
-
       ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue(
         mockFetchResponse({
           success: true,
@@ -865,7 +2089,8 @@ describe("background/index", () => {
       triggerChromeMessage(
         {
           type: "UPLOAD_SCREENSHOTS",
-          screenshots: [createMockDataUrl()],
+          sessionId: "test-session",
+          pageNumbers: [1],
           metadata: {
             url: "https://docsend.com/view/test",
             totalPages: 1,
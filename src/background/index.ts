@@ -1,59 +1,151 @@
-import { uploadScreenshots } from "../lib/upload-to-r2"
-import { storage } from "../lib/storage"
-import { getAuthHeaders } from "../lib/clerk-auth"
+import {
+  base64ToBlob,
+  deleteSession,
+  getStoredPageNumbers,
+  savePage
+} from "../lib/page-store"
+import { encodeImage, getImageSize } from "../lib/image-encoding"
+import type { CaptureMode } from "../lib/slide-bounds"
+import {
+  analyzeFrame,
+  isDuplicateFrame,
+  type FrameAnomaly
+} from "../lib/frame-analysis"
+import {
+  CAPTURE_RESOLUTIONS,
+  type CaptureResolution
+} from "../lib/capture-resolution"
+import { debuggerSessions } from "./debugger-session"
+import {
+  chooseCaptureBackend,
+  openCaptureBackend,
+  type CaptureBackend
+} from "./capture-backends"
+import {
+  getCaptureReview,
+  removeCaptureReview,
+  saveCaptureReview,
+  updateCaptureReview,
+  type CaptureReview
+} from "../lib/capture-review"
+import {
+  clearCaptureHistory,
+  expireHistoryRetry,
+  removeHistoryEntry
+} from "../lib/capture-history"
+import { isCapturePhase } from "../lib/capture-state"
+import {
+  getCaptureSession,
+  getDocumentKey,
+  removeCaptureSession,
+  saveCaptureSession,
+  type CaptureSession
+} from "../lib/capture-session"
+import {
+  handleMessages,
+  sendTabMessage,
+  type Message,
+  type MessageResponse
+} from "../lib/messages"
+import {
+  clearCaptureStates,
+  dispatchCaptureEvent,
+  dispatchUploadEvent,
+  getTabCaptureState,
+  removeTabCaptureState
+} from "./capture-states"
+import {
+  cancelUploadJob,
+  cleanupAbandonedUploads,
+  enqueueUpload,
+  getUploadJobs,
+  resumeUploadJobs,
+  retryUploadJob,
+  UPLOAD_QUEUE_ALARM
+} from "./upload-queue"
+import { getSettings, migrateStoredSettings } from "../lib/settings"
+import { fetchSaveOptions, lookupMaterial } from "../lib/flow-library"
+import {
+  getMaterialLookup,
+  isLookupFresh,
+  saveMaterialLookup
+} from "../lib/material-lookup"
+import {
+  getLastFolderId,
+  getSenderDomain,
+  rememberFolder,
+  type SaveDestination
+} from "../lib/save-destination"
 
-interface CaptureScreenshotMessage {
-  type: "CAPTURE_SCREENSHOT"
-}
+const tabZoomState = new Map<number, number>()
 
-interface UploadScreenshotsMessage {
-  type: "UPLOAD_SCREENSHOTS"
-  screenshots: string[]
-  metadata: {
-    url: string
-    totalPages: number
-    capturedAt: string
-  }
-}
+// Backend each running capture takes its screenshots with
+const tabCaptureBackends = new Map<number, CaptureBackend>()
 
-interface CaptureStatusMessage {
-  type: "CAPTURE_STATUS"
-  status: {
-    isCapturing: boolean
-    currentPage: number
-    totalPages: number | null
-    error?: string
-  }
-}
+// Hash of the last page stored in each capture session, to catch a slide
+// captured twice when navigation stalls
+const lastFrames = new Map<string, { pageNumber: number; hash: string }>()
 
-interface ClearStatesMessage {
-  type: "CLEAR_STATES"
-}
+// Periodic sweep for abandoned R2 multipart uploads
+const UPLOAD_CLEANUP_ALARM = "flow-upload-cleanup"
 
-interface EnsureCaptureZoomMessage {
-  type: "ENSURE_CAPTURE_ZOOM"
+// Re-encode a captured page in the format chosen in settings, keeping the
+// PNG if encoding fails
+async function encodeCapturedPage(png: Blob): Promise<Blob> {
+  try {
+    const { imageEncoding: settings } = await getSettings()
+    const encoded = await encodeImage(png, settings)
+    if (encoded !== png) {
+      console.log("[Background] Encoded captured page", {
+        format: settings.format,
+        pngBytes: png.size,
+        bytes: encoded.size
+      })
+    }
+    return encoded
+  } catch (error) {
+    console.warn("[Background] Failed to encode page, keeping PNG:", error)
+    return png
+  }
 }
 
-interface RestoreCaptureZoomMessage {
-  type: "RESTORE_CAPTURE_ZOOM"
+// Check a captured frame for a blank screen or a repeat of the page before
+// it. Frames that can't be analysed are let through.
+async function checkFrame(
+  sessionId: string,
+  pageNumber: number,
+  png: Blob
+): Promise<{ hash?: string; anomaly?: FrameAnomaly }> {
+  try {
+    const { hash, blank } = await analyzeFrame(png)
+    if (blank) {
+      return { hash, anomaly: "blank" }
+    }
+    const previous = lastFrames.get(sessionId)
+    if (
+      previous &&
+      previous.pageNumber !== pageNumber &&
+      isDuplicateFrame(previous.hash, hash)
+    ) {
+      return { hash, anomaly: "duplicate" }
+    }
+    return { hash }
+  } catch (error) {
+    console.warn("[Background] Failed to analyse captured frame:", error)
+    return {}
+  }
 }
 
-type Message =
-  | CaptureScreenshotMessage
-  | UploadScreenshotsMessage
-  | CaptureStatusMessage
-  | ClearStatesMessage
-  | EnsureCaptureZoomMessage
-  | RestoreCaptureZoomMessage
-
-const tabZoomState = new Map<number, number>()
-
 // Handle screenshot capture using Chrome DevTools Protocol
+// The page is stored in IndexedDB; only a small acknowledgement is returned
 async function captureScreenshot(
+  message: Message<"CAPTURE_SCREENSHOT">,
   sender: chrome.runtime.MessageSender,
-  sendResponse: (response: { screenshot?: string; error?: string }) => void
+  sendResponse: (response: MessageResponse<"CAPTURE_SCREENSHOT">) => void
 ) {
   const tabId = sender.tab?.id
+  const { clip } = message
+  const captureMode: CaptureMode = clip ? "slide" : "viewport"
 
   if (!tabId) {
     sendResponse({ error: "No tab found" })
@@ -81,33 +173,62 @@ async function captureScreenshot(
   })
 
   try {
-    // Attach debugger to the tab
-    await chrome.debugger.attach({ tabId }, "1.3")
-
-    // Capture screenshot using Chrome DevTools Protocol
-    const result = (await chrome.debugger.sendCommand(
-      { tabId },
-      "Page.captureScreenshot",
-      {
-        format: "png",
-        captureBeyondViewport: false
-      }
-    )) as { data: string }
-
-    // Detach debugger
-    await chrome.debugger.detach({ tabId })
+    const backend =
+      tabCaptureBackends.get(tabId) ?? (await chooseCaptureBackend())
+    const png = await backend.capture(
+      (tabDetails ?? sender.tab) as chrome.tabs.Tab,
+      clip
+    )
 
     console.log("[Background] captureScreenshot success", {
       tabId,
-      bytes: result.data.length,
+      bytes: png.size,
+      backend: backend.id,
+      captureMode,
+      emulated: debuggerSessions.isEmulating(tabId),
+      clip,
       tabUrl: tabDetails?.url,
       pendingUrl: tabDetails?.pendingUrl
     })
 
-    // Convert base64 to data URL
-    const screenshot = `data:image/png;base64,${result.data}`
+    const { hash, anomaly } = await checkFrame(
+      message.sessionId,
+      message.pageNumber,
+      png
+    )
+    if (anomaly && !message.acceptAnomaly) {
+      console.log("[Background] Frame rejected", {
+        pageNumber: message.pageNumber,
+        anomaly
+      })
+      sendResponse({ stored: false, pageNumber: message.pageNumber, anomaly })
+      return
+    }
 
-    sendResponse({ screenshot })
+    const blob = await encodeCapturedPage(png)
+    await savePage({
+      sessionId: message.sessionId,
+      pageNumber: message.pageNumber,
+      blob,
+      capturedAt: new Date().toISOString(),
+      captureMode,
+      ...(await getImageSize(blob)),
+      ...(anomaly && { anomaly })
+    })
+    if (hash) {
+      lastFrames.set(message.sessionId, {
+        pageNumber: message.pageNumber,
+        hash
+      })
+    }
+
+    sendResponse({
+      stored: true,
+      pageNumber: message.pageNumber,
+      bytes: blob.size,
+      captureMode,
+      ...(anomaly && { anomaly })
+    })
   } catch (error) {
     console.error("Screenshot capture error:", error)
     if (tabDetails) {
@@ -119,244 +240,325 @@ async function captureScreenshot(
       })
     }
 
-    // Try to detach if still attached
-    try {
-      await chrome.debugger.detach({ tabId })
-    } catch (_e) {
-      // Ignore detach errors
-    }
-
     sendResponse({
       error: error instanceof Error ? error.message : "Unknown error"
     })
   }
 }
 
-// Upload state interface for chrome.storage
-interface UploadState {
-  isUploading: boolean
-  currentFile: number
-  totalFiles: number
-  percent: number
-  url: string
-  error?: string
-}
+// Store a page image the content script extracted from the viewer
+async function storePageImage(
+  message: Message<"STORE_PAGE_IMAGE">,
+  sendResponse: (response: MessageResponse<"STORE_PAGE_IMAGE">) => void
+) {
+  try {
+    const match = /^data:(image\/[\w+.-]+);base64,(.*)$/.exec(message.dataUrl)
+    if (!match) {
+      throw new Error("Page image is not a base64 image data URL")
+    }
 
-// Capture status interface for chrome.storage
-interface CaptureStatus {
-  isCapturing: boolean
-  currentPage: number
-  totalPages: number | null
-  capturedCount: number
-  error?: string
-}
+    const blob = await encodeCapturedPage(base64ToBlob(match[2], match[1]))
+    await savePage({
+      sessionId: message.sessionId,
+      pageNumber: message.pageNumber,
+      blob,
+      capturedAt: new Date().toISOString(),
+      captureMode: "image",
+      ...(await getImageSize(blob))
+    })
 
-// Helper function to get web app URL
-function getWebAppUrl(path: string = ""): string {
-  const frontendUrl =
-    process.env.PLASMO_PUBLIC_FRONTEND_URL || "http://localhost:3000"
-  return `${frontendUrl}${path}`
+    console.log("[Background] Stored extracted page image", {
+      pageNumber: message.pageNumber,
+      sourceType: match[1],
+      bytes: blob.size
+    })
+    sendResponse({
+      stored: true,
+      pageNumber: message.pageNumber,
+      bytes: blob.size,
+      captureMode: "image"
+    })
+  } catch (error) {
+    console.error("[Background] Failed to store page image:", error)
+    sendResponse({
+      error: error instanceof Error ? error.message : "Unknown error"
+    })
+  }
 }
 
-// Helper to update upload state in storage
-// Using @plasmohq/storage for automatic sync across all extension contexts
-async function updateUploadState(state: UploadState) {
-  await storage.set("uploadState", state)
-}
+// Emulate the preset's viewport and pixel ratio for the rest of the
+// capture. Resolves false when the preset keeps the tab's own metrics.
+async function applyCaptureResolution(
+  tabId: number,
+  resolution: CaptureResolution
+): Promise<boolean> {
+  const { metrics } = CAPTURE_RESOLUTIONS[resolution]
+  if (!metrics) {
+    return false
+  }
 
-// Upload screenshots directly to R2 and finalize
-async function uploadToAPI(
-  message: UploadScreenshotsMessage,
-  sender: chrome.runtime.MessageSender
-) {
-  console.log(
-    `[Background] uploadToAPI called with ${message.screenshots.length} screenshots`
+  // Only the DevTools protocol can emulate device metrics
+  if (tabCaptureBackends.get(tabId)?.id !== "cdp") {
+    throw new Error(
+      "High-resolution capture needs the debugger screenshot method"
+    )
+  }
+
+  // The override lasts as long as the capture's debugger session
+  await debuggerSessions.sendCommand(
+    tabId,
+    "Emulation.setDeviceMetricsOverride",
+    { ...metrics, mobile: false }
   )
-  console.log(`[Background] Metadata:`, message.metadata)
+  debuggerSessions.setEmulated(tabId, true)
+  return true
+}
 
-  const tabId = sender.tab?.id
-  if (!tabId) {
-    console.error("[Background] No tab ID found in sender")
-    return
+// Put the tab's own metrics back, keeping the debugger session open
+async function restoreCaptureResolution(tabId: number): Promise<boolean> {
+  if (!debuggerSessions.isEmulating(tabId)) {
+    return false
   }
 
-  // Initialize upload state
-  await updateUploadState({
-    isUploading: true,
-    currentFile: 0,
-    totalFiles: message.screenshots.length,
-    percent: 0,
-    url: message.metadata.url
-  })
-
   try {
-    // Step 1: Upload screenshots directly to R2 using presigned URLs
-    console.log(`[Background] Uploading screenshots directly to R2...`)
-
-    const uploadResults = await uploadScreenshots(
-      message.screenshots,
-      async (progress) => {
-        console.log(
-          `[Background] Upload progress: ${progress.currentFile}/${progress.totalFiles} files, ${progress.percent}%`
-        )
+    await debuggerSessions.sendCommand(
+      tabId,
+      "Emulation.clearDeviceMetricsOverride"
+    )
+  } finally {
+    debuggerSessions.setEmulated(tabId, false)
+  }
+  return true
+}
 
-        // Update storage and broadcast progress
-        await updateUploadState({
-          isUploading: true,
-          currentFile: progress.currentFile,
-          totalFiles: progress.totalFiles,
-          percent: progress.percent,
-          url: message.metadata.url
-        })
+// Why a capture's debugger session ended early, for the capture error
+function describeDebuggerDetach(reason: string): string {
+  if (reason === "canceled_by_user") {
+    return "Capture stopped because the debugging banner was cancelled. Start the capture again to continue from where it stopped."
+  }
+  return `Capture stopped because Chrome ended Flow's access to the tab (${reason}). Start the capture again to continue from where it stopped.`
+}
 
-        // Send progress updates to content script in the specific tab
-        chrome.tabs
-          .sendMessage(tabId, {
-            type: "UPLOAD_PROGRESS",
-            progress
-          })
-          .catch((err) => {
-            console.warn("[Background] Failed to send progress update:", err)
-          })
-      }
-    )
+// Load a document's capture session, trusting the page store over the
+// record for which pages were actually saved
+async function getResumableSession(
+  documentKey: string
+): Promise<CaptureSession | null> {
+  const session = await getCaptureSession(documentKey)
+  if (!session) {
+    return null
+  }
 
-    const imageKeys = uploadResults.map((r) => r.key)
-    const originalFileNames = uploadResults.map((r) => r.filename)
-
-    console.log(`[Background] All screenshots uploaded to R2:`, imageKeys)
-
-    // Step 2: Finalize by creating the material
-    console.log(`[Background] Finalizing material creation...`)
-
-    const finalizeUrl = getWebAppUrl("/api/extension/finalize-docsend-capture")
-    const authHeaders = await getAuthHeaders()
-    const finalizeResponse = await fetch(finalizeUrl, {
-      method: "POST",
-      headers: {
-        ...authHeaders,
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify({
-        imageKeys,
-        originalFileNames,
-        metadata: message.metadata
-      })
+  const storedPages = await getStoredPageNumbers(session.sessionId)
+  if (storedPages.length === 0) {
+    console.log("[Background] Capture session has no stored pages", {
+      documentKey
     })
+    await removeCaptureSession(documentKey)
+    return null
+  }
 
-    if (!finalizeResponse.ok) {
-      const error = await finalizeResponse.json()
-      throw new Error(error.error || "Failed to finalize capture")
-    }
-
-    const result = await finalizeResponse.json()
-    console.log(`[Background] Finalization successful:`, result)
+  return { ...session, capturedPages: storedPages }
+}
 
-    // Clear upload state - success
-    await updateUploadState({
-      isUploading: false,
-      currentFile: message.screenshots.length,
-      totalFiles: message.screenshots.length,
-      percent: 100,
-      url: message.metadata.url
+// Hold a finished capture for review, replacing an earlier capture of the
+// same document that was never uploaded
+async function startReview(review: CaptureReview) {
+  const previous = await getCaptureReview(review.documentKey)
+  if (previous && previous.sessionId !== review.sessionId) {
+    console.log("[Background] Replacing unreviewed capture", {
+      documentKey: review.documentKey,
+      sessionId: previous.sessionId
     })
-
-    // Show success notification
-    chrome.notifications.create({
-      type: "basic",
-      iconUrl: chrome.runtime.getURL("icon.png") || "",
-      title: "DocSend Capture Complete",
-      message: `Successfully uploaded ${message.metadata.totalPages} pages to Flow`
+    await deleteSession(previous.sessionId).catch((err) => {
+      console.warn("[Background] Failed to discard stored pages:", err)
     })
+  }
+  await saveCaptureReview(review)
+}
 
-    // Send success message to content script in the specific tab
-    chrome.tabs
-      .sendMessage(tabId, {
-        type: "UPLOAD_SUCCESS",
-        materialId: result.materialId,
-        imageCount: result.imageCount
-      })
-      .catch((err) => {
-        console.warn("[Background] Failed to send success message:", err)
-      })
+// The destination picked in the Save to Flow dialog, remembered for the
+// sender; uploads that skipped the dialog go to the sender's last folder
+async function getUploadDestination(
+  message: Message<"UPLOAD_SCREENSHOTS">
+): Promise<SaveDestination | undefined> {
+  const senderDomain = getSenderDomain(
+    message.metadata.url,
+    message.metadata.sender
+  )
+  if (message.destination) {
+    await rememberFolder(senderDomain, message.destination.folderId)
+    return message.destination
+  }
+  const folderId = await getLastFolderId(senderDomain)
+  return folderId ? { folderId } : undefined
+}
 
-    // Broadcast success globally
-    chrome.runtime
-      .sendMessage({
-        type: "UPLOAD_SUCCESS",
-        materialId: result.materialId,
-        imageCount: result.imageCount
-      })
-      .catch(() => {
-        // Ignore if no receivers
-      })
+// Folders and tags for the Save to Flow dialog, with the folder last used
+// for the document's sender
+async function getSaveOptions(
+  message: Message<"GET_SAVE_OPTIONS">
+): Promise<MessageResponse<"GET_SAVE_OPTIONS">> {
+  const folderId = await getLastFolderId(
+    getSenderDomain(message.url, message.sender)
+  )
+  try {
+    return { ...(await fetchSaveOptions()), folderId }
   } catch (error) {
-    console.error("[Background] Upload error:", error)
-
-    const errorMessage =
-      error instanceof Error ? error.message : "Failed to upload captures"
-
-    // Update state with error
-    await updateUploadState({
-      isUploading: false,
-      currentFile: 0,
-      totalFiles: message.screenshots.length,
-      percent: 0,
-      url: message.metadata.url,
-      error: errorMessage
-    })
-
-    // Show error notification
-    chrome.notifications.create({
-      type: "basic",
-      iconUrl: chrome.runtime.getURL("icon.png") || "",
-      title: "DocSend Upload Failed",
-      message: errorMessage
-    })
-
-    // Send error message to content script in the specific tab
-    chrome.tabs
-      .sendMessage(tabId, {
-        type: "UPLOAD_ERROR",
-        error: errorMessage
-      })
-      .catch((err) => {
-        console.warn("[Background] Failed to send error message:", err)
-      })
+    console.warn("[Background] Failed to load save options:", error)
+    return {
+      folders: [],
+      tags: [],
+      folderId,
+      error:
+        error instanceof Error ? error.message : "Failed to load Flow folders"
+    }
+  }
+}
 
-    // Broadcast error globally
-    chrome.runtime
-      .sendMessage({
-        type: "UPLOAD_ERROR",
-        error: errorMessage
-      })
-      .catch(() => {
-        // Ignore if no receivers
-      })
+// Material the document was captured into before, from the cache while
+// the last lookup is fresh
+async function lookupExistingMaterial(
+  message: Message<"LOOKUP_MATERIAL">
+): Promise<MessageResponse<"LOOKUP_MATERIAL">> {
+  const documentKey = getDocumentKey(message.url)
+  if (!documentKey) {
+    return { material: null }
+  }
+  const cached = await getMaterialLookup(documentKey)
+  if (cached && isLookupFresh(cached)) {
+    return { material: cached.material }
+  }
+  try {
+    const material = await lookupMaterial(message.url)
+    await saveMaterialLookup(documentKey, material)
+    return { material }
+  } catch (error) {
+    console.warn("[Background] Failed to look up material:", error)
+    return {
+      material: cached?.material ?? null,
+      error:
+        error instanceof Error ? error.message : "Failed to look up material"
+    }
   }
 }
 
+// Cancel the requested upload, or the sending tab's uploads
+async function cancelUpload(
+  message: Message<"CANCEL_UPLOAD">,
+  sender: chrome.runtime.MessageSender
+): Promise<boolean> {
+  const jobIds = message.jobId
+    ? [message.jobId]
+    : Object.values(await getUploadJobs())
+        .filter((job) => job.tabId === sender.tab?.id)
+        .map((job) => job.id)
+
+  const cancelled = await Promise.all(jobIds.map(cancelUploadJob))
+  return cancelled.some(Boolean)
+}
+
 // Message listener
 chrome.runtime.onMessage.addListener(
-  (
-    message: Message,
-    sender: chrome.runtime.MessageSender,
-    sendResponse: (response?: any) => void
-  ) => {
-    console.log(`[Background] Received message:`, message.type)
-
-    if (message.type === "CAPTURE_SCREENSHOT") {
-      captureScreenshot(sender, sendResponse)
+  handleMessages("Background", {
+    CAPTURE_SCREENSHOT: (message, sender, sendResponse) => {
+      captureScreenshot(message, sender, sendResponse)
       return true // Keep channel open for async response
-    }
+    },
 
-    if (message.type === "UPLOAD_SCREENSHOTS") {
-      console.log(`[Background] UPLOAD_SCREENSHOTS message received`)
-      uploadToAPI(message as UploadScreenshotsMessage, sender)
+    STORE_PAGE_IMAGE: (message, _sender, sendResponse) => {
+      storePageImage(message, sendResponse)
+      return true
+    },
+
+    REVIEW_CAPTURE: (message, sender) => {
+      console.log(
+        `[Background] REVIEW_CAPTURE: ${message.review.pageNumbers.length} pages from session ${message.review.sessionId}`
+      )
+
+      const tabId = sender.tab?.id
+      if (!tabId) {
+        console.error("[Background] No tab ID found in sender")
+        return false
+      }
+
+      lastFrames.delete(message.review.sessionId)
+      void dispatchCaptureEvent(tabId, {
+        type: "REVIEW",
+        pageCount: message.review.pageNumbers.length,
+        url: message.review.url
+      })
+      void startReview({ ...message.review, tabId }).catch((error) => {
+        console.error("[Background] Failed to save capture review:", error)
+      })
+      return false
+    },
+
+    UPLOAD_SCREENSHOTS: (message, sender) => {
+      console.log(
+        `[Background] UPLOAD_SCREENSHOTS: ${message.pageNumbers.length} pages from session ${message.sessionId}`
+      )
+      console.log(`[Background] Metadata:`, message.metadata)
+
+      const tabId = sender.tab?.id ?? message.tabId
+      if (!tabId) {
+        console.error("[Background] No tab ID found in sender")
+        return false
+      }
+
+      lastFrames.delete(message.sessionId)
+      void removeCaptureReview(message.sessionId)
+
+      // The job is persisted before uploading so it outlives this worker;
+      // the tab is shown as uploading once it is
+      void getUploadDestination(message)
+        .then((destination) =>
+          enqueueUpload({
+            sessionId: message.sessionId,
+            pageNumbers: message.pageNumbers,
+            metadata: message.metadata,
+            tabId,
+            destination
+          })
+        )
+        .catch((error) => {
+          console.error("[Background] Failed to enqueue upload:", error)
+        })
       return false // No response needed
-    }
+    },
+
+    RETRY_UPLOAD: (message, _sender, sendResponse) => {
+      console.log(`[Background] RETRY_UPLOAD: job ${message.jobId}`)
+      retryUploadJob(message.jobId)
+        .then((retrying) => {
+          if (!retrying) {
+            void expireHistoryRetry(message.jobId)
+            void dispatchUploadEvent(message.jobId, {
+              type: "FAIL",
+              error: "Upload expired. Capture the document again."
+            })
+          }
+          sendResponse({ retrying })
+        })
+        .catch((error) => {
+          console.error("[Background] Failed to retry upload:", error)
+          sendResponse({ retrying: false })
+        })
+      return true
+    },
+
+    CANCEL_UPLOAD: (message, sender, sendResponse) => {
+      console.log("[Background] CANCEL_UPLOAD", message.jobId ?? sender.tab?.id)
+      cancelUpload(message, sender)
+        .then((cancelled) => sendResponse({ cancelled }))
+        .catch((error) => {
+          console.error("[Background] Failed to cancel upload:", error)
+          sendResponse({ cancelled: false })
+        })
+      return true
+    },
 
-    if (message.type === "ENSURE_CAPTURE_ZOOM") {
+    ENSURE_CAPTURE_ZOOM: (message, sender, sendResponse) => {
       const tabId = sender.tab?.id
 
       if (!tabId) {
@@ -371,7 +573,8 @@ chrome.runtime.onMessage.addListener(
       ;(async () => {
         try {
           const currentZoom = await chrome.tabs.getZoom(tabId)
-          const storedOriginalZoom = tabZoomState.get(tabId)
+          const storedOriginalZoom =
+            tabZoomState.get(tabId) ?? message.originalZoom
           const originalZoom = storedOriginalZoom ?? currentZoom
 
           console.log("[Background] ENSURE_CAPTURE_ZOOM", {
@@ -381,6 +584,21 @@ chrome.runtime.onMessage.addListener(
           })
 
           if (Math.abs(currentZoom - 1) <= 0.01) {
+            // A resumed capture still owes the user their original zoom
+            if (
+              storedOriginalZoom !== undefined &&
+              Math.abs(storedOriginalZoom - 1) > 0.01
+            ) {
+              tabZoomState.set(tabId, storedOriginalZoom)
+              sendResponse({
+                success: true,
+                adjusted: true,
+                currentZoom,
+                previousZoom: storedOriginalZoom
+              })
+              return
+            }
+
             sendResponse({
               success: true,
               adjusted: false,
@@ -412,9 +630,9 @@ chrome.runtime.onMessage.addListener(
       })()
 
       return true
-    }
+    },
 
-    if (message.type === "RESTORE_CAPTURE_ZOOM") {
+    RESTORE_CAPTURE_ZOOM: (_message, sender, sendResponse) => {
       const tabId = sender.tab?.id
 
       if (!tabId) {
@@ -455,26 +673,230 @@ chrome.runtime.onMessage.addListener(
       })()
 
       return true
-    }
+    },
+
+    ATTACH_CAPTURE_BACKEND: (_message, sender, sendResponse) => {
+      const tabId = sender.tab?.id
+
+      if (!tabId) {
+        sendResponse({
+          success: false,
+          error: "No tab ID provided for capture backend"
+        })
+        return false
+      }
+
+      openCaptureBackend(tabId)
+        .then((backend) => {
+          tabCaptureBackends.set(tabId, backend)
+          console.log("[Background] Capture backend opened", {
+            tabId,
+            backend: backend.id
+          })
+          sendResponse({ success: true, backend: backend.id })
+        })
+        .catch((error) => {
+          console.error("[Background] Failed to open capture backend:", error)
+          sendResponse({
+            success: false,
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to open capture backend"
+          })
+        })
+
+      return true
+    },
+
+    DETACH_CAPTURE_BACKEND: (_message, sender, sendResponse) => {
+      const tabId = sender.tab?.id
+      const backend = tabId ? tabCaptureBackends.get(tabId) : undefined
+
+      if (!tabId || !backend) {
+        sendResponse({ success: true, detached: false })
+        return false
+      }
+
+      tabCaptureBackends.delete(tabId)
+      backend.close(tabId).then(() => {
+        console.log("[Background] Capture backend closed", {
+          tabId,
+          backend: backend.id
+        })
+        sendResponse({ success: true, detached: true })
+      })
+
+      return true
+    },
+
+    ENSURE_CAPTURE_RESOLUTION: (message, sender, sendResponse) => {
+      const tabId = sender.tab?.id
+
+      if (!tabId) {
+        sendResponse({
+          success: false,
+          applied: false,
+          error: "No tab ID provided for capture resolution"
+        })
+        return false
+      }
+
+      applyCaptureResolution(tabId, message.resolution)
+        .then((applied) => {
+          console.log("[Background] ENSURE_CAPTURE_RESOLUTION", {
+            tabId,
+            resolution: message.resolution,
+            applied
+          })
+          sendResponse({
+            success: true,
+            applied,
+            metrics: CAPTURE_RESOLUTIONS[message.resolution].metrics
+          })
+        })
+        .catch((error) => {
+          console.error(
+            "[Background] Failed to apply capture resolution:",
+            error
+          )
+          sendResponse({
+            success: false,
+            applied: false,
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to apply capture resolution"
+          })
+        })
+
+      return true
+    },
+
+    RESTORE_CAPTURE_RESOLUTION: (_message, sender, sendResponse) => {
+      const tabId = sender.tab?.id
+
+      if (!tabId) {
+        sendResponse({
+          success: false,
+          error: "No tab ID provided for capture resolution restore"
+        })
+        return false
+      }
 
-    if (message.type === "CAPTURE_STATUS") {
-      // Persist capture status - @plasmohq/storage automatically syncs to all extension contexts
-      // Note: Fire-and-forget pattern is OK here - we don't need to await
+      restoreCaptureResolution(tabId)
+        .then((restored) => sendResponse({ success: true, restored }))
+        .catch((error) => {
+          console.error(
+            "[Background] Failed to restore capture resolution:",
+            error
+          )
+          sendResponse({
+            success: false,
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to restore capture resolution"
+          })
+        })
+
+      return true
+    },
+
+    CAPTURE_STATUS: (message, sender) => {
       console.log("[Background] CAPTURE_STATUS update", message.status)
-      void storage.set("captureStatus", message.status)
+      const tabId = sender.tab?.id
+      if (!tabId) {
+        return false
+      }
+      void dispatchCaptureEvent(tabId, {
+        type: "STATUS",
+        status: message.status,
+        url: sender.tab.url
+      })
       return false
-    }
+    },
+
+    GET_CAPTURE_STATE: (message, sender, sendResponse) => {
+      const tabId = message.tabId ?? sender.tab?.id
+      if (!tabId) {
+        return false
+      }
+      getTabCaptureState(tabId).then((state) => sendResponse({ state }))
+      return true
+    },
 
-    if (message.type === "CLEAR_STATES") {
-      // Clear both upload and capture states from storage
-      console.log("[Background] CLEAR_STATES message received. Clearing storage.")
-      void storage.remove("uploadState")
-      void storage.remove("captureStatus")
+    GET_SAVE_OPTIONS: (message, _sender, sendResponse) => {
+      getSaveOptions(message).then(sendResponse)
+      return true
+    },
+
+    LOOKUP_MATERIAL: (message, _sender, sendResponse) => {
+      lookupExistingMaterial(message).then(sendResponse)
+      return true
+    },
+
+    DISMISS_CAPTURE_STATE: (message, sender) => {
+      const tabId = message.tabId ?? sender.tab?.id
+      if (tabId) {
+        void dispatchCaptureEvent(tabId, { type: "DISMISS" })
+      }
       return false
-    }
+    },
 
-    return false
-  }
+    REMOVE_HISTORY_ENTRY: (message) => {
+      void removeHistoryEntry(message.id)
+      return false
+    },
+
+    CLEAR_CAPTURE_HISTORY: () => {
+      void clearCaptureHistory()
+      return false
+    },
+
+    UPDATE_CAPTURE_REVIEW: (message) => {
+      void updateCaptureReview(message.sessionId, message.edit)
+      return false
+    },
+
+    DISCARD_CAPTURE: (message, sender) => {
+      console.log("[Background] DISCARD_CAPTURE", message.sessionId)
+      const tabId = sender.tab?.id ?? message.tabId
+      if (tabId) {
+        void dispatchCaptureEvent(tabId, { type: "DISCARD" })
+      }
+      lastFrames.delete(message.sessionId)
+      void removeCaptureReview(message.sessionId)
+      void deleteSession(message.sessionId).catch((err) => {
+        console.warn("[Background] Failed to discard stored pages:", err)
+      })
+      if (message.documentKey) {
+        void removeCaptureSession(message.documentKey)
+      }
+      return false
+    },
+
+    SAVE_CAPTURE_SESSION: (message) => {
+      void saveCaptureSession(message.session)
+      return false
+    },
+
+    CLEAR_CAPTURE_SESSION: (message) => {
+      console.log("[Background] CLEAR_CAPTURE_SESSION", message.documentKey)
+      void removeCaptureSession(message.documentKey)
+      return false
+    },
+
+    GET_CAPTURE_SESSION: (message, _sender, sendResponse) => {
+      getResumableSession(message.documentKey)
+        .then((session) => sendResponse({ session }))
+        .catch((error) => {
+          console.error("[Background] Failed to load capture session:", error)
+          sendResponse({ session: null })
+        })
+      return true
+    }
+  })
 )
 
 // Listen for messages from the web app (external)
@@ -499,4 +921,90 @@ chrome.runtime.onMessageExternal.addListener(
   }
 )
 
+// Chrome ends debugger sessions when the tab closes or the user cancels the
+// debugging banner; a capture still running in the tab is told why it stopped
+function handleDebuggerDetach(
+  source: chrome.debugger.Debuggee,
+  reason: string
+) {
+  if (!debuggerSessions.handleDetach(source) || source.tabId === undefined) {
+    return
+  }
+  tabCaptureBackends.delete(source.tabId)
+
+  console.warn("[Background] Debugger session ended by Chrome", {
+    tabId: source.tabId,
+    reason
+  })
+  if (reason === "target_closed") {
+    return
+  }
+
+  sendTabMessage(source.tabId, {
+    type: "CAPTURE_INTERRUPTED",
+    error: describeDebuggerDetach(reason)
+  }).catch(() => {
+    // The tab has no capture listening
+  })
+}
+
+// chrome.debugger only exists once the optional permission is granted
+function listenForDebuggerDetach() {
+  if (
+    chrome.debugger &&
+    !chrome.debugger.onDetach.hasListener(handleDebuggerDetach)
+  ) {
+    chrome.debugger.onDetach.addListener(handleDebuggerDetach)
+  }
+}
+
+listenForDebuggerDetach()
+chrome.permissions.onAdded.addListener(listenForDebuggerDetach)
+
+// A capture can't outlive its page: a closed or reloaded tab's capture is
+// over, whatever its last status said
+chrome.tabs.onRemoved.addListener((tabId) => {
+  void removeTabCaptureState(tabId)
+})
+
+chrome.tabs.onUpdated.addListener(async (tabId, changeInfo) => {
+  if (changeInfo.status !== "loading") {
+    return
+  }
+  const { phase } = await getTabCaptureState(tabId)
+  if (isCapturePhase(phase)) {
+    console.log("[Background] Tab reloaded during capture", { tabId, phase })
+    void dispatchCaptureEvent(tabId, { type: "INTERRUPT" })
+  }
+})
+
+// Resume uploads interrupted by the worker being terminated, on browser
+// startup, on keepalive alarms and whenever this worker starts
+chrome.runtime.onStartup.addListener(() => {
+  console.log("[Background] Browser startup; checking upload queue")
+  // Tabs from the last session are gone
+  void clearCaptureStates()
+  void resumeUploadJobs()
+  void cleanupAbandonedUploads()
+})
+
+// Settings saved by an older version are rewritten in the current shape
+chrome.runtime.onInstalled.addListener(() => {
+  void migrateStoredSettings().catch((error) => {
+    console.error("[Background] Failed to migrate settings:", error)
+  })
+})
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === UPLOAD_QUEUE_ALARM) {
+    void resumeUploadJobs()
+  }
+  if (alarm.name === UPLOAD_CLEANUP_ALARM) {
+    void cleanupAbandonedUploads()
+  }
+})
+
+void chrome.alarms.create(UPLOAD_CLEANUP_ALARM, { periodInMinutes: 60 })
+void resumeUploadJobs()
+
 console.log("Flow background script loaded")
@@ -0,0 +1,627 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import { CAPTURE_METADATA_VERSION } from "../lib/capture-metadata"
+import type { TabCaptureStates } from "../lib/capture-state"
+import {
+  getChromeAlarms,
+  getChromeStorageData,
+  resetLifecycleListeners,
+  setChromeStorageData
+} from "../test/mocks/chrome"
+import { mockFetchResponse } from "../test/utils"
+import type { UploadJob } from "./upload-queue"
+
+// Hoisted so the same mocks are used after vi.resetModules() re-imports
+// the queue to simulate a fresh service worker
+const mocks = vi.hoisted(() => ({
+  uploadScreenshots: vi.fn(),
+  abortAbandonedUploads: vi.fn(async () => 0),
+  getPages: vi.fn(async (sessionId: string, pageNumbers: number[] = []) =>
+    pageNumbers.map((pageNumber) => ({
+      sessionId,
+      pageNumber,
+      blob: new Blob([`page-${pageNumber}`], { type: "image/png" }),
+      capturedAt: new Date().toISOString()
+    }))
+  ),
+  deleteSession: vi.fn(async () => {})
+}))
+
+vi.mock("../lib/upload-to-r2", () => ({
+  uploadScreenshots: mocks.uploadScreenshots,
+  abortAbandonedUploads: mocks.abortAbandonedUploads
+}))
+
+vi.mock("../lib/page-store", () => ({
+  getPages: mocks.getPages,
+  deleteSession: mocks.deleteSession
+}))
+
+vi.mock("../lib/clerk-auth", () => ({
+  getAuthHeaders: vi.fn(async () => ({}))
+}))
+
+vi.mock("../lib/storage", () => ({
+  storage: {
+    set: vi.fn(async (key: string, value: unknown) => {
+      await chrome.storage.local.set({ [key]: value })
+    }),
+    get: vi.fn(async (key: string) => {
+      return new Promise((resolve) => {
+        chrome.storage.local.get([key], (result) => {
+          resolve(result[key])
+        })
+      })
+    })
+  }
+}))
+
+// Load the queue as a freshly started service worker would
+async function startWorker() {
+  vi.resetModules()
+  resetLifecycleListeners()
+  return import("./upload-queue")
+}
+
+function tabState(tabId: number) {
+  return (getChromeStorageData().captureStates as TabCaptureStates)[tabId]
+}
+
+function storedJobs() {
+  return (getChromeStorageData().uploadJobs ?? {}) as Record<string, UploadJob>
+}
+
+const metadata = {
+  url: "https://docsend.com/view/test",
+  totalPages: 2,
+  capturedAt: new Date().toISOString()
+}
+
+describe("background/upload-queue", () => {
+  beforeEach(() => {
+    mocks.uploadScreenshots.mockReset()
+    global.fetch = vi.fn().mockResolvedValue(
+      mockFetchResponse({
+        success: true,
+        materialId: "material-1",
+        imageCount: 2
+      })
+    )
+  })
+
+  it("should persist per-page progress while uploading", async () => {
+    const { enqueueUpload, UPLOAD_QUEUE_ALARM } = await startWorker()
+    let recorded!: () => void
+    const progressRecorded = new Promise<void>((resolve) => {
+      recorded = resolve
+    })
+
+    mocks.uploadScreenshots.mockImplementation(
+      async (_blobs, _onProgress, _concurrency, options) => {
+        await options.onScreenshotUploaded(0, {
+          key: "key-1",
+          filename: "page_1.png"
+        })
+        recorded()
+        // The worker is "terminated" before this upload finishes
+        return new Promise(() => {})
+      }
+    )
+
+    const job = await enqueueUpload({
+      sessionId: "session-1",
+      pageNumbers: [1, 2],
+      metadata,
+      tabId: 1
+    })
+    await progressRecorded
+
+    expect(getChromeAlarms().has(UPLOAD_QUEUE_ALARM)).toBe(true)
+    expect(storedJobs()[job.id]).toMatchObject({
+      sessionId: "session-1",
+      status: "uploading",
+      attempts: 1,
+      pages: [
+        { pageNumber: 1, status: "uploaded", key: "key-1" },
+        { pageNumber: 2, status: "pending" }
+      ]
+    })
+    // Multipart sessions are persisted per captured page
+    const [, , , options] = mocks.uploadScreenshots.mock.calls[0]
+    expect(options.sessionIds).toEqual(["session-1:1", "session-1:2"])
+  })
+
+  it("should continue an interrupted job after the worker restarts", async () => {
+    const firstWorker = await startWorker()
+    let interrupted!: () => void
+    const workerKilled = new Promise<void>((resolve) => {
+      interrupted = resolve
+    })
+
+    mocks.uploadScreenshots.mockImplementationOnce(
+      async (_blobs, _onProgress, _concurrency, options) => {
+        await options.onScreenshotUploaded(0, {
+          key: "key-1",
+          filename: "page_1.png"
+        })
+        interrupted()
+        return new Promise(() => {})
+      }
+    )
+
+    const job = await firstWorker.enqueueUpload({
+      sessionId: "session-1",
+      pageNumbers: [1, 2],
+      metadata,
+      tabId: 1
+    })
+    await workerKilled
+
+    // New worker instance: only page 2 is left
+    mocks.uploadScreenshots.mockResolvedValueOnce([
+      { status: "uploaded", key: "key-2", filename: "page_2.png" }
+    ])
+    const secondWorker = await startWorker()
+    await secondWorker.resumeUploadJobs()
+
+    await vi.waitFor(() =>
+      expect(mocks.deleteSession).toHaveBeenCalledWith("session-1")
+    )
+
+    expect(mocks.getPages).toHaveBeenLastCalledWith("session-1", [2])
+    const [blobs, , , options] = mocks.uploadScreenshots.mock.calls[1]
+    expect(blobs).toHaveLength(1)
+    expect(options.filenames).toEqual(["page_2.png"])
+    expect(options.sessionIds).toEqual(["session-1:2"])
+
+    const [, finalizeInit] = (global.fetch as ReturnType<typeof vi.fn>).mock
+      .calls[0]
+    expect(JSON.parse(finalizeInit.body)).toMatchObject({
+      imageKeys: ["key-1", "key-2"],
+      originalFileNames: ["page_1.png", "page_2.png"]
+    })
+
+    expect(storedJobs()[job.id]).toBeUndefined()
+    expect(tabState(1)).toMatchObject({
+      phase: "done",
+      upload: { percent: 100 }
+    })
+    await vi.waitFor(() =>
+      expect(getChromeStorageData().captureHistory).toEqual([
+        expect.objectContaining({
+          id: job.id,
+          url: metadata.url,
+          pageCount: 2,
+          status: "uploaded"
+        })
+      ])
+    )
+    await vi.waitFor(() =>
+      expect(getChromeAlarms().has(secondWorker.UPLOAD_QUEUE_ALARM)).toBe(false)
+    )
+  })
+
+  it("should give up on a job that keeps getting interrupted", async () => {
+    const now = new Date().toISOString()
+    setChromeStorageData({
+      uploadJobs: {
+        "job-1": {
+          id: "job-1",
+          sessionId: "session-1",
+          tabId: 1,
+          metadata,
+          status: "uploading",
+          pages: [{ pageNumber: 1, status: "pending", filename: "page_1.png" }],
+          attempts: 5,
+          createdAt: now,
+          updatedAt: now
+        } satisfies UploadJob
+      }
+    })
+
+    const { resumeUploadJobs } = await startWorker()
+    await resumeUploadJobs()
+
+    await vi.waitFor(() =>
+      expect(tabState(1)).toMatchObject({
+        phase: "error",
+        error: expect.stringContaining("kept getting interrupted")
+      })
+    )
+    expect(mocks.uploadScreenshots).not.toHaveBeenCalled()
+    expect(storedJobs()["job-1"]).toBeUndefined()
+    await vi.waitFor(() =>
+      expect(mocks.deleteSession).toHaveBeenCalledWith("session-1")
+    )
+  })
+
+  it("should keep a job whose finalize failed and only finalize it on retry", async () => {
+    const { enqueueUpload, retryUploadJob } = await startWorker()
+
+    mocks.uploadScreenshots.mockResolvedValueOnce([
+      { status: "uploaded", key: "key-1", filename: "page_1.png" },
+      { status: "uploaded", key: "key-2", filename: "page_2.png" }
+    ])
+    ;(global.fetch as ReturnType<typeof vi.fn>).mockRejectedValueOnce(
+      new TypeError("Failed to fetch")
+    )
+
+    const job = await enqueueUpload({
+      sessionId: "session-1",
+      pageNumbers: [1, 2],
+      metadata,
+      tabId: 1
+    })
+
+    await vi.waitFor(() =>
+      expect(tabState(1)).toMatchObject({
+        phase: "error",
+        upload: { jobId: job.id, failedPages: [] }
+      })
+    )
+    expect(storedJobs()[job.id]).toMatchObject({
+      status: "failed",
+      pages: [
+        { status: "uploaded", key: "key-1" },
+        { status: "uploaded", key: "key-2" }
+      ]
+    })
+    expect(mocks.deleteSession).not.toHaveBeenCalled()
+
+    await expect(retryUploadJob(job.id)).resolves.toBe(true)
+
+    await vi.waitFor(() => expect(tabState(1).phase).toBe("done"))
+    expect(mocks.uploadScreenshots).toHaveBeenCalledTimes(1)
+    const [, finalizeInit] = (global.fetch as ReturnType<typeof vi.fn>).mock
+      .calls[1]
+    expect(JSON.parse(finalizeInit.body)).toMatchObject({
+      imageKeys: ["key-1", "key-2"]
+    })
+    expect(storedJobs()[job.id]).toBeUndefined()
+    expect(mocks.deleteSession).toHaveBeenCalledWith("session-1")
+  })
+
+  it("should keep a job with failed pages and finalize it once retried", async () => {
+    const { enqueueUpload, retryUploadJob, UPLOAD_QUEUE_ALARM } =
+      await startWorker()
+
+    mocks.uploadScreenshots.mockResolvedValueOnce([
+      { status: "uploaded", key: "key-1", filename: "page_1.png" },
+      { status: "failed", filename: "page_2.png", error: "Network error" }
+    ])
+
+    const job = await enqueueUpload({
+      sessionId: "session-1",
+      pageNumbers: [1, 2],
+      metadata,
+      tabId: 1
+    })
+
+    await vi.waitFor(() =>
+      expect(tabState(1)).toMatchObject({
+        phase: "error",
+        error: "1 of 2 pages failed to upload: Network error",
+        upload: { jobId: job.id, failedPages: [2] }
+      })
+    )
+    expect(getChromeStorageData().captureHistory).toEqual([
+      expect.objectContaining({
+        id: job.id,
+        status: "failed",
+        failedPages: [2]
+      })
+    ])
+    expect(storedJobs()[job.id]).toMatchObject({
+      status: "failed",
+      pages: [
+        { pageNumber: 1, status: "uploaded", key: "key-1" },
+        { pageNumber: 2, status: "failed", error: "Network error" }
+      ]
+    })
+    expect(global.fetch).not.toHaveBeenCalled()
+    expect(mocks.deleteSession).not.toHaveBeenCalledWith("session-1")
+    await vi.waitFor(() =>
+      expect(getChromeAlarms().has(UPLOAD_QUEUE_ALARM)).toBe(false)
+    )
+
+    // Only the failed page is uploaded again
+    mocks.uploadScreenshots.mockResolvedValueOnce([
+      { status: "uploaded", key: "key-2", filename: "page_2.png" }
+    ])
+    expect(await retryUploadJob(job.id)).toBe(true)
+
+    await vi.waitFor(() =>
+      expect(mocks.deleteSession).toHaveBeenCalledWith("session-1")
+    )
+    expect(mocks.getPages).toHaveBeenLastCalledWith("session-1", [2])
+    const [finalizeUrl, finalizeInit] = (
+      global.fetch as ReturnType<typeof vi.fn>
+    ).mock.calls[0]
+    expect(finalizeUrl).toContain("/api/extension/finalize-docsend-capture")
+    expect(JSON.parse(finalizeInit.body)).toMatchObject({
+      imageKeys: ["key-1", "key-2"],
+      originalFileNames: ["page_1.png", "page_2.png"]
+    })
+    expect(storedJobs()[job.id]).toBeUndefined()
+
+    // The retried job replaces its failed entry in the history
+    await vi.waitFor(() =>
+      expect(getChromeStorageData().captureHistory).toEqual([
+        expect.objectContaining({
+          id: job.id,
+          status: "uploaded",
+          materialId: "material-1"
+        })
+      ])
+    )
+    expect(
+      (getChromeStorageData().captureHistory as any[])[0].failedPages
+    ).toBeUndefined()
+  })
+
+  it("should report the HTTP status of a finalize error that isn't JSON", async () => {
+    const { enqueueUpload } = await startWorker()
+    mocks.uploadScreenshots.mockResolvedValueOnce([
+      { status: "uploaded", key: "key-1", filename: "page_1.png" }
+    ])
+    ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      ok: false,
+      status: 502,
+      json: () => Promise.reject(new SyntaxError("Unexpected token '<'"))
+    } as Response)
+
+    await enqueueUpload({
+      sessionId: "session-1",
+      pageNumbers: [1],
+      metadata,
+      tabId: 1
+    })
+
+    await vi.waitFor(() =>
+      expect(tabState(1)).toMatchObject({
+        phase: "error",
+        error: expect.stringContaining("Failed to finalize capture (HTTP 502)")
+      })
+    )
+  })
+
+  it("should upload with the saved settings", async () => {
+    setChromeStorageData({
+      settings: {
+        uploadConcurrency: 2,
+        notifications: false,
+        frontendUrl: "https://flow.example.com"
+      }
+    })
+    const { enqueueUpload } = await startWorker()
+
+    mocks.uploadScreenshots.mockResolvedValueOnce([
+      { status: "uploaded", key: "key-1", filename: "page_1.png" },
+      { status: "uploaded", key: "key-2", filename: "page_2.png" }
+    ])
+
+    await enqueueUpload({
+      sessionId: "session-1",
+      pageNumbers: [1, 2],
+      metadata,
+      tabId: 1
+    })
+
+    // Sent once the notification would have been shown
+    await vi.waitFor(() =>
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "UPLOAD_SUCCESS" })
+      )
+    )
+    const [, , concurrency] = mocks.uploadScreenshots.mock.calls[0]
+    expect(concurrency).toBe(2)
+    expect(global.fetch).toHaveBeenCalledWith(
+      "https://flow.example.com/api/extension/finalize-docsend-capture",
+      expect.anything()
+    )
+    expect(chrome.notifications.create).not.toHaveBeenCalled()
+  })
+
+  it("should finalize with the chosen save destination", async () => {
+    const { enqueueUpload } = await startWorker()
+    const destination = {
+      folderId: "folder-1",
+      tags: ["fintech", "seed"],
+      note: "Intro from Sam"
+    }
+    mocks.uploadScreenshots.mockResolvedValueOnce([
+      { status: "uploaded", key: "key-1", filename: "page_1.png" },
+      { status: "uploaded", key: "key-2", filename: "page_2.png" }
+    ])
+
+    await enqueueUpload({
+      sessionId: "session-1",
+      pageNumbers: [1, 2],
+      metadata,
+      tabId: 1,
+      destination
+    })
+
+    await vi.waitFor(() => expect(global.fetch).toHaveBeenCalled())
+    const [, finalizeInit] = (global.fetch as ReturnType<typeof vi.fn>).mock
+      .calls[0]
+    expect(JSON.parse(finalizeInit.body).destination).toEqual(destination)
+  })
+
+  it("should remember the material the document was captured into", async () => {
+    const { enqueueUpload } = await startWorker()
+    mocks.uploadScreenshots.mockResolvedValueOnce([
+      { status: "uploaded", key: "key-1", filename: "page_1.png" },
+      { status: "uploaded", key: "key-2", filename: "page_2.png" }
+    ])
+
+    await enqueueUpload({
+      sessionId: "session-1",
+      pageNumbers: [1, 2],
+      metadata: { ...metadata, previousMaterialId: "material-0" },
+      tabId: 1
+    })
+
+    await vi.waitFor(() =>
+      expect(getChromeStorageData().materialLookups).toBeDefined()
+    )
+    const [, finalizeInit] = (global.fetch as ReturnType<typeof vi.fn>).mock
+      .calls[0]
+    expect(JSON.parse(finalizeInit.body).metadata).toMatchObject({
+      previousMaterialId: "material-0"
+    })
+    expect(getChromeStorageData().materialLookups).toEqual({
+      "docsend.com/view/test": {
+        material: expect.objectContaining({ id: "material-1" }),
+        checkedAt: expect.any(String)
+      }
+    })
+  })
+
+  it("should finalize with versioned metadata for every page", async () => {
+    const { enqueueUpload } = await startWorker()
+
+    mocks.getPages.mockImplementationOnce(async (sessionId, pageNumbers) =>
+      pageNumbers.map((pageNumber) => ({
+        sessionId,
+        pageNumber,
+        blob: new Blob([`page-${pageNumber}`], { type: "image/png" }),
+        capturedAt: new Date().toISOString(),
+        captureMode: "slide" as const,
+        width: 1600,
+        height: 900
+      }))
+    )
+    mocks.uploadScreenshots.mockResolvedValueOnce([
+      { status: "uploaded", key: "key-2", filename: "page_2.png" },
+      { status: "uploaded", key: "key-1", filename: "page_1.png" }
+    ])
+
+    await enqueueUpload({
+      sessionId: "session-1",
+      pageNumbers: [2, 1],
+      metadata: {
+        ...metadata,
+        title: "Series A Deck",
+        sender: "Acme",
+        viewerEmail: "investor@example.com",
+        viewerId: "docsend",
+        viewport: { width: 1280, height: 800, devicePixelRatio: 2 }
+      },
+      tabId: 1
+    })
+
+    await vi.waitFor(() => expect(global.fetch).toHaveBeenCalled())
+    const [, finalizeInit] = (global.fetch as ReturnType<typeof vi.fn>).mock
+      .calls[0]
+    expect(JSON.parse(finalizeInit.body).metadata).toEqual({
+      ...metadata,
+      version: CAPTURE_METADATA_VERSION,
+      title: "Series A Deck",
+      sender: "Acme",
+      viewerEmail: "investor@example.com",
+      viewerId: "docsend",
+      viewport: { width: 1280, height: 800, devicePixelRatio: 2 },
+      pages: [
+        { pageNumber: 2, width: 1600, height: 900, captureMode: "slide" },
+        { pageNumber: 1, width: 1600, height: 900, captureMode: "slide" }
+      ]
+    })
+  })
+
+  it("should not resume failed jobs until they are retried", async () => {
+    const now = new Date().toISOString()
+    setChromeStorageData({
+      uploadJobs: {
+        "job-1": {
+          id: "job-1",
+          sessionId: "session-1",
+          tabId: 1,
+          metadata,
+          status: "failed",
+          pages: [
+            {
+              pageNumber: 1,
+              status: "failed",
+              filename: "page_1.png",
+              error: "Network error"
+            }
+          ],
+          attempts: 1,
+          createdAt: now,
+          updatedAt: now
+        } satisfies UploadJob
+      }
+    })
+
+    const { resumeUploadJobs, UPLOAD_QUEUE_ALARM } = await startWorker()
+    await resumeUploadJobs()
+
+    expect(mocks.uploadScreenshots).not.toHaveBeenCalled()
+    expect(getChromeAlarms().has(UPLOAD_QUEUE_ALARM)).toBe(false)
+    expect(storedJobs()["job-1"]).toBeDefined()
+  })
+
+  it("should not abort multipart uploads that queued jobs will resume", async () => {
+    const now = new Date().toISOString()
+    setChromeStorageData({
+      uploadJobs: {
+        "job-1": {
+          id: "job-1",
+          sessionId: "session-1",
+          tabId: 1,
+          metadata,
+          status: "uploading",
+          pages: [
+            { pageNumber: 1, status: "uploaded", filename: "page_1.png" },
+            { pageNumber: 2, status: "pending", filename: "page_2.png" }
+          ],
+          attempts: 1,
+          createdAt: now,
+          updatedAt: now
+        } satisfies UploadJob
+      }
+    })
+
+    const { cleanupAbandonedUploads } = await startWorker()
+    await cleanupAbandonedUploads()
+
+    expect(mocks.abortAbandonedUploads).toHaveBeenCalledWith(undefined, [
+      "session-1:1",
+      "session-1:2"
+    ])
+  })
+
+  it("should fail an upload state left in progress without a job", async () => {
+    setChromeStorageData({
+      captureStates: {
+        1: {
+          tabId: 1,
+          phase: "uploading",
+          url: metadata.url,
+          currentPage: 0,
+          totalPages: null,
+          capturedCount: 10,
+          upload: {
+            currentFile: 3,
+            totalFiles: 10,
+            percent: 30,
+            jobId: "gone"
+          },
+          updatedAt: new Date().toISOString()
+        }
+      } satisfies TabCaptureStates
+    })
+
+    const { resumeUploadJobs } = await startWorker()
+    await resumeUploadJobs()
+
+    await vi.waitFor(() =>
+      expect(tabState(1)).toMatchObject({
+        phase: "error",
+        error: expect.stringContaining("interrupted")
+      })
+    )
+    expect(tabState(1).upload?.jobId).toBeUndefined()
+  })
+})
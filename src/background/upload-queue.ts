@@ -0,0 +1,798 @@
+/**
+ * Durable upload queue
+ * Upload jobs are persisted with per-page progress (R2 keys, plus multipart
+ * upload ids and completed part ETags in the multipart session store) so an
+ * upload cut off by the service worker being terminated continues where it
+ * stopped once the worker wakes. Pages that fail to upload leave the job in
+ * a "failed" state so just those pages can be retried; so does a failed
+ * finalize, whose retry only creates the material from the uploaded keys.
+ * Cancelling a job aborts its requests and its open multipart uploads.
+ */
+
+import {
+  createHistoryEntry,
+  expireHistoryRetry,
+  recordCapture
+} from "../lib/capture-history"
+import {
+  buildCaptureMetadata,
+  getPageDetails,
+  type PageDetails
+} from "../lib/capture-metadata"
+import { getDocumentKey } from "../lib/capture-session"
+import { isUploadPhase } from "../lib/capture-state"
+import { getAuthHeaders } from "../lib/clerk-auth"
+import { withFileExtension } from "../lib/image-encoding"
+import { saveMaterialLookup } from "../lib/material-lookup"
+import {
+  sendMessage,
+  sendTabMessage,
+  type Message,
+  type UploadMetadata
+} from "../lib/messages"
+import { getMultipartSessionTtlMs } from "../lib/multipart-sessions"
+import { deleteSession, getPages } from "../lib/page-store"
+import type { SaveDestination } from "../lib/save-destination"
+import { getSettings, getWebAppUrl } from "../lib/settings"
+import { storage } from "../lib/storage"
+import {
+  abortAbandonedUploads,
+  abortMultipartSessions,
+  uploadScreenshots
+} from "../lib/upload-to-r2"
+import { createWriteQueue } from "../lib/write-queue"
+import { dispatchCaptureEvent, getCaptureStates } from "./capture-states"
+
+export const UPLOAD_JOBS_KEY = "uploadJobs"
+
+// Wakes the worker while jobs are queued so an interrupted job is resumed
+export const UPLOAD_QUEUE_ALARM = "flow-upload-queue"
+const KEEPALIVE_PERIOD_MINUTES = 0.5
+
+// A job that keeps getting interrupted is given up after this many starts
+const MAX_JOB_ATTEMPTS = 5
+
+// Size and capture mode are copied from the page store once the page is
+// uploaded, for the finalize call
+export interface UploadJobPage extends PageDetails {
+  status: "pending" | "uploaded" | "failed"
+  filename: string
+  key?: string
+  // Why the last attempt at this page failed
+  error?: string
+}
+
+export interface UploadJob {
+  id: string
+  sessionId: string
+  tabId: number
+  metadata: UploadMetadata
+  // Folder, tags and note the material is created with
+  destination?: SaveDestination
+  // "failed" jobs wait for the user to retry their failed pages, or just
+  // the finalize call when every page was uploaded
+  status: "queued" | "uploading" | "finalizing" | "failed"
+  pages: UploadJobPage[]
+  attempts: number
+  createdAt: string
+  updatedAt: string
+}
+
+export type UploadJobs = Record<string, UploadJob>
+
+interface ActiveJob {
+  controller: AbortController
+  // Settles once the job has stopped, however it ended
+  done: Promise<void>
+}
+
+// Jobs this worker instance is running; any other persisted job was
+// interrupted and needs resuming
+const activeJobs = new Map<string, ActiveJob>()
+
+// Desktop notification about a job, unless turned off in settings
+async function notify(title: string, message: string) {
+  if (!(await getSettings()).notifications) {
+    return
+  }
+  chrome.notifications.create({
+    type: "basic",
+    iconUrl: chrome.runtime.getURL("icon.png") || "",
+    title,
+    message
+  })
+}
+
+export async function getUploadJobs(): Promise<UploadJobs> {
+  return (await storage.get<UploadJobs>(UPLOAD_JOBS_KEY)) ?? {}
+}
+
+// Job updates happen per part from several upload workers, so writes are
+// chained to keep each read-modify-write intact
+const enqueueWrite = createWriteQueue()
+
+function updateJobs<T>(update: (jobs: UploadJobs) => T): Promise<T> {
+  return enqueueWrite(async () => {
+    const jobs = await getUploadJobs()
+    const value = update(jobs)
+    await storage.set(UPLOAD_JOBS_KEY, jobs)
+    return value
+  })
+}
+
+function updateJob(
+  jobId: string,
+  update: (job: UploadJob) => void
+): Promise<UploadJob> {
+  return updateJobs((jobs) => {
+    const job = jobs[jobId]
+    if (!job) {
+      throw new Error(`Upload job ${jobId} no longer exists`)
+    }
+    update(job)
+    job.updatedAt = new Date().toISOString()
+    return job
+  })
+}
+
+function updateJobPage(
+  jobId: string,
+  pageNumber: number,
+  update: (page: UploadJobPage) => void
+): Promise<UploadJob> {
+  return updateJob(jobId, (job) => {
+    const page = job.pages.find((p) => p.pageNumber === pageNumber)
+    if (page) {
+      update(page)
+    }
+  })
+}
+
+function removeJob(jobId: string): Promise<void> {
+  return updateJobs((jobs) => {
+    delete jobs[jobId]
+  })
+}
+
+async function startKeepalive() {
+  await chrome.alarms.create(UPLOAD_QUEUE_ALARM, {
+    periodInMinutes: KEEPALIVE_PERIOD_MINUTES
+  })
+}
+
+// Failed jobs stay persisted for a retry but have nothing to run
+function getRunnableJobs(jobs: UploadJobs): UploadJob[] {
+  return Object.values(jobs).filter((job) => job.status !== "failed")
+}
+
+async function stopKeepaliveIfIdle() {
+  const jobs = await getUploadJobs()
+  if (getRunnableJobs(jobs).length === 0) {
+    await chrome.alarms.clear(UPLOAD_QUEUE_ALARM)
+  }
+}
+
+/**
+ * Persist an upload job for the given stored pages and start running it
+ */
+export async function enqueueUpload({
+  sessionId,
+  pageNumbers,
+  metadata,
+  tabId,
+  destination
+}: {
+  sessionId: string
+  pageNumbers: number[]
+  metadata: UploadMetadata
+  tabId: number
+  destination?: SaveDestination
+}): Promise<UploadJob> {
+  const now = new Date().toISOString()
+  const job: UploadJob = {
+    id: crypto.randomUUID(),
+    sessionId,
+    tabId,
+    metadata,
+    destination,
+    status: "queued",
+    pages: pageNumbers.map((pageNumber, index) => ({
+      pageNumber,
+      status: "pending",
+      filename: `page_${index + 1}.png`
+    })),
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now
+  }
+
+  await updateJobs((jobs) => {
+    jobs[job.id] = job
+  })
+  await startKeepalive()
+
+  // Only after the job is saved, or a resume running in between would fail
+  // the upload state for having no job behind it
+  await dispatchCaptureEvent(tabId, {
+    type: "UPLOAD",
+    upload: {
+      currentFile: 0,
+      totalFiles: pageNumbers.length,
+      percent: 0,
+      jobId: job.id
+    },
+    url: metadata.url,
+    anomalies: metadata.anomalies
+  })
+
+  console.log(`[UploadQueue] Enqueued job ${job.id}`, {
+    sessionId,
+    pages: pageNumbers.length
+  })
+
+  void runUploadJob(job.id)
+  return job
+}
+
+/**
+ * Pick up persisted jobs that no worker is running, e.g. after the service
+ * worker was terminated mid-upload. Safe to call repeatedly.
+ */
+export async function resumeUploadJobs(): Promise<void> {
+  const jobs = getRunnableJobs(await getUploadJobs())
+
+  if (jobs.length === 0) {
+    await chrome.alarms.clear(UPLOAD_QUEUE_ALARM)
+
+    // Nothing left that could finish an upload still shown as in progress
+    if (activeJobs.size > 0) {
+      return
+    }
+    const stalled = Object.values(await getCaptureStates()).filter((state) =>
+      isUploadPhase(state.phase)
+    )
+    for (const state of stalled) {
+      console.warn("[UploadQueue] Failing upload state with no job behind it", {
+        tabId: state.tabId
+      })
+      await dispatchCaptureEvent(state.tabId, {
+        type: "FAIL",
+        error: "The upload was interrupted. Capture the document again.",
+        upload: { ...state.upload, jobId: undefined, failedPages: undefined }
+      })
+    }
+    return
+  }
+
+  await startKeepalive()
+
+  for (const job of jobs) {
+    if (!activeJobs.has(job.id)) {
+      console.log(`[UploadQueue] Resuming interrupted job ${job.id}`, {
+        status: job.status,
+        uploaded: countUploaded(job),
+        total: job.pages.length
+      })
+      void runUploadJob(job.id)
+    }
+  }
+}
+
+// Multipart sessions are keyed by captured page rather than by job, so any
+// later attempt at uploading the same page resumes its parts
+function getMultipartSessionId(sessionId: string, pageNumber: number) {
+  return `${sessionId}:${pageNumber}`
+}
+
+/**
+ * Upload the failed pages of a job again, then finalize it once every page
+ * is uploaded. Returns false if the job no longer exists.
+ */
+export async function retryUploadJob(jobId: string): Promise<boolean> {
+  const job = (await getUploadJobs())[jobId]
+  if (!job) {
+    console.warn(`[UploadQueue] No upload job ${jobId} to retry`)
+    return false
+  }
+  if (job.status !== "failed") {
+    // Already running, e.g. retried from both the popup and the page
+    return true
+  }
+
+  await updateJob(jobId, (j) => {
+    j.status = "queued"
+    j.attempts = 0
+    j.pages.forEach((page) => {
+      if (page.status === "failed") {
+        page.status = "pending"
+        delete page.error
+      }
+    })
+  })
+  await startKeepalive()
+
+  console.log(`[UploadQueue] Retrying failed pages of job ${jobId}`)
+  void runUploadJob(jobId)
+  return true
+}
+
+/**
+ * Drop failed jobs nobody retried within the multipart session TTL, then
+ * abort multipart uploads abandoned for longer than that, leaving alone the
+ * ones remaining jobs are still going to resume
+ */
+export async function cleanupAbandonedUploads(): Promise<void> {
+  const cutoff = Date.now() - getMultipartSessionTtlMs()
+  const expired = await updateJobs((jobs) => {
+    const stale = Object.values(jobs).filter(
+      (job) =>
+        job.status === "failed" && new Date(job.updatedAt).getTime() < cutoff
+    )
+    stale.forEach((job) => delete jobs[job.id])
+    return stale
+  })
+  for (const job of expired) {
+    console.log(`[UploadQueue] Dropping failed job ${job.id} never retried`)
+    await expireHistoryRetry(job.id)
+    await deleteSession(job.sessionId).catch((err) => {
+      console.warn("[UploadQueue] Failed to clear stored pages:", err)
+    })
+  }
+
+  const jobs = Object.values(await getUploadJobs())
+  const keepIds = jobs.flatMap((job) =>
+    job.pages.map((page) =>
+      getMultipartSessionId(job.sessionId, page.pageNumber)
+    )
+  )
+
+  try {
+    const aborted = await abortAbandonedUploads(undefined, keepIds)
+    if (aborted > 0) {
+      console.log(
+        `[UploadQueue] Aborted ${aborted} abandoned multipart uploads`
+      )
+    }
+  } catch (error) {
+    console.warn("[UploadQueue] Failed to clean up abandoned uploads:", error)
+  }
+}
+
+function countUploaded(job: UploadJob) {
+  return job.pages.filter((page) => page.status === "uploaded").length
+}
+
+// Upload the job's remaining pages to R2, then finalize the material
+async function runUploadJob(jobId: string) {
+  if (activeJobs.has(jobId)) {
+    return
+  }
+  const controller = new AbortController()
+  let finished!: () => void
+  const done = new Promise<void>((resolve) => {
+    finished = resolve
+  })
+  activeJobs.set(jobId, { controller, done })
+
+  try {
+    const job = (await getUploadJobs())[jobId]
+    if (!job) {
+      return
+    }
+    await processJob(job, controller.signal)
+  } finally {
+    activeJobs.delete(jobId)
+    finished()
+    await stopKeepaliveIfIdle()
+  }
+}
+
+/**
+ * Stop a job's in-flight requests, abort its open multipart uploads and
+ * drop the job along with its stored pages. Returns false if there was no
+ * job left to cancel.
+ */
+export async function cancelUploadJob(jobId: string): Promise<boolean> {
+  const active = activeJobs.get(jobId)
+  if (active) {
+    active.controller.abort()
+    // Let it settle so no part is recorded after its session is aborted
+    await active.done
+  }
+
+  // Gone if it finished (or failed) before the abort landed
+  const job = (await getUploadJobs())[jobId]
+  if (!job) {
+    console.warn(`[UploadQueue] No upload job ${jobId} to cancel`)
+    return false
+  }
+
+  console.log(`[UploadQueue] Cancelling job ${jobId}`)
+  await removeJob(jobId)
+
+  try {
+    await abortMultipartSessions(
+      job.pages.map((page) =>
+        getMultipartSessionId(job.sessionId, page.pageNumber)
+      )
+    )
+  } catch (error) {
+    // The TTL sweep aborts them later
+    console.warn("[UploadQueue] Failed to abort multipart uploads:", error)
+  }
+
+  await deleteSession(job.sessionId).catch((err) => {
+    console.warn("[UploadQueue] Failed to clear stored pages:", err)
+  })
+
+  await dispatchCaptureEvent(job.tabId, { type: "CANCEL" })
+  await recordCapture(
+    createHistoryEntry(jobId, job.metadata, { status: "cancelled" })
+  )
+
+  const message: Message<"UPLOAD_CANCELLED"> = { type: "UPLOAD_CANCELLED" }
+
+  sendTabMessage(job.tabId, message).catch((err) => {
+    console.warn("[UploadQueue] Failed to send cancelled message:", err)
+  })
+
+  sendMessage(message).catch(() => {
+    // Ignore if no receivers
+  })
+
+  await stopKeepaliveIfIdle()
+  return true
+}
+
+// Keep the job and its stored pages so the failed pages can be retried;
+// with no failed pages, finalizing failed with `finalizeError`
+async function reportFailedJob(job: UploadJob, finalizeError?: string) {
+  const { id: jobId, tabId, metadata } = job
+  const totalFiles = job.pages.length
+  const failed = job.pages.filter((page) => page.status === "failed")
+  const failedPages = failed.map((page) => page.pageNumber)
+  const uploaded = countUploaded(job)
+  const errorMessage =
+    failed.length > 0
+      ? `${failed.length} of ${totalFiles} pages failed to upload: ${failed[0].error}`
+      : `The pages were uploaded but Flow couldn't save them: ${finalizeError}`
+
+  console.warn(`[UploadQueue] Job ${jobId} failed and is kept for a retry`, {
+    failedPages,
+    finalizeError
+  })
+
+  await dispatchCaptureEvent(tabId, {
+    type: "FAIL",
+    error: errorMessage,
+    upload: {
+      currentFile: uploaded,
+      totalFiles,
+      percent: Math.round((uploaded / totalFiles) * 100),
+      jobId,
+      failedPages
+    }
+  })
+  await recordCapture(
+    createHistoryEntry(jobId, metadata, {
+      status: "failed",
+      error: errorMessage,
+      failedPages
+    })
+  )
+
+  await notify(
+    "DocSend Upload Incomplete",
+    failed.length > 0
+      ? `${failed.length} of ${totalFiles} pages failed to upload. Open Flow to retry them.`
+      : "The pages were uploaded but not saved to Flow. Open Flow to retry."
+  )
+
+  const message: Message<"UPLOAD_ERROR"> = {
+    type: "UPLOAD_ERROR",
+    error: errorMessage,
+    jobId,
+    failedPages
+  }
+
+  sendTabMessage(tabId, message).catch((err) => {
+    console.warn("[UploadQueue] Failed to send error message:", err)
+  })
+
+  sendMessage(message).catch(() => {
+    // Ignore if no receivers
+  })
+}
+
+async function processJob(initialJob: UploadJob, signal: AbortSignal) {
+  const { id: jobId, tabId, metadata } = initialJob
+  const totalFiles = initialJob.pages.length
+  // Every page is in R2 once this is set, so a failure can be retried
+  let finalizing = false
+
+  try {
+    const job = await updateJob(jobId, (j) => {
+      j.attempts += 1
+      j.status = "uploading"
+    })
+
+    if (job.attempts > MAX_JOB_ATTEMPTS) {
+      throw new Error(
+        "The upload kept getting interrupted. Capture the document again."
+      )
+    }
+
+    const uploadedBefore = countUploaded(job)
+    const pending = job.pages.filter((page) => page.status !== "uploaded")
+
+    // Initialize upload state
+    await dispatchCaptureEvent(tabId, {
+      type: "UPLOAD",
+      upload: {
+        currentFile: uploadedBefore,
+        totalFiles,
+        percent: Math.round((uploadedBefore / totalFiles) * 100),
+        jobId
+      },
+      url: metadata.url
+    })
+
+    if (pending.length > 0) {
+      // Step 1: Read the remaining pages back from the page store
+      const pages = await getPages(
+        job.sessionId,
+        pending.map((page) => page.pageNumber)
+      )
+      if (pages.length !== pending.length) {
+        throw new Error(
+          `Only ${uploadedBefore + pages.length} of ${totalFiles} captured pages were found. Capture the document again.`
+        )
+      }
+
+      // Step 2: Upload screenshots directly to R2 using presigned URLs
+      const settings = await getSettings()
+      console.log(
+        `[UploadQueue] Uploading ${pending.length} of ${totalFiles} pages to R2...`
+      )
+
+      const results = await uploadScreenshots(
+        pages.map((page) => page.blob),
+        async (progress) => {
+          console.log(
+            `[UploadQueue] Upload progress: ${progress.currentFile}/${progress.totalFiles} files, ${progress.percent}%`
+          )
+
+          const currentFile = uploadedBefore + progress.currentFile
+          const percent = Math.round(
+            ((uploadedBefore + (progress.percent / 100) * pending.length) /
+              totalFiles) *
+              100
+          )
+
+          // Update storage and broadcast progress
+          // A late progress callback mustn't overwrite the cancelled state
+          if (signal.aborted) {
+            return
+          }
+
+          await dispatchCaptureEvent(tabId, {
+            type: "UPLOAD",
+            upload: { currentFile, totalFiles, percent, jobId }
+          })
+
+          // Send progress updates to content script in the specific tab
+          sendTabMessage(tabId, {
+            type: "UPLOAD_PROGRESS",
+            progress: { ...progress, currentFile, totalFiles, percent }
+          }).catch((err) => {
+            console.warn("[UploadQueue] Failed to send progress update:", err)
+          })
+        },
+        settings.uploadConcurrency,
+        {
+          // Extension follows the format the pages were encoded in
+          filenames: pending.map((page, index) =>
+            withFileExtension(page.filename, pages[index].blob.type)
+          ),
+          sessionIds: pending.map((page) =>
+            getMultipartSessionId(job.sessionId, page.pageNumber)
+          ),
+          onScreenshotUploaded: async (index, result) => {
+            await updateJobPage(jobId, pending[index].pageNumber, (page) => {
+              Object.assign(page, getPageDetails(pages[index]))
+              page.status = "uploaded"
+              page.key = result.key
+            })
+          },
+          signal
+        }
+      )
+
+      const updatedJob = await updateJob(jobId, (j) => {
+        results.forEach((result, index) => {
+          const page = j.pages.find(
+            (p) => p.pageNumber === pending[index].pageNumber
+          )
+          if (!page) {
+            return
+          }
+          if (result.status === "uploaded") {
+            Object.assign(page, getPageDetails(pages[index]))
+            page.status = "uploaded"
+            page.key = result.key
+            page.filename = result.filename
+          } else {
+            page.status = "failed"
+            page.error = result.error
+          }
+        })
+        if (j.pages.some((page) => page.status === "failed")) {
+          j.status = "failed"
+        }
+      })
+
+      if (updatedJob.status === "failed") {
+        await reportFailedJob(updatedJob)
+        return
+      }
+    }
+
+    const uploadedJob = await updateJob(jobId, (j) => {
+      j.status = "finalizing"
+    })
+    finalizing = true
+    await dispatchCaptureEvent(tabId, { type: "FINALIZE" })
+    const imageKeys = uploadedJob.pages.map((page) => page.key as string)
+    const originalFileNames = uploadedJob.pages.map((page) => page.filename)
+
+    console.log(`[UploadQueue] All screenshots uploaded to R2:`, imageKeys)
+
+    // Step 3: Finalize by creating the material
+    console.log(`[UploadQueue] Finalizing material creation...`)
+
+    const finalizeUrl = await getWebAppUrl(
+      "/api/extension/finalize-docsend-capture"
+    )
+    const authHeaders = await getAuthHeaders()
+    const finalizeResponse = await fetch(finalizeUrl, {
+      method: "POST",
+      headers: {
+        ...authHeaders,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({
+        imageKeys,
+        originalFileNames,
+        metadata: buildCaptureMetadata(metadata, uploadedJob.pages),
+        destination: uploadedJob.destination
+      }),
+      signal
+    })
+
+    if (!finalizeResponse.ok) {
+      // Gateways answer with HTML pages, so the body may not be JSON
+      const error = await finalizeResponse.json().catch(() => ({}))
+      throw new Error(
+        error.error ||
+          `Failed to finalize capture (HTTP ${finalizeResponse.status})`
+      )
+    }
+
+    const result = await finalizeResponse.json()
+    console.log(`[UploadQueue] Finalization successful:`, result)
+
+    await removeJob(jobId)
+
+    // The material now owns the images, so the local copies can go
+    await deleteSession(initialJob.sessionId).catch((err) => {
+      console.warn("[UploadQueue] Failed to clear stored pages:", err)
+    })
+
+    await dispatchCaptureEvent(tabId, { type: "DONE" })
+    await recordCapture(
+      createHistoryEntry(jobId, metadata, {
+        status: "uploaded",
+        materialId: result.materialId
+      })
+    )
+
+    // The document is in Flow now; capturing it again offers a new version
+    const documentKey = getDocumentKey(metadata.url)
+    if (documentKey && result.materialId) {
+      await saveMaterialLookup(documentKey, {
+        id: result.materialId,
+        title: metadata.title,
+        capturedAt: new Date().toISOString()
+      })
+    }
+
+    // Show success notification
+    await notify(
+      "DocSend Capture Complete",
+      `Successfully uploaded ${metadata.totalPages} pages to Flow`
+    )
+
+    // Send success message to content script in the specific tab
+    sendTabMessage(tabId, {
+      type: "UPLOAD_SUCCESS",
+      materialId: result.materialId,
+      imageCount: result.imageCount
+    }).catch((err) => {
+      console.warn("[UploadQueue] Failed to send success message:", err)
+    })
+
+    // Broadcast success globally
+    sendMessage({
+      type: "UPLOAD_SUCCESS",
+      materialId: result.materialId,
+      imageCount: result.imageCount
+    }).catch(() => {
+      // Ignore if no receivers
+    })
+  } catch (error) {
+    // cancelUploadJob cleans up and reports the cancellation
+    if (signal.aborted) {
+      console.log(`[UploadQueue] Job ${jobId} stopped after being cancelled`)
+      return
+    }
+
+    console.error("[UploadQueue] Upload error:", error)
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to upload captures"
+
+    // Keep the uploaded keys so a retry only calls finalize again
+    if (finalizing) {
+      const failedJob = await updateJob(jobId, (j) => {
+        j.status = "failed"
+      }).catch((err) => {
+        console.warn("[UploadQueue] Failed to keep job for a retry:", err)
+        return null
+      })
+      if (failedJob) {
+        await reportFailedJob(failedJob, errorMessage)
+        return
+      }
+    }
+
+    await removeJob(jobId).catch((err) => {
+      console.warn("[UploadQueue] Failed to remove failed job:", err)
+    })
+
+    // Nothing is left to retry, so the stored pages can go
+    await deleteSession(initialJob.sessionId).catch((err) => {
+      console.warn("[UploadQueue] Failed to clear stored pages:", err)
+    })
+
+    await dispatchCaptureEvent(tabId, {
+      type: "FAIL",
+      error: errorMessage,
+      upload: { currentFile: 0, totalFiles, percent: 0 }
+    })
+    await recordCapture(
+      createHistoryEntry(jobId, metadata, {
+        status: "failed",
+        error: errorMessage
+      })
+    )
+
+    // Show error notification
+    await notify("DocSend Upload Failed", errorMessage)
+
+    // Send error message to content script in the specific tab
+    sendTabMessage(tabId, {
+      type: "UPLOAD_ERROR",
+      error: errorMessage
+    }).catch((err) => {
+      console.warn("[UploadQueue] Failed to send error message:", err)
+    })
+
+    // Broadcast error globally
+    sendMessage({
+      type: "UPLOAD_ERROR",
+      error: errorMessage
+    }).catch(() => {
+      // Ignore if no receivers
+    })
+  }
+}
@@ -1,28 +1,113 @@
 import type { PlasmoCSConfig } from "plasmo"
 
+import type { DocumentDetails } from "./lib/capture-metadata"
+import {
+  getCaptureResolution,
+  type CaptureResolution
+} from "./lib/capture-resolution"
+import {
+  getDocumentKey,
+  getResumePage,
+  type CaptureSession
+} from "./lib/capture-session"
+import type { CaptureAnomaly, FrameAnomaly } from "./lib/frame-analysis"
+import { blobToDataUrl, extractPageImage } from "./lib/image-extraction"
+import {
+  handleMessages,
+  sendMessage,
+  type CaptureStatus,
+  type MessageResponse,
+  type StoredPageResponse,
+  type ZoomResponse
+} from "./lib/messages"
+import {
+  formatPageRange,
+  resolvePageRange,
+  type PageRangeInput
+} from "./lib/page-range"
+import {
+  DEFAULT_SETTINGS,
+  getSettings,
+  watchSettings,
+  type Settings
+} from "./lib/settings"
+import { getSlideClip } from "./lib/slide-bounds"
+import {
+  detectViewerAdapter,
+  setNavigationTimeouts,
+  type ViewerAdapter
+} from "./lib/viewers"
+
+// Keep in sync with the adapters registered in lib/viewers
 export const config: PlasmoCSConfig = {
-  matches: ["https://docsend.com/*"],
+  matches: [
+    "https://docsend.com/*",
+    "https://*.docsend.com/*",
+    "https://papermark.io/view/*",
+    "https://www.papermark.io/view/*",
+    "https://papermark.com/view/*",
+    "https://www.papermark.com/view/*",
+    "https://pitch.com/public/*",
+    "https://pitch.com/v/*",
+    "https://docs.google.com/presentation/d/e/*",
+    "https://brieflink.com/*",
+    "https://*.brieflink.com/*"
+  ],
   run_at: "document_end"
 }
 
 interface CaptureState {
   isCapturing: boolean
+  // Paused between pages; captured pages are kept and the capture carries
+  // on from the next missing page
+  isPaused: boolean
   currentPage: number
   totalPages: number | null
-  screenshots: string[]
+  // Pages are stored by the background under this id as they're captured
+  sessionId: string | null
+  // Pages to capture when a range was asked for; null captures every page
+  targetPages: number[] | null
+  capturedPages: number[]
   capturedCount: number
   error?: string
   zoomAdjusted: boolean
+  // Session record for resuming this document after a reload
+  documentKey: string | null
+  viewerId: string | null
+  startedAt: string | null
+  originalZoom?: number
+  resolution: CaptureResolution
+  // Device metrics are emulated until the capture ends
+  resolutionApplied: boolean
+  // Pages kept although they looked blank or repeated the page before
+  anomalies: CaptureAnomaly[]
+  // Material in Flow the capture will be uploaded as a new version of
+  previousMaterialId: string | null
+  // The background holds a capture backend (e.g. a debugger session) open
+  // for this tab until the capture ends
+  backendAttached: boolean
 }
 
 const captureState: CaptureState = {
   isCapturing: false,
+  isPaused: false,
   currentPage: 0,
   totalPages: null,
-  screenshots: [],
+  sessionId: null,
+  targetPages: null,
+  capturedPages: [],
   capturedCount: 0,
   error: undefined,
-  zoomAdjusted: false
+  zoomAdjusted: false,
+  documentKey: null,
+  viewerId: null,
+  startedAt: null,
+  originalZoom: undefined,
+  resolution: "window",
+  resolutionApplied: false,
+  anomalies: [],
+  previousMaterialId: null,
+  backendAttached: false
 }
 
 function logCaptureContext(
@@ -36,133 +121,63 @@ function logCaptureContext(
     currentPage: captureState.currentPage,
     totalPages: captureState.totalPages,
     isCapturing: captureState.isCapturing,
+    isPaused: captureState.isPaused,
     ...extra
   })
 }
 
-// Check if this is a scrollable document (vs presentation with slides)
-function isScrollableDocument(): boolean {
-  return document.body.classList.contains("vertical")
-}
+// Resolve the viewer adapter lazily so SPA viewers have time to render
+let activeAdapter: ViewerAdapter | null = null
 
-// Get current page number from DocSend UI
-function getCurrentPageNumber(): number {
-  const pageNumber = document.querySelector("#page-number")
-  if (pageNumber) {
-    const num = parseInt(pageNumber.textContent || "1", 10)
-    return isNaN(num) ? 1 : num
+function getViewerAdapter(): ViewerAdapter | null {
+  if (!activeAdapter || !activeAdapter.matchesDom(document)) {
+    activeAdapter = detectViewerAdapter()
   }
-  return 1
+  return activeAdapter
 }
 
-// Detect total pages from DocSend UI
-function detectTotalPages(): number | null {
-  // Look for page indicator like "1 / 17"
-  const pageIndicator = document.querySelector(".toolbar-page-indicator")
-  if (pageIndicator) {
-    const text = pageIndicator.textContent || ""
-    const match = text.match(/(\d+)\s*\/\s*(\d+)/)
-    if (match) {
-      return parseInt(match[2], 10)
-    }
-  }
+// Saved settings, kept current so changes apply to a running capture
+let settings: Settings = DEFAULT_SETTINGS
 
-  // Fallback: look for any element with page count
-  const pageIndicators = document.querySelectorAll(
-    '[class*="page"], [class*="Page"], [aria-label*="page"]'
-  )
-
-  for (const indicator of pageIndicators) {
-    const text = indicator.textContent || ""
-    const match = text.match(/(\d+)\s*(?:of|\/)\s*(\d+)/i)
-    if (match) {
-      return parseInt(match[2], 10)
-    }
-  }
-
-  return null
-}
-
-const viewerSelectors = [
-  '[data-testid*="viewer"]',
-  '[data-testid*="presentation"]',
-  '[class*="viewer"]',
-  '[class*="Viewer"]',
-  '[class*="presentation"]',
-  '[role="presentation"]',
-  '[role="region"][aria-label*="page"]'
-]
-
-function findViewerElement(): HTMLElement | null {
-  for (const selector of viewerSelectors) {
-    const el = document.querySelector(selector) as HTMLElement | null
-    if (el) {
-      return el
-    }
-  }
-  return null
-}
-
-function focusViewerElement(): HTMLElement | null {
-  const viewer = findViewerElement()
-
-  if (!viewer) {
-    logCaptureContext("Viewer element not found when attempting focus")
-    return null
-  }
-
-  const originalTabIndex = viewer.getAttribute("tabindex")
-  if (viewer.tabIndex < 0) {
-    viewer.setAttribute("data-flow-temp-tabindex", originalTabIndex ?? "")
-    viewer.tabIndex = 0
-  }
-
-  viewer.focus({ preventScroll: true })
-  logCaptureContext("Focused viewer element", {
-    viewerTag: viewer.tagName,
-    classList: viewer.className,
-    tabIndex: viewer.tabIndex,
-    activeElement: document.activeElement?.tagName ?? null
+function applySettings(next: Settings) {
+  settings = next
+  setNavigationTimeouts({
+    pageChangeMs: next.pageChangeTimeoutMs,
+    slideRenderMs: next.slideRenderTimeoutMs
   })
-
-  return viewer
 }
 
-type ZoomResponse = {
-  success: boolean
-  adjusted: boolean
-  currentZoom?: number
-  previousZoom?: number
-  error?: string
-}
+getSettings()
+  .then(applySettings)
+  .catch((error) => {
+    console.warn("[Content] Failed to load settings:", error)
+  })
+watchSettings(applySettings)
 
 async function ensureDefaultZoom(): Promise<ZoomResponse> {
-  return new Promise((resolve) => {
-    chrome.runtime.sendMessage(
-      { type: "ENSURE_CAPTURE_ZOOM" },
-      (response: ZoomResponse | undefined) => {
-        if (chrome.runtime.lastError) {
-          const message = chrome.runtime.lastError.message
-          logCaptureContext("Failed to ensure default zoom", { error: message })
-          resolve({ success: false, adjusted: false, error: message })
-          return
-        }
+  let response: ZoomResponse | undefined
+  try {
+    response = await sendMessage({
+      type: "ENSURE_CAPTURE_ZOOM",
+      originalZoom: captureState.originalZoom
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    logCaptureContext("Failed to ensure default zoom", { error: message })
+    return { success: false, adjusted: false, error: message }
+  }
 
-        if (!response) {
-          logCaptureContext("ENSURE_CAPTURE_ZOOM response missing")
-          resolve({
-            success: false,
-            adjusted: false,
-            error: "No response from background script"
-          })
-          return
-        }
+  if (!response) {
+    logCaptureContext("ENSURE_CAPTURE_ZOOM response missing")
+    return {
+      success: false,
+      adjusted: false,
+      error: "No response from background script"
+    }
+  }
 
-        logCaptureContext("ENSURE_CAPTURE_ZOOM response received", response)
-        resolve(response)
-      }
-    )
-  })
+  logCaptureContext("ENSURE_CAPTURE_ZOOM response received", { ...response })
+  return response
 }
 
 async function restoreZoomIfNeeded(): Promise<void> {
@@ -170,266 +185,113 @@ async function restoreZoomIfNeeded(): Promise<void> {
     return
   }
 
-  await new Promise<void>((resolve) => {
-    chrome.runtime.sendMessage(
-      { type: "RESTORE_CAPTURE_ZOOM" },
-      (response: { success: boolean; error?: string } | undefined) => {
-        if (chrome.runtime.lastError) {
-          logCaptureContext("RESTORE_CAPTURE_ZOOM failed", {
-            error: chrome.runtime.lastError.message
-          })
-          captureState.zoomAdjusted = false
-          resolve()
-          return
-        }
-
-        if (!response) {
-          logCaptureContext("RESTORE_CAPTURE_ZOOM response missing")
-          captureState.zoomAdjusted = false
-          resolve()
-          return
-        }
-
-        logCaptureContext("RESTORE_CAPTURE_ZOOM response received", response)
-        captureState.zoomAdjusted = false
-        resolve()
-      }
-    )
-  })
-}
-
-// Navigate to first page
-async function navigateToFirstPage(): Promise<boolean> {
-  const currentPage = getCurrentPageNumber()
-
-  if (currentPage === 1) {
-    logCaptureContext("Already on page 1 before capture start")
-    return true // Already on first page
+  try {
+    const response = await sendMessage({ type: "RESTORE_CAPTURE_ZOOM" })
+    if (response) {
+      logCaptureContext("RESTORE_CAPTURE_ZOOM response received", response)
+    } else {
+      logCaptureContext("RESTORE_CAPTURE_ZOOM response missing")
+    }
+  } catch (error) {
+    logCaptureContext("RESTORE_CAPTURE_ZOOM failed", {
+      error: error instanceof Error ? error.message : error
+    })
   }
+  captureState.zoomAdjusted = false
+}
 
-  logCaptureContext(`Navigating from page ${currentPage} to page 1...`)
-
-  // Method 1: Try clicking "Previous" button repeatedly
-  const maxAttempts = 50 // Safety limit
-  let attempts = 0
-
-  while (getCurrentPageNumber() > 1 && attempts < maxAttempts) {
-    const prevButtons = document.querySelectorAll<HTMLButtonElement>(
-      'button[aria-label*="previous"], button[aria-label*="Previous"], button[aria-label*="prev"], button[aria-label*="Prev"], [class*="prev"]'
-    )
+// Open the backend every page of this capture is screenshotted with
+async function attachCaptureBackend(): Promise<
+  MessageResponse<"ATTACH_CAPTURE_BACKEND">
+> {
+  const response = await sendMessage({ type: "ATTACH_CAPTURE_BACKEND" }).catch(
+    (error) => ({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    })
+  )
 
-    let clicked = false
-    for (const button of prevButtons) {
-      if (
-        !button.disabled &&
-        button.offsetParent !== null &&
-        !button.getAttribute("aria-disabled")
-      ) {
-        button.click()
-        clicked = true
-        await sleep(800) // Wait for page to load
-        break
-      }
-    }
+  logCaptureContext("ATTACH_CAPTURE_BACKEND response received", { response })
+  captureState.backendAttached = response?.success === true
+  return (
+    response ?? { success: false, error: "No response from background script" }
+  )
+}
 
-    if (!clicked) {
-      // Try left arrow key
-      const arrowKeyEvent = new KeyboardEvent("keydown", {
-        key: "ArrowLeft",
-        code: "ArrowLeft",
-        keyCode: 37,
-        which: 37,
-        bubbles: true,
-        cancelable: true
-      })
-      document.body.dispatchEvent(arrowKeyEvent)
-      await sleep(800)
-    }
+// Undo the resolution override and close the capture backend
+async function releaseCaptureBackend(): Promise<void> {
+  await restoreResolutionIfNeeded()
 
-    attempts++
+  if (!captureState.backendAttached) {
+    return
   }
+  captureState.backendAttached = false
 
-  const finalPage = getCurrentPageNumber()
-  if (finalPage === 1) {
-    logCaptureContext("Successfully navigated to page 1")
-    return true
-  } else {
-    logCaptureContext("Failed to navigate to page 1", {
-      finalPage,
-      attempts
+  try {
+    const response = await sendMessage({ type: "DETACH_CAPTURE_BACKEND" })
+    logCaptureContext("DETACH_CAPTURE_BACKEND response received", { response })
+  } catch (error) {
+    logCaptureContext("DETACH_CAPTURE_BACKEND failed", {
+      error: error instanceof Error ? error.message : error
     })
-    return false
   }
 }
 
-function describeButton(button: HTMLElement) {
-  return {
-    text: button.textContent?.trim() ?? null,
-    classList: Array.from(button.classList).join(" ") || null,
-    disabled:
-      (button as HTMLButtonElement).disabled ??
-      button.getAttribute("aria-disabled") === "true",
-    ariaDisabled: button.getAttribute("aria-disabled") ?? null,
-    tabIndex: button.tabIndex,
-    role: button.getAttribute("role") ?? null,
-    dataTestId: button.getAttribute("data-testid") ?? null
-  }
-}
-
-// Navigate to next page using multiple methods
-async function navigateToNextPage(): Promise<boolean> {
-  const currentPage = getCurrentPageNumber()
-  logCaptureContext("Attempting to advance to the next page", {
-    currentPage
-  })
-
-  const viewerBeforeNavigation = focusViewerElement()
-
-  // Method 1: Try clicking "Next" button
-  const nextButtonSelectors = [
-    'button[aria-label*="next"]',
-    'button[aria-label*="Next"]',
-    '[role="button"][aria-label*="next"]',
-    '[role="button"][aria-label*="Next"]',
-    '[aria-label*="next page"]',
-    '[aria-label*="Next page"]',
-    '[data-testid*="next"]',
-    '[data-testid*="forward"]',
-    '[data-testid*="right"]',
-    '[class*="next"]',
-    '[class*="Next"]',
-    '[class*="forward"]',
-    '[class*="Forward"]',
-    '[class*="RightArrow"]',
-    '[class*="right-arrow"]'
-  ]
-
-  const nextButtonCandidates: HTMLElement[] = []
-  for (const selector of nextButtonSelectors) {
-    document.querySelectorAll<HTMLElement>(selector).forEach((el) => {
-      nextButtonCandidates.push(el)
+// Emulate the chosen resolution preset for the rest of the capture. A
+// failure isn't fatal: the capture carries on at the window's size.
+async function ensureCaptureResolution(): Promise<void> {
+  const response = await sendMessage({
+    type: "ENSURE_CAPTURE_RESOLUTION",
+    resolution: captureState.resolution
+  }).catch((error) => ({
+    success: false,
+    applied: false,
+    error: error instanceof Error ? error.message : String(error)
+  }))
+
+  if (!response?.success) {
+    logCaptureContext("Capturing at window size; resolution not applied", {
+      resolution: captureState.resolution,
+      error: response?.error ?? "No response from background script"
     })
+    return
   }
 
-  const uniqueCandidates = Array.from(new Set(nextButtonCandidates))
-  logCaptureContext("Next button query result", {
-    count: uniqueCandidates.length,
-    selectorsTested: nextButtonSelectors
-  })
-
-  for (const button of uniqueCandidates) {
-    logCaptureContext(
-      "Evaluating next button candidate",
-      describeButton(button)
-    )
-    const isDisabled =
-      (button as HTMLButtonElement).disabled ||
-      button.getAttribute("aria-disabled") === "true"
-
-    if (!isDisabled && button.offsetParent !== null) {
-      logCaptureContext("Clicking next button", describeButton(button))
-      ;(button as HTMLElement).click()
-      await sleep(1500) // Wait for page to load
-
-      const newPage = getCurrentPageNumber()
-      if (newPage > currentPage) {
-        logCaptureContext("Next button click advanced page", { newPage })
-        return true // Successfully navigated
-      }
-
-      logCaptureContext("Next button click did not advance page", {
-        observedPage: newPage
-      })
-    }
+  logCaptureContext("ENSURE_CAPTURE_RESOLUTION response received", response)
+  captureState.resolutionApplied = response.applied === true
+  if (captureState.resolutionApplied) {
+    // Let the viewer re-layout and load sharper images for the new size
+    await sleep(1000)
   }
+}
 
-  // Method 2: Try arrow key navigation
-  const activeViewer = viewerBeforeNavigation ?? focusViewerElement()
-  logCaptureContext("Dispatching ArrowRight key event", {
-    activeElement: document.activeElement?.tagName ?? null,
-    activeElementClasses:
-      (document.activeElement as HTMLElement | null)?.className ?? null
-  })
-  const arrowKeyEvent = new KeyboardEvent("keydown", {
-    key: "ArrowRight",
-    code: "ArrowRight",
-    keyCode: 39,
-    which: 39,
-    bubbles: true,
-    cancelable: true
-  })
-  if (activeViewer) {
-    activeViewer.dispatchEvent(arrowKeyEvent)
-  } else {
-    document.body.dispatchEvent(arrowKeyEvent)
-  }
-  await sleep(1500)
-
-  let newPage = getCurrentPageNumber()
-  if (newPage > currentPage) {
-    logCaptureContext("ArrowRight key advanced page", { newPage })
-    return true // Arrow key worked
+async function restoreResolutionIfNeeded(): Promise<void> {
+  if (!captureState.resolutionApplied) {
+    return
   }
-  logCaptureContext("ArrowRight key did not advance page", {
-    observedPage: newPage
-  })
+  captureState.resolutionApplied = false
 
-  // Method 3: Try clicking on the viewer
-  const viewer = activeViewer ?? findViewerElement() ?? document.body
-  if (viewer) {
-    logCaptureContext("Clicking viewer element to advance", {
-      viewerTag: viewer.tagName,
-      classList: (viewer as Element).className || null
+  try {
+    const response = await sendMessage({ type: "RESTORE_CAPTURE_RESOLUTION" })
+    logCaptureContext("RESTORE_CAPTURE_RESOLUTION response received", {
+      response
     })
-    ;(viewer as HTMLElement).click()
-    await sleep(1500)
-
-    newPage = getCurrentPageNumber()
-    if (newPage > currentPage) {
-      logCaptureContext("Viewer click advanced page", { newPage })
-      return true // Click navigation worked
-    }
-
-    logCaptureContext("Viewer click did not advance page", {
-      observedPage: newPage
+  } catch (error) {
+    logCaptureContext("RESTORE_CAPTURE_RESOLUTION failed", {
+      error: error instanceof Error ? error.message : error
     })
-  } else {
-    logCaptureContext("Viewer element not found when attempting click")
   }
-
-  // No method successfully advanced the page
-  logCaptureContext("Failed to advance to the next page", {
-    attemptedFromPage: currentPage
-  })
-  return false
 }
 
 // Capture scrollable document by extracting images from DOM
-async function captureScrollableDocument(): Promise<string[]> {
-  logCaptureContext("Starting scrollable document capture")
-
-  // Try multiple selectors to find page images
-  const selectors = [
-    "img.preso-view.page-view[data-pagenum]",
-    "img.page-view[data-pagenum]",
-    "img.preso-view[data-pagenum]",
-    ".item img.page-view",
-    ".carousel-inner img.page-view"
-  ]
-
-  let pageImages: HTMLImageElement[] = []
-  for (const selector of selectors) {
-    pageImages = Array.from(
-      document.querySelectorAll(selector)
-    ) as HTMLImageElement[]
-    if (pageImages.length > 0) {
-      logCaptureContext("Found page images with selector", {
-        selector,
-        totalImages: pageImages.length
-      })
-      break
-    }
-  }
+async function captureScrollableDocument(
+  adapter: ViewerAdapter
+): Promise<number[]> {
+  logCaptureContext("Starting scrollable document capture", {
+    viewer: adapter.id
+  })
+
+  const pageImages = adapter.listPageImages()
 
   if (pageImages.length === 0) {
     logCaptureContext("No page images found in DOM with any selector")
@@ -451,9 +313,7 @@ async function captureScrollableDocument(): Promise<string[]> {
 
   // Scroll through the document to trigger lazy loading if needed
   logCaptureContext("Scrolling to trigger lazy loading...")
-  const carouselContainer = document.querySelector(
-    ".carousel-inner, .js-carousel-inner"
-  ) as HTMLElement
+  const carouselContainer = adapter.getScrollContainer()
   if (carouselContainer) {
     // Scroll to bottom to ensure all images are triggered
     carouselContainer.scrollTop = carouselContainer.scrollHeight
@@ -519,56 +379,93 @@ async function captureScrollableDocument(): Promise<string[]> {
     return []
   }
 
-  // Scroll to each image and capture it via screenshot
-  const screenshots: string[] = []
-  const carousel = document.querySelector(
-    ".carousel-inner, .js-carousel-inner"
-  ) as HTMLElement
+  // Copy each page image, or scroll to it and screenshot it when the image
+  // can't be read
+  const carousel = adapter.getScrollContainer()
+  // Pages share a host, so once one image can't be read the rest can't be
+  let extractImages = true
 
   for (let i = 0; i < loadedImages.length; i++) {
+    await waitWhilePaused()
+
     // Check if capture was cancelled
     if (!captureState.isCapturing) {
       logCaptureContext("Capture cancelled during scrollable document loop", {
-        capturedCount: screenshots.length,
+        capturedCount: captureState.capturedPages.length,
         totalImages: loadedImages.length
       })
       break
     }
 
     const img = loadedImages[i]
-    const pageNum = img.getAttribute("data-pagenum") || (i + 1).toString()
+    const pageNum =
+      parseInt(img.getAttribute("data-pagenum") || "", 10) || i + 1
+
+    if (!isTargetPage(pageNum)) {
+      continue
+    }
+
+    if (captureState.capturedPages.includes(pageNum)) {
+      logCaptureContext("Page already stored; skipping", { pageNum })
+      continue
+    }
 
     try {
-      // Scroll the image into view
-      if (carousel) {
-        // Find the parent .item container
-        const itemContainer = img.closest(".item") as HTMLElement
-        if (itemContainer) {
-          // Scroll to show this item
-          itemContainer.scrollIntoView({ behavior: "instant", block: "start" })
-          await sleep(300) // Wait for scroll to complete
+      let stored = false
+      let anomaly: FrameAnomaly | undefined
+      if (extractImages) {
+        stored = await storeExtractedImage(pageNum, img)
+        // Stopped while the image was being stored
+        if (!captureState.isCapturing) {
+          break
+        }
+        if (!stored) {
+          extractImages = false
+          logCaptureContext("Falling back to screenshots for page images", {
+            pageNum
+          })
         }
-      } else {
-        img.scrollIntoView({ behavior: "instant", block: "start" })
-        await sleep(300)
       }
 
-      // Capture screenshot using background script
-      const screenshot = await captureScreenshot()
+      if (!stored) {
+        // Scroll the image into view
+        if (carousel) {
+          // Find the parent .item container
+          const itemContainer = img.closest(".item") as HTMLElement
+          if (itemContainer) {
+            // Scroll to show this item
+            itemContainer.scrollIntoView({
+              behavior: "instant",
+              block: "start"
+            })
+            await sleep(300) // Wait for scroll to complete
+          }
+        } else {
+          img.scrollIntoView({ behavior: "instant", block: "start" })
+          await sleep(300)
+        }
+
+        // Capture screenshot using background script, cropped to the image.
+        // The image has loaded, so a suspicious frame is kept and reported
+        const result = await captureScreenshot(pageNum, img, {
+          acceptAnomaly: true
+        })
+        stored = result.stored
+        anomaly = result.anomaly
+      }
 
-      if (screenshot) {
-        screenshots.push(screenshot)
+      if (stored) {
+        captureState.currentPage = pageNum
+        recordCapturedPage(pageNum, anomaly)
 
         logCaptureContext("Captured page from DOM", {
           pageNum,
-          capturedCount: screenshots.length,
+          capturedCount: captureState.capturedPages.length,
           width: img.naturalWidth,
           height: img.naturalHeight
         })
 
         // Update progress
-        captureState.currentPage = parseInt(pageNum, 10)
-        captureState.capturedCount = screenshots.length
         sendStatusUpdate()
       } else {
         logCaptureContext("Failed to capture screenshot for page", {
@@ -584,100 +481,457 @@ async function captureScrollableDocument(): Promise<string[]> {
   }
 
   logCaptureContext("Scrollable document capture complete", {
-    capturedCount: screenshots.length
+    capturedCount: captureState.capturedPages.length
   })
 
-  return screenshots
+  return captureState.capturedPages
 }
 
-// Capture screenshot via background script
-async function captureScreenshot(): Promise<string | null> {
-  return new Promise((resolve) => {
-    chrome.runtime.sendMessage(
-      { type: "CAPTURE_SCREENSHOT" },
-      (response: { screenshot?: string; error?: string }) => {
-        if (response.screenshot) {
-          logCaptureContext("captureScreenshot response received", {
-            screenshotLength: response.screenshot.length
-          })
-          resolve(response.screenshot)
-        } else {
-          logCaptureContext("Screenshot capture failed", {
-            error: response.error
-          })
-          resolve(null)
-        }
-      }
-    )
+// Sessions discarded in this tab. A page whose capture was still running
+// when its session was discarded reaches the page store after the discard.
+const discardedSessions = new Set<string>()
+
+// Delete a page that was just stored if its session has been discarded
+// meanwhile, so nothing is left under a session no one owns
+function dropIfDiscarded(
+  sessionId: string | null,
+  pageNumber: number
+): boolean {
+  if (!sessionId || !discardedSessions.has(sessionId)) {
+    return false
+  }
+  logCaptureContext("Dropping page stored after its session was discarded", {
+    sessionId,
+    pageNumber
+  })
+  void sendMessage({ type: "DISCARD_CAPTURE", sessionId })
+  return true
+}
+
+// Hand the page image itself to the background to store under the session
+// (the current one by default). Resolves false when the image can't be
+// read, so the caller can screenshot it instead.
+async function storeExtractedImage(
+  pageNumber: number,
+  img: HTMLImageElement,
+  sessionId = captureState.sessionId
+): Promise<boolean> {
+  const blob = await extractPageImage(img)
+  if (!blob) {
+    return false
+  }
+  const dataUrl = await blobToDataUrl(blob)
+
+  const response = await sendMessage({
+    type: "STORE_PAGE_IMAGE",
+    sessionId,
+    pageNumber,
+    dataUrl
+  }).catch(
+    (error): StoredPageResponse => ({
+      error: error instanceof Error ? error.message : String(error)
+    })
+  )
+  logCaptureContext("STORE_PAGE_IMAGE response received", {
+    pageNumber,
+    bytes: response?.bytes,
+    error: response?.error
+  })
+  return response?.stored === true && !dropIfDiscarded(sessionId, pageNumber)
+}
+
+// Capture screenshot via background script, which stores it in the page
+// store under the session (the current one by default). The screenshot is cropped to
+// `slideElement` when its bounds can be measured, else it covers the whole
+// viewport. Frames that look blank or repeat the previous page are only
+// stored with `acceptAnomaly`; otherwise the anomaly is returned so the
+// caller can wait and try again.
+async function captureScreenshot(
+  pageNumber: number,
+  slideElement: Element | null,
+  {
+    acceptAnomaly = false,
+    sessionId = captureState.sessionId
+  }: { acceptAnomaly?: boolean; sessionId?: string | null } = {}
+): Promise<{ stored: boolean; anomaly?: FrameAnomaly }> {
+  const clip = getSlideClip(slideElement)
+  if (!clip) {
+    logCaptureContext("Slide bounds unavailable; capturing full viewport", {
+      pageNumber,
+      hasSlideElement: slideElement !== null
+    })
+  }
+
+  const response = await sendMessage({
+    type: "CAPTURE_SCREENSHOT",
+    sessionId,
+    pageNumber,
+    clip: clip ?? undefined,
+    acceptAnomaly
+  }).catch(
+    (error): StoredPageResponse => ({
+      error: error instanceof Error ? error.message : String(error)
+    })
+  )
+
+  if (response?.stored && dropIfDiscarded(sessionId, pageNumber)) {
+    return { stored: false }
+  }
+  if (response?.stored) {
+    logCaptureContext("captureScreenshot response received", {
+      pageNumber,
+      bytes: response.bytes,
+      captureMode: response.captureMode,
+      anomaly: response.anomaly
+    })
+    return { stored: true, anomaly: response.anomaly }
+  }
+  if (response?.anomaly) {
+    logCaptureContext("Captured frame rejected", {
+      pageNumber,
+      anomaly: response.anomaly
+    })
+    return { stored: false, anomaly: response.anomaly }
+  }
+  logCaptureContext("Screenshot capture failed", {
+    pageNumber,
+    error: response?.error
+  })
+  return { stored: false }
+}
+
+// What the viewer page tells about the document, sent with the upload
+function getDocumentDetails(): DocumentDetails {
+  const adapter = getViewerAdapter()
+  return {
+    title: adapter?.getTitle() ?? (document.title || undefined),
+    sender: adapter?.getSender() ?? undefined,
+    viewerEmail: adapter?.getViewerEmail() ?? undefined,
+    viewerId: adapter?.id,
+    viewport: {
+      width: window.innerWidth,
+      height: window.innerHeight,
+      devicePixelRatio: window.devicePixelRatio
+    },
+    previousMaterialId: captureState.previousMaterialId ?? undefined
+  }
+}
+
+// Hand the stored pages of this session straight to the background to
+// upload, skipping the review; used when a capture is stopped early
+function requestUpload() {
+  if (!captureState.sessionId) {
+    logCaptureContext("No capture session to upload")
+    return
+  }
+  logCaptureContext("Sending UPLOAD_SCREENSHOTS message", {
+    sessionId: captureState.sessionId,
+    pageCount: captureState.capturedPages.length
+  })
+  void sendMessage({
+    type: "UPLOAD_SCREENSHOTS",
+    sessionId: captureState.sessionId,
+    pageNumbers: [...captureState.capturedPages].sort((a, b) => a - b),
+    metadata: {
+      ...getDocumentDetails(),
+      url: window.location.href,
+      totalPages: captureState.capturedPages.length,
+      capturedAt: new Date().toISOString(),
+      anomalies: captureState.anomalies
+    }
+  })
+
+  // The upload owns the pages now; nothing is left to resume
+  if (captureState.documentKey) {
+    void sendMessage({
+      type: "CLEAR_CAPTURE_SESSION",
+      documentKey: captureState.documentKey
+    })
+  }
+}
+
+// Hand the stored pages of this session to the background to wait for the
+// user's review; the upload starts once the review is confirmed
+function requestReview() {
+  // Stopped (and discarded) while a page was still being captured
+  if (!captureState.sessionId || !captureState.documentKey) {
+    logCaptureContext("No capture session to review")
+    return
+  }
+  logCaptureContext("Sending REVIEW_CAPTURE message", {
+    sessionId: captureState.sessionId,
+    pageCount: captureState.capturedPages.length
   })
+  void sendMessage({
+    type: "REVIEW_CAPTURE",
+    review: {
+      sessionId: captureState.sessionId,
+      documentKey: captureState.documentKey,
+      ...getDocumentDetails(),
+      url: window.location.href,
+      pageNumbers: [...captureState.capturedPages].sort((a, b) => a - b),
+      anomalies: captureState.anomalies,
+      capturedAt: new Date().toISOString()
+    }
+  })
+
+  // The review owns the pages now; nothing is left to resume
+  if (captureState.documentKey) {
+    void sendMessage({
+      type: "CLEAR_CAPTURE_SESSION",
+      documentKey: captureState.documentKey
+    })
+  }
+}
+
+// Drop pages already written to the page store for this session
+function discardStoredPages() {
+  if (!captureState.sessionId) {
+    return
+  }
+  void sendMessage({
+    type: "DISCARD_CAPTURE",
+    sessionId: captureState.sessionId,
+    documentKey: captureState.documentKey ?? undefined
+  })
+  discardedSessions.add(captureState.sessionId)
+  captureState.sessionId = null
+}
+
+// Persist how far the capture got so a reload can resume it
+function saveSession() {
+  if (
+    !captureState.sessionId ||
+    !captureState.documentKey ||
+    !captureState.viewerId ||
+    captureState.totalPages === null
+  ) {
+    return
+  }
+
+  const session: CaptureSession = {
+    sessionId: captureState.sessionId,
+    documentKey: captureState.documentKey,
+    url: window.location.href,
+    viewerId: captureState.viewerId,
+    totalPages: captureState.totalPages,
+    pages: captureState.targetPages ?? undefined,
+    capturedPages: captureState.capturedPages,
+    lastPage: captureState.currentPage,
+    originalZoom: captureState.originalZoom,
+    resolution: captureState.resolution,
+    anomalies: captureState.anomalies,
+    previousMaterialId: captureState.previousMaterialId ?? undefined,
+    startedAt: captureState.startedAt ?? new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  }
+  void sendMessage({ type: "SAVE_CAPTURE_SESSION", session })
 }
 
-// Send status update to popup and inline button
+function recordCapturedPage(pageNumber: number, anomaly?: FrameAnomaly) {
+  captureState.capturedPages.push(pageNumber)
+  if (anomaly) {
+    captureState.anomalies.push({ pageNumber, kind: anomaly })
+  }
+  captureState.capturedCount = captureState.capturedPages.length
+  saveSession()
+}
+
+// The session record, with page numbers checked against the page store
+async function loadSession(
+  documentKey: string
+): Promise<CaptureSession | null> {
+  try {
+    const response = await sendMessage({
+      type: "GET_CAPTURE_SESSION",
+      documentKey
+    })
+    if (!response) {
+      logCaptureContext("GET_CAPTURE_SESSION response missing")
+      return null
+    }
+    return response.session
+  } catch (error) {
+    logCaptureContext("GET_CAPTURE_SESSION failed", {
+      error: error instanceof Error ? error.message : error
+    })
+    return null
+  }
+}
+
+// Report progress to the background, which moves the tab's capture state
+// on for the popup and the inline button
 function sendStatusUpdate() {
-  const statusData = {
+  const statusData: CaptureStatus = {
     isCapturing: captureState.isCapturing,
+    isPaused: captureState.isPaused,
     currentPage: captureState.currentPage,
     totalPages: captureState.totalPages,
     capturedCount: captureState.capturedCount,
+    anomalies: captureState.anomalies,
     error: captureState.error
   }
 
-  // Send to popup/background via chrome messaging
-  chrome.runtime.sendMessage({
+  void sendMessage({
     type: "CAPTURE_STATUS",
     status: statusData
   })
-
-  // Send to inline button via custom event
-  document.dispatchEvent(
-    new CustomEvent("flow:capture:status", {
-      detail: statusData
-    })
-  )
 }
 
 function failCapture(message: string) {
   logCaptureContext("failCapture invoked", { message })
   captureState.isCapturing = false
+  endPause()
   captureState.error = message
   captureState.totalPages = null
-  captureState.screenshots = []
+  // Keep pages that made it into the page store so the capture can be
+  // resumed after reloading the document
+  if (captureState.capturedPages.length === 0) {
+    discardStoredPages()
+  }
+  captureState.sessionId = null
+  captureState.capturedPages = []
   captureState.capturedCount = 0
+  captureState.anomalies = []
   sendStatusUpdate()
   void restoreZoomIfNeeded()
+  void releaseCaptureBackend()
 }
 
 // Main capture loop
-async function startCapture() {
+// With `resume`, pages stored by an earlier run on this document are kept
+// and only the missing ones are captured. `range` limits the capture to
+// some pages ("1-3, 18-25"); a resumed capture keeps its earlier range.
+// `resolution` defaults to the preset last picked in the popup. With
+// `previousMaterialId`, the upload becomes a new version of that material.
+async function startCapture({
+  resume = false,
+  resolution,
+  range,
+  previousMaterialId
+}: {
+  resume?: boolean
+  resolution?: CaptureResolution
+  range?: PageRangeInput
+  previousMaterialId?: string
+} = {}) {
   if (captureState.isCapturing) {
     console.log("Capture already in progress")
     return
   }
 
-  // Clear any previous upload/capture state from storage
-  chrome.runtime.sendMessage({
-    type: "CLEAR_STATES"
-  })
-
+  // Reported as preparing until the first page is found
   captureState.isCapturing = true
   captureState.error = undefined
-  const detectedTotalPages = detectTotalPages()
+  captureState.currentPage = 0
+  captureState.capturedCount = 0
+  sendStatusUpdate()
+
+  const adapter = getViewerAdapter()
+  if (!adapter) {
+    logCaptureContext("No viewer adapter matches this page")
+    failCapture(
+      "Flow doesn't recognize this document viewer. Wait for the document to load and try again."
+    )
+    return
+  }
+
+  const detectedTotalPages = adapter.detectTotalPages()
 
   if (detectedTotalPages === null) {
-    logCaptureContext("Failed to detect total pages before capture")
+    logCaptureContext("Failed to detect total pages before capture", {
+      viewer: adapter.id
+    })
     failCapture(
-      "Flow couldn't detect how many pages are in this DocSend. Wait for the viewer to load and try again."
+      `Flow couldn't detect how many pages are in this ${adapter.name} document. Wait for the viewer to load and try again.`
     )
     return
   }
 
+  let targetPages: number[] | null = null
+  if (range) {
+    try {
+      targetPages = resolvePageRange(range, detectedTotalPages)
+    } catch (error) {
+      failCapture(
+        `Flow couldn't capture those pages. ${error instanceof Error ? error.message : error}`
+      )
+      return
+    }
+    logCaptureContext("Capturing a page range", {
+      pages: formatPageRange(targetPages)
+    })
+  }
+
   captureState.totalPages = detectedTotalPages
-  captureState.screenshots = []
+  captureState.documentKey = getDocumentKey(window.location.href)
+  captureState.viewerId = adapter.id
   captureState.zoomAdjusted = false
 
+  const previousSession = captureState.documentKey
+    ? await loadSession(captureState.documentKey)
+    : null
+
+  if (
+    resume &&
+    previousSession &&
+    previousSession.totalPages === detectedTotalPages
+  ) {
+    captureState.sessionId = previousSession.sessionId
+    captureState.targetPages = previousSession.pages ?? null
+    captureState.capturedPages = [...previousSession.capturedPages]
+    captureState.startedAt = previousSession.startedAt
+    captureState.originalZoom = previousSession.originalZoom
+    captureState.anomalies = [...(previousSession.anomalies ?? [])]
+    captureState.previousMaterialId = previousSession.previousMaterialId ?? null
+    // Keep resumed pages at the same size as the ones already stored
+    captureState.resolution =
+      previousSession.resolution ?? resolution ?? (await getCaptureResolution())
+    logCaptureContext("Resuming capture session", {
+      sessionId: previousSession.sessionId,
+      storedPages: previousSession.capturedPages.length,
+      resumePage: getResumePage(previousSession)
+    })
+  } else {
+    if (previousSession) {
+      // Starting over (or the document changed): drop the old pages
+      logCaptureContext("Discarding previous capture session", {
+        sessionId: previousSession.sessionId,
+        resumeRequested: resume,
+        previousTotalPages: previousSession.totalPages
+      })
+      void sendMessage({
+        type: "DISCARD_CAPTURE",
+        sessionId: previousSession.sessionId
+      })
+    }
+    captureState.sessionId = crypto.randomUUID()
+    captureState.targetPages = targetPages
+    captureState.capturedPages = []
+    captureState.anomalies = []
+    captureState.previousMaterialId = previousMaterialId ?? null
+    captureState.startedAt = new Date().toISOString()
+    captureState.originalZoom = undefined
+    captureState.resolution = resolution ?? (await getCaptureResolution())
+  }
+
+  captureState.capturedCount = captureState.capturedPages.length
+  saveSession()
+
+  const backendResult = await attachCaptureBackend()
+  if (!backendResult.success) {
+    failCapture(
+      `Flow couldn't start taking screenshots of this tab. ${backendResult.error ?? ""}`.trim()
+    )
+    return
+  }
+
+  await ensureCaptureResolution()
+
   // Check if this is a scrollable document
-  const isVertical = isScrollableDocument()
+  const isVertical = adapter.isScrollable()
   logCaptureContext("Document type detected", {
+    viewer: adapter.id,
     isScrollable: isVertical,
     totalPages: detectedTotalPages
   })
@@ -692,9 +946,10 @@ async function startCapture() {
       captureState.currentPage = 1
       sendStatusUpdate()
 
-      const screenshots = await captureScrollableDocument()
+      const capturedPages = await captureScrollableDocument(adapter)
 
-      if (screenshots.length === 0) {
+      // Nothing to report when the capture was stopped
+      if (capturedPages.length === 0 && captureState.isCapturing) {
         logCaptureContext("No images captured from scrollable document")
         failCapture(
           "Flow couldn't load the document images. Please wait for the document to fully load and try again."
@@ -702,34 +957,16 @@ async function startCapture() {
         return
       }
 
-      captureState.screenshots = screenshots
-      captureState.capturedCount = screenshots.length
+      captureState.capturedCount = capturedPages.length
 
-      // Upload screenshots (only if capture wasn't cancelled)
-      if (captureState.isCapturing && captureState.screenshots.length > 0) {
-        logCaptureContext("Sending UPLOAD_SCREENSHOTS message", {
-          screenshotCount: captureState.screenshots.length
-        })
-        chrome.runtime.sendMessage(
-          {
-            type: "UPLOAD_SCREENSHOTS",
-            screenshots: captureState.screenshots,
-            metadata: {
-              url: window.location.href,
-              totalPages: captureState.screenshots.length,
-              capturedAt: new Date().toISOString()
-            }
-          },
-          (response) => {
-            logCaptureContext("UPLOAD_SCREENSHOTS response received", {
-              response
-            })
-          }
-        )
+      // Review screenshots (only if capture wasn't cancelled)
+      if (captureState.isCapturing && captureState.capturedPages.length > 0) {
+        requestReview()
       }
 
       captureState.isCapturing = false
       sendStatusUpdate()
+      await releaseCaptureBackend()
 
       // Reset after a delay to allow success message to show
       setTimeout(() => {
@@ -767,6 +1004,8 @@ async function startCapture() {
 
   captureState.zoomAdjusted = zoomResult.adjusted
   if (zoomResult.adjusted) {
+    captureState.originalZoom = zoomResult.previousZoom
+    saveSession()
     logCaptureContext("Adjusted tab zoom to 100% for capture", {
       previousZoom: zoomResult.previousZoom,
       currentZoom: zoomResult.currentZoom
@@ -777,26 +1016,17 @@ async function startCapture() {
     })
   }
 
-  // Navigate to first page before starting capture
-  logCaptureContext("Navigating to page 1 before starting capture...")
-  const navigatedToFirst = await navigateToFirstPage()
-
-  if (!navigatedToFirst) {
-    logCaptureContext("Navigation to first page failed")
-    failCapture(
-      "Flow couldn't navigate to the first page. Please manually go to page 1 and try again."
-    )
-    return
-  }
+  // Walk to the first page still to capture: page 1, the start of the
+  // range, or the first missing page of a resumed capture
+  const startPage = nextMissingPage() ?? 1
+  logCaptureContext(`Navigating to page ${startPage} before starting capture`)
+  const navigated = await goToPage(adapter, startPage)
+  captureState.currentPage = adapter.getCurrentPage()
 
-  // Get current page from UI (should be 1 now)
-  captureState.currentPage = getCurrentPageNumber()
-  if (captureState.currentPage !== 1) {
-    logCaptureContext("Unexpected current page after navigation", {
-      currentPage: captureState.currentPage
-    })
+  if (!navigated) {
+    logCaptureContext("Navigation to the start page failed", { startPage })
     failCapture(
-      "Flow couldn't navigate to page 1. Please manually go to page 1 and try again."
+      `Flow couldn't navigate to page ${startPage}. Please manually go to page ${startPage} and try again.`
     )
     return
   }
@@ -808,22 +1038,38 @@ async function startCapture() {
   )
 
   try {
-    // Capture first page
-    logCaptureContext("Capturing page 1...")
-    const firstScreenshot = await captureScreenshot()
-    if (firstScreenshot) {
-      captureState.screenshots.push(firstScreenshot)
-      logCaptureContext("Screenshot 1 captured", {
-        screenshotCount: captureState.screenshots.length,
-        screenshotLength: firstScreenshot.length
-      })
-    } else {
-      logCaptureContext("Failed to capture screenshot 1")
-    }
+    // Capture the page we start on
+    await captureCurrentPageIfMissing(adapter)
 
     // Navigate and capture remaining pages
     while (captureState.isCapturing) {
-      const hasNextPage = await navigateToNextPage()
+      const missingPage = nextMissingPage()
+      if (missingPage === null) {
+        logCaptureContext("All pages are stored")
+        break
+      }
+
+      if (captureState.isPaused) {
+        await waitWhilePaused()
+        if (!captureState.isCapturing) {
+          break
+        }
+
+        // The viewer may have been moved while paused, e.g. past a modal
+        if (!(await goToPage(adapter, missingPage))) {
+          logCaptureContext("Navigation after pause failed", { missingPage })
+          failCapture(
+            `Flow couldn't navigate back to page ${missingPage}. Please manually go to page ${missingPage} and resume the capture.`
+          )
+          return
+        }
+        captureState.currentPage = adapter.getCurrentPage()
+        sendStatusUpdate()
+        await captureCurrentPageIfMissing(adapter)
+        continue
+      }
+
+      const hasNextPage = await adapter.goNext()
 
       if (!hasNextPage) {
         logCaptureContext("No more pages to capture based on navigation result")
@@ -831,13 +1077,13 @@ async function startCapture() {
       }
 
       // Update current page from UI
-      captureState.currentPage = getCurrentPageNumber()
-      const verifiedTotalPages = detectTotalPages()
+      captureState.currentPage = adapter.getCurrentPage()
+      const verifiedTotalPages = adapter.detectTotalPages()
 
       if (verifiedTotalPages === null) {
         logCaptureContext("Lost track of total page count mid-capture")
         failCapture(
-          "Flow lost track of the total page count. Reload the DocSend and try again."
+          `Flow lost track of the total page count. Reload the ${adapter.name} page and try again.`
         )
         return
       }
@@ -850,7 +1096,7 @@ async function startCapture() {
           verifiedTotalPages
         })
         failCapture(
-          "Flow detected inconsistent page numbers. Reload the DocSend and try again."
+          `Flow detected inconsistent page numbers. Reload the ${adapter.name} page and try again.`
         )
         return
       }
@@ -860,23 +1106,11 @@ async function startCapture() {
       logCaptureContext(
         `Capturing page ${captureState.currentPage} of ${captureState.totalPages}`,
         {
-          screenshotCount: captureState.screenshots.length
+          capturedCount: captureState.capturedPages.length
         }
       )
 
-      const screenshot = await captureScreenshot()
-      if (screenshot) {
-        captureState.screenshots.push(screenshot)
-        logCaptureContext("Screenshot captured", {
-          screenshotCount: captureState.screenshots.length,
-          screenshotLength: screenshot.length,
-          currentPage: captureState.currentPage
-        })
-      } else {
-        logCaptureContext("Failed to capture screenshot for current page", {
-          currentPage: captureState.currentPage
-        })
-      }
+      await captureCurrentPageIfMissing(adapter)
 
       // Safety check: stop if current page exceeds total
       if (
@@ -887,62 +1121,47 @@ async function startCapture() {
         break
       }
 
-      // Safety check: stop if we've captured more than 500 pages
-      if (captureState.screenshots.length > 500) {
-        logCaptureContext("Safety limit reached (500 pages)")
+      // Safety check: stop once the page limit from settings is reached
+      if (captureState.capturedPages.length >= settings.maxPages) {
+        logCaptureContext(`Safety limit reached (${settings.maxPages} pages)`)
         break
       }
     }
 
     logCaptureContext("Capture loop finished", {
-      screenshotCount: captureState.screenshots.length
+      capturedCount: captureState.capturedPages.length
     })
 
-    // Only upload if we have screenshots (i.e., capture wasn't manually stopped)
-    if (captureState.screenshots.length > 0) {
-      logCaptureContext("Sending UPLOAD_SCREENSHOTS message", {
-        screenshotCount: captureState.screenshots.length
-      })
-      chrome.runtime.sendMessage(
-        {
-          type: "UPLOAD_SCREENSHOTS",
-          screenshots: captureState.screenshots,
-          metadata: {
-            url: window.location.href,
-            totalPages: captureState.screenshots.length,
-            capturedAt: new Date().toISOString()
-          }
-        },
-        (response) => {
-          logCaptureContext("UPLOAD_SCREENSHOTS response received", {
-            response
-          })
-        }
-      )
+    // Only review if we have pages (i.e., capture wasn't manually stopped)
+    if (captureState.capturedPages.length > 0) {
+      requestReview()
     } else {
-      logCaptureContext("Capture was stopped before uploads")
+      logCaptureContext("Capture was stopped before review")
     }
   } catch (error) {
     logCaptureContext("Capture error thrown", {
       error: error instanceof Error ? error.message : error
     })
-    chrome.runtime.sendMessage({
+    void sendMessage({
       type: "CAPTURE_STATUS",
       status: {
         isCapturing: false,
         currentPage: captureState.currentPage,
         totalPages: captureState.totalPages,
+        capturedCount: captureState.capturedPages.length,
         error: error instanceof Error ? error.message : "Unknown error"
       }
     })
   } finally {
     captureState.isCapturing = false
-    captureState.capturedCount = captureState.screenshots.length
+    endPause()
+    captureState.capturedCount = captureState.capturedPages.length
     sendStatusUpdate()
     logCaptureContext("Capture state finalized", {
       capturedCount: captureState.capturedCount
     })
     await restoreZoomIfNeeded()
+    await releaseCaptureBackend()
 
     // Reset after a delay to allow success message to show
     setTimeout(() => {
@@ -953,11 +1172,232 @@ async function startCapture() {
   }
 }
 
-function stopCapture() {
-  logCaptureContext("STOP_CAPTURE received; clearing state")
+function isTargetPage(pageNumber: number): boolean {
+  return captureState.targetPages?.includes(pageNumber) ?? true
+}
+
+// Lowest page to capture that isn't in the page store yet, or null once
+// every page is stored
+function nextMissingPage(): number | null {
+  const captured = new Set(captureState.capturedPages)
+  const pages =
+    captureState.targetPages ??
+    Array.from({ length: captureState.totalPages ?? 0 }, (_, i) => i + 1)
+  return pages.find((page) => !captured.has(page)) ?? null
+}
+
+// Re-captures of a frame that looked blank or like the previous page
+const MAX_FRAME_RETRIES = 2
+const FRAME_RETRY_DELAY_MS = 1000
+
+async function captureCurrentPageIfMissing(adapter: ViewerAdapter) {
+  const pageNumber = captureState.currentPage
+
+  if (!isTargetPage(pageNumber)) {
+    logCaptureContext("Page outside the selected range; skipping", {
+      pageNumber
+    })
+    return
+  }
+
+  if (captureState.capturedPages.includes(pageNumber)) {
+    logCaptureContext("Page already stored; skipping", { pageNumber })
+    return
+  }
+
+  // A blank or repeated frame usually means the slide hasn't rendered yet:
+  // wait and capture again, keeping the last attempt whatever it shows
+  for (let attempt = 0; attempt <= MAX_FRAME_RETRIES; attempt++) {
+    const { stored, anomaly } = await captureScreenshot(
+      pageNumber,
+      adapter.getSlideElement(pageNumber),
+      { acceptAnomaly: attempt === MAX_FRAME_RETRIES }
+    )
+
+    if (stored) {
+      recordCapturedPage(pageNumber, anomaly)
+      logCaptureContext("Screenshot captured", {
+        capturedCount: captureState.capturedPages.length,
+        currentPage: pageNumber,
+        anomaly
+      })
+      return
+    }
+    if (!anomaly || !captureState.isCapturing) {
+      break
+    }
+
+    logCaptureContext("Waiting before capturing the page again", {
+      currentPage: pageNumber,
+      anomaly,
+      attempt: attempt + 1
+    })
+    await sleep(FRAME_RETRY_DELAY_MS * (attempt + 1))
+  }
+
+  logCaptureContext("Failed to capture screenshot for current page", {
+    currentPage: pageNumber
+  })
+}
+
+// Walk the viewer to `pageNumber`, stepping back when it's already past it
+async function goToPage(
+  adapter: ViewerAdapter,
+  pageNumber: number
+): Promise<boolean> {
+  if (adapter.getCurrentPage() > pageNumber) {
+    return adapter.goBackTo(pageNumber)
+  }
+  while (adapter.getCurrentPage() < pageNumber) {
+    if (!(await adapter.goNext())) {
+      return false
+    }
+  }
+  return adapter.getCurrentPage() === pageNumber
+}
+
+// Capture one page again from the review screen, overwriting the stored
+// copy in the reviewed session
+async function recapturePage(
+  sessionId: string,
+  pageNumber: number
+): Promise<{ success: boolean; anomaly?: FrameAnomaly; error?: string }> {
+  if (captureState.isCapturing) {
+    return { success: false, error: "Wait for the capture to finish first." }
+  }
+
+  const adapter = getViewerAdapter()
+  if (!adapter) {
+    return {
+      success: false,
+      error: "Flow doesn't recognize this document viewer."
+    }
+  }
+
+  logCaptureContext("Capturing page again for review", {
+    sessionId,
+    pageNumber
+  })
+
+  const backendResult = await attachCaptureBackend()
+  if (!backendResult.success) {
+    return {
+      success: false,
+      error:
+        backendResult.error ?? "Flow couldn't take screenshots of this tab."
+    }
+  }
+
+  try {
+    if (adapter.isScrollable()) {
+      const img = adapter
+        .listPageImages()
+        .find(
+          (image, index) =>
+            (parseInt(image.getAttribute("data-pagenum") || "", 10) ||
+              index + 1) === pageNumber
+        )
+      if (!img) {
+        return {
+          success: false,
+          error: `Flow couldn't find page ${pageNumber} in the document.`
+        }
+      }
+      if (await storeExtractedImage(pageNumber, img, sessionId)) {
+        return { success: true }
+      }
+      img.scrollIntoView({ behavior: "instant", block: "start" })
+      await sleep(300)
+      const { stored, anomaly } = await captureScreenshot(pageNumber, img, {
+        acceptAnomaly: true,
+        sessionId
+      })
+      return stored
+        ? { success: true, anomaly }
+        : { success: false, error: "Flow couldn't capture the page." }
+    }
+
+    const zoomResult = await ensureDefaultZoom()
+    captureState.zoomAdjusted = zoomResult.adjusted
+
+    if (!(await goToPage(adapter, pageNumber))) {
+      return {
+        success: false,
+        error: `Flow couldn't navigate to page ${pageNumber}.`
+      }
+    }
+
+    const { stored, anomaly } = await captureScreenshot(
+      pageNumber,
+      adapter.getSlideElement(pageNumber),
+      { acceptAnomaly: true, sessionId }
+    )
+    return stored
+      ? { success: true, anomaly }
+      : { success: false, error: "Flow couldn't capture the page." }
+  } finally {
+    await restoreZoomIfNeeded()
+    await releaseCaptureBackend()
+  }
+}
+
+// Resolves the wait of a paused capture loop
+let releasePause: (() => void) | null = null
+
+// Hold the capture loop between pages while the capture is paused
+function waitWhilePaused(): Promise<void> {
+  if (!captureState.isPaused) {
+    return Promise.resolve()
+  }
+  return new Promise((resolve) => {
+    releasePause = resolve
+  })
+}
+
+function endPause() {
+  captureState.isPaused = false
+  releasePause?.()
+  releasePause = null
+}
+
+// The page being captured is finished first, so the loop stops between pages
+function pauseCapture() {
+  if (!captureState.isCapturing || captureState.isPaused) {
+    return
+  }
+  logCaptureContext("Pausing capture", {
+    capturedCount: captureState.capturedPages.length
+  })
+  captureState.isPaused = true
+  sendStatusUpdate()
+}
+
+function continueCapture() {
+  if (!captureState.isPaused) {
+    return
+  }
+  logCaptureContext("Continuing paused capture")
+  endPause()
+  sendStatusUpdate()
+}
+
+// Stop the capture. With `upload`, the pages captured so far are uploaded
+// without waiting for a review; otherwise they're discarded.
+function stopCapture({ upload = false }: { upload?: boolean } = {}) {
+  logCaptureContext("STOP_CAPTURE received; clearing state", { upload })
   void restoreZoomIfNeeded()
+  void releaseCaptureBackend()
   captureState.isCapturing = false
-  captureState.screenshots = [] // Clear screenshots to prevent upload
+  endPause()
+  if (upload && captureState.capturedPages.length > 0) {
+    requestUpload()
+    // The upload owns the stored pages now
+    captureState.sessionId = null
+  } else {
+    discardStoredPages()
+  }
+  captureState.capturedPages = [] // Clear pages to prevent a review
+  captureState.anomalies = []
   captureState.currentPage = 0
   captureState.totalPages = null
   captureState.capturedCount = 0
@@ -972,30 +1412,85 @@ function sleep(ms: number): Promise<void> {
 
 // Listen for messages from popup
 chrome.runtime.onMessage.addListener(
-  (
-    message: { type: string },
-    _sender: chrome.runtime.MessageSender,
-    sendResponse: (response?: { success: boolean }) => void
-  ) => {
-    if (message.type === "START_CAPTURE") {
-      startCapture()
+  handleMessages("Content", {
+    START_CAPTURE: (message, _sender, sendResponse) => {
+      startCapture({
+        resume: message.resume,
+        resolution: message.resolution,
+        range: message.range,
+        previousMaterialId: message.previousMaterialId
+      })
+      sendResponse({ success: true })
+    },
+    STOP_CAPTURE: (message, _sender, sendResponse) => {
+      stopCapture({ upload: message.upload })
       sendResponse({ success: true })
-    } else if (message.type === "STOP_CAPTURE") {
-      stopCapture()
+    },
+    PAUSE_CAPTURE: (_message, _sender, sendResponse) => {
+      pauseCapture()
       sendResponse({ success: true })
+    },
+    CONTINUE_CAPTURE: (_message, _sender, sendResponse) => {
+      continueCapture()
+      sendResponse({ success: true })
+    },
+    CAPTURE_INTERRUPTED: (message, _sender, sendResponse) => {
+      // The debugger session was ended from outside; the session is gone
+      captureState.backendAttached = false
+      captureState.resolutionApplied = false
+      if (captureState.isCapturing) {
+        failCapture(message.error)
+      }
+      sendResponse({ success: true })
+    },
+    RECAPTURE_PAGE: (message, _sender, sendResponse) => {
+      recapturePage(message.sessionId, message.pageNumber).then(sendResponse)
+      return true // Keep message channel open for async response
     }
-
-    return true // Keep message channel open for async response
-  }
+  })
 )
 
 // Listen for events from inline capture button
-document.addEventListener("flow:capture:start", () => {
-  startCapture()
+document.addEventListener("flow:capture:start", (event) => {
+  // The inline button's page range, if one was entered, and the material
+  // to capture a new version of
+  const detail = (
+    event as CustomEvent<{ range?: string; previousMaterialId?: string } | null>
+  ).detail
+  startCapture({
+    range: detail?.range,
+    previousMaterialId: detail?.previousMaterialId
+  })
+})
+
+document.addEventListener("flow:capture:resume", () => {
+  startCapture({ resume: true })
+})
+
+document.addEventListener("flow:capture:stop", (event) => {
+  // Whether the inline button chose to upload the pages captured so far
+  const detail = (event as CustomEvent<{ upload?: boolean } | null>).detail
+  stopCapture({ upload: detail?.upload })
+})
+
+document.addEventListener("flow:capture:pause", () => {
+  pauseCapture()
 })
 
-document.addEventListener("flow:capture:stop", () => {
-  stopCapture()
+// Continues a paused capture; "flow:capture:resume" picks up an interrupted
+// one after a reload
+document.addEventListener("flow:capture:continue", () => {
+  continueCapture()
 })
 
-console.log("Flow DocSend capture content script loaded")
+// Check whether this document is already in Flow; the inline button and the
+// popup read the answer from the lookup cache
+sendMessage({ type: "LOOKUP_MATERIAL", url: window.location.href }).catch(
+  (error) => {
+    logCaptureContext("LOOKUP_MATERIAL failed", {
+      error: error instanceof Error ? error.message : error
+    })
+  }
+)
+
+console.log("Flow capture content script loaded")
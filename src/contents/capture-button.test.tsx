@@ -1,13 +1,78 @@
 import { screen, waitFor } from "@testing-library/react"
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
 
+import { CAPTURE_REVIEWS_KEY } from "../lib/capture-review"
+import { getDocumentKey } from "../lib/capture-session"
+import { createCaptureState, type TabCaptureState } from "../lib/capture-state"
+import { MATERIAL_LOOKUPS_KEY } from "../lib/material-lookup"
 import {
   resetMessageListeners,
+  setChromeStorageData,
   triggerChromeMessage
 } from "../test/mocks/chrome"
 import { renderWithProviders, userEvent } from "../test/utils"
 import CaptureButton from "./capture-button"
 
+// Finished capture of this page waiting for review, as the background saves
+// it through @plasmohq/storage
+function seedCaptureReview(pageNumbers: number[]) {
+  const documentKey = getDocumentKey(window.location.href) as string
+  setChromeStorageData({
+    [CAPTURE_REVIEWS_KEY]: JSON.stringify({
+      [documentKey]: {
+        sessionId: "session-1",
+        documentKey,
+        tabId: 1,
+        url: window.location.href,
+        pageNumbers,
+        capturedAt: new Date().toISOString()
+      }
+    })
+  })
+}
+
+// Lookup the background cached for this page, captured `daysAgo` days ago
+function seedExistingMaterial(daysAgo: number) {
+  const documentKey = getDocumentKey(window.location.href) as string
+  setChromeStorageData({
+    [MATERIAL_LOOKUPS_KEY]: JSON.stringify({
+      [documentKey]: {
+        material: {
+          id: "material-1",
+          capturedAt: new Date(
+            Date.now() - daysAgo * 24 * 60 * 60 * 1000
+          ).toISOString()
+        },
+        checkedAt: new Date().toISOString()
+      }
+    })
+  })
+}
+
+// The background pushes this tab's state whenever it changes
+function pushCaptureState(state: Partial<TabCaptureState>) {
+  return triggerChromeMessage({
+    type: "CAPTURE_STATE",
+    state: { ...createCaptureState(1), ...state }
+  })
+}
+
+// The background reports progress once an upload is under way
+function triggerUploadProgress() {
+  return pushCaptureState({
+    phase: "uploading",
+    upload: { currentFile: 1, totalFiles: 10, percent: 10 }
+  })
+}
+
+function triggerUploadError(error: string, upload?: object) {
+  return pushCaptureState({
+    phase: "error",
+    error,
+    upload: { currentFile: 0, totalFiles: 80, percent: 0, ...upload }
+  })
+}
+
 describe("CaptureButton", () => {
   beforeEach(() => {
     resetMessageListeners()
@@ -27,6 +92,25 @@ describe("CaptureButton", () => {
       expect(screen.getByText(/Save to Flow/i)).toBeInTheDocument()
     })
 
+    it("should show the state the background has for the tab", async () => {
+      vi.mocked(chrome.runtime.sendMessage).mockResolvedValueOnce({
+        state: {
+          ...createCaptureState(1),
+          phase: "uploading",
+          upload: { currentFile: 4, totalFiles: 10, percent: 40 }
+        }
+      })
+
+      renderWithProviders(<CaptureButton />)
+
+      expect(
+        await screen.findByText(/Uploading.../i, {}, { timeout: 500 })
+      ).toBeInTheDocument()
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+        type: "GET_CAPTURE_STATE"
+      })
+    })
+
     it("should have primary styling in default state", () => {
       renderWithProviders(<CaptureButton />)
 
@@ -39,16 +123,12 @@ describe("CaptureButton", () => {
     it("should show capturing state when capture starts", async () => {
       renderWithProviders(<CaptureButton />)
 
-      // Dispatch custom event to simulate capture start
-      const captureEvent = new CustomEvent("flow:capture:status", {
-        detail: {
-          isCapturing: true,
-          currentPage: 3,
-          totalPages: 10,
-          capturedCount: 3
-        }
+      await pushCaptureState({
+        phase: "capturing",
+        currentPage: 3,
+        totalPages: 10,
+        capturedCount: 3
       })
-      document.dispatchEvent(captureEvent)
 
       await waitFor(
         () => {
@@ -58,19 +138,25 @@ describe("CaptureButton", () => {
       )
     })
 
+    it("should show that a capture is being prepared", async () => {
+      renderWithProviders(<CaptureButton />)
+
+      await pushCaptureState({ phase: "preparing" })
+
+      expect(
+        await screen.findByText(/Preparing capture.../i, {}, { timeout: 500 })
+      ).toBeInTheDocument()
+    })
+
     it("should fall back to single-page label when total pages are unknown", async () => {
       renderWithProviders(<CaptureButton />)
 
-      document.dispatchEvent(
-        new CustomEvent("flow:capture:status", {
-          detail: {
-            isCapturing: true,
-            currentPage: 2,
-            totalPages: null,
-            capturedCount: 2
-          }
-        })
-      )
+      await pushCaptureState({
+        phase: "capturing",
+        currentPage: 2,
+        totalPages: null,
+        capturedCount: 2
+      })
 
       await waitFor(
         () => {
@@ -80,84 +166,185 @@ describe("CaptureButton", () => {
       )
     })
 
-    it("should switch to uploading state when capture completes", async () => {
+    it("should offer to upload the reviewed pages when capture completes", async () => {
+      seedCaptureReview([1, 2, 3])
       renderWithProviders(<CaptureButton />)
 
-      // Start capturing
-      document.dispatchEvent(
-        new CustomEvent("flow:capture:status", {
-          detail: {
-            isCapturing: true,
-            currentPage: 5,
-            totalPages: 10,
-            capturedCount: 5
-          }
-        })
+      await pushCaptureState({
+        phase: "capturing",
+        currentPage: 3,
+        totalPages: 3,
+        capturedCount: 3
+      })
+      await screen.findByText(/Capturing.../i, {}, { timeout: 500 })
+
+      await pushCaptureState({
+        phase: "reviewing",
+        currentPage: 3,
+        totalPages: 3,
+        capturedCount: 3
+      })
+
+      expect(
+        await screen.findByText(/Upload 3 pages/i, {}, { timeout: 500 })
+      ).toBeInTheDocument()
+      expect(screen.queryByText(/Uploading.../i)).not.toBeInTheDocument()
+    })
+  })
+
+  describe("Paused State", () => {
+    it("should dispatch pause event while capturing", async () => {
+      const user = userEvent.setup()
+      const dispatchSpy = vi.spyOn(document, "dispatchEvent")
+
+      renderWithProviders(<CaptureButton />)
+
+      await pushCaptureState({
+        phase: "capturing",
+        currentPage: 4,
+        totalPages: 10,
+        capturedCount: 3
+      })
+
+      await user.click(await screen.findByText(/^Pause$/, {}, { timeout: 500 }))
+
+      expect(dispatchSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "flow:capture:pause" })
       )
+    })
 
-      await waitFor(
-        () => {
-          expect(screen.getByText(/Capturing.../i)).toBeInTheDocument()
-        },
-        { timeout: 500 }
+    it("should show the paused page and continue on resume", async () => {
+      const user = userEvent.setup()
+      const dispatchSpy = vi.spyOn(document, "dispatchEvent")
+
+      renderWithProviders(<CaptureButton />)
+
+      await pushCaptureState({
+        phase: "paused",
+        currentPage: 4,
+        totalPages: 10,
+        capturedCount: 4
+      })
+
+      expect(
+        await screen.findByText(/Paused on page 4/i, {}, { timeout: 500 })
+      ).toBeInTheDocument()
+      await user.click(screen.getByText(/^Resume$/))
+
+      expect(dispatchSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "flow:capture:continue" })
+      )
+    })
+  })
+
+  describe("Review State", () => {
+    it("should upload the pages in their reviewed order", async () => {
+      const user = userEvent.setup()
+      seedCaptureReview([3, 1])
+      renderWithProviders(<CaptureButton />)
+
+      await user.click(
+        await screen.findByText(/Upload 2 pages/i, {}, { timeout: 500 })
       )
+      await user.type(screen.getByLabelText("Tags"), "fintech, seed")
+      await user.click(screen.getByRole("button", { name: "Save to Flow" }))
 
-      // Complete capture
-      document.dispatchEvent(
-        new CustomEvent("flow:capture:status", {
-          detail: {
-            isCapturing: false,
-            currentPage: 10,
-            totalPages: 10,
-            capturedCount: 10
-          }
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "UPLOAD_SCREENSHOTS",
+          sessionId: "session-1",
+          pageNumbers: [3, 1],
+          tabId: 1,
+          metadata: expect.objectContaining({ totalPages: 2 }),
+          destination: { tags: ["fintech", "seed"] }
         })
       )
 
-      await waitFor(
-        () => {
-          expect(screen.getByText(/Uploading.../i)).toBeInTheDocument()
-        },
-        { timeout: 500 }
+      // The background moves the tab on once the upload is queued
+      await triggerUploadProgress()
+      expect(await screen.findByText(/Uploading.../i)).toBeInTheDocument()
+    })
+
+    it("should discard the capture under review", async () => {
+      const user = userEvent.setup()
+      seedCaptureReview([1, 2])
+      renderWithProviders(<CaptureButton />)
+
+      await user.click(
+        await screen.findByRole("button", { name: "Discard" }, { timeout: 500 })
       )
+
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+        type: "DISCARD_CAPTURE",
+        sessionId: "session-1"
+      })
     })
   })
 
-  describe("Uploading State", () => {
-    it("should show uploading message", async () => {
+  describe("Existing Material State", () => {
+    it("should say when the document was captured into Flow", async () => {
+      seedExistingMaterial(3)
       renderWithProviders(<CaptureButton />)
 
-      // First start capturing
-      document.dispatchEvent(
-        new CustomEvent("flow:capture:status", {
-          detail: {
-            isCapturing: true,
-            currentPage: 5,
-            totalPages: 10,
-            capturedCount: 5
-          }
-        })
-      )
+      expect(
+        await screen.findByText(
+          "Already in Flow — captured 3 days ago",
+          {},
+          { timeout: 500 }
+        )
+      ).toBeInTheDocument()
+      expect(
+        screen.getByRole("button", { name: "Open existing" })
+      ).toBeInTheDocument()
+    })
 
-      // Wait for capturing state to be set
-      await waitFor(
-        () => {
-          expect(screen.getByText(/Capturing.../i)).toBeInTheDocument()
-        },
-        { timeout: 500 }
+    it("should capture a new version of the existing material", async () => {
+      const user = userEvent.setup()
+      const dispatchSpy = vi.spyOn(document, "dispatchEvent")
+      seedExistingMaterial(3)
+      renderWithProviders(<CaptureButton />)
+
+      await user.click(
+        await screen.findByRole(
+          "button",
+          { name: "Capture new version" },
+          { timeout: 500 }
+        )
       )
 
-      // Then complete capture to trigger upload
-      document.dispatchEvent(
-        new CustomEvent("flow:capture:status", {
-          detail: {
-            isCapturing: false,
-            currentPage: 10,
-            totalPages: 10,
-            capturedCount: 10
-          }
+      expect(dispatchSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "flow:capture:start",
+          detail: { previousMaterialId: "material-1" }
         })
       )
+    })
+
+    it("should capture a separate copy anyway", async () => {
+      const user = userEvent.setup()
+      const dispatchSpy = vi.spyOn(document, "dispatchEvent")
+      seedExistingMaterial(3)
+      renderWithProviders(<CaptureButton />)
+
+      await user.click(
+        await screen.findByRole(
+          "button",
+          { name: "Capture anyway" },
+          { timeout: 500 }
+        )
+      )
+
+      const event = dispatchSpy.mock.calls[0][0] as CustomEvent
+      expect(event.type).toBe("flow:capture:start")
+      expect(event.detail).toBeNull()
+    })
+  })
+
+  describe("Uploading State", () => {
+    it("should show uploading message", async () => {
+      renderWithProviders(<CaptureButton />)
+
+      await triggerUploadProgress()
 
       await waitFor(
         () => {
@@ -170,46 +357,46 @@ describe("CaptureButton", () => {
     it("should disable button during upload", async () => {
       renderWithProviders(<CaptureButton />)
 
-      // First start capturing
-      document.dispatchEvent(
-        new CustomEvent("flow:capture:status", {
-          detail: {
-            isCapturing: true,
-            currentPage: 5,
-            totalPages: 10,
-            capturedCount: 5
-          }
-        })
-      )
+      await triggerUploadProgress()
 
-      // Wait for capturing state to be set
       await waitFor(
         () => {
-          expect(screen.getByText(/Capturing.../i)).toBeInTheDocument()
+          const uploadingDiv = screen.getByText(/Uploading.../i)
+          // It's a div, not a button, so not clickable
+          expect(uploadingDiv.tagName).toBe("DIV")
         },
         { timeout: 500 }
       )
+    })
+  })
 
-      // Then complete capture to trigger upload
-      document.dispatchEvent(
-        new CustomEvent("flow:capture:status", {
-          detail: {
-            isCapturing: false,
-            currentPage: 10,
-            totalPages: 10,
-            capturedCount: 10
-          }
-        })
+  describe("Cancel Upload", () => {
+    it("should cancel the upload from the uploading state", async () => {
+      const user = userEvent.setup()
+      renderWithProviders(<CaptureButton />)
+
+      await triggerUploadProgress()
+
+      await user.click(
+        await screen.findByRole("button", { name: "Cancel" }, { timeout: 500 })
       )
 
-      await waitFor(
-        () => {
-          const uploadingDiv = screen.getByText(/Uploading.../i)
-          // It's a div, not a button, so not clickable
-          expect(uploadingDiv.tagName).toBe("DIV")
-        },
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+        type: "CANCEL_UPLOAD"
+      })
+    })
+
+    it("should show the cancelled state", async () => {
+      renderWithProviders(<CaptureButton />)
+
+      await pushCaptureState({ phase: "cancelled" })
+
+      const cancelled = await screen.findByText(
+        /Upload cancelled/i,
+        {},
         { timeout: 500 }
       )
+      expect(cancelled.className).not.toContain("flow-button-error")
     })
   })
 
@@ -217,10 +404,9 @@ describe("CaptureButton", () => {
     it("should show success message after upload completes", async () => {
       renderWithProviders(<CaptureButton />)
 
-      await triggerChromeMessage({
-        type: "UPLOAD_SUCCESS",
-        materialId: "test-id",
-        imageCount: 10
+      await pushCaptureState({
+        phase: "done",
+        upload: { currentFile: 10, totalFiles: 10, percent: 100 }
       })
 
       await waitFor(
@@ -234,10 +420,9 @@ describe("CaptureButton", () => {
     it("should have success styling", async () => {
       renderWithProviders(<CaptureButton />)
 
-      await triggerChromeMessage({
-        type: "UPLOAD_SUCCESS",
-        materialId: "test-id",
-        imageCount: 10
+      await pushCaptureState({
+        phase: "done",
+        upload: { currentFile: 10, totalFiles: 10, percent: 100 }
       })
 
       await waitFor(
@@ -252,10 +437,9 @@ describe("CaptureButton", () => {
     it("should auto-dismiss success state after 3 seconds", async () => {
       renderWithProviders(<CaptureButton />)
 
-      await triggerChromeMessage({
-        type: "UPLOAD_SUCCESS",
-        materialId: "test-id",
-        imageCount: 10
+      await pushCaptureState({
+        phase: "done",
+        upload: { currentFile: 10, totalFiles: 10, percent: 100 }
       })
 
       await waitFor(
@@ -268,13 +452,17 @@ describe("CaptureButton", () => {
       // Wait for auto-dismiss (3 seconds + buffer)
       await waitFor(
         () => {
-          expect(
-            screen.queryByText(/Uploaded to Flow/i)
-          ).not.toBeInTheDocument()
-          expect(screen.getByText(/Save to Flow/i)).toBeInTheDocument()
+          expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+            type: "DISMISS_CAPTURE_STATE"
+          })
         },
         { timeout: 3500 }
       )
+
+      // The background puts the tab back to idle
+      await pushCaptureState({ phase: "idle" })
+      expect(screen.queryByText(/Uploaded to Flow/i)).not.toBeInTheDocument()
+      expect(screen.getByText(/Save to Flow/i)).toBeInTheDocument()
     })
   })
 
@@ -282,10 +470,7 @@ describe("CaptureButton", () => {
     it("should show error message on upload failure", async () => {
       renderWithProviders(<CaptureButton />)
 
-      await triggerChromeMessage({
-        type: "UPLOAD_ERROR",
-        error: "Network connection failed"
-      })
+      await triggerUploadError("Network connection failed")
 
       await waitFor(
         () => {
@@ -300,10 +485,7 @@ describe("CaptureButton", () => {
     it("should have error styling", async () => {
       renderWithProviders(<CaptureButton />)
 
-      await triggerChromeMessage({
-        type: "UPLOAD_ERROR",
-        error: "Test error"
-      })
+      await triggerUploadError("Test error")
 
       await waitFor(
         () => {
@@ -318,10 +500,7 @@ describe("CaptureButton", () => {
       const user = userEvent.setup()
       renderWithProviders(<CaptureButton />)
 
-      await triggerChromeMessage({
-        type: "UPLOAD_ERROR",
-        error: "Test error"
-      })
+      await triggerUploadError("Test error")
 
       const errorButton = await screen.findByText(
         /Upload Failed/i,
@@ -338,10 +517,7 @@ describe("CaptureButton", () => {
     it("should auto-dismiss error state after 5 seconds", async () => {
       renderWithProviders(<CaptureButton />)
 
-      await triggerChromeMessage({
-        type: "UPLOAD_ERROR",
-        error: "Test error"
-      })
+      await triggerUploadError("Test error")
 
       await waitFor(
         () => {
@@ -353,14 +529,81 @@ describe("CaptureButton", () => {
       // Wait for auto-dismiss (5 seconds + buffer)
       await waitFor(
         () => {
-          expect(screen.queryByText(/Upload Failed/i)).not.toBeInTheDocument()
-          expect(screen.getByText(/Save to Flow/i)).toBeInTheDocument()
+          expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+            type: "DISMISS_CAPTURE_STATE"
+          })
         },
         { timeout: 5500 }
       )
+
+      await pushCaptureState({ phase: "idle" })
+      expect(screen.queryByText(/Upload Failed/i)).not.toBeInTheDocument()
+      expect(screen.getByText(/Save to Flow/i)).toBeInTheDocument()
     }, 7000) // Increase test timeout to 7 seconds
   })
 
+  describe("Partial Failure State", () => {
+    it("should offer to retry only the failed pages", async () => {
+      const user = userEvent.setup()
+      vi.mocked(chrome.runtime.sendMessage).mockResolvedValueOnce({
+        retrying: true
+      })
+      renderWithProviders(<CaptureButton />)
+
+      await triggerUploadError(
+        "1 of 80 pages failed to upload: Network error",
+        { jobId: "job-1", failedPages: [42] }
+      )
+
+      const retryButton = await screen.findByText(
+        /Retry 1 failed page$/i,
+        {},
+        { timeout: 500 }
+      )
+      expect(retryButton.className).toContain("flow-button-error")
+      await user.click(retryButton)
+
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+        type: "RETRY_UPLOAD",
+        jobId: "job-1"
+      })
+      await triggerUploadProgress()
+      expect(await screen.findByText(/Uploading.../i)).toBeInTheDocument()
+    })
+
+    it("should pluralize the retry label", async () => {
+      renderWithProviders(<CaptureButton />)
+
+      await triggerUploadError(
+        "3 of 80 pages failed to upload: Network error",
+        { jobId: "job-1", failedPages: [3, 7, 42] }
+      )
+
+      expect(
+        await screen.findByText(/Retry 3 failed pages/i, {}, { timeout: 500 })
+      ).toBeInTheDocument()
+    })
+
+    it("should keep the failed pages until they are retried", async () => {
+      vi.useFakeTimers()
+      renderWithProviders(<CaptureButton />)
+
+      await triggerUploadError(
+        "1 of 80 pages failed to upload: Network error",
+        {
+          jobId: "job-1",
+          failedPages: [42]
+        }
+      )
+      vi.advanceTimersByTime(10000)
+
+      expect(chrome.runtime.sendMessage).not.toHaveBeenCalledWith({
+        type: "DISMISS_CAPTURE_STATE"
+      })
+      expect(screen.getByText(/Retry 1 failed page$/i)).toBeInTheDocument()
+    })
+  })
+
   describe("User Interactions", () => {
     it("should dispatch start capture event on click", async () => {
       const user = userEvent.setup()
@@ -384,23 +627,15 @@ describe("CaptureButton", () => {
 
       renderWithProviders(<CaptureButton />)
 
-      // Start capturing
-      document.dispatchEvent(
-        new CustomEvent("flow:capture:status", {
-          detail: {
-            isCapturing: true,
-            currentPage: 5,
-            totalPages: 10,
-            capturedCount: 5
-          }
-        })
-      )
+      // Start capturing before any page is stored
+      await pushCaptureState({
+        phase: "capturing",
+        currentPage: 1,
+        totalPages: 10,
+        capturedCount: 0
+      })
 
-      const button = await screen.findByText(
-        /Capturing.../i,
-        {},
-        { timeout: 500 }
-      )
+      const button = await screen.findByText(/^Stop$/, {}, { timeout: 500 })
       await user.click(button)
 
       expect(dispatchSpy).toHaveBeenCalledWith(
@@ -410,40 +645,65 @@ describe("CaptureButton", () => {
       )
     })
 
-    it("should not allow clicks during upload", async () => {
+    it("should ask whether to upload or discard the captured pages on stop", async () => {
+      const user = userEvent.setup()
+      const dispatchSpy = vi.spyOn(document, "dispatchEvent")
+
       renderWithProviders(<CaptureButton />)
 
-      // First start capturing
-      document.dispatchEvent(
-        new CustomEvent("flow:capture:status", {
-          detail: {
-            isCapturing: true,
-            currentPage: 5,
-            totalPages: 10,
-            capturedCount: 5
-          }
-        })
-      )
+      await pushCaptureState({
+        phase: "capturing",
+        currentPage: 5,
+        totalPages: 10,
+        capturedCount: 5
+      })
 
-      // Wait for capturing state to be set
-      await waitFor(
-        () => {
-          expect(screen.getByText(/Capturing.../i)).toBeInTheDocument()
-        },
-        { timeout: 500 }
-      )
+      await user.click(await screen.findByText(/^Stop$/, {}, { timeout: 500 }))
+      expect(screen.getByText(/Discard/i)).toBeInTheDocument()
+      await user.click(screen.getByText(/Upload 5 pages/i))
 
-      // Then complete capture to trigger upload
-      document.dispatchEvent(
-        new CustomEvent("flow:capture:status", {
-          detail: {
-            isCapturing: false,
-            currentPage: 10,
-            totalPages: 10,
-            capturedCount: 10
-          }
-        })
+      const event = dispatchSpy.mock.calls
+        .map(([event]) => event)
+        .find((event) => event.type === "flow:capture:stop") as CustomEvent
+      expect(event.detail).toEqual({ upload: true })
+    })
+
+    it("should dispatch start capture event with a page range", async () => {
+      const user = userEvent.setup()
+      const dispatchSpy = vi.spyOn(document, "dispatchEvent")
+
+      renderWithProviders(<CaptureButton />)
+
+      await user.click(screen.getByLabelText(/Choose pages to capture/i))
+      await user.type(screen.getByPlaceholderText(/1-3, 18-25/), "1-3, 18-")
+      await user.click(screen.getByText(/Capture pages/i))
+
+      const event = dispatchSpy.mock.calls
+        .map(([event]) => event)
+        .find((event) => event.type === "flow:capture:start") as CustomEvent
+      expect(event.detail).toEqual({ range: "1-3, 18-" })
+    })
+
+    it("should not start a capture with an invalid page range", async () => {
+      const user = userEvent.setup()
+      const dispatchSpy = vi.spyOn(document, "dispatchEvent")
+
+      renderWithProviders(<CaptureButton />)
+
+      await user.click(screen.getByLabelText(/Choose pages to capture/i))
+      await user.type(screen.getByPlaceholderText(/1-3, 18-25/), "5-2")
+      await user.click(screen.getByText(/Capture pages/i))
+
+      expect(screen.getByText(/ends before it starts/i)).toBeInTheDocument()
+      expect(dispatchSpy).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: "flow:capture:start" })
       )
+    })
+
+    it("should not allow clicks during upload", async () => {
+      renderWithProviders(<CaptureButton />)
+
+      await triggerUploadProgress()
 
       await waitFor(
         () => {
@@ -460,17 +720,13 @@ describe("CaptureButton", () => {
     it("should show capture error message", async () => {
       renderWithProviders(<CaptureButton />)
 
-      document.dispatchEvent(
-        new CustomEvent("flow:capture:status", {
-          detail: {
-            isCapturing: false,
-            currentPage: 0,
-            totalPages: 0,
-            capturedCount: 0,
-            error: "Failed to navigate pages"
-          }
-        })
-      )
+      await pushCaptureState({
+        phase: "error",
+        currentPage: 0,
+        totalPages: null,
+        capturedCount: 0,
+        error: "Failed to navigate pages"
+      })
 
       await waitFor(
         () => {
@@ -485,17 +741,13 @@ describe("CaptureButton", () => {
     it("should have error styling for capture errors", async () => {
       renderWithProviders(<CaptureButton />)
 
-      document.dispatchEvent(
-        new CustomEvent("flow:capture:status", {
-          detail: {
-            isCapturing: false,
-            currentPage: 0,
-            totalPages: 0,
-            capturedCount: 0,
-            error: "Test error"
-          }
-        })
-      )
+      await pushCaptureState({
+        phase: "error",
+        currentPage: 0,
+        totalPages: null,
+        capturedCount: 0,
+        error: "Test error"
+      })
 
       await waitFor(
         () => {
@@ -5,22 +5,66 @@ import type {
 } from "plasmo"
 import { useEffect, useState } from "react"
 
+import { useStorage } from "@plasmohq/storage/hook"
+
+import { useSaveDestination } from "../features/use-save-destination"
+import {
+  CAPTURE_REVIEWS_KEY,
+  findCaptureReview,
+  getReviewUpload,
+  type CaptureReview,
+  type CaptureReviews
+} from "../lib/capture-review"
+import {
+  CAPTURE_SESSIONS_KEY,
+  findResumableSession,
+  getResumePage,
+  type CaptureSessions
+} from "../lib/capture-session"
+import {
+  getDismissDelay,
+  isCapturePhase,
+  isUploadPhase,
+  type TabCaptureState
+} from "../lib/capture-state"
+import { summarizeAnomalies } from "../lib/frame-analysis"
+import {
+  findExistingMaterial,
+  formatCapturedAgo,
+  MATERIAL_LOOKUPS_KEY,
+  type MaterialLookups
+} from "../lib/material-lookup"
+import { handleMessages, sendMessage } from "../lib/messages"
+import { parsePageRange } from "../lib/page-range"
+import type { SaveDestination } from "../lib/save-destination"
+import { getWebAppUrl } from "../lib/settings"
+import { storage } from "../lib/storage"
+import { detectViewerAdapter } from "../lib/viewers"
+
 import "../style.css"
 
+// Keep in sync with the adapters registered in lib/viewers
 export const config: PlasmoCSConfig = {
-  matches: ["https://docsend.com/*"]
+  matches: [
+    "https://docsend.com/*",
+    "https://*.docsend.com/*",
+    "https://papermark.io/view/*",
+    "https://www.papermark.io/view/*",
+    "https://papermark.com/view/*",
+    "https://www.papermark.com/view/*",
+    "https://pitch.com/public/*",
+    "https://pitch.com/v/*",
+    "https://docs.google.com/presentation/d/e/*",
+    "https://brieflink.com/*",
+    "https://*.brieflink.com/*"
+  ]
 }
 
-// Mount button inside DocSend toolbar
+// Mount button inside the viewer toolbar
 export const getInlineAnchor: PlasmoGetInlineAnchor = () => {
-  const toolbarButtons = document.querySelector(
-    ".presentation-toolbar_buttons.pull-right"
-  )
-  if (toolbarButtons) {
-    return {
-      element: toolbarButtons as HTMLElement,
-      insertPosition: "afterbegin"
-    }
+  const toolbarAnchor = detectViewerAdapter()?.getToolbarAnchor()
+  if (toolbarAnchor) {
+    return toolbarAnchor
   }
   // Fallback if toolbar not found
   return {
@@ -62,6 +106,13 @@ export const getStyle: PlasmoGetStyle = () => {
       color: oklch(0.205 0 0);
     }
 
+    .flow-button-secondary {
+      background: transparent;
+      color: inherit;
+      box-shadow: none;
+      text-decoration: underline;
+    }
+
     .flow-button-success {
       background: #16a34a;
       color: white;
@@ -72,6 +123,79 @@ export const getStyle: PlasmoGetStyle = () => {
       color: white;
     }
 
+    .flow-button-toggle {
+      margin-left: -0.625rem;
+      padding-left: 0.5rem;
+      padding-right: 0.5rem;
+    }
+
+    .flow-range {
+      display: inline-flex;
+      align-items: center;
+      vertical-align: middle;
+      gap: 0.375rem;
+      margin-right: 0.75rem;
+      font-family: 'Geist', system-ui, sans-serif;
+      font-size: 0.75rem;
+    }
+
+    .flow-range-input {
+      width: 7.5rem;
+      padding: 0.375rem 0.5rem;
+      border: 1px solid oklch(0.922 0 0);
+      border-radius: 0.375rem;
+      font: inherit;
+    }
+
+    .flow-range-error {
+      color: oklch(0.704 0.191 22.216);
+    }
+
+    .flow-existing {
+      display: inline-block;
+      vertical-align: middle;
+      margin-right: 0.75rem;
+      font-family: 'Geist', system-ui, sans-serif;
+      font-size: 0.8125rem;
+      white-space: nowrap;
+    }
+
+    .flow-save {
+      position: absolute;
+      z-index: 2147483647;
+      width: 16rem;
+      margin-top: 0.5rem;
+      padding: 0.75rem;
+      display: flex;
+      flex-direction: column;
+      gap: 0.5rem;
+      background: white;
+      color: oklch(0.205 0 0);
+      border: 1px solid oklch(0.922 0 0);
+      border-radius: 0.5rem;
+      box-shadow: 0 4px 12px 0 rgba(0, 0, 0, 0.2);
+      font-family: 'Geist', system-ui, sans-serif;
+      font-size: 0.75rem;
+      text-align: left;
+    }
+
+    .flow-save label {
+      display: flex;
+      flex-direction: column;
+      gap: 0.25rem;
+    }
+
+    .flow-save-field {
+      padding: 0.375rem 0.5rem;
+      border: 1px solid oklch(0.922 0 0);
+      border-radius: 0.375rem;
+      font: inherit;
+    }
+
+    .flow-save .flow-button {
+      margin-right: 0;
+    }
+
     @media (max-width: 767px) {
       .flow-button {
         margin-right: 0.5rem;
@@ -83,132 +207,482 @@ export const getStyle: PlasmoGetStyle = () => {
   return style
 }
 
-interface CaptureStatus {
-  isCapturing: boolean
-  currentPage: number
-  totalPages: number | null
-  capturedCount: number
-  error?: string
+// Keep the newer of two states, e.g. when the answer to GET_CAPTURE_STATE
+// arrives after a state pushed by the background
+function newerState(
+  current: TabCaptureState | null,
+  next: TabCaptureState
+): TabCaptureState {
+  return current && current.updatedAt > next.updatedAt ? current : next
 }
 
-type UploadState = "idle" | "uploading" | "success" | "error"
+// Folder, tags and note for the capture under review, under its upload
+// button
+function SavePopover({
+  review,
+  onSave
+}: {
+  review: CaptureReview
+  onSave: (destination: SaveDestination) => void
+}) {
+  const {
+    folders,
+    loading,
+    error,
+    folderId,
+    setFolderId,
+    tags,
+    setTags,
+    note,
+    setNote,
+    destination
+  } = useSaveDestination(review)
+
+  return (
+    <form
+      className="flow-save"
+      onSubmit={(event) => {
+        event.preventDefault()
+        onSave(destination)
+      }}>
+      {error && <span className="flow-range-error">{error}</span>}
+      <label>
+        Folder
+        <select
+          value={folderId}
+          onChange={(event) => setFolderId(event.target.value)}
+          disabled={loading}
+          className="flow-save-field">
+          <option value="">
+            {loading ? "Loading folders..." : "Library (no folder)"}
+          </option>
+          {folders.map((folder) => (
+            <option key={folder.id} value={folder.id}>
+              {folder.path ? `${folder.path} / ${folder.name}` : folder.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Tags
+        <input
+          value={tags}
+          onChange={(event) => setTags(event.target.value)}
+          placeholder="e.g. fintech, series-a"
+          className="flow-save-field"
+        />
+      </label>
+      <label>
+        Note
+        <textarea
+          value={note}
+          onChange={(event) => setNote(event.target.value)}
+          rows={2}
+          className="flow-save-field"
+        />
+      </label>
+      <button type="submit" className="flow-button flow-button-primary">
+        Save to Flow
+      </button>
+    </form>
+  )
+}
 
 const CaptureButton = () => {
-  const [status, setStatus] = useState<CaptureStatus>({
-    isCapturing: false,
-    currentPage: 0,
-    totalPages: null,
-    capturedCount: 0
+  // This tab's capture state, kept by the background
+  const [captureState, setCaptureState] = useState<TabCaptureState | null>(null)
+  // Page range picker next to "Save to Flow"
+  const [showRange, setShowRange] = useState(false)
+  const [pageRange, setPageRange] = useState("")
+  const [pageRangeError, setPageRangeError] = useState<string | null>(null)
+  // Stop was clicked; asking whether to upload or discard the pages so far
+  const [confirmStop, setConfirmStop] = useState(false)
+  // Save to Flow popover of the capture under review
+  const [showSave, setShowSave] = useState(false)
+  const [captureSessions] = useStorage<CaptureSessions>({
+    key: CAPTURE_SESSIONS_KEY,
+    instance: storage
   })
-  const [uploadState, setUploadState] = useState<UploadState>("idle")
-  const [uploadError, setUploadError] = useState<string>("")
-
-  // Listen for status updates from content.ts
-  useEffect(() => {
-    const listener = (event: Event) => {
-      const customEvent = event as CustomEvent<CaptureStatus>
-      const newStatus = customEvent.detail
-
-      // Check if capture just completed successfully - start uploading
-      if (
-        status.isCapturing &&
-        !newStatus.isCapturing &&
-        !newStatus.error &&
-        newStatus.capturedCount > 0
-      ) {
-        setUploadState("uploading")
-      }
-
-      setStatus(newStatus)
-    }
+  const resumableSession = findResumableSession(
+    captureSessions,
+    window.location.href
+  )
+  const [captureReviews] = useStorage<CaptureReviews>({
+    key: CAPTURE_REVIEWS_KEY,
+    instance: storage
+  })
+  // Finished capture waiting for its upload to be confirmed
+  const captureReview = findCaptureReview(captureReviews, window.location.href)
+  const [materialLookups] = useStorage<MaterialLookups>({
+    key: MATERIAL_LOOKUPS_KEY,
+    instance: storage
+  })
+  // Material this document was captured into before, looked up by content.ts
+  const existingMaterial = findExistingMaterial(
+    materialLookups,
+    window.location.href
+  )
 
-    document.addEventListener("flow:capture:status", listener)
-    return () => document.removeEventListener("flow:capture:status", listener)
-  }, [status.isCapturing])
+  const phase = captureState?.phase ?? "idle"
+  const isCapturing = isCapturePhase(phase)
+  const upload = captureState?.upload
+  // Upload kept for a retry: some pages are missing, or the material
+  // wasn't created
+  const failedUpload =
+    phase === "error" && upload?.jobId && upload.failedPages ? upload : null
 
-  // Listen for upload success/error from background script
+  // Follow the state from the background
   useEffect(() => {
-    const listener = (
-      message: {
-        type: string
-        materialId?: string
-        imageCount?: number
-        error?: string
-      },
-      _sender: chrome.runtime.MessageSender
-    ) => {
-      if (message.type === "UPLOAD_SUCCESS") {
-        setUploadState("success")
-        setTimeout(() => {
-          setUploadState("idle")
-        }, 3000)
-      } else if (message.type === "UPLOAD_ERROR") {
-        setUploadState("error")
-        setUploadError(message.error || "Upload failed")
-        setTimeout(() => {
-          setUploadState("idle")
-          setUploadError("")
-        }, 5000)
+    const listener = handleMessages("CaptureButton", {
+      CAPTURE_STATE: (message) => {
+        setCaptureState((current) => newerState(current, message.state))
       }
-    }
+    })
 
     chrome.runtime.onMessage.addListener(listener)
+    sendMessage({ type: "GET_CAPTURE_STATE" })
+      .then((response) => {
+        if (response?.state) {
+          setCaptureState((current) => newerState(current, response.state))
+        }
+      })
+      .catch(() => {
+        // Shown as idle until the background sends a state
+      })
     return () => chrome.runtime.onMessage.removeListener(listener)
   }, [])
 
+  // Finished uploads are shown for a moment, then put back to idle
+  useEffect(() => {
+    const delay = getDismissDelay(captureState)
+    if (delay === null) {
+      return
+    }
+    const timer = setTimeout(() => {
+      void sendMessage({ type: "DISMISS_CAPTURE_STATE" })
+    }, delay)
+    return () => clearTimeout(timer)
+  }, [captureState])
+
   const handleClick = () => {
     // Don't allow clicks while uploading
-    if (uploadState === "uploading") return
+    if (isUploadPhase(phase)) return
 
-    const eventType = status.isCapturing
-      ? "flow:capture:stop"
-      : "flow:capture:start"
+    const eventType = isCapturing ? "flow:capture:stop" : "flow:capture:start"
     document.dispatchEvent(new CustomEvent(eventType))
   }
 
+  const handleRetry = () => {
+    if (!failedUpload) return
+    // The background moves the state on, including when the job expired
+    void sendMessage({ type: "RETRY_UPLOAD", jobId: failedUpload.jobId })
+  }
+
+  const handleCancelUpload = () => {
+    // The background cancels every upload started from this tab
+    void sendMessage({ type: "CANCEL_UPLOAD" })
+  }
+
+  const handleConfirmUpload = (destination: SaveDestination) => {
+    if (!captureReview) return
+    setShowSave(false)
+    void sendMessage(getReviewUpload(captureReview, destination))
+  }
+
+  const handleDiscardReview = () => {
+    if (!captureReview) return
+    void sendMessage({
+      type: "DISCARD_CAPTURE",
+      sessionId: captureReview.sessionId
+    })
+  }
+
+  const handleCaptureRange = () => {
+    const range = pageRange.trim()
+    try {
+      parsePageRange(range)
+    } catch (error) {
+      setPageRangeError(error instanceof Error ? error.message : String(error))
+      return
+    }
+    setPageRangeError(null)
+    setShowRange(false)
+    // content.ts checks the range against the document's page count
+    document.dispatchEvent(
+      new CustomEvent("flow:capture:start", { detail: { range } })
+    )
+  }
+
+  const handleTogglePause = () => {
+    document.dispatchEvent(
+      new CustomEvent(
+        phase === "paused" ? "flow:capture:continue" : "flow:capture:pause"
+      )
+    )
+  }
+
+  const handleStop = (upload: boolean) => {
+    setConfirmStop(false)
+    document.dispatchEvent(
+      new CustomEvent("flow:capture:stop", { detail: { upload } })
+    )
+  }
+
+  const handleResume = () => {
+    document.dispatchEvent(new CustomEvent("flow:capture:resume"))
+  }
+
+  const handleOpenExisting = async () => {
+    if (!existingMaterial) return
+    window.open(
+      await getWebAppUrl(`/dashboard/materials/${existingMaterial.id}`),
+      "_blank"
+    )
+  }
+
+  // Capture the document again, as a new version of the existing material
+  const handleCaptureNewVersion = () => {
+    if (!existingMaterial) return
+    document.dispatchEvent(
+      new CustomEvent("flow:capture:start", {
+        detail: { previousMaterialId: existingMaterial.id }
+      })
+    )
+  }
+
   // Upload success state
-  if (uploadState === "success") {
+  if (phase === "done") {
+    const anomalies = summarizeAnomalies(captureState.anomalies)
     return (
-      <div className="flow-button flow-button-success">✓ Uploaded to Flow</div>
+      <div
+        className="flow-button flow-button-success"
+        title={anomalies ? `${anomalies}. Check them in Flow.` : undefined}>
+        ✓ Uploaded to Flow{anomalies && " (check pages)"}
+      </div>
+    )
+  }
+
+  // Some pages failed to upload, or saving them to Flow did
+  if (failedUpload) {
+    const count = failedUpload.failedPages.length
+    return (
+      <button
+        onClick={handleRetry}
+        title={captureState.error}
+        className="flow-button flow-button-error">
+        {count > 0
+          ? `⚠ Retry ${count} failed ${count === 1 ? "page" : "pages"}`
+          : "⚠ Retry saving to Flow"}
+      </button>
     )
   }
 
   // Upload error state
-  if (uploadState === "error") {
+  if (phase === "error" && upload) {
     return (
       <button onClick={handleClick} className="flow-button flow-button-error">
-        ⚠ Upload Failed: {uploadError}
+        ⚠ Upload Failed: {captureState.error}
       </button>
     )
   }
 
+  // Upload cancelled state
+  if (phase === "cancelled") {
+    return (
+      <div className="flow-button flow-button-primary">Upload cancelled</div>
+    )
+  }
+
   // Uploading state
-  if (uploadState === "uploading") {
-    return <div className="flow-button flow-button-primary">Uploading...</div>
+  if (isUploadPhase(phase)) {
+    return (
+      <>
+        <div className="flow-button flow-button-primary">Uploading...</div>
+        <button
+          onClick={handleCancelUpload}
+          className="flow-button flow-button-secondary">
+          Cancel
+        </button>
+      </>
+    )
   }
 
   // Capture error state
-  if (status.error) {
+  if (phase === "error") {
     return (
       <button onClick={handleClick} className="flow-button flow-button-error">
-        ⚠ {status.error}
+        ⚠ {captureState.error}
       </button>
     )
   }
 
   // Default or capturing state
   const capturingLabel = (() => {
-    const currentPageDisplay = status.currentPage > 0 ? status.currentPage : 1
-    if (status.totalPages && status.totalPages > 0) {
-      return `Capturing... ${currentPageDisplay}/${status.totalPages}`
+    const { currentPage, totalPages } = captureState ?? {}
+    if (phase === "preparing") {
+      return "Preparing capture..."
+    }
+    if (phase === "paused") {
+      return `Paused on page ${currentPage}`
     }
-    return `Capturing page ${currentPageDisplay}`
+    if (totalPages && totalPages > 0) {
+      return `Capturing... ${currentPage}/${totalPages}`
+    }
+    return `Capturing page ${currentPage}`
   })()
 
+  // Captured pages wait for review; the popup can delete, reorder or
+  // retake pages first
+  if (!isCapturing && captureReview) {
+    const count = captureReview.pageNumbers.length
+    return (
+      <>
+        <button
+          onClick={() => setShowSave((show) => !show)}
+          disabled={count === 0}
+          aria-expanded={showSave}
+          title="Open Flow from the toolbar to review the pages first"
+          className="flow-button flow-button-primary">
+          Upload {count} {count === 1 ? "page" : "pages"}
+        </button>
+        <button
+          onClick={handleDiscardReview}
+          className="flow-button flow-button-secondary">
+          Discard
+        </button>
+        {showSave && (
+          <SavePopover review={captureReview} onSave={handleConfirmUpload} />
+        )}
+      </>
+    )
+  }
+
+  // Earlier capture of this document was interrupted
+  if (!isCapturing && resumableSession) {
+    return (
+      <>
+        <button
+          onClick={handleResume}
+          className="flow-button flow-button-primary">
+          Resume capture from page {getResumePage(resumableSession)}
+        </button>
+        <button
+          onClick={handleClick}
+          className="flow-button flow-button-secondary">
+          Start over
+        </button>
+      </>
+    )
+  }
+
+  // Upload or discard the pages captured so far
+  if (isCapturing && confirmStop) {
+    return (
+      <>
+        <button
+          onClick={() => handleStop(true)}
+          className="flow-button flow-button-primary">
+          Upload {captureState.capturedCount}{" "}
+          {captureState.capturedCount === 1 ? "page" : "pages"}
+        </button>
+        <button
+          onClick={() => handleStop(false)}
+          className="flow-button flow-button-error">
+          Discard
+        </button>
+        <button
+          onClick={() => setConfirmStop(false)}
+          className="flow-button flow-button-secondary">
+          Keep capturing
+        </button>
+      </>
+    )
+  }
+
+  if (isCapturing) {
+    return (
+      <>
+        <div className="flow-button flow-button-primary">{capturingLabel}</div>
+        <button
+          onClick={handleTogglePause}
+          className="flow-button flow-button-primary">
+          {phase === "paused" ? "Resume" : "Pause"}
+        </button>
+        <button
+          onClick={() =>
+            captureState.capturedCount > 0
+              ? setConfirmStop(true)
+              : handleStop(false)
+          }
+          className="flow-button flow-button-secondary">
+          Stop
+        </button>
+      </>
+    )
+  }
+
+  // Document was captured before; offer it instead of a duplicate
+  if (existingMaterial) {
+    return (
+      <>
+        <span className="flow-existing">
+          Already in Flow — captured{" "}
+          {formatCapturedAgo(existingMaterial.capturedAt)}
+        </span>
+        <button
+          onClick={handleOpenExisting}
+          className="flow-button flow-button-primary">
+          Open existing
+        </button>
+        <button
+          onClick={handleCaptureNewVersion}
+          className="flow-button flow-button-primary">
+          Capture new version
+        </button>
+        <button
+          onClick={handleClick}
+          className="flow-button flow-button-secondary">
+          Capture anyway
+        </button>
+      </>
+    )
+  }
+
   return (
-    <button onClick={handleClick} className="flow-button flow-button-primary">
-      {status.isCapturing ? capturingLabel : "Save to Flow"}
-    </button>
+    <>
+      <button onClick={handleClick} className="flow-button flow-button-primary">
+        Save to Flow
+      </button>
+      <button
+        onClick={() => setShowRange((show) => !show)}
+        aria-label="Choose pages to capture"
+        aria-expanded={showRange}
+        className="flow-button flow-button-primary flow-button-toggle">
+        ▾
+      </button>
+      {showRange && (
+        <form
+          className="flow-range"
+          onSubmit={(event) => {
+            event.preventDefault()
+            handleCaptureRange()
+          }}>
+          <input
+            value={pageRange}
+            onChange={(event) => setPageRange(event.target.value)}
+            placeholder="e.g. 1-3, 18-25"
+            aria-label="Pages to capture"
+            className="flow-range-input"
+          />
+          <button type="submit" className="flow-button flow-button-primary">
+            Capture pages
+          </button>
+          {pageRangeError && (
+            <span className="flow-range-error">{pageRangeError}</span>
+          )}
+        </form>
+      )}
+    </>
   )
 }
 
@@ -0,0 +1,119 @@
+import type { CaptureReview } from "~lib/capture-review"
+import type { SaveDestination } from "~lib/save-destination"
+
+import { useSaveDestination } from "./use-save-destination"
+
+/**
+ * Folder, tags and note for the reviewed capture, asked for before the
+ * upload starts
+ */
+export function SaveToFlowDialog({
+  review,
+  onSave,
+  onCancel
+}: {
+  review: CaptureReview
+  onSave: (destination: SaveDestination) => void
+  onCancel: () => void
+}) {
+  const {
+    folders,
+    knownTags,
+    loading,
+    error,
+    folderId,
+    setFolderId,
+    tags,
+    setTags,
+    addTag,
+    note,
+    setNote,
+    destination
+  } = useSaveDestination(review)
+  const count = review.pageNumbers.length
+  const suggestedTags = knownTags
+    .filter((tag) => !destination.tags.includes(tag))
+    .slice(0, 8)
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault()
+        onSave(destination)
+      }}
+      className="plasmo-border plasmo-border-border plasmo-rounded-lg plasmo-p-3 plasmo-bg-card plasmo-space-y-3">
+      <h3 className="plasmo-font-semibold plasmo-text-foreground">
+        Save to Flow
+      </h3>
+
+      {error && (
+        <p className="plasmo-text-xs plasmo-text-red-600">
+          {error} The capture can still be saved to your library.
+        </p>
+      )}
+
+      <label className="plasmo-block plasmo-text-sm plasmo-text-foreground">
+        Folder
+        <select
+          value={folderId}
+          onChange={(event) => setFolderId(event.target.value)}
+          disabled={loading}
+          className="plasmo-w-full plasmo-mt-1 plasmo-border plasmo-border-border plasmo-rounded plasmo-px-2 plasmo-py-1">
+          <option value="">
+            {loading ? "Loading folders..." : "Library (no folder)"}
+          </option>
+          {folders.map((folder) => (
+            <option key={folder.id} value={folder.id}>
+              {folder.path ? `${folder.path} / ${folder.name}` : folder.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="plasmo-block plasmo-text-sm plasmo-text-foreground">
+        Tags
+        <input
+          value={tags}
+          onChange={(event) => setTags(event.target.value)}
+          placeholder="e.g. fintech, series-a"
+          className="plasmo-w-full plasmo-mt-1 plasmo-border plasmo-border-border plasmo-rounded plasmo-px-2 plasmo-py-1"
+        />
+      </label>
+      {suggestedTags.length > 0 && (
+        <div className="plasmo-flex plasmo-flex-wrap plasmo-gap-1">
+          {suggestedTags.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => addTag(tag)}
+              className="plasmo-text-xs plasmo-px-2 plasmo-py-0.5 plasmo-rounded plasmo-bg-muted plasmo-text-muted-foreground hover:plasmo-text-foreground">
+              + {tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <label className="plasmo-block plasmo-text-sm plasmo-text-foreground">
+        Note
+        <textarea
+          value={note}
+          onChange={(event) => setNote(event.target.value)}
+          rows={3}
+          className="plasmo-w-full plasmo-mt-1 plasmo-border plasmo-border-border plasmo-rounded plasmo-px-2 plasmo-py-1"
+        />
+      </label>
+
+      <button
+        type="submit"
+        className="plasmo-w-full plasmo-bg-primary plasmo-text-primary-foreground plasmo-px-4 plasmo-py-2.5 plasmo-rounded-lg plasmo-font-medium plasmo-transition-opacity hover:plasmo-opacity-90">
+        Save {count} {count === 1 ? "page" : "pages"} to Flow
+      </button>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="plasmo-w-full plasmo-text-sm plasmo-text-muted-foreground plasmo-underline">
+        Back to pages
+      </button>
+    </form>
+  )
+}
@@ -0,0 +1,267 @@
+import { useEffect, useState, type ReactNode } from "react"
+
+import { useStorage } from "@plasmohq/storage/hook"
+
+import {
+  CAPTURE_BACKENDS,
+  requestDebuggerPermission,
+  type CaptureBackendPreference
+} from "~lib/capture-backend"
+import { IMAGE_FORMATS, type ImageFormat } from "~lib/image-encoding"
+import {
+  getDefaultFrontendUrl,
+  normalizeSettings,
+  SETTING_LIMITS,
+  SETTINGS_KEY,
+  updateSettings,
+  type Settings
+} from "~lib/settings"
+import { storage } from "~lib/storage"
+
+type NumericSetting = keyof typeof SETTING_LIMITS
+
+function Section({
+  title,
+  description,
+  children
+}: {
+  title: string
+  description?: string
+  children: ReactNode
+}) {
+  return (
+    <div className="plasmo-border plasmo-border-border plasmo-rounded-lg plasmo-p-4 plasmo-bg-card">
+      <h3 className="plasmo-font-semibold plasmo-mb-1 plasmo-text-foreground">
+        {title}
+      </h3>
+      {description && (
+        <p className="plasmo-text-xs plasmo-text-muted-foreground plasmo-mb-3">
+          {description}
+        </p>
+      )}
+      {children}
+    </div>
+  )
+}
+
+// Saved when the field loses focus, so a half-typed number isn't clamped
+function NumberField({
+  label,
+  setting,
+  value,
+  scale = 1,
+  unit
+}: {
+  label: string
+  setting: NumericSetting
+  value: number
+  // Shown as value / scale, e.g. 1000 for milliseconds shown in seconds
+  scale?: number
+  unit?: string
+}) {
+  const [draft, setDraft] = useState(String(value / scale))
+  const { min, max } = SETTING_LIMITS[setting]
+
+  useEffect(() => {
+    setDraft(String(value / scale))
+  }, [value, scale])
+
+  const save = () => {
+    const number = Number(draft)
+    if (draft.trim() === "" || !Number.isFinite(number)) {
+      setDraft(String(value / scale))
+      return
+    }
+    void updateSettings({ [setting]: number * scale })
+  }
+
+  return (
+    <label className="plasmo-flex plasmo-items-center plasmo-justify-between plasmo-gap-2 plasmo-text-sm plasmo-text-foreground">
+      {label}
+      <span className="plasmo-flex plasmo-items-center plasmo-gap-1">
+        <input
+          type="number"
+          min={min / scale}
+          max={max / scale}
+          step={scale === 1 ? 1 : 0.5}
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onBlur={save}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              event.currentTarget.blur()
+            }
+          }}
+          className="plasmo-w-20 plasmo-border plasmo-border-border plasmo-rounded plasmo-px-2 plasmo-py-1 plasmo-text-right"
+        />
+        {unit && (
+          <span className="plasmo-text-xs plasmo-text-muted-foreground">
+            {unit}
+          </span>
+        )}
+      </span>
+    </label>
+  )
+}
+
+function FrontendUrlField({ value }: { value: string }) {
+  const [draft, setDraft] = useState(value)
+
+  useEffect(() => {
+    setDraft(value)
+  }, [value])
+
+  return (
+    <input
+      type="url"
+      value={draft}
+      placeholder={getDefaultFrontendUrl()}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={() => updateSettings({ frontendUrl: draft })}
+      className="plasmo-w-full plasmo-border plasmo-border-border plasmo-rounded plasmo-px-2 plasmo-py-1 plasmo-text-sm"
+    />
+  )
+}
+
+/**
+ * Every extension setting, saved as soon as it's changed
+ * Shared by the popup's Settings page and the options page
+ */
+export function SettingsForm() {
+  const [saved] = useStorage<Settings>({ key: SETTINGS_KEY, instance: storage })
+  const settings = normalizeSettings(saved)
+  const encoding = settings.imageEncoding
+  const selectedFormat = IMAGE_FORMATS[encoding.format]
+
+  // The debugger is an optional permission, asked for when it's chosen
+  const selectCaptureBackend = async (backend: CaptureBackendPreference) => {
+    if (backend === "cdp" && !(await requestDebuggerPermission())) {
+      return
+    }
+    void updateSettings({ captureBackend: backend })
+  }
+
+  return (
+    <div className="plasmo-space-y-4">
+      <Section
+        title="Image format"
+        description="Applies to pages captured from now on. Smaller formats upload faster on slow connections.">
+        <div className="plasmo-space-y-2">
+          {(Object.keys(IMAGE_FORMATS) as ImageFormat[]).map((format) => (
+            <label
+              key={format}
+              className="plasmo-flex plasmo-items-center plasmo-gap-2 plasmo-text-sm plasmo-text-foreground">
+              <input
+                type="radio"
+                name="image-format"
+                value={format}
+                checked={encoding.format === format}
+                onChange={() =>
+                  updateSettings({ imageEncoding: { ...encoding, format } })
+                }
+              />
+              {IMAGE_FORMATS[format].label}
+            </label>
+          ))}
+        </div>
+
+        {selectedFormat.lossy && (
+          <label className="plasmo-block plasmo-mt-4 plasmo-text-sm plasmo-text-foreground">
+            Quality: {Math.round(encoding.quality * 100)}%
+            <input
+              type="range"
+              min={50}
+              max={100}
+              step={5}
+              value={Math.round(encoding.quality * 100)}
+              onChange={(event) =>
+                updateSettings({
+                  imageEncoding: {
+                    ...encoding,
+                    quality: Number(event.target.value) / 100
+                  }
+                })
+              }
+              className="plasmo-w-full plasmo-mt-1"
+            />
+          </label>
+        )}
+      </Section>
+
+      <Section
+        title="Screenshot method"
+        description="The debugger method supports high-resolution capture but needs Chrome's debugger permission. Automatic uses it only when it's been allowed.">
+        <div className="plasmo-space-y-2">
+          {(Object.keys(CAPTURE_BACKENDS) as CaptureBackendPreference[]).map(
+            (backend) => (
+              <label
+                key={backend}
+                className="plasmo-flex plasmo-items-center plasmo-gap-2 plasmo-text-sm plasmo-text-foreground">
+                <input
+                  type="radio"
+                  name="capture-backend"
+                  value={backend}
+                  checked={settings.captureBackend === backend}
+                  onChange={() => selectCaptureBackend(backend)}
+                />
+                {CAPTURE_BACKENDS[backend]}
+              </label>
+            )
+          )}
+        </div>
+      </Section>
+
+      <Section
+        title="Capture"
+        description="Slow viewers may need longer to turn the page or paint the next slide. Changes apply to a capture that's already running.">
+        <div className="plasmo-space-y-2">
+          <NumberField
+            label="Maximum pages"
+            setting="maxPages"
+            value={settings.maxPages}
+          />
+          <NumberField
+            label="Page turn timeout"
+            setting="pageChangeTimeoutMs"
+            value={settings.pageChangeTimeoutMs}
+            scale={1000}
+            unit="s"
+          />
+          <NumberField
+            label="Slide render timeout"
+            setting="slideRenderTimeoutMs"
+            value={settings.slideRenderTimeoutMs}
+            scale={1000}
+            unit="s"
+          />
+        </div>
+      </Section>
+
+      <Section title="Upload">
+        <div className="plasmo-space-y-2">
+          <NumberField
+            label="Pages uploaded at once"
+            setting="uploadConcurrency"
+            value={settings.uploadConcurrency}
+          />
+          <label className="plasmo-flex plasmo-items-center plasmo-gap-2 plasmo-text-sm plasmo-text-foreground">
+            <input
+              type="checkbox"
+              checked={settings.notifications}
+              onChange={(event) =>
+                updateSettings({ notifications: event.target.checked })
+              }
+            />
+            Notify me when an upload finishes or fails
+          </label>
+        </div>
+      </Section>
+
+      <Section
+        title="Flow web app"
+        description="Where captures are uploaded and opened. Leave empty for the default.">
+        <FrontendUrlField value={settings.frontendUrl} />
+      </Section>
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react"
+
+import type { CaptureReview } from "../lib/capture-review"
+import { sendMessage } from "../lib/messages"
+import {
+  parseTags,
+  type FlowFolder,
+  type SaveDestination
+} from "../lib/save-destination"
+
+/**
+ * Choices of a Save to Flow dialog for `review`, with the folders and tags
+ * to offer. The folder starts at the one last used for the document's
+ * sender. Shared by the popup's review page and the inline capture button.
+ */
+export function useSaveDestination(review: CaptureReview) {
+  const [folders, setFolders] = useState<FlowFolder[] | null>(null)
+  const [knownTags, setKnownTags] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+  // Empty for the library root
+  const [folderId, setFolderId] = useState("")
+  const [tags, setTags] = useState("")
+  const [note, setNote] = useState("")
+
+  const { url, sender } = review
+
+  useEffect(() => {
+    let cancelled = false
+
+    sendMessage({ type: "GET_SAVE_OPTIONS", url, sender })
+      .then((response) => {
+        if (cancelled) {
+          return
+        }
+        const loaded = response?.folders ?? []
+        setFolders(loaded)
+        setKnownTags(response?.tags ?? [])
+        setError(response?.error ?? null)
+        // A remembered folder that's since been deleted falls back to the root
+        if (loaded.some((folder) => folder.id === response.folderId)) {
+          setFolderId(response.folderId)
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setFolders([])
+          setError("Flow couldn't load your folders.")
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [url, sender])
+
+  // Suggested tags are added to the ones typed so far
+  const addTag = (tag: string) => {
+    setTags((current) => parseTags(`${current},${tag}`).join(", "))
+  }
+
+  const destination: SaveDestination = {
+    folderId: folderId || undefined,
+    tags: parseTags(tags),
+    note: note.trim() || undefined
+  }
+
+  return {
+    folders: folders ?? [],
+    knownTags,
+    loading: folders === null,
+    error,
+    folderId,
+    setFolderId,
+    tags,
+    setTags,
+    addTag,
+    note,
+    setNote,
+    destination
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Capture backend preference
+ * Pages are screenshotted either through the DevTools protocol ("cdp",
+ * needs the optional debugger permission) or with
+ * chrome.tabs.captureVisibleTab ("tab", no extra permission). "auto" uses
+ * the debugger when it's been granted and can attach, and tab capture
+ * otherwise.
+ */
+
+export type CaptureBackendId = "cdp" | "tab"
+
+export type CaptureBackendPreference = "auto" | CaptureBackendId
+
+export const DEFAULT_CAPTURE_BACKEND: CaptureBackendPreference = "auto"
+
+export const CAPTURE_BACKENDS: Record<CaptureBackendPreference, string> = {
+  auto: "Automatic",
+  cdp: "Debugger (supports high resolution)",
+  tab: "Tab screenshot (no extra permission)"
+}
+
+const DEBUGGER_PERMISSION: chrome.permissions.Permissions = {
+  permissions: ["debugger"]
+}
+
+export async function hasDebuggerPermission(): Promise<boolean> {
+  try {
+    return await chrome.permissions.contains(DEBUGGER_PERMISSION)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Ask for the debugger permission. Must be called from a user gesture
+ * (popup or options page), before anything else is awaited. Resolves true
+ * when it's granted.
+ */
+export async function requestDebuggerPermission(): Promise<boolean> {
+  try {
+    return await chrome.permissions.request(DEBUGGER_PERMISSION)
+  } catch (error) {
+    console.warn("[CaptureBackend] Debugger permission request failed:", error)
+    return false
+  }
+}
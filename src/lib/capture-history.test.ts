@@ -0,0 +1,151 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { getChromeStorageData } from "../test/mocks/chrome"
+import {
+  CAPTURE_HISTORY_KEY,
+  clearCaptureHistory,
+  createHistoryEntry,
+  expireHistoryRetry,
+  MAX_HISTORY_AGE_DAYS,
+  MAX_HISTORY_ENTRIES,
+  pruneCaptureHistory,
+  recordCapture,
+  removeHistoryEntry,
+  type CaptureHistory
+} from "./capture-history"
+
+vi.mock("./storage", () => ({
+  storage: {
+    set: vi.fn(async (key: string, value: unknown) => {
+      await chrome.storage.local.set({ [key]: value })
+    }),
+    get: vi.fn(async (key: string) => {
+      return new Promise((resolve) => {
+        chrome.storage.local.get([key], (result) => {
+          resolve(result[key])
+        })
+      })
+    })
+  }
+}))
+
+const metadata = {
+  url: "https://docsend.com/view/abc",
+  title: "Series A deck",
+  totalPages: 12,
+  capturedAt: "2026-03-01T10:00:00.000Z"
+}
+
+function storedHistory() {
+  return getChromeStorageData()[CAPTURE_HISTORY_KEY] as CaptureHistory
+}
+
+describe("capture-history", () => {
+  it("should record a job's outcome with its document", () => {
+    expect(
+      createHistoryEntry("job-1", metadata, {
+        status: "uploaded",
+        materialId: "material-1"
+      })
+    ).toMatchObject({
+      id: "job-1",
+      url: metadata.url,
+      title: "Series A deck",
+      pageCount: 12,
+      capturedAt: metadata.capturedAt,
+      status: "uploaded",
+      materialId: "material-1"
+    })
+  })
+
+  it("should put new entries first and replace the entry of a retried job", async () => {
+    await recordCapture(
+      createHistoryEntry("job-1", metadata, {
+        status: "failed",
+        error: "1 of 12 pages failed to upload",
+        failedPages: [4]
+      })
+    )
+    await recordCapture(
+      createHistoryEntry("job-2", metadata, { status: "cancelled" })
+    )
+    await recordCapture(
+      createHistoryEntry("job-1", metadata, {
+        status: "uploaded",
+        materialId: "material-1"
+      })
+    )
+
+    expect(storedHistory().map((entry) => [entry.id, entry.status])).toEqual([
+      ["job-1", "uploaded"],
+      ["job-2", "cancelled"]
+    ])
+  })
+
+  it("should stop offering a retry once the job expired", async () => {
+    await recordCapture(
+      createHistoryEntry("job-1", metadata, {
+        status: "failed",
+        failedPages: [4]
+      })
+    )
+
+    await expireHistoryRetry("job-1")
+
+    expect(storedHistory()[0].failedPages).toBeUndefined()
+    expect(storedHistory()[0].status).toBe("failed")
+  })
+
+  it("should remove single entries or the whole history", async () => {
+    await recordCapture(
+      createHistoryEntry("job-1", metadata, { status: "cancelled" })
+    )
+    await recordCapture(
+      createHistoryEntry("job-2", metadata, { status: "cancelled" })
+    )
+
+    await removeHistoryEntry("job-1")
+    expect(storedHistory().map((entry) => entry.id)).toEqual(["job-2"])
+
+    await clearCaptureHistory()
+    expect(storedHistory()).toEqual([])
+  })
+
+  describe("pruneCaptureHistory", () => {
+    const now = new Date("2026-06-01T00:00:00.000Z").getTime()
+    const daysAgo = (days: number) =>
+      new Date(now - days * 24 * 60 * 60 * 1000).toISOString()
+
+    it("should keep only the newest entries", () => {
+      const history = Array.from(
+        { length: MAX_HISTORY_ENTRIES + 5 },
+        (_, i) => ({
+          ...createHistoryEntry(`job-${i}`, metadata, { status: "uploaded" }),
+          updatedAt: daysAgo(1)
+        })
+      )
+
+      const pruned = pruneCaptureHistory(history, now)
+
+      expect(pruned).toHaveLength(MAX_HISTORY_ENTRIES)
+      expect(pruned[0].id).toBe("job-0")
+    })
+
+    it("should drop entries past the age limit", () => {
+      const history = [
+        {
+          ...createHistoryEntry("recent", metadata, { status: "uploaded" }),
+          updatedAt: daysAgo(MAX_HISTORY_AGE_DAYS - 1)
+        },
+        {
+          ...createHistoryEntry("old", metadata, { status: "uploaded" }),
+          updatedAt: daysAgo(MAX_HISTORY_AGE_DAYS + 1)
+        }
+      ]
+
+      expect(pruneCaptureHistory(history, now).map((e) => e.id)).toEqual([
+        "recent"
+      ])
+    })
+  })
+})
@@ -0,0 +1,127 @@
+/**
+ * Capture history
+ * A record of each capture that went out for upload: the document it came
+ * from, how the upload ended and the Flow material it became. The
+ * background records the outcome of every upload job under the job's id,
+ * so a retried job updates its entry instead of adding another. Only the
+ * newest entries are kept, and none older than MAX_HISTORY_AGE_DAYS.
+ */
+
+import type { UploadMetadata } from "./messages"
+import { storage } from "./storage"
+import { createWriteQueue } from "./write-queue"
+
+export const CAPTURE_HISTORY_KEY = "captureHistory"
+
+export const MAX_HISTORY_ENTRIES = 50
+export const MAX_HISTORY_AGE_DAYS = 90
+
+export type CaptureHistoryStatus = "uploaded" | "failed" | "cancelled"
+
+export interface CaptureHistoryEntry {
+  // Upload job the capture went out as
+  id: string
+  url: string
+  title?: string
+  pageCount: number
+  capturedAt: string
+  status: CaptureHistoryStatus
+  // Material created by finalize-docsend-capture
+  materialId?: string
+  error?: string
+  // Set while the job is kept for a retry; empty when only creating the
+  // material failed
+  failedPages?: number[]
+  updatedAt: string
+}
+
+// Newest first
+export type CaptureHistory = CaptureHistoryEntry[]
+
+/**
+ * Entry for the outcome of an upload job
+ */
+export function createHistoryEntry(
+  jobId: string,
+  metadata: UploadMetadata,
+  outcome: Pick<
+    CaptureHistoryEntry,
+    "status" | "materialId" | "error" | "failedPages"
+  >
+): CaptureHistoryEntry {
+  return {
+    id: jobId,
+    url: metadata.url,
+    title: metadata.title,
+    pageCount: metadata.totalPages,
+    capturedAt: metadata.capturedAt,
+    ...outcome,
+    updatedAt: new Date().toISOString()
+  }
+}
+
+/**
+ * Drop entries past the age limit, then all but the newest
+ * MAX_HISTORY_ENTRIES
+ */
+export function pruneCaptureHistory(
+  history: CaptureHistory,
+  now = Date.now()
+): CaptureHistory {
+  const cutoff = now - MAX_HISTORY_AGE_DAYS * 24 * 60 * 60 * 1000
+  return history
+    .filter((entry) => new Date(entry.updatedAt).getTime() >= cutoff)
+    .slice(0, MAX_HISTORY_ENTRIES)
+}
+
+export async function getCaptureHistory(): Promise<CaptureHistory> {
+  return (await storage.get<CaptureHistory>(CAPTURE_HISTORY_KEY)) ?? []
+}
+
+// Only the background writes the history, so chaining its writes keeps
+// each read-modify-write intact; the popup sends its changes there
+const enqueueWrite = createWriteQueue()
+
+function updateHistory(
+  update: (history: CaptureHistory) => CaptureHistory
+): Promise<void> {
+  return enqueueWrite(async () => {
+    const history = update(await getCaptureHistory())
+    await storage.set(CAPTURE_HISTORY_KEY, pruneCaptureHistory(history))
+  }).catch((error) => {
+    console.warn("[CaptureHistory] Failed to update history:", error)
+  })
+}
+
+/**
+ * Put `entry` at the top of the history, replacing an earlier entry for the
+ * same job
+ */
+export function recordCapture(entry: CaptureHistoryEntry): Promise<void> {
+  return updateHistory((history) => [
+    entry,
+    ...history.filter((e) => e.id !== entry.id)
+  ])
+}
+
+/**
+ * Mark the failed pages of a job as no longer retryable, e.g. once the job
+ * expired
+ */
+export function expireHistoryRetry(jobId: string): Promise<void> {
+  return updateHistory((history) =>
+    history.map((entry) =>
+      entry.id === jobId && entry.failedPages
+        ? { ...entry, failedPages: undefined }
+        : entry
+    )
+  )
+}
+
+export function removeHistoryEntry(id: string): Promise<void> {
+  return updateHistory((history) => history.filter((entry) => entry.id !== id))
+}
+
+export function clearCaptureHistory(): Promise<void> {
+  return updateHistory(() => [])
+}
@@ -0,0 +1,75 @@
+/**
+ * Capture metadata
+ * What finalize-docsend-capture is told about a capture besides its image
+ * keys: the document and who shared it, the viewport it was viewed in, the
+ * material it's a new version of and every page in upload order. The
+ * content script reads the document details off the viewer page; page
+ * sizes are measured by the background when it stores each page. The
+ * payload carries CAPTURE_METADATA_VERSION so the web app can tell older
+ * extensions apart; bump it whenever a field is removed or changes meaning.
+ */
+
+import type { UploadMetadata } from "./messages"
+import type { CaptureMode } from "./slide-bounds"
+
+export const CAPTURE_METADATA_VERSION = 1
+
+export interface CaptureViewport {
+  // CSS pixels
+  width: number
+  height: number
+  devicePixelRatio: number
+}
+
+export interface DocumentDetails {
+  title?: string
+  // Company or person the document was shared by
+  sender?: string
+  // Email the document was opened with
+  viewerEmail?: string
+  // Viewer adapter the document was captured from, e.g. "docsend"
+  viewerId?: string
+  viewport?: CaptureViewport
+  // Material in Flow this capture is a new version of
+  previousMaterialId?: string
+}
+
+export interface PageDetails {
+  pageNumber: number
+  // Pixel size of the uploaded image; missing when it couldn't be decoded
+  width?: number
+  height?: number
+  captureMode?: CaptureMode
+}
+
+export interface CaptureMetadata extends UploadMetadata {
+  version: number
+  pages: PageDetails[]
+}
+
+/**
+ * Details of a page that are sent along with the upload, e.g. picked off
+ * a stored page or an upload job's page
+ */
+export function getPageDetails(page: PageDetails): PageDetails {
+  return {
+    pageNumber: page.pageNumber,
+    width: page.width,
+    height: page.height,
+    captureMode: page.captureMode
+  }
+}
+
+/**
+ * Metadata for the finalize call, with `pages` in upload order
+ */
+export function buildCaptureMetadata(
+  metadata: UploadMetadata,
+  pages: PageDetails[]
+): CaptureMetadata {
+  return {
+    ...metadata,
+    version: CAPTURE_METADATA_VERSION,
+    pages: pages.map(getPageDetails)
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { setChromeStorageData } from "../test/mocks/chrome"
+import {
+  CAPTURE_RESOLUTION_KEY,
+  DEFAULT_CAPTURE_RESOLUTION,
+  getCaptureResolution
+} from "./capture-resolution"
+
+vi.mock("./storage", () => ({
+  storage: {
+    get: vi.fn(async (key: string) => {
+      return new Promise((resolve) => {
+        chrome.storage.local.get([key], (result) => {
+          resolve(result[key])
+        })
+      })
+    })
+  }
+}))
+
+describe("capture-resolution", () => {
+  describe("getCaptureResolution", () => {
+    it("should return the saved preset", async () => {
+      setChromeStorageData({ [CAPTURE_RESOLUTION_KEY]: "uhd" })
+
+      expect(await getCaptureResolution()).toBe("uhd")
+    })
+
+    it("should fall back to the window size for unknown presets", async () => {
+      setChromeStorageData({ [CAPTURE_RESOLUTION_KEY]: "toString" })
+
+      expect(await getCaptureResolution()).toBe(DEFAULT_CAPTURE_RESOLUTION)
+    })
+  })
+})
@@ -0,0 +1,58 @@
+/**
+ * Capture resolution presets
+ * Screenshots normally come out at the tab's size and device pixel ratio.
+ * The higher presets emulate a larger viewport and pixel ratio with
+ * Emulation.setDeviceMetricsOverride while a capture runs, so dense slides
+ * stay legible when captured on a small screen.
+ */
+
+import { storage } from "./storage"
+
+// Preset used by the last capture started from the popup
+export const CAPTURE_RESOLUTION_KEY = "captureResolution"
+
+export type CaptureResolution = "window" | "hd" | "uhd"
+
+// Parameters for Emulation.setDeviceMetricsOverride
+export interface DeviceMetrics {
+  width: number
+  height: number
+  deviceScaleFactor: number
+}
+
+interface CaptureResolutionInfo {
+  label: string
+  // Null keeps the tab's own metrics
+  metrics: DeviceMetrics | null
+}
+
+export const DEFAULT_CAPTURE_RESOLUTION: CaptureResolution = "window"
+
+export const CAPTURE_RESOLUTIONS: Record<
+  CaptureResolution,
+  CaptureResolutionInfo
+> = {
+  window: { label: "Window size", metrics: null },
+  hd: {
+    label: "High (1920×1080)",
+    metrics: { width: 1920, height: 1080, deviceScaleFactor: 1 }
+  },
+  uhd: {
+    label: "Very high (3840×2160)",
+    metrics: { width: 1920, height: 1080, deviceScaleFactor: 2 }
+  }
+}
+
+export function isCaptureResolution(
+  value: unknown
+): value is CaptureResolution {
+  return (
+    typeof value === "string" &&
+    Object.keys(CAPTURE_RESOLUTIONS).includes(value)
+  )
+}
+
+export async function getCaptureResolution(): Promise<CaptureResolution> {
+  const saved = await storage.get(CAPTURE_RESOLUTION_KEY)
+  return isCaptureResolution(saved) ? saved : DEFAULT_CAPTURE_RESOLUTION
+}
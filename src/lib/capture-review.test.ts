@@ -0,0 +1,170 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { getChromeStorageData } from "../test/mocks/chrome"
+import {
+  CAPTURE_REVIEWS_KEY,
+  findCaptureReview,
+  getReviewUpload,
+  movePage,
+  removeCaptureReview,
+  saveCaptureReview,
+  updateCaptureReview,
+  type CaptureReview
+} from "./capture-review"
+
+vi.mock("./storage", () => ({
+  storage: {
+    set: vi.fn(async (key: string, value: unknown) => {
+      await chrome.storage.local.set({ [key]: value })
+    }),
+    get: vi.fn(async (key: string) => {
+      return new Promise((resolve) => {
+        chrome.storage.local.get([key], (result) => {
+          resolve(result[key])
+        })
+      })
+    })
+  }
+}))
+
+function createReview(overrides: Partial<CaptureReview> = {}) {
+  return {
+    sessionId: "session-1",
+    documentKey: "docsend.com/view/abc",
+    tabId: 7,
+    url: "https://docsend.com/view/abc",
+    pageNumbers: [1, 2, 3, 4],
+    capturedAt: new Date().toISOString(),
+    ...overrides
+  } satisfies CaptureReview
+}
+
+describe("capture-review", () => {
+  describe("findCaptureReview", () => {
+    it("should find the review for the same document", () => {
+      const review = createReview()
+      const reviews = { [review.documentKey]: review }
+
+      expect(findCaptureReview(reviews, "https://docsend.com/view/abc/")).toBe(
+        review
+      )
+      expect(
+        findCaptureReview(reviews, "https://docsend.com/view/other")
+      ).toBeNull()
+      expect(findCaptureReview(undefined, review.url)).toBeNull()
+    })
+  })
+
+  describe("movePage", () => {
+    it("should move a page up or down", () => {
+      expect(movePage([1, 2, 3, 4], 2, -1)).toEqual([1, 3, 2, 4])
+      expect(movePage([1, 2, 3, 4], 0, 2)).toEqual([2, 3, 1, 4])
+    })
+
+    it("should keep pages within the list", () => {
+      const pageNumbers = [1, 2, 3]
+
+      expect(movePage(pageNumbers, 0, -1)).toBe(pageNumbers)
+      expect(movePage(pageNumbers, 2, 5)).toBe(pageNumbers)
+      expect(movePage(pageNumbers, 1, 5)).toEqual([1, 3, 2])
+    })
+  })
+
+  describe("getReviewUpload", () => {
+    it("should upload the kept pages in their reviewed order", () => {
+      const upload = getReviewUpload(
+        createReview({
+          pageNumbers: [4, 1, 2],
+          anomalies: [
+            { pageNumber: 2, kind: "duplicate" },
+            { pageNumber: 3, kind: "blank" }
+          ]
+        })
+      )
+
+      expect(upload).toMatchObject({
+        type: "UPLOAD_SCREENSHOTS",
+        sessionId: "session-1",
+        pageNumbers: [4, 1, 2],
+        tabId: 7,
+        metadata: {
+          url: "https://docsend.com/view/abc",
+          totalPages: 3,
+          anomalies: [{ pageNumber: 2, kind: "duplicate" }]
+        }
+      })
+    })
+
+    it("should pass the document details on to the upload", () => {
+      const details = {
+        title: "Series A Deck",
+        sender: "Acme",
+        viewerEmail: "investor@example.com",
+        viewerId: "docsend",
+        viewport: { width: 1280, height: 800, devicePixelRatio: 2 },
+        previousMaterialId: "material-1"
+      }
+
+      expect(getReviewUpload(createReview(details)).metadata).toMatchObject(
+        details
+      )
+    })
+  })
+
+  describe("saveCaptureReview / removeCaptureReview", () => {
+    it("should store one review per document", async () => {
+      await saveCaptureReview(createReview())
+      await saveCaptureReview(createReview({ pageNumbers: [2, 1] }))
+
+      expect(getChromeStorageData()[CAPTURE_REVIEWS_KEY]).toEqual({
+        "docsend.com/view/abc": expect.objectContaining({
+          pageNumbers: [2, 1]
+        })
+      })
+    })
+
+    it("should apply edits to the review as stored", async () => {
+      await saveCaptureReview(
+        createReview({ anomalies: [{ pageNumber: 2, kind: "duplicate" }] })
+      )
+
+      await Promise.all([
+        updateCaptureReview("session-1", { type: "delete", pageNumber: 4 }),
+        updateCaptureReview("session-1", {
+          type: "move",
+          pageNumber: 3,
+          offset: -2
+        }),
+        updateCaptureReview("session-1", {
+          type: "retake",
+          pageNumber: 2,
+          anomaly: "blank"
+        }),
+        updateCaptureReview("session-2", { type: "delete", pageNumber: 1 })
+      ])
+
+      expect(getChromeStorageData()[CAPTURE_REVIEWS_KEY]).toEqual({
+        "docsend.com/view/abc": expect.objectContaining({
+          pageNumbers: [3, 1, 2],
+          anomalies: [{ pageNumber: 2, kind: "blank" }]
+        })
+      })
+    })
+
+    it("should remove the review of a session", async () => {
+      await saveCaptureReview(createReview())
+      await saveCaptureReview(
+        createReview({
+          sessionId: "session-2",
+          documentKey: "docsend.com/view/def"
+        })
+      )
+
+      await removeCaptureReview("session-1")
+
+      expect(
+        Object.keys(getChromeStorageData()[CAPTURE_REVIEWS_KEY] as object)
+      ).toEqual(["docsend.com/view/def"])
+    })
+  })
+})
@@ -0,0 +1,190 @@
+/**
+ * Capture reviews
+ * A finished capture waits here until its pages have been checked on the
+ * popup's review screen, where pages can be deleted, reordered or captured
+ * again before the upload is confirmed. One review per document; the pages
+ * stay in the page store under `sessionId` until the upload is done. Only
+ * the background writes reviews: the popup sends its edits there.
+ */
+
+import type { DocumentDetails } from "./capture-metadata"
+import { getDocumentKey } from "./capture-session"
+import type { CaptureAnomaly, FrameAnomaly } from "./frame-analysis"
+import type { Message } from "./messages"
+import type { SaveDestination } from "./save-destination"
+import { storage } from "./storage"
+import { createWriteQueue } from "./write-queue"
+
+export const CAPTURE_REVIEWS_KEY = "captureReviews"
+
+export interface CaptureReview extends DocumentDetails {
+  sessionId: string
+  documentKey: string
+  // Tab the document was captured in, where pages are captured again
+  tabId: number
+  url: string
+  // Pages in upload order; deleted pages are left out
+  pageNumbers: number[]
+  // Pages kept although they looked blank or repeated the page before
+  anomalies?: CaptureAnomaly[]
+  capturedAt: string
+}
+
+export type CaptureReviews = Record<string, CaptureReview>
+
+// A change made on the review screen
+export type ReviewEdit =
+  | { type: "delete"; pageNumber: number }
+  | { type: "move"; pageNumber: number; offset: number }
+  // The page was captured again, and its new copy looked like `anomaly`
+  | { type: "retake"; pageNumber: number; anomaly?: FrameAnomaly }
+
+/**
+ * Review waiting for the document at `url`, if any
+ */
+export function findCaptureReview(
+  reviews: CaptureReviews | null | undefined,
+  url: string | undefined
+): CaptureReview | null {
+  const documentKey = getDocumentKey(url)
+  return (documentKey && reviews?.[documentKey]) || null
+}
+
+/**
+ * Move the page at `index` by `offset` positions, clamped to the list
+ */
+export function movePage(
+  pageNumbers: number[],
+  index: number,
+  offset: number
+): number[] {
+  const target = Math.min(Math.max(index + offset, 0), pageNumbers.length - 1)
+  if (index < 0 || index >= pageNumbers.length || target === index) {
+    return pageNumbers
+  }
+  const reordered = [...pageNumbers]
+  const [page] = reordered.splice(index, 1)
+  reordered.splice(target, 0, page)
+  return reordered
+}
+
+/**
+ * Apply `edit` to the review in place
+ */
+export function applyReviewEdit(review: CaptureReview, edit: ReviewEdit) {
+  switch (edit.type) {
+    case "delete":
+      review.pageNumbers = review.pageNumbers.filter(
+        (page) => page !== edit.pageNumber
+      )
+      break
+    case "move":
+      review.pageNumbers = movePage(
+        review.pageNumbers,
+        review.pageNumbers.indexOf(edit.pageNumber),
+        edit.offset
+      )
+      break
+    case "retake": {
+      // The new copy replaces whatever the old one looked like
+      const anomalies = (review.anomalies ?? []).filter(
+        (a) => a.pageNumber !== edit.pageNumber
+      )
+      if (edit.anomaly) {
+        anomalies.push({ pageNumber: edit.pageNumber, kind: edit.anomaly })
+      }
+      review.anomalies = anomalies
+      break
+    }
+  }
+}
+
+/**
+ * UPLOAD_SCREENSHOTS message for the reviewed pages, in their reviewed order,
+ * saved to `destination` when one was picked
+ */
+export function getReviewUpload(
+  review: CaptureReview,
+  destination?: SaveDestination
+): Message<"UPLOAD_SCREENSHOTS"> {
+  const kept = new Set(review.pageNumbers)
+  return {
+    type: "UPLOAD_SCREENSHOTS",
+    sessionId: review.sessionId,
+    pageNumbers: review.pageNumbers,
+    // Sent from the popup too, which has no tab of its own
+    tabId: review.tabId,
+    metadata: {
+      url: review.url,
+      title: review.title,
+      sender: review.sender,
+      viewerEmail: review.viewerEmail,
+      viewerId: review.viewerId,
+      viewport: review.viewport,
+      previousMaterialId: review.previousMaterialId,
+      totalPages: review.pageNumbers.length,
+      capturedAt: review.capturedAt,
+      anomalies: review.anomalies?.filter((a) => kept.has(a.pageNumber))
+    },
+    destination
+  }
+}
+
+export async function getCaptureReview(
+  documentKey: string
+): Promise<CaptureReview | null> {
+  const reviews = await storage.get<CaptureReviews>(CAPTURE_REVIEWS_KEY)
+  return reviews?.[documentKey] ?? null
+}
+
+// Writes are chained so edits arriving together don't overwrite each
+// other's read-modify-write
+const enqueueWrite = createWriteQueue()
+
+function updateReviews(
+  update: (reviews: CaptureReviews) => void
+): Promise<void> {
+  return enqueueWrite(async () => {
+    const reviews =
+      (await storage.get<CaptureReviews>(CAPTURE_REVIEWS_KEY)) ?? {}
+    update(reviews)
+    await storage.set(CAPTURE_REVIEWS_KEY, reviews)
+  }).catch((error) => {
+    console.warn("[CaptureReview] Failed to update reviews:", error)
+  })
+}
+
+export function saveCaptureReview(review: CaptureReview): Promise<void> {
+  return updateReviews((reviews) => {
+    reviews[review.documentKey] = review
+  })
+}
+
+/**
+ * Apply `edit` to the review of a capture session as it's stored now, so
+ * edits made meanwhile are kept; does nothing once the review is gone
+ */
+export function updateCaptureReview(
+  sessionId: string,
+  edit: ReviewEdit
+): Promise<void> {
+  return updateReviews((reviews) => {
+    const review = Object.values(reviews).find((r) => r.sessionId === sessionId)
+    if (review) {
+      applyReviewEdit(review, edit)
+    }
+  })
+}
+
+/**
+ * Forget the review of a capture session, e.g. once its upload started
+ */
+export function removeCaptureReview(sessionId: string): Promise<void> {
+  return updateReviews((reviews) => {
+    for (const [documentKey, review] of Object.entries(reviews)) {
+      if (review.sessionId === sessionId) {
+        delete reviews[documentKey]
+      }
+    }
+  })
+}
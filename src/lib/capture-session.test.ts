@@ -0,0 +1,157 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import {
+  CAPTURE_SESSIONS_KEY,
+  findResumableSession,
+  getCaptureSession,
+  getDocumentKey,
+  getResumePage,
+  removeCaptureSession,
+  saveCaptureSession,
+  type CaptureSession
+} from "./capture-session"
+import { deleteSession } from "./page-store"
+
+vi.mock("./storage", () => ({
+  storage: {
+    set: vi.fn(async (key: string, value: unknown) => {
+      await chrome.storage.local.set({ [key]: value })
+    }),
+    get: vi.fn(async (key: string) => {
+      return new Promise((resolve) => {
+        chrome.storage.local.get([key], (result) => {
+          resolve(result[key])
+        })
+      })
+    })
+  }
+}))
+
+vi.mock("./page-store", () => ({
+  deleteSession: vi.fn(async () => {})
+}))
+
+function createSession(overrides: Partial<CaptureSession> = {}) {
+  const now = new Date().toISOString()
+  return {
+    sessionId: "session-1",
+    documentKey: "docsend.com/view/abc",
+    url: "https://docsend.com/view/abc",
+    viewerId: "docsend",
+    totalPages: 80,
+    capturedPages: Array.from({ length: 40 }, (_, i) => i + 1),
+    lastPage: 40,
+    startedAt: now,
+    updatedAt: now,
+    ...overrides
+  } satisfies CaptureSession
+}
+
+describe("capture-session", () => {
+  describe("getDocumentKey", () => {
+    it("should ignore query string, hash and trailing slash", () => {
+      expect(getDocumentKey("https://DocSend.com/view/abc/?page=3#top")).toBe(
+        "docsend.com/view/abc"
+      )
+    })
+
+    it("should return null for missing or invalid URLs", () => {
+      expect(getDocumentKey(undefined)).toBeNull()
+      expect(getDocumentKey("not a url")).toBeNull()
+    })
+  })
+
+  describe("getResumePage", () => {
+    it("should return the first page that wasn't captured", () => {
+      expect(getResumePage(createSession())).toBe(41)
+      expect(getResumePage(createSession({ capturedPages: [1, 2, 4] }))).toBe(3)
+    })
+
+    it("should return null when every page was captured", () => {
+      expect(
+        getResumePage(createSession({ totalPages: 2, capturedPages: [2, 1] }))
+      ).toBeNull()
+    })
+
+    it("should only look at the pages of a captured range", () => {
+      const session = createSession({
+        pages: [18, 19, 20],
+        capturedPages: [18]
+      })
+
+      expect(getResumePage(session)).toBe(19)
+      expect(
+        getResumePage({ ...session, capturedPages: [18, 19, 20] })
+      ).toBeNull()
+    })
+  })
+
+  describe("findResumableSession", () => {
+    it("should find the session for the same document", () => {
+      const session = createSession()
+      const sessions = { [session.documentKey]: session }
+
+      expect(
+        findResumableSession(sessions, "https://docsend.com/view/abc?x=1")
+      ).toBe(session)
+      expect(
+        findResumableSession(sessions, "https://docsend.com/view/other")
+      ).toBeNull()
+    })
+
+    it("should not offer sessions with nothing captured or nothing left", () => {
+      const empty = createSession({ capturedPages: [] })
+      const complete = createSession({ totalPages: 40 })
+
+      expect(
+        findResumableSession({ [empty.documentKey]: empty }, empty.url)
+      ).toBeNull()
+      expect(
+        findResumableSession({ [complete.documentKey]: complete }, complete.url)
+      ).toBeNull()
+    })
+  })
+
+  describe("saveCaptureSession", () => {
+    beforeEach(async () => {
+      await chrome.storage.local.remove(CAPTURE_SESSIONS_KEY)
+    })
+
+    it("should save and remove sessions by document", async () => {
+      const session = createSession()
+
+      await saveCaptureSession(session)
+      expect(await getCaptureSession(session.documentKey)).toEqual(session)
+
+      await removeCaptureSession(session.documentKey)
+      expect(await getCaptureSession(session.documentKey)).toBeNull()
+    })
+
+    it("should keep concurrent updates to different documents", async () => {
+      const first = createSession()
+      const second = createSession({
+        sessionId: "session-2",
+        documentKey: "pitch.com/v/deck"
+      })
+
+      await Promise.all([saveCaptureSession(first), saveCaptureSession(second)])
+
+      expect(await getCaptureSession(first.documentKey)).toEqual(first)
+      expect(await getCaptureSession(second.documentKey)).toEqual(second)
+    })
+
+    it("should drop sessions that haven't been updated in a week", async () => {
+      const stale = createSession({
+        sessionId: "session-old",
+        documentKey: "docsend.com/view/old",
+        updatedAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString()
+      })
+      await saveCaptureSession(stale)
+      await saveCaptureSession(createSession())
+
+      expect(await getCaptureSession(stale.documentKey)).toBeNull()
+      expect(deleteSession).toHaveBeenCalledWith("session-old")
+      expect(deleteSession).not.toHaveBeenCalledWith("session-1")
+    })
+  })
+})
@@ -0,0 +1,137 @@
+/**
+ * Capture session records
+ * Remember how far a capture got on each document so a reload, crash or
+ * navigation can resume from the first missing page instead of page 1.
+ * The pages themselves live in the page store under `sessionId`.
+ */
+
+import type { CaptureResolution } from "./capture-resolution"
+import type { CaptureAnomaly } from "./frame-analysis"
+import { deleteSession } from "./page-store"
+import { storage } from "./storage"
+import { createWriteQueue } from "./write-queue"
+
+export const CAPTURE_SESSIONS_KEY = "captureSessions"
+
+// Records older than this are dropped, with their stored pages, the next
+// time sessions are written
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000
+
+export interface CaptureSession {
+  sessionId: string
+  documentKey: string
+  url: string
+  viewerId: string
+  totalPages: number
+  // Pages asked for when only a range is captured; all pages when missing
+  pages?: number[]
+  capturedPages: number[]
+  lastPage: number
+  // Tab zoom before Flow reset it to 100%, restored once the capture ends
+  originalZoom?: number
+  // Resolution preset, kept so a resumed capture matches the earlier pages
+  resolution?: CaptureResolution
+  // Pages kept although they looked blank or repeated the page before
+  anomalies?: CaptureAnomaly[]
+  // Material a resumed capture is still a new version of
+  previousMaterialId?: string
+  startedAt: string
+  updatedAt: string
+}
+
+export type CaptureSessions = Record<string, CaptureSession>
+
+/**
+ * Identify a document by host and path, ignoring query string and hash
+ */
+export function getDocumentKey(url: string | undefined): string | null {
+  if (!url) {
+    return null
+  }
+  try {
+    const { hostname, pathname } = new URL(url)
+    return `${hostname.toLowerCase()}${pathname.replace(/\/+$/, "")}`
+  } catch {
+    return null
+  }
+}
+
+/**
+ * First page that hasn't been captured yet, or null when none are missing
+ */
+export function getResumePage(session: CaptureSession): number | null {
+  const captured = new Set(session.capturedPages)
+  const pages =
+    session.pages ??
+    Array.from({ length: session.totalPages }, (_, index) => index + 1)
+  return pages.find((page) => !captured.has(page)) ?? null
+}
+
+/**
+ * Session worth offering to resume for a URL: it has stored pages and
+ * still has pages left to capture
+ */
+export function findResumableSession(
+  sessions: CaptureSessions | null | undefined,
+  url: string | undefined
+): CaptureSession | null {
+  const documentKey = getDocumentKey(url)
+  const session = documentKey ? sessions?.[documentKey] : undefined
+  if (!session || session.capturedPages.length === 0) {
+    return null
+  }
+  return getResumePage(session) === null ? null : session
+}
+
+export async function getCaptureSession(
+  documentKey: string
+): Promise<CaptureSession | null> {
+  const sessions = await storage.get<CaptureSessions>(CAPTURE_SESSIONS_KEY)
+  return sessions?.[documentKey] ?? null
+}
+
+// Writes are chained so concurrent updates from several tabs don't
+// overwrite each other's read-modify-write
+const enqueueWrite = createWriteQueue()
+
+function updateSessions(
+  update: (sessions: CaptureSessions) => void
+): Promise<void> {
+  return enqueueWrite(async () => {
+    const sessions =
+      (await storage.get<CaptureSessions>(CAPTURE_SESSIONS_KEY)) ?? {}
+    update(sessions)
+
+    const cutoff = Date.now() - SESSION_MAX_AGE_MS
+    const abandoned: string[] = []
+    for (const [key, session] of Object.entries(sessions)) {
+      if (new Date(session.updatedAt).getTime() < cutoff) {
+        abandoned.push(session.sessionId)
+        delete sessions[key]
+      }
+    }
+
+    await storage.set(CAPTURE_SESSIONS_KEY, sessions)
+
+    // Nothing else points to the pages of an abandoned capture
+    for (const sessionId of abandoned) {
+      await deleteSession(sessionId).catch((error) => {
+        console.warn("[CaptureSession] Failed to delete stored pages:", error)
+      })
+    }
+  }).catch((error) => {
+    console.warn("[CaptureSession] Failed to update sessions:", error)
+  })
+}
+
+export function saveCaptureSession(session: CaptureSession): Promise<void> {
+  return updateSessions((sessions) => {
+    sessions[session.documentKey] = session
+  })
+}
+
+export function removeCaptureSession(documentKey: string): Promise<void> {
+  return updateSessions((sessions) => {
+    delete sessions[documentKey]
+  })
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  applyCaptureEvent,
+  createCaptureState,
+  findTabCaptureState,
+  getDismissDelay,
+  type CaptureEvent,
+  type TabCaptureState
+} from "./capture-state"
+
+function stateIn(
+  phase: TabCaptureState["phase"],
+  overrides: Partial<TabCaptureState> = {}
+): TabCaptureState {
+  return { ...createCaptureState(1), phase, ...overrides }
+}
+
+const status = (overrides = {}): CaptureEvent => ({
+  type: "STATUS",
+  status: {
+    isCapturing: true,
+    currentPage: 3,
+    totalPages: 10,
+    capturedCount: 3,
+    ...overrides
+  }
+})
+
+const upload = { currentFile: 0, totalFiles: 3, percent: 0, jobId: "job-1" }
+
+describe("capture-state", () => {
+  describe("applyCaptureEvent", () => {
+    it("should follow a capture through to its upload", () => {
+      const events: CaptureEvent[] = [
+        status({ currentPage: 0, capturedCount: 0 }),
+        status(),
+        status({ isPaused: true }),
+        status(),
+        { type: "REVIEW", pageCount: 3 },
+        status({ isCapturing: false }),
+        { type: "UPLOAD", upload },
+        { type: "FINALIZE" },
+        { type: "DONE" },
+        { type: "DISMISS" }
+      ]
+      const phases: string[] = []
+      let state = createCaptureState(1)
+      for (const event of events) {
+        state = applyCaptureEvent(state, event) ?? state
+        phases.push(state.phase)
+      }
+
+      expect(phases).toEqual([
+        "preparing",
+        "capturing",
+        "paused",
+        "capturing",
+        "reviewing",
+        "reviewing",
+        "uploading",
+        "finalizing",
+        "done",
+        "idle"
+      ])
+    })
+
+    it("should report a failed capture as an error", () => {
+      const state = applyCaptureEvent(
+        stateIn("capturing"),
+        status({ isCapturing: false, error: "Failed to navigate pages" })
+      )
+
+      expect(state).toMatchObject({
+        phase: "error",
+        error: "Failed to navigate pages"
+      })
+    })
+
+    it("should complete the upload progress when done", () => {
+      const state = applyCaptureEvent(
+        stateIn("finalizing", { upload: { ...upload, currentFile: 2 } }),
+        { type: "DONE" }
+      )
+
+      expect(state?.upload).toMatchObject({ currentFile: 3, percent: 100 })
+    })
+
+    it("should drop events that don't fit the current phase", () => {
+      const late: [TabCaptureState["phase"], CaptureEvent][] = [
+        ["cancelled", { type: "FINALIZE" }],
+        ["uploading", status()],
+        ["uploading", { type: "DONE" }],
+        ["done", { type: "FINALIZE" }],
+        ["capturing", { type: "DISCARD" }],
+        ["uploading", { type: "INTERRUPT" }],
+        ["reviewing", { type: "INTERRUPT" }],
+        ["capturing", { type: "DISMISS" }]
+      ]
+
+      for (const [phase, event] of late) {
+        expect(applyCaptureEvent(stateIn(phase), event)).toBeNull()
+      }
+    })
+
+    it("should forget an interrupted capture", () => {
+      const state = applyCaptureEvent(
+        stateIn("paused", { currentPage: 7, capturedCount: 6 }),
+        { type: "INTERRUPT" }
+      )
+
+      expect(state).toMatchObject({
+        phase: "idle",
+        currentPage: 0,
+        capturedCount: 0
+      })
+    })
+  })
+
+  describe("findTabCaptureState", () => {
+    const earlier = "2026-01-01T00:00:00.000Z"
+    const later = "2026-01-01T00:01:00.000Z"
+
+    it("should prefer the tab's own state", () => {
+      const own = stateIn("reviewing")
+      const states = {
+        1: own,
+        2: { ...stateIn("uploading"), tabId: 2 }
+      }
+
+      expect(findTabCaptureState(states, 1)).toBe(own)
+    })
+
+    it("should show the latest busy tab when the tab is idle", () => {
+      const states = {
+        1: stateIn("idle"),
+        2: { ...stateIn("uploading"), tabId: 2, updatedAt: earlier },
+        3: { ...stateIn("capturing"), tabId: 3, updatedAt: later },
+        4: { ...stateIn("done"), tabId: 4, updatedAt: later }
+      }
+
+      expect(findTabCaptureState(states, 1)?.tabId).toBe(3)
+      expect(findTabCaptureState(states, undefined)?.tabId).toBe(3)
+    })
+
+    it("should fall back to the tab's idle state or null", () => {
+      expect(findTabCaptureState({ 1: stateIn("idle") }, 1)?.phase).toBe("idle")
+      expect(findTabCaptureState(null, 1)).toBeNull()
+    })
+  })
+
+  describe("getDismissDelay", () => {
+    it("should dismiss finished uploads after a moment", () => {
+      expect(getDismissDelay(stateIn("done"))).toBe(3000)
+      expect(getDismissDelay(stateIn("cancelled"))).toBe(3000)
+      expect(getDismissDelay(stateIn("error", { upload }))).toBe(5000)
+    })
+
+    it("should keep states the user has to act on", () => {
+      expect(getDismissDelay(stateIn("error"))).toBeNull()
+      expect(
+        getDismissDelay(
+          stateIn("error", { upload: { ...upload, failedPages: [2] } })
+        )
+      ).toBeNull()
+      // Only finalizing failed; the job waits for a retry all the same
+      expect(
+        getDismissDelay(
+          stateIn("error", { upload: { ...upload, failedPages: [] } })
+        )
+      ).toBeNull()
+      expect(getDismissDelay(stateIn("uploading", { upload }))).toBeNull()
+      expect(getDismissDelay(null)).toBeNull()
+    })
+  })
+})
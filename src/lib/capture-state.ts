@@ -0,0 +1,265 @@
+/**
+ * Capture state machine
+ * Each tab has one capture state, owned by the background worker. The
+ * content script and the upload queue report what happened as events; the
+ * background applies them in order and publishes the result, so the popup
+ * and the inline button always show the same thing:
+ *
+ *   idle → preparing → capturing ⇄ paused → reviewing → uploading →
+ *   finalizing → done, with error and cancelled along the way
+ *
+ * Events that don't fit the current state are dropped, e.g. a late status
+ * update from a capture whose pages are already uploading.
+ */
+
+import type { CaptureAnomaly } from "./frame-analysis"
+import type { CaptureStatus } from "./messages"
+
+export const CAPTURE_STATES_KEY = "captureStates"
+
+export type CapturePhase =
+  | "idle"
+  | "preparing"
+  | "capturing"
+  | "paused"
+  | "reviewing"
+  | "uploading"
+  | "finalizing"
+  | "done"
+  | "error"
+  | "cancelled"
+
+// Progress of the upload started from the tab
+export interface UploadProgressState {
+  currentFile: number
+  totalFiles: number
+  percent: number
+  // Job behind the upload, for retrying or cancelling it
+  jobId?: string
+  // Set while the job is kept for a retry: the pages that failed, which the
+  // retry uploads, or none when only creating the material failed
+  failedPages?: number[]
+}
+
+export interface TabCaptureState {
+  tabId: number
+  phase: CapturePhase
+  // Document the capture or upload is for
+  url?: string
+  currentPage: number
+  totalPages: number | null
+  capturedCount: number
+  // Pages kept although they looked blank or repeated the page before
+  anomalies?: CaptureAnomaly[]
+  // Set from "uploading" on, and on upload errors
+  upload?: UploadProgressState
+  error?: string
+  updatedAt: string
+}
+
+export type TabCaptureStates = Record<number, TabCaptureState>
+
+export type CaptureEvent =
+  // Progress reported by the content script running the capture
+  | { type: "STATUS"; status: CaptureStatus; url?: string }
+  // The capture was handed over for review, or the review was discarded
+  | { type: "REVIEW"; pageCount: number; url?: string }
+  | { type: "DISCARD" }
+  | {
+      type: "UPLOAD"
+      upload: UploadProgressState
+      url?: string
+      anomalies?: CaptureAnomaly[]
+    }
+  | { type: "FINALIZE" }
+  | { type: "DONE" }
+  | { type: "FAIL"; error: string; upload?: UploadProgressState }
+  | { type: "CANCEL" }
+  // The content script running the capture is gone, e.g. the page reloaded
+  | { type: "INTERRUPT" }
+  // A finished upload or failed capture was seen by the user
+  | { type: "DISMISS" }
+
+// Phases each phase can move to; staying in a phase is always allowed
+const CAPTURE_TRANSITIONS: Record<CapturePhase, CapturePhase[]> = {
+  // A capture can report progress after an interrupt it outlived, e.g. an
+  // in-page navigation taken for a reload
+  idle: ["preparing", "capturing", "paused", "reviewing", "uploading", "error"],
+  preparing: ["capturing", "paused", "reviewing", "uploading", "idle", "error"],
+  capturing: ["paused", "reviewing", "uploading", "idle", "error"],
+  paused: ["capturing", "reviewing", "uploading", "idle", "error"],
+  reviewing: ["preparing", "uploading", "idle"],
+  uploading: ["finalizing", "error", "cancelled"],
+  finalizing: ["done", "error", "cancelled"],
+  done: ["idle", "preparing", "reviewing", "uploading"],
+  error: ["idle", "preparing", "reviewing", "uploading"],
+  cancelled: ["idle", "preparing", "reviewing", "uploading"]
+}
+
+// Phases in which the content script is running a capture
+const CAPTURE_PHASES: CapturePhase[] = ["preparing", "capturing", "paused"]
+
+const FINISHED_PHASES: CapturePhase[] = ["done", "error", "cancelled"]
+
+export function isCapturePhase(phase: CapturePhase | undefined): boolean {
+  return CAPTURE_PHASES.includes(phase)
+}
+
+export function isUploadPhase(phase: CapturePhase | undefined): boolean {
+  return phase === "uploading" || phase === "finalizing"
+}
+
+export function createCaptureState(tabId: number): TabCaptureState {
+  return {
+    tabId,
+    phase: "idle",
+    currentPage: 0,
+    totalPages: null,
+    capturedCount: 0,
+    updatedAt: new Date().toISOString()
+  }
+}
+
+// A capture reports page 0 until it has found its first page
+function getStatusPhase(status: CaptureStatus): CapturePhase {
+  if (status.error) {
+    return "error"
+  }
+  if (!status.isCapturing) {
+    return "idle"
+  }
+  if (status.isPaused) {
+    return "paused"
+  }
+  return status.currentPage === 0 ? "preparing" : "capturing"
+}
+
+function reduceCaptureState(
+  state: TabCaptureState,
+  event: CaptureEvent
+): TabCaptureState | null {
+  switch (event.type) {
+    case "STATUS": {
+      const phase = getStatusPhase(event.status)
+      // A capture ending after handing its pages over leaves the review or
+      // upload in place
+      if (phase === "idle" && !isCapturePhase(state.phase)) {
+        return null
+      }
+      return {
+        ...createCaptureState(state.tabId),
+        phase,
+        url: event.url ?? state.url,
+        currentPage: event.status.currentPage,
+        totalPages: event.status.totalPages,
+        capturedCount: event.status.capturedCount,
+        anomalies: event.status.anomalies,
+        error: event.status.error
+      }
+    }
+    case "REVIEW":
+      return {
+        ...state,
+        phase: "reviewing",
+        url: event.url ?? state.url,
+        capturedCount: event.pageCount,
+        upload: undefined,
+        error: undefined
+      }
+    case "DISCARD":
+      return state.phase === "reviewing"
+        ? createCaptureState(state.tabId)
+        : null
+    case "UPLOAD":
+      return {
+        ...state,
+        phase: "uploading",
+        url: event.url ?? state.url,
+        anomalies: event.anomalies ?? state.anomalies,
+        upload: event.upload,
+        error: undefined
+      }
+    case "FINALIZE":
+      return { ...state, phase: "finalizing" }
+    case "DONE":
+      return {
+        ...state,
+        phase: "done",
+        upload: state.upload && {
+          ...state.upload,
+          currentFile: state.upload.totalFiles,
+          percent: 100
+        }
+      }
+    case "FAIL":
+      return {
+        ...state,
+        phase: "error",
+        error: event.error,
+        upload: event.upload
+      }
+    case "CANCEL":
+      return { ...state, phase: "cancelled", error: undefined }
+    case "INTERRUPT":
+      return isCapturePhase(state.phase)
+        ? createCaptureState(state.tabId)
+        : null
+    case "DISMISS":
+      return FINISHED_PHASES.includes(state.phase)
+        ? createCaptureState(state.tabId)
+        : null
+  }
+}
+
+/**
+ * State after `event`, or null when the event doesn't apply to `state`
+ */
+export function applyCaptureEvent(
+  state: TabCaptureState,
+  event: CaptureEvent
+): TabCaptureState | null {
+  const next = reduceCaptureState(state, event)
+  if (
+    !next ||
+    (next.phase !== state.phase &&
+      !CAPTURE_TRANSITIONS[state.phase].includes(next.phase))
+  ) {
+    return null
+  }
+  return { ...next, updatedAt: new Date().toISOString() }
+}
+
+/**
+ * State to show for `tabId`: its own unless it's idle, in which case a
+ * capture or upload running in another tab is shown instead
+ */
+export function findTabCaptureState(
+  states: TabCaptureStates | null | undefined,
+  tabId: number | undefined
+): TabCaptureState | null {
+  const own = tabId === undefined ? undefined : states?.[tabId]
+  if (own && own.phase !== "idle") {
+    return own
+  }
+  const busy = Object.values(states ?? {})
+    .filter(
+      (state) => isCapturePhase(state.phase) || isUploadPhase(state.phase)
+    )
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  return busy[0] ?? own ?? null
+}
+
+/**
+ * How long a finished state is shown before it's dismissed, or null to
+ * keep it until the user acts on it (a failed capture, or failed pages
+ * waiting for a retry)
+ */
+export function getDismissDelay(state: TabCaptureState | null): number | null {
+  if (state?.phase === "done" || state?.phase === "cancelled") {
+    return 3000
+  }
+  if (state?.phase === "error" && state.upload) {
+    return state.upload.failedPages ? null : 5000
+  }
+  return null
+}
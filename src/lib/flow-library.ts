@@ -0,0 +1,54 @@
+/**
+ * Flow library
+ * Folders and tags of the signed-in user's Flow library, offered in the
+ * Save to Flow dialog, and the material a document was captured into
+ * before. Requests need Clerk's session, so this only runs in the
+ * background; other contexts ask with GET_SAVE_OPTIONS and LOOKUP_MATERIAL.
+ */
+
+import { getAuthHeaders } from "./clerk-auth"
+import { getDocumentId, type ExistingMaterial } from "./material-lookup"
+import type { FlowFolder } from "./save-destination"
+import { getWebAppUrl } from "./settings"
+
+async function fetchFromFlow<T>(path: string): Promise<T> {
+  const response = await fetch(await getWebAppUrl(path), {
+    headers: await getAuthHeaders()
+  })
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || `Failed to load ${path}`)
+  }
+  return response.json()
+}
+
+/**
+ * Folders and tags to offer in the Save to Flow dialog
+ */
+export async function fetchSaveOptions(): Promise<{
+  folders: FlowFolder[]
+  tags: string[]
+}> {
+  const [{ folders }, { tags }] = await Promise.all([
+    fetchFromFlow<{ folders: FlowFolder[] }>("/api/extension/folders"),
+    fetchFromFlow<{ tags: string[] }>("/api/extension/tags")
+  ])
+  return { folders: folders ?? [], tags: tags ?? [] }
+}
+
+/**
+ * Material the document at `url` was captured into before, if any
+ */
+export async function lookupMaterial(
+  url: string
+): Promise<ExistingMaterial | null> {
+  const params = new URLSearchParams({ url })
+  const documentId = getDocumentId(url)
+  if (documentId) {
+    params.set("documentId", documentId)
+  }
+  const { material } = await fetchFromFlow<{
+    material: ExistingMaterial | null
+  }>(`/api/extension/lookup?${params}`)
+  return material ?? null
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  differenceHash,
+  hammingDistance,
+  isDuplicateFrame,
+  isNearUniform,
+  summarizeAnomalies,
+  toGrayscale
+} from "./frame-analysis"
+
+// 17×16 grayscale image for the difference hash
+function createImage(pixel: (x: number, y: number) => number): number[] {
+  const gray: number[] = []
+  for (let y = 0; y < 16; y++) {
+    for (let x = 0; x < 17; x++) {
+      gray.push(pixel(x, y))
+    }
+  }
+  return gray
+}
+
+describe("frame-analysis", () => {
+  describe("toGrayscale", () => {
+    it("should convert RGBA pixels to luminance", () => {
+      const gray = toGrayscale([255, 255, 255, 255, 0, 0, 0, 255])
+
+      expect(gray).toHaveLength(2)
+      expect(gray[0]).toBeCloseTo(255)
+      expect(gray[1]).toBe(0)
+    })
+  })
+
+  describe("differenceHash", () => {
+    it("should set a bit for each pixel brighter than the next", () => {
+      const darkening = createImage((x) => 255 - x * 10)
+      const brightening = createImage((x) => x * 10)
+
+      expect(differenceHash(darkening)).toBe("f".repeat(64))
+      expect(differenceHash(brightening)).toBe("0".repeat(64))
+    })
+
+    it("should ignore small changes in brightness", () => {
+      const slide = createImage((x, y) => ((x * 7 + y * 13) % 31) * 8)
+      const brighter = slide.map((value) => value + 3)
+
+      expect(differenceHash(brighter)).toBe(differenceHash(slide))
+    })
+  })
+
+  describe("hammingDistance", () => {
+    it("should count the differing bits", () => {
+      expect(hammingDistance("00", "00")).toBe(0)
+      expect(hammingDistance("0f", "00")).toBe(4)
+      expect(hammingDistance("ff", "00")).toBe(8)
+    })
+
+    it("should treat hashes of different sizes as unrelated", () => {
+      expect(hammingDistance("00", "0000")).toBe(Infinity)
+    })
+  })
+
+  describe("isDuplicateFrame", () => {
+    it("should match hashes a few bits apart", () => {
+      const hash = "0".repeat(64)
+
+      expect(isDuplicateFrame(hash, "3" + "0".repeat(63))).toBe(true)
+      expect(isDuplicateFrame(hash, "ff" + "0".repeat(62))).toBe(false)
+    })
+  })
+
+  describe("isNearUniform", () => {
+    it("should flag a white frame with compression noise", () => {
+      const gray = Array.from({ length: 1024 }, (_, i) => 253 + (i % 3))
+
+      expect(isNearUniform(gray)).toBe(true)
+    })
+
+    it("should not flag a frame with content", () => {
+      const gray = Array.from({ length: 1024 }, (_, i) =>
+        i % 32 < 4 ? 20 : 250
+      )
+
+      expect(isNearUniform(gray)).toBe(false)
+    })
+  })
+
+  describe("summarizeAnomalies", () => {
+    it("should return null when every page looked fine", () => {
+      expect(summarizeAnomalies(undefined)).toBeNull()
+      expect(summarizeAnomalies([])).toBeNull()
+    })
+
+    it("should list the pages of each kind", () => {
+      expect(
+        summarizeAnomalies([
+          { pageNumber: 9, kind: "duplicate" },
+          { pageNumber: 4, kind: "blank" },
+          { pageNumber: 7, kind: "duplicate" }
+        ])
+      ).toBe("Page 4 looked blank; pages 7, 9 matched the page before")
+    })
+  })
+})
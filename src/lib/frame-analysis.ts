@@ -0,0 +1,158 @@
+/**
+ * Captured frame checks
+ * Flags screenshots that are probably wrong: a near-uniform frame (white
+ * loading screen, DocSend's "whitey" placeholder) or the same slide as the
+ * page before it (navigation stalled). Uses a perceptual difference hash so
+ * compression noise and tiny rendering differences don't count as changes.
+ */
+
+export type FrameAnomaly = "blank" | "duplicate"
+
+export interface CaptureAnomaly {
+  pageNumber: number
+  kind: FrameAnomaly
+}
+
+export interface FrameAnalysis {
+  // Difference hash as hex, HASH_SIZE² bits
+  hash: string
+  blank: boolean
+}
+
+// 16×16 difference hash (256 bits); 8×8 can't tell apart slides that
+// share a layout and differ only in their text
+const HASH_SIZE = 16
+// Frames whose hashes differ in at most this many bits are the same slide
+const DUPLICATE_MAX_DISTANCE = 6
+
+const BLANK_SAMPLE_SIZE = 32
+// Standard deviation of luminance (0-255) below which a frame is uniform
+const BLANK_MAX_DEVIATION = 4
+
+// Luminance of each pixel of RGBA data
+export function toGrayscale(rgba: ArrayLike<number>): number[] {
+  const gray: number[] = []
+  for (let i = 0; i < rgba.length; i += 4) {
+    gray.push(0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2])
+  }
+  return gray
+}
+
+/**
+ * Difference hash of a (HASH_SIZE + 1) × HASH_SIZE grayscale image: one bit
+ * per pixel, set when it's brighter than its right-hand neighbour
+ */
+export function differenceHash(gray: number[]): string {
+  const width = HASH_SIZE + 1
+  let hex = ""
+  let nibble = 0
+  let bits = 0
+
+  for (let y = 0; y < HASH_SIZE; y++) {
+    for (let x = 0; x < HASH_SIZE; x++) {
+      const left = gray[y * width + x]
+      const right = gray[y * width + x + 1]
+      nibble = (nibble << 1) | (left > right ? 1 : 0)
+      bits++
+      if (bits === 4) {
+        hex += nibble.toString(16)
+        nibble = 0
+        bits = 0
+      }
+    }
+  }
+  return hex
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    return Infinity
+  }
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16)
+    while (diff) {
+      distance += diff & 1
+      diff >>= 1
+    }
+  }
+  return distance
+}
+
+export function isDuplicateFrame(a: string, b: string): boolean {
+  return hammingDistance(a, b) <= DUPLICATE_MAX_DISTANCE
+}
+
+export function isNearUniform(gray: number[]): boolean {
+  if (gray.length === 0) {
+    return true
+  }
+  const mean = gray.reduce((sum, value) => sum + value, 0) / gray.length
+  const variance =
+    gray.reduce((sum, value) => sum + (value - mean) ** 2, 0) / gray.length
+  return Math.sqrt(variance) < BLANK_MAX_DEVIATION
+}
+
+// Grayscale pixels of the image scaled down to width × height
+function sampleGrayscale(
+  bitmap: ImageBitmap,
+  width: number,
+  height: number
+): number[] {
+  const canvas = new OffscreenCanvas(width, height)
+  const context = canvas.getContext("2d")
+  if (!context) {
+    throw new Error("OffscreenCanvas 2D context is unavailable")
+  }
+  context.drawImage(bitmap, 0, 0, width, height)
+  return toGrayscale(context.getImageData(0, 0, width, height).data)
+}
+
+/**
+ * Hash a captured frame and check whether it's blank. Runs in the
+ * background, where OffscreenCanvas is available.
+ */
+export async function analyzeFrame(blob: Blob): Promise<FrameAnalysis> {
+  const bitmap = await createImageBitmap(blob)
+  try {
+    return {
+      hash: differenceHash(sampleGrayscale(bitmap, HASH_SIZE + 1, HASH_SIZE)),
+      blank: isNearUniform(
+        sampleGrayscale(bitmap, BLANK_SAMPLE_SIZE, BLANK_SAMPLE_SIZE)
+      )
+    }
+  } finally {
+    bitmap.close()
+  }
+}
+
+function formatPages(pages: number[]): string {
+  const sorted = [...pages].sort((a, b) => a - b)
+  return `${sorted.length === 1 ? "page" : "pages"} ${sorted.join(", ")}`
+}
+
+/**
+ * Summary of the pages kept although they looked wrong, for the capture
+ * summary. Null when there are none.
+ */
+export function summarizeAnomalies(
+  anomalies: CaptureAnomaly[] | undefined
+): string | null {
+  if (!anomalies?.length) {
+    return null
+  }
+  const pagesWith = (kind: FrameAnomaly) =>
+    anomalies.filter((a) => a.kind === kind).map((a) => a.pageNumber)
+
+  const parts: string[] = []
+  const blank = pagesWith("blank")
+  if (blank.length) {
+    parts.push(`${formatPages(blank)} looked blank`)
+  }
+  const duplicate = pagesWith("duplicate")
+  if (duplicate.length) {
+    parts.push(`${formatPages(duplicate)} matched the page before`)
+  }
+  const summary = parts.join("; ")
+  return summary.charAt(0).toUpperCase() + summary.slice(1)
+}
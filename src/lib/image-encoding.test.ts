@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { createMockImageBlob } from "../test/utils"
+import {
+  DEFAULT_IMAGE_ENCODING,
+  encodeImage,
+  withFileExtension
+} from "./image-encoding"
+
+// jsdom has no OffscreenCanvas; record what the encoder is asked to do
+const canvas = vi.hoisted(() => ({
+  fillRect: vi.fn(),
+  drawImage: vi.fn(),
+  convertToBlob: vi.fn(
+    async ({ type }: { type: string }) => new Blob(["encoded"], { type })
+  )
+}))
+
+describe("image-encoding", () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      "createImageBitmap",
+      vi.fn(async () => ({ width: 1280, height: 720, close: vi.fn() }))
+    )
+    vi.stubGlobal(
+      "OffscreenCanvas",
+      vi.fn(() => ({
+        getContext: () => ({
+          fillRect: canvas.fillRect,
+          drawImage: canvas.drawImage
+        }),
+        convertToBlob: canvas.convertToBlob
+      }))
+    )
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe("encodeImage", () => {
+    it("should keep PNG captures as they are", async () => {
+      const png = createMockImageBlob()
+
+      expect(await encodeImage(png, DEFAULT_IMAGE_ENCODING)).toBe(png)
+      expect(canvas.convertToBlob).not.toHaveBeenCalled()
+    })
+
+    it("should encode lossy formats with the chosen quality", async () => {
+      const encoded = await encodeImage(createMockImageBlob(), {
+        format: "jpeg",
+        quality: 0.7
+      })
+
+      expect(encoded.type).toBe("image/jpeg")
+      expect(OffscreenCanvas).toHaveBeenCalledWith(1280, 720)
+      expect(canvas.convertToBlob).toHaveBeenCalledWith({
+        type: "image/jpeg",
+        quality: 0.7
+      })
+      // White background instead of black for transparent pixels
+      expect(canvas.fillRect).toHaveBeenCalled()
+    })
+
+    it("should encode lossless WebP at full quality", async () => {
+      await encodeImage(createMockImageBlob(), {
+        format: "webp-lossless",
+        quality: 0.5
+      })
+
+      expect(canvas.convertToBlob).toHaveBeenCalledWith({
+        type: "image/webp",
+        quality: 1
+      })
+      expect(canvas.fillRect).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("withFileExtension", () => {
+    it("should use the extension of the image type", () => {
+      expect(withFileExtension("page_3.png", "image/jpeg")).toBe("page_3.jpg")
+      expect(withFileExtension("page_3.png", "image/webp")).toBe("page_3.webp")
+      expect(withFileExtension("page_3", undefined)).toBe("page_3.png")
+    })
+  })
+})
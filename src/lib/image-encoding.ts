@@ -0,0 +1,146 @@
+/**
+ * Image encoding for captured pages
+ * Screenshots arrive as PNG; before they're stored they can be re-encoded
+ * with OffscreenCanvas (available in the service worker) to a smaller
+ * format so large decks upload faster.
+ */
+
+export type ImageFormat = "png" | "webp-lossless" | "webp" | "jpeg"
+
+export interface ImageEncodingSettings {
+  format: ImageFormat
+  // 0-1, only used by the lossy formats
+  quality: number
+}
+
+export const DEFAULT_IMAGE_ENCODING: ImageEncodingSettings = {
+  format: "png",
+  quality: 0.85
+}
+
+interface ImageFormatInfo {
+  label: string
+  mime: string
+  lossy: boolean
+}
+
+export const IMAGE_FORMATS: Record<ImageFormat, ImageFormatInfo> = {
+  png: { label: "PNG (original)", mime: "image/png", lossy: false },
+  "webp-lossless": {
+    label: "WebP (lossless)",
+    mime: "image/webp",
+    lossy: false
+  },
+  webp: { label: "WebP", mime: "image/webp", lossy: true },
+  jpeg: { label: "JPEG", mime: "image/jpeg", lossy: true }
+}
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/jpeg": "jpg"
+}
+
+/**
+ * File extension for an image mime type, falling back to png
+ */
+export function getFileExtension(mime: string | undefined): string {
+  return (mime && FILE_EXTENSIONS[mime]) || "png"
+}
+
+/**
+ * Swap a filename's extension for the one matching `mime`
+ */
+export function withFileExtension(
+  filename: string,
+  mime: string | undefined
+): string {
+  return `${filename.replace(/\.[^./]+$/, "")}.${getFileExtension(mime)}`
+}
+
+/**
+ * Re-encode an image in the chosen format. PNG input is returned as-is for
+ * the PNG format.
+ */
+export async function encodeImage(
+  blob: Blob,
+  { format, quality }: ImageEncodingSettings
+): Promise<Blob> {
+  const { mime, lossy } = IMAGE_FORMATS[format]
+  if (blob.type === mime && !lossy) {
+    return blob
+  }
+
+  const bitmap = await createImageBitmap(blob)
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+    const context = canvas.getContext("2d")
+    if (!context) {
+      throw new Error("OffscreenCanvas 2D context is unavailable")
+    }
+    if (mime === "image/jpeg") {
+      // JPEG has no alpha; transparent areas would otherwise turn black
+      context.fillStyle = "#ffffff"
+      context.fillRect(0, 0, bitmap.width, bitmap.height)
+    }
+    context.drawImage(bitmap, 0, 0)
+
+    // Chrome encodes WebP losslessly at quality 1
+    return await canvas.convertToBlob({
+      type: mime,
+      quality: lossy ? quality : 1
+    })
+  } finally {
+    bitmap.close()
+  }
+}
+
+/**
+ * Pixel size of an image, or null when it can't be decoded
+ */
+export async function getImageSize(
+  blob: Blob
+): Promise<{ width: number; height: number } | null> {
+  try {
+    const bitmap = await createImageBitmap(blob)
+    const size = { width: bitmap.width, height: bitmap.height }
+    bitmap.close()
+    return size
+  } catch {
+    return null
+  }
+}
+
+export interface CropRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Cut `rect` (in image pixels) out of an image, clamped to its bounds.
+ * Resolves a PNG.
+ */
+export async function cropImage(blob: Blob, rect: CropRect): Promise<Blob> {
+  const bitmap = await createImageBitmap(blob)
+  try {
+    const x = Math.max(0, Math.round(rect.x))
+    const y = Math.max(0, Math.round(rect.y))
+    const width = Math.min(bitmap.width - x, Math.round(rect.width))
+    const height = Math.min(bitmap.height - y, Math.round(rect.height))
+    if (width <= 0 || height <= 0) {
+      throw new Error("Crop area is outside the image")
+    }
+
+    const canvas = new OffscreenCanvas(width, height)
+    const context = canvas.getContext("2d")
+    if (!context) {
+      throw new Error("OffscreenCanvas 2D context is unavailable")
+    }
+    context.drawImage(bitmap, x, y, width, height, 0, 0, width, height)
+    return await canvas.convertToBlob({ type: "image/png" })
+  } finally {
+    bitmap.close()
+  }
+}
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { blobToDataUrl, extractPageImage } from "./image-extraction"
+
+function createPageImage({ loaded = true } = {}) {
+  const img = document.createElement("img")
+  img.src = "https://cdn.example.com/page-1.jpg"
+  Object.defineProperty(img, "complete", { value: loaded })
+  Object.defineProperty(img, "naturalWidth", { value: loaded ? 2400 : 0 })
+  Object.defineProperty(img, "naturalHeight", { value: loaded ? 1350 : 0 })
+  return img
+}
+
+describe("image-extraction", () => {
+  const drawImage = vi.fn()
+
+  beforeEach(() => {
+    // jsdom has no canvas rendering
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue({
+      drawImage
+    } as unknown as CanvasRenderingContext2D)
+    global.fetch = vi.fn()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe("extractPageImage", () => {
+    it("should copy the image at its natural size", async () => {
+      const png = new Blob(["png"], { type: "image/png" })
+      const toBlob = vi
+        .spyOn(HTMLCanvasElement.prototype, "toBlob")
+        .mockImplementation(function (this: HTMLCanvasElement, callback) {
+          expect(this.width).toBe(2400)
+          expect(this.height).toBe(1350)
+          callback(png)
+        })
+
+      expect(await extractPageImage(createPageImage())).toBe(png)
+      expect(drawImage).toHaveBeenCalled()
+      expect(toBlob).toHaveBeenCalledWith(expect.any(Function), "image/png")
+      expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it("should fetch the image when the canvas is tainted", async () => {
+      vi.spyOn(HTMLCanvasElement.prototype, "toBlob").mockImplementation(() => {
+        throw new DOMException("Tainted canvases may not be exported.")
+      })
+      const jpeg = new Blob(["jpeg"], { type: "image/jpeg" })
+      ;(fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+        ok: true,
+        blob: async () => jpeg
+      })
+
+      expect(await extractPageImage(createPageImage())).toBe(jpeg)
+      expect(fetch).toHaveBeenCalledWith("https://cdn.example.com/page-1.jpg", {
+        credentials: "include"
+      })
+    })
+
+    it("should return null when the image can't be read", async () => {
+      vi.spyOn(HTMLCanvasElement.prototype, "toBlob").mockImplementation(() => {
+        throw new DOMException("Tainted canvases may not be exported.")
+      })
+      ;(fetch as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new TypeError("Failed to fetch")
+      )
+
+      expect(await extractPageImage(createPageImage())).toBeNull()
+      const unloaded = createPageImage({ loaded: false })
+      expect(await extractPageImage(unloaded)).toBeNull()
+    })
+  })
+
+  describe("blobToDataUrl", () => {
+    it("should encode the blob as a base64 data URL", async () => {
+      const dataUrl = await blobToDataUrl(
+        new Blob(["page"], { type: "image/png" })
+      )
+
+      expect(dataUrl).toBe(`data:image/png;base64,${btoa("page")}`)
+    })
+  })
+})
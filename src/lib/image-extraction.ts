@@ -0,0 +1,88 @@
+/**
+ * Page image extraction
+ * Scrollable viewers render each page as an <img>. Copying the loaded image
+ * gives its full natural resolution without scrolling or screenshots. Images
+ * from another origin taint the canvas, so those are fetched instead; when
+ * neither works the caller falls back to a screenshot.
+ */
+
+// Copy the decoded image through a canvas. Throws a SecurityError when the
+// image is cross-origin without CORS.
+async function copyThroughCanvas(img: HTMLImageElement): Promise<Blob> {
+  const canvas = document.createElement("canvas")
+  canvas.width = img.naturalWidth
+  canvas.height = img.naturalHeight
+  const context = canvas.getContext("2d")
+  if (!context) {
+    throw new Error("Canvas 2D context is unavailable")
+  }
+  context.drawImage(img, 0, 0)
+
+  return new Promise((resolve, reject) => {
+    try {
+      canvas.toBlob((blob) => {
+        if (blob) {
+          resolve(blob)
+        } else {
+          reject(new Error("Canvas produced no image"))
+        }
+      }, "image/png")
+    } catch (error) {
+      reject(error)
+    }
+  })
+}
+
+// Download the original file, which only works when the image host allows it
+async function fetchImage(img: HTMLImageElement): Promise<Blob> {
+  const response = await fetch(img.currentSrc || img.src, {
+    credentials: "include"
+  })
+  if (!response.ok) {
+    throw new Error(`Image request failed with ${response.status}`)
+  }
+  const blob = await response.blob()
+  if (!blob.type.startsWith("image/")) {
+    throw new Error(`Image request returned ${blob.type || "no type"}`)
+  }
+  return blob
+}
+
+/**
+ * The page image at its natural resolution, or null when it can't be read
+ * (not loaded, or cross-origin without CORS)
+ */
+export async function extractPageImage(
+  img: HTMLImageElement
+): Promise<Blob | null> {
+  if (!img.complete || !img.naturalWidth || !img.naturalHeight) {
+    return null
+  }
+
+  try {
+    return await copyThroughCanvas(img)
+  } catch (canvasError) {
+    try {
+      return await fetchImage(img)
+    } catch (fetchError) {
+      console.log("[Content] Page image can't be extracted", {
+        src: img.src?.substring(0, 80),
+        canvasError:
+          canvasError instanceof Error ? canvasError.message : canvasError,
+        fetchError:
+          fetchError instanceof Error ? fetchError.message : fetchError
+      })
+      return null
+    }
+  }
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () =>
+      reject(reader.error ?? new Error("Failed to read image"))
+    reader.readAsDataURL(blob)
+  })
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from "vitest"
+
+import {
+  getChromeStorageData,
+  setChromeStorageData
+} from "../test/mocks/chrome"
+import {
+  findExistingMaterial,
+  formatCapturedAgo,
+  getDocumentId,
+  getMaterialLookup,
+  isLookupFresh,
+  LOOKUP_MAX_AGE_MS,
+  MATERIAL_LOOKUPS_KEY,
+  saveMaterialLookup,
+  type MaterialLookups
+} from "./material-lookup"
+
+vi.mock("./storage", () => ({
+  storage: {
+    set: vi.fn(async (key: string, value: unknown) => {
+      await chrome.storage.local.set({ [key]: value })
+    }),
+    get: vi.fn(async (key: string) => {
+      return new Promise((resolve) => {
+        chrome.storage.local.get([key], (result) => {
+          resolve(result[key])
+        })
+      })
+    })
+  }
+}))
+
+const material = {
+  id: "material-1",
+  title: "Series A deck",
+  capturedAt: "2026-03-01T10:00:00.000Z"
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe("material-lookup", () => {
+  describe("getDocumentId", () => {
+    it("should read the document id from viewer links", () => {
+      expect(getDocumentId("https://docsend.com/view/abc123?foo=1")).toBe(
+        "abc123"
+      )
+      expect(getDocumentId("https://docsend.com/v/abc12/series-a/")).toBe(
+        "abc12/series-a"
+      )
+    })
+
+    it("should return null for links without a document", () => {
+      expect(getDocumentId("https://docsend.com/settings")).toBeNull()
+      expect(getDocumentId("not a url")).toBeNull()
+    })
+  })
+
+  describe("findExistingMaterial", () => {
+    it("should find the material by document, ignoring the query", () => {
+      const lookups: MaterialLookups = {
+        "docsend.com/view/abc": {
+          material,
+          checkedAt: "2026-03-02T10:00:00.000Z"
+        }
+      }
+
+      expect(
+        findExistingMaterial(lookups, "https://docsend.com/view/abc?x=1")
+      ).toEqual(material)
+      expect(
+        findExistingMaterial(lookups, "https://docsend.com/view/other")
+      ).toBeNull()
+      expect(findExistingMaterial(undefined, undefined)).toBeNull()
+    })
+  })
+
+  describe("isLookupFresh", () => {
+    it("should expire lookups after LOOKUP_MAX_AGE_MS", () => {
+      const checkedAt = "2026-03-02T10:00:00.000Z"
+      const checked = new Date(checkedAt).getTime()
+      const lookup = { material: null, checkedAt }
+
+      expect(isLookupFresh(lookup, checked + LOOKUP_MAX_AGE_MS - 1)).toBe(true)
+      expect(isLookupFresh(lookup, checked + LOOKUP_MAX_AGE_MS)).toBe(false)
+    })
+  })
+
+  describe("formatCapturedAgo", () => {
+    it("should describe how long ago the material was captured", () => {
+      const now = new Date("2026-03-31T12:00:00.000Z").getTime()
+      const ago = (days: number) => new Date(now - days * DAY_MS).toISOString()
+
+      expect(formatCapturedAgo(ago(0), now)).toBe("today")
+      expect(formatCapturedAgo(ago(1), now)).toBe("yesterday")
+      expect(formatCapturedAgo(ago(3), now)).toBe("3 days ago")
+      expect(formatCapturedAgo(ago(15), now)).toBe("2 weeks ago")
+      expect(formatCapturedAgo(ago(90), now)).toBe("3 months ago")
+      expect(formatCapturedAgo(ago(800), now)).toBe("2 years ago")
+    })
+  })
+
+  describe("saveMaterialLookup", () => {
+    it("should cache the lookup for the document", async () => {
+      await saveMaterialLookup("docsend.com/view/abc", material)
+      await saveMaterialLookup("docsend.com/view/new", null)
+
+      expect(await getMaterialLookup("docsend.com/view/abc")).toMatchObject({
+        material
+      })
+      expect(await getMaterialLookup("docsend.com/view/new")).toMatchObject({
+        material: null
+      })
+    })
+
+    it("should drop lookups older than a month", async () => {
+      setChromeStorageData({
+        [MATERIAL_LOOKUPS_KEY]: {
+          "docsend.com/view/old": {
+            material,
+            checkedAt: new Date(Date.now() - 31 * DAY_MS).toISOString()
+          }
+        }
+      })
+
+      await saveMaterialLookup("docsend.com/view/abc", material)
+
+      expect(Object.keys(getChromeStorageData()[MATERIAL_LOOKUPS_KEY])).toEqual(
+        ["docsend.com/view/abc"]
+      )
+    })
+  })
+})
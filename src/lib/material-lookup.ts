@@ -0,0 +1,121 @@
+/**
+ * Material lookup
+ * Whether the document open in a tab was captured into Flow before, so the
+ * inline button and the popup can offer to open it or capture a new version
+ * instead of creating a duplicate. The background asks the web app and
+ * caches the answer per document; other contexts read the cache.
+ */
+
+import { getDocumentKey } from "./capture-session"
+import { storage } from "./storage"
+import { createWriteQueue } from "./write-queue"
+
+export const MATERIAL_LOOKUPS_KEY = "materialLookups"
+
+// Lookups newer than this are answered from the cache
+export const LOOKUP_MAX_AGE_MS = 60 * 60 * 1000
+
+// Lookups older than this are dropped the next time lookups are written
+const LOOKUP_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+export interface ExistingMaterial {
+  id: string
+  title?: string
+  capturedAt: string
+}
+
+export interface MaterialLookup {
+  // Null when the document isn't in Flow
+  material: ExistingMaterial | null
+  checkedAt: string
+}
+
+export type MaterialLookups = Record<string, MaterialLookup>
+
+/**
+ * Id of the shared document in a viewer link, e.g. "abc123" for
+ * docsend.com/view/abc123; null when the link has none
+ */
+export function getDocumentId(url: string): string | null {
+  try {
+    const match = new URL(url).pathname.match(/^\/(?:view|v)\/(.+?)\/*$/)
+    return match?.[1] ?? null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Material the document at `url` was captured into, if any
+ */
+export function findExistingMaterial(
+  lookups: MaterialLookups | null | undefined,
+  url: string | undefined
+): ExistingMaterial | null {
+  const documentKey = getDocumentKey(url)
+  return (documentKey && lookups?.[documentKey]?.material) || null
+}
+
+export function isLookupFresh(
+  lookup: MaterialLookup,
+  now: number = Date.now()
+): boolean {
+  return now - new Date(lookup.checkedAt).getTime() < LOOKUP_MAX_AGE_MS
+}
+
+/**
+ * How long ago a material was captured, e.g. "3 days ago" or "yesterday"
+ */
+export function formatCapturedAgo(
+  capturedAt: string,
+  now: number = Date.now()
+): string {
+  const days = Math.max(
+    0,
+    Math.floor((now - new Date(capturedAt).getTime()) / (24 * 60 * 60 * 1000))
+  )
+  const format = new Intl.RelativeTimeFormat("en", { numeric: "auto" })
+  if (days < 7) {
+    return format.format(-days, "day")
+  }
+  if (days < 30) {
+    return format.format(-Math.floor(days / 7), "week")
+  }
+  if (days < 365) {
+    return format.format(-Math.floor(days / 30), "month")
+  }
+  return format.format(-Math.floor(days / 365), "year")
+}
+
+export async function getMaterialLookup(
+  documentKey: string
+): Promise<MaterialLookup | null> {
+  const lookups = await storage.get<MaterialLookups>(MATERIAL_LOOKUPS_KEY)
+  return lookups?.[documentKey] ?? null
+}
+
+// Writes are chained so lookups from several tabs don't overwrite each
+// other's read-modify-write
+const enqueueWrite = createWriteQueue()
+
+export function saveMaterialLookup(
+  documentKey: string,
+  material: ExistingMaterial | null
+): Promise<void> {
+  return enqueueWrite(async () => {
+    const lookups =
+      (await storage.get<MaterialLookups>(MATERIAL_LOOKUPS_KEY)) ?? {}
+    lookups[documentKey] = { material, checkedAt: new Date().toISOString() }
+
+    const cutoff = Date.now() - LOOKUP_RETENTION_MS
+    for (const [key, lookup] of Object.entries(lookups)) {
+      if (new Date(lookup.checkedAt).getTime() < cutoff) {
+        delete lookups[key]
+      }
+    }
+
+    await storage.set(MATERIAL_LOOKUPS_KEY, lookups)
+  }).catch((error) => {
+    console.warn("[MaterialLookup] Failed to save lookup:", error)
+  })
+}
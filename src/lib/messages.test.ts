@@ -0,0 +1,144 @@
+import { describe, expect, it, vi } from "vitest"
+
+import {
+  handleMessages,
+  isMessage,
+  sendMessage,
+  sendTabMessage
+} from "./messages"
+
+const sender = { tab: { id: 1 } } as chrome.runtime.MessageSender
+
+describe("messages", () => {
+  describe("isMessage", () => {
+    it("should accept messages with the fields they need", () => {
+      expect(isMessage({ type: "PAUSE_CAPTURE" })).toBe(true)
+      expect(
+        isMessage({
+          type: "CAPTURE_SCREENSHOT",
+          sessionId: "session-1",
+          pageNumber: 2,
+          acceptAnomaly: true
+        })
+      ).toBe(true)
+      expect(isMessage({ type: "START_CAPTURE", range: { from: 18 } })).toBe(
+        true
+      )
+    })
+
+    it("should reject unknown types and missing or mistyped fields", () => {
+      expect(isMessage({ type: "NOT_A_MESSAGE" })).toBe(false)
+      expect(isMessage({ type: "toString" })).toBe(false)
+      expect(isMessage("PAUSE_CAPTURE")).toBe(false)
+      expect(isMessage({ type: "RETRY_UPLOAD" })).toBe(false)
+      expect(
+        isMessage({
+          type: "CAPTURE_SCREENSHOT",
+          sessionId: "session-1",
+          pageNumber: "2"
+        })
+      ).toBe(false)
+      expect(
+        isMessage({ type: "ENSURE_CAPTURE_RESOLUTION", resolution: "8k" })
+      ).toBe(false)
+    })
+
+    it("should check nested payloads", () => {
+      const status = {
+        isCapturing: true,
+        currentPage: 3,
+        totalPages: null,
+        capturedCount: 2
+      }
+
+      expect(isMessage({ type: "CAPTURE_STATUS", status })).toBe(true)
+      expect(
+        isMessage({
+          type: "CAPTURE_STATUS",
+          status: { ...status, capturedCount: undefined }
+        })
+      ).toBe(false)
+    })
+  })
+
+  describe("handleMessages", () => {
+    it("should hand each message to its handler", () => {
+      const handler = vi.fn((_message, _sender, sendResponse) => {
+        sendResponse({ retrying: true })
+      })
+      const sendResponse = vi.fn()
+      const listener = handleMessages("Test", { RETRY_UPLOAD: handler })
+
+      const keepOpen = listener(
+        { type: "RETRY_UPLOAD", jobId: "job-1" },
+        sender,
+        sendResponse
+      )
+
+      expect(keepOpen).toBe(false)
+      expect(handler).toHaveBeenCalledWith(
+        { type: "RETRY_UPLOAD", jobId: "job-1" },
+        sender,
+        sendResponse
+      )
+      expect(sendResponse).toHaveBeenCalledWith({ retrying: true })
+    })
+
+    it("should keep the channel open for async handlers", () => {
+      const listener = handleMessages("Test", {
+        GET_CAPTURE_SESSION: () => true
+      })
+
+      expect(
+        listener(
+          { type: "GET_CAPTURE_SESSION", documentKey: "a" },
+          sender,
+          vi.fn()
+        )
+      ).toBe(true)
+    })
+
+    it("should leave messages without a handler to other listeners", () => {
+      const handler = vi.fn()
+      const listener = handleMessages("Test", { PAUSE_CAPTURE: handler })
+
+      expect(listener({ type: "UPLOAD_CANCELLED" }, sender, vi.fn())).toBe(
+        false
+      )
+      expect(listener({ type: "NOT_A_MESSAGE" }, sender, vi.fn())).toBe(false)
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it("should drop malformed messages", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+      const handler = vi.fn()
+      const listener = handleMessages("Test", { RETRY_UPLOAD: handler })
+
+      listener({ type: "RETRY_UPLOAD", jobId: 42 }, sender, vi.fn())
+
+      expect(handler).not.toHaveBeenCalled()
+      expect(warn).toHaveBeenCalledWith("[Test] Ignoring malformed message:", {
+        type: "RETRY_UPLOAD",
+        jobId: 42
+      })
+      warn.mockRestore()
+    })
+  })
+
+  describe("sendMessage / sendTabMessage", () => {
+    it("should resolve with the receiver's response", async () => {
+      vi.mocked(chrome.runtime.sendMessage).mockResolvedValueOnce({
+        cancelled: true
+      })
+
+      await expect(sendMessage({ type: "CANCEL_UPLOAD" })).resolves.toEqual({
+        cancelled: true
+      })
+      await sendTabMessage(3, { type: "PAUSE_CAPTURE" })
+
+      expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(3, {
+        type: "PAUSE_CAPTURE"
+      })
+    })
+  })
+})
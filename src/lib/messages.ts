@@ -0,0 +1,591 @@
+/**
+ * Extension messages
+ * Every message passed between the background worker, the content scripts
+ * and the popup, with the response it gets back. Messages are checked when
+ * they're received, so a context sending an outdated shape is logged and
+ * ignored instead of failing further in. Adding a message means adding it
+ * to `MessageMap` and to `MESSAGE_FIELDS`; the compiler asks for both.
+ */
+
+import type { DocumentDetails } from "./capture-metadata"
+import type { CaptureResolution, DeviceMetrics } from "./capture-resolution"
+import { isCaptureResolution } from "./capture-resolution"
+import type { CaptureReview, ReviewEdit } from "./capture-review"
+import type { CaptureSession } from "./capture-session"
+import type { TabCaptureState } from "./capture-state"
+import type { CaptureAnomaly, FrameAnomaly } from "./frame-analysis"
+import type { ExistingMaterial } from "./material-lookup"
+import type { PageRangeInput } from "./page-range"
+import type { FlowFolder, SaveDestination } from "./save-destination"
+import type { CaptureClip, CaptureMode } from "./slide-bounds"
+import type { UploadProgress } from "./upload-to-r2"
+
+// Progress of the running capture, sent by the content script; the
+// background folds it into the tab's capture state
+export interface CaptureStatus {
+  isCapturing: boolean
+  // Paused between pages; see PAUSE_CAPTURE
+  isPaused?: boolean
+  currentPage: number
+  totalPages: number | null
+  capturedCount: number
+  // Pages kept although they looked blank or repeated the page before
+  anomalies?: CaptureAnomaly[]
+  error?: string
+}
+
+// The title is also shown in the capture history
+export interface UploadMetadata extends DocumentDetails {
+  url: string
+  totalPages: number
+  capturedAt: string
+  // Pages kept although they looked blank or repeated the page before
+  anomalies?: CaptureAnomaly[]
+}
+
+// Reply to a page written to the page store
+export interface StoredPageResponse {
+  stored?: boolean
+  pageNumber?: number
+  bytes?: number
+  captureMode?: CaptureMode
+  // Why the frame wasn't stored, for the content script to retry
+  anomaly?: FrameAnomaly
+  error?: string
+}
+
+export interface ZoomResponse {
+  success: boolean
+  adjusted: boolean
+  currentZoom?: number
+  previousZoom?: number
+  error?: string
+}
+
+// Reply of the content script to the popup and the inline button
+export interface ContentResponse {
+  success: boolean
+  anomaly?: FrameAnomaly
+  error?: string
+}
+
+/**
+ * Every message by type: the fields it carries besides `type`, and the
+ * response it gets (void when the sender doesn't wait for one)
+ */
+export interface MessageMap {
+  // Content script → background
+  CAPTURE_SCREENSHOT: {
+    request: {
+      // Captured pages are written straight to the page store under this key
+      sessionId: string
+      pageNumber: number
+      // Slide bounds to crop to; the whole viewport is captured without it
+      clip?: CaptureClip
+      // Store the page even if it looks blank or like the previous page
+      // (the content script's last retry)
+      acceptAnomaly?: boolean
+    }
+    response: StoredPageResponse
+  }
+  STORE_PAGE_IMAGE: {
+    request: {
+      sessionId: string
+      pageNumber: number
+      // Page image extracted from the viewer, as a data: URL
+      dataUrl: string
+    }
+    response: StoredPageResponse
+  }
+  REVIEW_CAPTURE: {
+    // Finished capture to hold for review; the tab comes from the sender
+    request: { review: Omit<CaptureReview, "tabId"> }
+    response: void
+  }
+  CAPTURE_STATUS: {
+    request: { status: CaptureStatus }
+    response: void
+  }
+  SAVE_CAPTURE_SESSION: {
+    request: { session: CaptureSession }
+    response: void
+  }
+  GET_CAPTURE_SESSION: {
+    request: { documentKey: string }
+    response: { session: CaptureSession | null }
+  }
+  CLEAR_CAPTURE_SESSION: {
+    request: { documentKey: string }
+    response: void
+  }
+  ENSURE_CAPTURE_ZOOM: {
+    // Zoom recorded by an earlier run of a resumed capture
+    request: { originalZoom?: number }
+    response: ZoomResponse
+  }
+  RESTORE_CAPTURE_ZOOM: {
+    request: {}
+    response: {
+      success: boolean
+      restored?: boolean
+      zoom?: number
+      error?: string
+    }
+  }
+  ATTACH_CAPTURE_BACKEND: {
+    request: {}
+    response: { success: boolean; backend?: string; error?: string }
+  }
+  DETACH_CAPTURE_BACKEND: {
+    request: {}
+    response: { success: boolean; detached: boolean }
+  }
+  ENSURE_CAPTURE_RESOLUTION: {
+    request: { resolution: CaptureResolution }
+    response: {
+      success: boolean
+      applied: boolean
+      metrics?: DeviceMetrics | null
+      error?: string
+    }
+  }
+  RESTORE_CAPTURE_RESOLUTION: {
+    request: {}
+    response: { success: boolean; restored?: boolean; error?: string }
+  }
+
+  // Any context → background
+  UPLOAD_SCREENSHOTS: {
+    request: {
+      sessionId: string
+      // Upload order, as left by the review
+      pageNumbers: number[]
+      metadata: UploadMetadata
+      // Document tab, for uploads confirmed from the popup
+      tabId?: number
+      // Picked in the Save to Flow dialog; without one, the folder last
+      // used for the sender is kept
+      destination?: SaveDestination
+    }
+    response: void
+  }
+  RETRY_UPLOAD: {
+    // Job left with failed pages, from the capture state's upload
+    request: { jobId: string }
+    response: { retrying: boolean }
+  }
+  CANCEL_UPLOAD: {
+    // Without a job id, every upload started from the sending tab is
+    // cancelled
+    request: { jobId?: string }
+    response: { cancelled: boolean }
+  }
+  UPDATE_CAPTURE_REVIEW: {
+    // Edit from the popup's review screen
+    request: { sessionId: string; edit: ReviewEdit }
+    response: void
+  }
+  DISCARD_CAPTURE: {
+    request: {
+      sessionId: string
+      // Also forget the resumable session record for this document
+      documentKey?: string
+      // Tab the capture was reviewed in, when discarded from the popup
+      tabId?: number
+    }
+    response: void
+  }
+  GET_CAPTURE_STATE: {
+    // Without a tab id, the state of the sending tab
+    request: { tabId?: number }
+    response: { state: TabCaptureState }
+  }
+  DISMISS_CAPTURE_STATE: {
+    // Puts a finished upload or failed capture back to idle; without a tab
+    // id, the sending tab's
+    request: { tabId?: number }
+    response: void
+  }
+  REMOVE_HISTORY_ENTRY: {
+    // From the popup's history, which the background owns
+    request: { id: string }
+    response: void
+  }
+  CLEAR_CAPTURE_HISTORY: {
+    request: {}
+    response: void
+  }
+  GET_SAVE_OPTIONS: {
+    // Document about to be saved, for the folder last used for its sender
+    request: { url: string; sender?: string }
+    response: {
+      folders: FlowFolder[]
+      tags: string[]
+      folderId?: string
+      error?: string
+    }
+  }
+  LOOKUP_MATERIAL: {
+    // Document open in the tab; answered from the cache while it's fresh
+    request: { url: string }
+    response: { material: ExistingMaterial | null; error?: string }
+  }
+
+  // Popup or background → content script
+  START_CAPTURE: {
+    request: {
+      // Keep the pages stored by an interrupted capture of the document
+      resume?: boolean
+      resolution?: CaptureResolution
+      range?: PageRangeInput
+      // Link the capture to this material as a new version of it
+      previousMaterialId?: string
+    }
+    response: ContentResponse
+  }
+  STOP_CAPTURE: {
+    // Upload the pages captured so far instead of discarding them
+    request: { upload?: boolean }
+    response: ContentResponse
+  }
+  PAUSE_CAPTURE: {
+    request: {}
+    response: ContentResponse
+  }
+  CONTINUE_CAPTURE: {
+    request: {}
+    response: ContentResponse
+  }
+  CAPTURE_INTERRUPTED: {
+    request: { error: string }
+    response: ContentResponse
+  }
+  RECAPTURE_PAGE: {
+    request: { sessionId: string; pageNumber: number }
+    response: ContentResponse
+  }
+
+  // Background → content script and extension pages
+  CAPTURE_STATE: {
+    // The tab's capture state changed
+    request: { state: TabCaptureState }
+    response: void
+  }
+  UPLOAD_PROGRESS: {
+    request: { progress: UploadProgress }
+    response: void
+  }
+  UPLOAD_SUCCESS: {
+    request: { materialId?: string; imageCount?: number }
+    response: void
+  }
+  UPLOAD_ERROR: {
+    request: {
+      error: string
+      // Set when only some pages failed and the job can be retried
+      jobId?: string
+      failedPages?: number[]
+    }
+    response: void
+  }
+  UPLOAD_CANCELLED: {
+    request: {}
+    response: void
+  }
+}
+
+export type MessageType = keyof MessageMap
+
+export type Message<T extends MessageType = MessageType> = {
+  [K in T]: { type: K } & MessageMap[K]["request"]
+}[T]
+
+export type MessageResponse<T extends MessageType> = MessageMap[T]["response"]
+
+type FieldCheck = (value: unknown) => boolean
+
+// One check per field of each message, including the optional ones
+type MessageFields = {
+  [K in MessageType]: {
+    [F in keyof MessageMap[K]["request"]]-?: FieldCheck
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+const isString: FieldCheck = (value) => typeof value === "string"
+
+const isNumber: FieldCheck = (value) =>
+  typeof value === "number" && Number.isFinite(value)
+
+const isBoolean: FieldCheck = (value) => typeof value === "boolean"
+
+const isPageNumbers: FieldCheck = (value) =>
+  Array.isArray(value) && value.every(isNumber)
+
+function optional(check: FieldCheck): FieldCheck {
+  return (value) => value === undefined || check(value)
+}
+
+function nullable(check: FieldCheck): FieldCheck {
+  return (value) => value === null || check(value)
+}
+
+function hasFields(fields: Record<string, FieldCheck>): FieldCheck {
+  return (value) =>
+    isRecord(value) &&
+    Object.entries(fields).every(([field, check]) => check(value[field]))
+}
+
+const isAnomalies: FieldCheck = (value) =>
+  Array.isArray(value) &&
+  value.every(hasFields({ pageNumber: isNumber, kind: isString }))
+
+const isCaptureClip = hasFields({
+  x: isNumber,
+  y: isNumber,
+  width: isNumber,
+  height: isNumber,
+  devicePixelRatio: isNumber
+})
+
+const isCaptureStatus = hasFields({
+  isCapturing: isBoolean,
+  isPaused: optional(isBoolean),
+  currentPage: isNumber,
+  totalPages: nullable(isNumber),
+  capturedCount: isNumber,
+  anomalies: optional(isAnomalies),
+  error: optional(isString)
+})
+
+const documentDetailsFields: Record<keyof DocumentDetails, FieldCheck> = {
+  title: optional(isString),
+  sender: optional(isString),
+  viewerEmail: optional(isString),
+  viewerId: optional(isString),
+  viewport: optional(
+    hasFields({ width: isNumber, height: isNumber, devicePixelRatio: isNumber })
+  ),
+  previousMaterialId: optional(isString)
+}
+
+const isUploadMetadata = hasFields({
+  ...documentDetailsFields,
+  url: isString,
+  totalPages: isNumber,
+  capturedAt: isString,
+  anomalies: optional(isAnomalies)
+})
+
+const isSaveDestination = hasFields({
+  folderId: optional(isString),
+  tags: optional((value) => Array.isArray(value) && value.every(isString)),
+  note: optional(isString)
+})
+
+const isCaptureReview = hasFields({
+  sessionId: isString,
+  documentKey: isString,
+  ...documentDetailsFields,
+  url: isString,
+  pageNumbers: isPageNumbers,
+  anomalies: optional(isAnomalies),
+  capturedAt: isString
+})
+
+const isReviewEdit = hasFields({
+  type: isString,
+  pageNumber: isNumber,
+  offset: optional(isNumber),
+  anomaly: optional(isString)
+})
+
+const isCaptureSession = hasFields({
+  sessionId: isString,
+  documentKey: isString,
+  url: isString,
+  viewerId: isString,
+  totalPages: isNumber,
+  pages: optional(isPageNumbers),
+  capturedPages: isPageNumbers,
+  lastPage: isNumber,
+  startedAt: isString,
+  updatedAt: isString
+})
+
+const isPageRangeInput: FieldCheck = (value) =>
+  isString(value) ||
+  hasFields({ from: isNumber, to: optional(isNumber) })(value)
+
+const isTabCaptureState = hasFields({
+  tabId: isNumber,
+  phase: isString,
+  url: optional(isString),
+  currentPage: isNumber,
+  totalPages: nullable(isNumber),
+  capturedCount: isNumber,
+  anomalies: optional(isAnomalies),
+  upload: optional(
+    hasFields({
+      currentFile: isNumber,
+      totalFiles: isNumber,
+      percent: isNumber,
+      jobId: optional(isString),
+      failedPages: optional(isPageNumbers)
+    })
+  ),
+  error: optional(isString),
+  updatedAt: isString
+})
+
+const isUploadProgress = hasFields({
+  currentFile: isNumber,
+  totalFiles: isNumber,
+  percent: isNumber
+})
+
+const MESSAGE_FIELDS: MessageFields = {
+  CAPTURE_SCREENSHOT: {
+    sessionId: isString,
+    pageNumber: isNumber,
+    clip: optional(isCaptureClip),
+    acceptAnomaly: optional(isBoolean)
+  },
+  STORE_PAGE_IMAGE: {
+    sessionId: isString,
+    pageNumber: isNumber,
+    dataUrl: isString
+  },
+  REVIEW_CAPTURE: { review: isCaptureReview },
+  CAPTURE_STATUS: { status: isCaptureStatus },
+  SAVE_CAPTURE_SESSION: { session: isCaptureSession },
+  GET_CAPTURE_SESSION: { documentKey: isString },
+  CLEAR_CAPTURE_SESSION: { documentKey: isString },
+  ENSURE_CAPTURE_ZOOM: { originalZoom: optional(isNumber) },
+  RESTORE_CAPTURE_ZOOM: {},
+  ATTACH_CAPTURE_BACKEND: {},
+  DETACH_CAPTURE_BACKEND: {},
+  ENSURE_CAPTURE_RESOLUTION: { resolution: isCaptureResolution },
+  RESTORE_CAPTURE_RESOLUTION: {},
+  UPLOAD_SCREENSHOTS: {
+    sessionId: isString,
+    pageNumbers: isPageNumbers,
+    metadata: isUploadMetadata,
+    tabId: optional(isNumber),
+    destination: optional(isSaveDestination)
+  },
+  RETRY_UPLOAD: { jobId: isString },
+  CANCEL_UPLOAD: { jobId: optional(isString) },
+  UPDATE_CAPTURE_REVIEW: { sessionId: isString, edit: isReviewEdit },
+  DISCARD_CAPTURE: {
+    sessionId: isString,
+    documentKey: optional(isString),
+    tabId: optional(isNumber)
+  },
+  GET_CAPTURE_STATE: { tabId: optional(isNumber) },
+  DISMISS_CAPTURE_STATE: { tabId: optional(isNumber) },
+  REMOVE_HISTORY_ENTRY: { id: isString },
+  CLEAR_CAPTURE_HISTORY: {},
+  GET_SAVE_OPTIONS: { url: isString, sender: optional(isString) },
+  LOOKUP_MATERIAL: { url: isString },
+  START_CAPTURE: {
+    resume: optional(isBoolean),
+    resolution: optional(isCaptureResolution),
+    range: optional(isPageRangeInput),
+    previousMaterialId: optional(isString)
+  },
+  STOP_CAPTURE: { upload: optional(isBoolean) },
+  PAUSE_CAPTURE: {},
+  CONTINUE_CAPTURE: {},
+  CAPTURE_INTERRUPTED: { error: isString },
+  RECAPTURE_PAGE: { sessionId: isString, pageNumber: isNumber },
+  CAPTURE_STATE: { state: isTabCaptureState },
+  UPLOAD_PROGRESS: { progress: isUploadProgress },
+  UPLOAD_SUCCESS: {
+    materialId: optional(isString),
+    imageCount: optional(isNumber)
+  },
+  UPLOAD_ERROR: {
+    error: isString,
+    jobId: optional(isString),
+    failedPages: optional(isPageNumbers)
+  },
+  UPLOAD_CANCELLED: {}
+}
+
+export function isMessageType(value: unknown): value is MessageType {
+  return isString(value) && Object.hasOwn(MESSAGE_FIELDS, value as string)
+}
+
+/**
+ * Whether `value` is a known message with every field it needs
+ */
+export function isMessage(value: unknown): value is Message {
+  if (!isRecord(value) || !isMessageType(value.type)) {
+    return false
+  }
+  const fields: Record<string, FieldCheck> = MESSAGE_FIELDS[value.type]
+  return Object.entries(fields).every(([field, check]) => check(value[field]))
+}
+
+/**
+ * Send a message to the background worker and the extension pages. Resolves
+ * undefined when the receiver doesn't respond.
+ */
+export function sendMessage<T extends MessageType>(
+  message: Message<T>
+): Promise<MessageResponse<T> | undefined> {
+  return chrome.runtime.sendMessage(message)
+}
+
+/**
+ * Send a message to the content scripts of a tab
+ */
+export function sendTabMessage<T extends MessageType>(
+  tabId: number,
+  message: Message<T>
+): Promise<MessageResponse<T> | undefined> {
+  return chrome.tabs.sendMessage(tabId, message)
+}
+
+export type MessageHandler<T extends MessageType> = (
+  message: Message<T>,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response: MessageResponse<T>) => void
+) => boolean | void
+
+export type MessageHandlers = {
+  [K in MessageType]?: MessageHandler<K>
+}
+
+/**
+ * chrome.runtime.onMessage listener that hands each message to its handler.
+ * Messages without a handler are left to other listeners; malformed ones
+ * are logged under `context` and dropped. A handler returns true to respond
+ * asynchronously.
+ */
+export function handleMessages(context: string, handlers: MessageHandlers) {
+  return (
+    message: unknown,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response?: unknown) => void
+  ): boolean => {
+    if (!isRecord(message) || !isMessageType(message.type)) {
+      return false
+    }
+    const handler = handlers[message.type] as
+      | MessageHandler<MessageType>
+      | undefined
+    if (!handler) {
+      return false
+    }
+    if (!isMessage(message)) {
+      console.warn(`[${context}] Ignoring malformed message:`, message)
+      return false
+    }
+    return handler(message, sender, sendResponse) === true
+  }
+}
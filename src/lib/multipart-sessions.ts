@@ -0,0 +1,77 @@
+/**
+ * Persisted R2 multipart sessions
+ * Each open multipart upload (uploadId, key, part layout and the ETags of
+ * completed parts) is saved under a caller-chosen id so a retry, or a new
+ * service worker, only uploads the parts that are still missing.
+ */
+
+import { storage } from "./storage"
+import type { MultipartState } from "./upload-to-r2"
+import { createWriteQueue } from "./write-queue"
+
+export const MULTIPART_SESSIONS_KEY = "multipartSessions"
+
+// Sessions without progress for this long are aborted as abandoned
+const DEFAULT_SESSION_TTL_HOURS = 24
+
+export function getMultipartSessionTtlMs(): number {
+  const hours = Number(process.env.PLASMO_PUBLIC_MULTIPART_SESSION_TTL_HOURS)
+  const ttlHours =
+    Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_SESSION_TTL_HOURS
+  return ttlHours * 60 * 60 * 1000
+}
+
+export interface StoredMultipartSession extends MultipartState {
+  createdAt: string
+  updatedAt: string
+}
+
+export type StoredMultipartSessions = Record<string, StoredMultipartSession>
+
+export async function getMultipartSessions(): Promise<StoredMultipartSessions> {
+  return (
+    (await storage.get<StoredMultipartSessions>(MULTIPART_SESSIONS_KEY)) ?? {}
+  )
+}
+
+export async function getMultipartSession(
+  id: string
+): Promise<MultipartState | undefined> {
+  return (await getMultipartSessions())[id]
+}
+
+// Parts of several screenshots complete concurrently, so writes are chained
+// to keep each read-modify-write intact
+const enqueueWrite = createWriteQueue()
+
+function updateSessions(
+  update: (sessions: StoredMultipartSessions) => void
+): Promise<void> {
+  return enqueueWrite(async () => {
+    const sessions = await getMultipartSessions()
+    update(sessions)
+    await storage.set(MULTIPART_SESSIONS_KEY, sessions)
+  }).catch((error) => {
+    console.warn("[Upload] Failed to update multipart sessions:", error)
+  })
+}
+
+export function saveMultipartSession(
+  id: string,
+  state: MultipartState
+): Promise<void> {
+  return updateSessions((sessions) => {
+    const now = new Date().toISOString()
+    sessions[id] = {
+      ...state,
+      createdAt: sessions[id]?.createdAt ?? now,
+      updatedAt: now
+    }
+  })
+}
+
+export function removeMultipartSessions(ids: string[]): Promise<void> {
+  return updateSessions((sessions) => {
+    ids.forEach((id) => delete sessions[id])
+  })
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest"
+
+import { formatPageRange, parsePageRange, resolvePageRange } from "./page-range"
+
+describe("page-range", () => {
+  describe("parsePageRange", () => {
+    it("should read single pages, spans and open-ended spans", () => {
+      expect(parsePageRange("1-3, 7, 18-")).toEqual([
+        { from: 1, to: 3 },
+        { from: 7, to: 7 },
+        { from: 18, to: undefined }
+      ])
+    })
+
+    it("should reject ranges it can't read", () => {
+      expect(() => parsePageRange("")).toThrow("Enter pages like 1-3, 18-25")
+      expect(() => parsePageRange("1-3, abc")).toThrow(
+        `"abc" isn't a page or a range of pages`
+      )
+      expect(() => parsePageRange("0-2")).toThrow("Pages start at 1")
+      expect(() => parsePageRange("5-2")).toThrow(`"5-2" ends before it starts`)
+    })
+  })
+
+  describe("resolvePageRange", () => {
+    it("should list the pages in order without duplicates", () => {
+      expect(resolvePageRange("18-, 2-4, 3", 20)).toEqual([2, 3, 4, 18, 19, 20])
+    })
+
+    it("should accept a single span", () => {
+      expect(resolvePageRange({ from: 4 }, 6)).toEqual([4, 5, 6])
+      expect(resolvePageRange({ from: 2, to: 3 }, 6)).toEqual([2, 3])
+    })
+
+    it("should clamp spans to the last page", () => {
+      expect(resolvePageRange("4-10", 5)).toEqual([4, 5])
+    })
+
+    it("should reject pages past the end of the document", () => {
+      expect(() => resolvePageRange("1-2, 9", 5)).toThrow(
+        "This document only has 5 pages"
+      )
+    })
+  })
+
+  describe("formatPageRange", () => {
+    it("should join consecutive pages into spans", () => {
+      expect(formatPageRange([18, 1, 2, 3, 20, 19, 7])).toBe("1-3, 7, 18-20")
+      expect(formatPageRange([])).toBe("")
+    })
+  })
+})
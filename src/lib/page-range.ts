@@ -0,0 +1,98 @@
+/**
+ * Page ranges
+ * A capture can be limited to some pages of a document, e.g. just the
+ * financials of a long deck. Ranges are written like "1-3, 18-25"; "18-"
+ * runs to the last page. Only page numbers of the document are known to the
+ * content script, so ranges are checked against the page count there.
+ */
+
+export interface PageSpan {
+  from: number
+  // Missing for "18-", which runs to the last page
+  to?: number
+}
+
+// What START_CAPTURE accepts: a range as typed, or a single span
+export type PageRangeInput = string | PageSpan
+
+const SPAN_PATTERN = /^(\d+)\s*(?:-\s*(\d*))?$/
+
+/**
+ * Spans of a range like "1-3, 18-25". Throws with a message to show the
+ * user when the range can't be read.
+ */
+export function parsePageRange(text: string): PageSpan[] {
+  const parts = text
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+  if (parts.length === 0) {
+    throw new Error("Enter pages like 1-3, 18-25")
+  }
+
+  return parts.map((part) => {
+    const match = part.match(SPAN_PATTERN)
+    if (!match) {
+      throw new Error(`"${part}" isn't a page or a range of pages`)
+    }
+    const from = parseInt(match[1], 10)
+    const to =
+      match[2] === undefined
+        ? from
+        : match[2] === ""
+          ? undefined
+          : parseInt(match[2], 10)
+
+    if (from < 1) {
+      throw new Error("Pages start at 1")
+    }
+    if (to !== undefined && to < from) {
+      throw new Error(`"${part}" ends before it starts`)
+    }
+    return { from, to }
+  })
+}
+
+/**
+ * Pages of a document with `totalPages` pages named by the range, ascending
+ * and without duplicates. Throws when the range doesn't fit the document.
+ */
+export function resolvePageRange(
+  range: PageRangeInput,
+  totalPages: number
+): number[] {
+  const spans = parsePageRange(
+    typeof range === "string" ? range : `${range.from}-${range.to ?? ""}`
+  )
+  const pages = new Set<number>()
+
+  for (const { from, to = totalPages } of spans) {
+    if (from > totalPages) {
+      throw new Error(
+        `This document only has ${totalPages} ${totalPages === 1 ? "page" : "pages"}`
+      )
+    }
+    for (let page = from; page <= Math.min(to, totalPages); page++) {
+      pages.add(page)
+    }
+  }
+
+  return [...pages].sort((a, b) => a - b)
+}
+
+/**
+ * Compact form of a page list, e.g. [1, 2, 3, 18] as "1-3, 18"
+ */
+export function formatPageRange(pages: number[]): string {
+  const sorted = [...new Set(pages)].sort((a, b) => a - b)
+  const spans: string[] = []
+
+  for (let i = 0; i < sorted.length; i++) {
+    const from = sorted[i]
+    while (sorted[i + 1] === sorted[i] + 1) {
+      i++
+    }
+    spans.push(from === sorted[i] ? `${from}` : `${from}-${sorted[i]}`)
+  }
+  return spans.join(", ")
+}
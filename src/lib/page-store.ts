@@ -0,0 +1,147 @@
+/**
+ * IndexedDB store for captured pages
+ * Pages are written as Blobs as soon as they're captured, keyed by capture
+ * session id and page number, so a capture survives reloads and worker
+ * restarts and never has to travel through chrome.runtime messaging.
+ *
+ * Only use this from extension contexts (background, popup, extension
+ * pages): in a content script IndexedDB belongs to the host page's origin.
+ */
+
+import type { FrameAnomaly } from "./frame-analysis"
+import type { CaptureMode } from "./slide-bounds"
+
+export interface StoredPage {
+  sessionId: string
+  pageNumber: number
+  blob: Blob
+  capturedAt: string
+  // Missing on pages stored before cropping was added
+  captureMode?: CaptureMode
+  // Pixel size; missing when the image couldn't be decoded
+  width?: number
+  height?: number
+  // Kept even though it looked blank or like the previous page
+  anomaly?: FrameAnomaly
+}
+
+const DB_NAME = "flow-captures"
+const DB_VERSION = 1
+const PAGES_STORE = "pages"
+const SESSION_INDEX = "sessionId"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"))
+  })
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(PAGES_STORE)) {
+          const store = db.createObjectStore(PAGES_STORE, {
+            keyPath: ["sessionId", "pageNumber"]
+          })
+          store.createIndex(SESSION_INDEX, "sessionId")
+        }
+      }
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        // Allow a later call to retry opening the database
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+
+  return dbPromise
+}
+
+/**
+ * Convert a base64 screenshot (as returned by CDP) to a Blob
+ */
+export function base64ToBlob(base64: string, type = "image/png"): Blob {
+  const binary = atob(base64)
+  const array = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    array[i] = binary.charCodeAt(i)
+  }
+  return new Blob([array], { type })
+}
+
+/**
+ * Write (or overwrite) a captured page
+ */
+export async function savePage(page: StoredPage): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction(PAGES_STORE, "readwrite")
+  tx.objectStore(PAGES_STORE).put(page)
+  await transactionDone(tx)
+}
+
+/**
+ * Read the pages of a session, ordered by page number
+ * When `pageNumbers` is given, only those pages are returned, in that order
+ */
+export async function getPages(
+  sessionId: string,
+  pageNumbers?: number[]
+): Promise<StoredPage[]> {
+  const db = await openDatabase()
+  const tx = db.transaction(PAGES_STORE, "readonly")
+  const index = tx.objectStore(PAGES_STORE).index(SESSION_INDEX)
+  const pages = await requestToPromise<StoredPage[]>(index.getAll(sessionId))
+
+  if (!pageNumbers) {
+    return pages.sort((a, b) => a.pageNumber - b.pageNumber)
+  }
+
+  const byNumber = new Map(pages.map((page) => [page.pageNumber, page]))
+  return pageNumbers
+    .map((pageNumber) => byNumber.get(pageNumber))
+    .filter((page): page is StoredPage => page !== undefined)
+}
+
+/**
+ * Page numbers already stored for a session, ascending
+ */
+export async function getStoredPageNumbers(
+  sessionId: string
+): Promise<number[]> {
+  const db = await openDatabase()
+  const tx = db.transaction(PAGES_STORE, "readonly")
+  const index = tx.objectStore(PAGES_STORE).index(SESSION_INDEX)
+  const keys = await requestToPromise(index.getAllKeys(sessionId))
+  return keys.map((key) => (key as [string, number])[1]).sort((a, b) => a - b)
+}
+
+/**
+ * Remove every stored page of a session
+ */
+export async function deleteSession(sessionId: string): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction(PAGES_STORE, "readwrite")
+  const store = tx.objectStore(PAGES_STORE)
+  const keys = await requestToPromise(
+    store.index(SESSION_INDEX).getAllKeys(sessionId)
+  )
+  keys.forEach((key) => store.delete(key))
+  await transactionDone(tx)
+}
@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+
+import {
+  isImageReady,
+  waitForImageRender,
+  waitForPageTransition
+} from "./page-transition"
+
+// Build a minimal DocSend presentation DOM: page indicator plus slide images
+function setupDocSendDom(totalPages: number, currentPage = 1) {
+  document.body.innerHTML = `
+    <div class="toolbar-page-indicator">
+      <span id="page-number">${currentPage}</span> / ${totalPages}
+    </div>
+    <div class="carousel-inner">
+      ${Array.from(
+        { length: totalPages },
+        (_, i) =>
+          `<div class="item${i + 1 === currentPage ? " active" : ""}">
+            <img class="preso-view page-view" data-pagenum="${i + 1}" src="https://docsend.com/assets/whitey.png" />
+          </div>`
+      ).join("")}
+    </div>
+  `
+}
+
+function getCurrentPage() {
+  return parseInt(document.querySelector("#page-number")!.textContent!, 10)
+}
+
+function getSlideImage(page: number) {
+  return document.querySelector<HTMLImageElement>(
+    `img.page-view[data-pagenum="${page}"]`
+  )
+}
+
+// jsdom never loads images, so fake the load lifecycle
+function markImageLoaded(img: HTMLImageElement, src: string, width = 1024) {
+  Object.defineProperty(img, "complete", { configurable: true, value: true })
+  Object.defineProperty(img, "naturalWidth", {
+    configurable: true,
+    value: width
+  })
+  img.src = src
+  img.dispatchEvent(new Event("load"))
+}
+
+function setPage(page: number) {
+  document.querySelector("#page-number")!.textContent = String(page)
+  document
+    .querySelectorAll(".item")
+    .forEach((item, i) => item.classList.toggle("active", i + 1 === page))
+}
+
+describe("page-transition", () => {
+  beforeEach(() => {
+    setupDocSendDom(5)
+  })
+
+  afterEach(() => {
+    document.body.innerHTML = ""
+  })
+
+  describe("isImageReady", () => {
+    it("should treat the whitey placeholder as not ready", () => {
+      const img = getSlideImage(1)!
+      Object.defineProperty(img, "complete", { value: true })
+      Object.defineProperty(img, "naturalWidth", { value: 10 })
+
+      expect(isImageReady(img)).toBe(false)
+    })
+
+    it("should treat a loaded slide image as ready", () => {
+      const img = getSlideImage(1)!
+      markImageLoaded(img, "https://cdn.docsend.com/slide-1.png")
+
+      expect(isImageReady(img)).toBe(true)
+    })
+  })
+
+  describe("waitForImageRender", () => {
+    it("should resolve once the placeholder is replaced by the real slide", async () => {
+      const img = getSlideImage(2)!
+      const pending = waitForImageRender(img, 1000)
+
+      setTimeout(
+        () => markImageLoaded(img, "https://cdn.docsend.com/slide-2.png"),
+        20
+      )
+
+      await expect(pending).resolves.toBe(true)
+    })
+
+    it("should resolve false when the image fails to load", async () => {
+      const img = getSlideImage(2)!
+      const pending = waitForImageRender(img, 1000)
+
+      setTimeout(() => img.dispatchEvent(new Event("error")), 20)
+
+      await expect(pending).resolves.toBe(false)
+    })
+
+    it("should resolve false when the image never loads", async () => {
+      const img = getSlideImage(2)!
+
+      await expect(waitForImageRender(img, 50)).resolves.toBe(false)
+    })
+  })
+
+  describe("waitForPageTransition", () => {
+    it("should resolve as soon as the page indicator changes and the slide paints", async () => {
+      const startedAt = Date.now()
+      const pending = waitForPageTransition({
+        fromPage: 1,
+        getCurrentPage,
+        getActiveImage: getSlideImage,
+        timeoutMs: 2000,
+        renderTimeoutMs: 2000
+      })
+
+      setTimeout(() => {
+        setPage(2)
+        setTimeout(
+          () =>
+            markImageLoaded(
+              getSlideImage(2)!,
+              "https://cdn.docsend.com/slide-2.png"
+            ),
+          20
+        )
+      }, 20)
+
+      const result = await pending
+      expect(result).toEqual({ changed: true, page: 2, timedOut: false })
+      expect(Date.now() - startedAt).toBeLessThan(1000)
+    })
+
+    it("should wait for the slide image after the indicator changes", async () => {
+      let imageLoaded = false
+      const pending = waitForPageTransition({
+        fromPage: 1,
+        getCurrentPage,
+        getActiveImage: getSlideImage,
+        timeoutMs: 2000,
+        renderTimeoutMs: 2000
+      }).then((result) => ({ result, imageLoaded }))
+
+      setPage(2)
+      setTimeout(() => {
+        imageLoaded = true
+        markImageLoaded(
+          getSlideImage(2)!,
+          "https://cdn.docsend.com/slide-2.png"
+        )
+      }, 50)
+
+      const { result, imageLoaded: loadedAtResolve } = await pending
+      expect(result.changed).toBe(true)
+      expect(loadedAtResolve).toBe(true)
+    })
+
+    it("should report a timeout when the page never changes", async () => {
+      const result = await waitForPageTransition({
+        fromPage: 1,
+        getCurrentPage,
+        getActiveImage: getSlideImage,
+        timeoutMs: 50
+      })
+
+      expect(result).toEqual({ changed: false, page: 1, timedOut: true })
+    })
+
+    it("should report a changed page whose slide failed to render", async () => {
+      const pending = waitForPageTransition({
+        fromPage: 1,
+        getCurrentPage,
+        getActiveImage: getSlideImage,
+        timeoutMs: 1000,
+        renderTimeoutMs: 50
+      })
+
+      setPage(2)
+
+      const result = await pending
+      expect(result).toEqual({ changed: true, page: 2, timedOut: true })
+    })
+
+    it("should resolve immediately if the page already changed", async () => {
+      setPage(3)
+      markImageLoaded(getSlideImage(3)!, "https://cdn.docsend.com/slide-3.png")
+
+      const result = await waitForPageTransition({
+        fromPage: 2,
+        getCurrentPage,
+        getActiveImage: getSlideImage,
+        timeoutMs: 1000
+      })
+
+      expect(result).toEqual({ changed: true, page: 3, timedOut: false })
+    })
+
+    it("should skip the render wait when no image lookup is given", async () => {
+      setPage(4)
+      const pending = waitForPageTransition({
+        fromPage: 4,
+        getCurrentPage,
+        timeoutMs: 1000
+      })
+
+      setPage(3)
+
+      await expect(pending).resolves.toEqual({
+        changed: true,
+        page: 3,
+        timedOut: false
+      })
+    })
+  })
+})
@@ -0,0 +1,172 @@
+/**
+ * Page transition watcher for slide viewers
+ * Resolves as soon as the page indicator changes and the new slide image has
+ * finished loading, decoding and painting, instead of sleeping a fixed delay
+ */
+
+export interface PageTransitionOptions {
+  // Page shown before navigation was triggered
+  fromPage: number
+  // Reads the page currently shown by the viewer
+  getCurrentPage: () => number
+  // Returns the image element of the slide for the given page, if any
+  getActiveImage?: (page: number) => HTMLImageElement | null
+  // Node observed for mutations (defaults to document.body)
+  root?: Node
+  // Max time to wait for the page indicator to change
+  timeoutMs?: number
+  // Max time to wait for the new slide image to render once the page changed
+  renderTimeoutMs?: number
+}
+
+export interface PageTransitionResult {
+  changed: boolean
+  page: number
+  timedOut: boolean
+}
+
+const DEFAULT_TIMEOUT_MS = 5000
+const DEFAULT_RENDER_TIMEOUT_MS = 15000
+
+/**
+ * Check whether an image has a real (non-placeholder) bitmap ready
+ * DocSend shows a "whitey" placeholder while the slide is still loading
+ */
+export function isImageReady(img: HTMLImageElement): boolean {
+  return (
+    img.complete &&
+    img.naturalWidth > 0 &&
+    !!img.src &&
+    !img.src.includes("whitey")
+  )
+}
+
+function nextFrame(): Promise<void> {
+  return new Promise((resolve) => {
+    if (typeof requestAnimationFrame === "function") {
+      requestAnimationFrame(() => resolve())
+    } else {
+      setTimeout(resolve, 16)
+    }
+  })
+}
+
+/**
+ * Wait until the image has loaded a real bitmap, then decode it and wait for
+ * the next paint. Returns false when the image did not become ready in time.
+ */
+export async function waitForImageRender(
+  img: HTMLImageElement,
+  timeoutMs = DEFAULT_RENDER_TIMEOUT_MS
+): Promise<boolean> {
+  const loaded = await new Promise<boolean>((resolve) => {
+    if (isImageReady(img)) {
+      resolve(true)
+      return
+    }
+
+    let settled = false
+    const finish = (result: boolean) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      observer.disconnect()
+      img.removeEventListener("load", onLoad)
+      img.removeEventListener("error", onError)
+      resolve(result)
+    }
+
+    // Placeholder images fire "load" too, so only resolve on a real bitmap
+    const onLoad = () => {
+      if (isImageReady(img)) finish(true)
+    }
+    const onError = () => finish(false)
+
+    // The viewer swaps the placeholder src for the real one once it's fetched
+    const observer = new MutationObserver(onLoad)
+    observer.observe(img, { attributes: true, attributeFilter: ["src"] })
+
+    img.addEventListener("load", onLoad)
+    img.addEventListener("error", onError)
+    const timer = setTimeout(() => finish(false), timeoutMs)
+  })
+
+  if (!loaded) {
+    return false
+  }
+
+  if (typeof img.decode === "function") {
+    try {
+      await img.decode()
+    } catch (_e) {
+      // decode() rejects for images that are already decoded or detached
+    }
+  }
+
+  // Two frames: one to commit the new image, one to make sure it's painted
+  await nextFrame()
+  await nextFrame()
+  return true
+}
+
+/**
+ * Wait for the viewer to move away from `fromPage` and finish rendering the
+ * new slide. Resolves with `changed: false` if the page never changed.
+ */
+export function waitForPageTransition(
+  options: PageTransitionOptions
+): Promise<PageTransitionResult> {
+  const {
+    fromPage,
+    getCurrentPage,
+    getActiveImage,
+    root = document.body,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    renderTimeoutMs = DEFAULT_RENDER_TIMEOUT_MS
+  } = options
+
+  return new Promise((resolve) => {
+    let settled = false
+
+    const onPageChanged = async (page: number) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      observer.disconnect()
+
+      const img = getActiveImage?.(page) ?? null
+      const rendered = img
+        ? await waitForImageRender(img, renderTimeoutMs)
+        : true
+
+      resolve({ changed: true, page: getCurrentPage(), timedOut: !rendered })
+    }
+
+    const check = () => {
+      const page = getCurrentPage()
+      if (page !== fromPage) {
+        void onPageChanged(page)
+      }
+    }
+
+    const observer = new MutationObserver(check)
+    observer.observe(root, {
+      subtree: true,
+      childList: true,
+      characterData: true,
+      attributes: true,
+      attributeFilter: ["src", "class", "data-pagenum", "aria-hidden"]
+    })
+
+    const timer = setTimeout(() => {
+      if (settled) return
+      settled = true
+      observer.disconnect()
+      const page = getCurrentPage()
+      resolve({ changed: page !== fromPage, page, timedOut: true })
+    }, timeoutMs)
+
+    // The page may already have changed before we started observing
+    check()
+  })
+}
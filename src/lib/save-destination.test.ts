@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { getChromeStorageData } from "../test/mocks/chrome"
+import {
+  getLastFolderId,
+  getSenderDomain,
+  MAX_TAGS,
+  parseTags,
+  rememberFolder,
+  SAVE_DESTINATIONS_KEY,
+  type SaveDestinations
+} from "./save-destination"
+
+vi.mock("./storage", () => ({
+  storage: {
+    set: vi.fn(async (key: string, value: unknown) => {
+      await chrome.storage.local.set({ [key]: value })
+    }),
+    get: vi.fn(async (key: string) => {
+      return new Promise((resolve) => {
+        chrome.storage.local.get([key], (result) => {
+          resolve(result[key])
+        })
+      })
+    })
+  }
+}))
+
+function storedDestinations() {
+  return getChromeStorageData()[SAVE_DESTINATIONS_KEY] as SaveDestinations
+}
+
+describe("save-destination", () => {
+  describe("getSenderDomain", () => {
+    it("should use the host of a custom domain", () => {
+      expect(getSenderDomain("https://decks.acme.vc/view/abc", "Acme")).toBe(
+        "decks.acme.vc"
+      )
+    })
+
+    it("should tell senders on docsend.com apart", () => {
+      expect(
+        getSenderDomain("https://www.docsend.com/view/abc", " Acme Ventures ")
+      ).toBe("docsend.com/acme ventures")
+      expect(getSenderDomain("https://docsend.com/view/abc")).toBe(
+        "docsend.com"
+      )
+    })
+
+    it("should return null for an invalid url", () => {
+      expect(getSenderDomain("not a url", "Acme")).toBeNull()
+    })
+  })
+
+  describe("parseTags", () => {
+    it("should trim and drop empty and duplicate tags", () => {
+      expect(parseTags(" fintech, Seed,,seed , fintech ")).toEqual([
+        "fintech",
+        "Seed"
+      ])
+    })
+
+    it("should keep at most MAX_TAGS tags", () => {
+      const input = Array.from({ length: 30 }, (_, i) => `tag-${i}`).join(",")
+      expect(parseTags(input)).toHaveLength(MAX_TAGS)
+    })
+  })
+
+  describe("rememberFolder", () => {
+    it("should remember the folder for the sender", async () => {
+      await rememberFolder("docsend.com/acme", "folder-1")
+
+      expect(await getLastFolderId("docsend.com/acme")).toBe("folder-1")
+      expect(await getLastFolderId("docsend.com/other")).toBeUndefined()
+    })
+
+    it("should keep folders remembered at the same time", async () => {
+      await Promise.all([
+        rememberFolder("docsend.com/acme", "folder-1"),
+        rememberFolder("decks.acme.vc", "folder-2")
+      ])
+
+      expect(Object.keys(storedDestinations())).toEqual([
+        "docsend.com/acme",
+        "decks.acme.vc"
+      ])
+    })
+
+    it("should forget the folder when saved to the library root", async () => {
+      await rememberFolder("docsend.com/acme", "folder-1")
+      await rememberFolder("docsend.com/acme", undefined)
+
+      expect(storedDestinations()).toEqual({})
+      expect(await getLastFolderId("docsend.com/acme")).toBeUndefined()
+    })
+
+    it("should ignore an unknown sender", async () => {
+      await rememberFolder(null, "folder-1")
+
+      expect(storedDestinations()).toBeUndefined()
+      expect(await getLastFolderId(null)).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,109 @@
+/**
+ * Save destination
+ * Where a capture lands in the Flow library: a folder, tags and a note,
+ * picked in the Save to Flow dialog and sent with finalize-docsend-capture.
+ * The folder picked last is remembered per sender domain, so the next
+ * document from the same sender is offered the same folder.
+ */
+
+import { storage } from "./storage"
+import { createWriteQueue } from "./write-queue"
+
+export const SAVE_DESTINATIONS_KEY = "saveDestinations"
+
+// Tags beyond this many are dropped
+export const MAX_TAGS = 20
+
+export interface FlowFolder {
+  id: string
+  name: string
+  // Parent folders, e.g. "Deals / 2026", for telling nested folders apart
+  path?: string
+}
+
+export interface SaveDestination {
+  // Library root when missing
+  folderId?: string
+  tags?: string[]
+  note?: string
+}
+
+// Folder picked last, by sender domain
+export type SaveDestinations = Record<
+  string,
+  { folderId: string; updatedAt: string }
+>
+
+/**
+ * Key the last-used folder is remembered under: the document's host, plus
+ * the sender's name on hosts every sender shares (docsend.com/view/...)
+ */
+export function getSenderDomain(url: string, sender?: string): string | null {
+  let hostname: string
+  try {
+    hostname = new URL(url).hostname.replace(/^www\./, "")
+  } catch {
+    return null
+  }
+  const isSharedHost = hostname.split(".").length <= 2
+  return isSharedHost && sender
+    ? `${hostname}/${sender.trim().toLowerCase()}`
+    : hostname
+}
+
+/**
+ * Tags from comma-separated input, trimmed and without duplicates
+ */
+export function parseTags(input: string): string[] {
+  const tags = new Map<string, string>()
+  for (const tag of input.split(",")) {
+    const trimmed = tag.trim()
+    if (trimmed && !tags.has(trimmed.toLowerCase())) {
+      tags.set(trimmed.toLowerCase(), trimmed)
+    }
+  }
+  return [...tags.values()].slice(0, MAX_TAGS)
+}
+
+export async function getLastFolderId(
+  senderDomain: string | null
+): Promise<string | undefined> {
+  if (!senderDomain) {
+    return undefined
+  }
+  const destinations = await storage.get<SaveDestinations>(
+    SAVE_DESTINATIONS_KEY
+  )
+  return destinations?.[senderDomain]?.folderId
+}
+
+// Writes are chained so two uploads finishing together keep both folders
+const enqueueWrite = createWriteQueue()
+
+/**
+ * Remember `folderId` for the sender; no folder forgets it, so the library
+ * root is offered next time
+ */
+export function rememberFolder(
+  senderDomain: string | null,
+  folderId: string | undefined
+): Promise<void> {
+  if (!senderDomain) {
+    return Promise.resolve()
+  }
+  return enqueueWrite(async () => {
+    const destinations =
+      (await storage.get<SaveDestinations>(SAVE_DESTINATIONS_KEY)) ?? {}
+    if (folderId) {
+      destinations[senderDomain] = {
+        folderId,
+        updatedAt: new Date().toISOString()
+      }
+    } else {
+      delete destinations[senderDomain]
+    }
+    await storage.set(SAVE_DESTINATIONS_KEY, destinations)
+  }).catch((error) => {
+    console.warn("[SaveDestination] Failed to remember folder:", error)
+  })
+}
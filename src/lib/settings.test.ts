@@ -0,0 +1,158 @@
+import { describe, expect, it, vi } from "vitest"
+
+import {
+  getChromeStorageData,
+  setChromeStorageData
+} from "../test/mocks/chrome"
+import { DEFAULT_IMAGE_ENCODING } from "./image-encoding"
+import {
+  DEFAULT_SETTINGS,
+  getSettings,
+  getWebAppUrl,
+  migrateStoredSettings,
+  normalizeSettings,
+  SETTINGS_KEY,
+  SETTINGS_VERSION,
+  updateSettings
+} from "./settings"
+
+vi.mock("./storage", () => ({
+  storage: {
+    set: vi.fn(async (key: string, value: unknown) => {
+      await chrome.storage.local.set({ [key]: value })
+    }),
+    get: vi.fn(async (key: string) => {
+      return new Promise((resolve) => {
+        chrome.storage.local.get([key], (result) => {
+          resolve(result[key])
+        })
+      })
+    }),
+    remove: vi.fn(async (key: string) => {
+      await chrome.storage.local.remove(key)
+    })
+  }
+}))
+
+describe("settings", () => {
+  describe("normalizeSettings", () => {
+    it("should use the defaults when nothing is saved", () => {
+      expect(normalizeSettings(undefined)).toEqual(DEFAULT_SETTINGS)
+    })
+
+    it("should fall back to the defaults for unknown formats", () => {
+      expect(
+        normalizeSettings({ imageEncoding: { format: "gif" } }).imageEncoding
+      ).toEqual(DEFAULT_IMAGE_ENCODING)
+    })
+
+    it("should fill in missing fields from the defaults", () => {
+      expect(
+        normalizeSettings({ imageEncoding: { format: "webp" } }).imageEncoding
+      ).toEqual({ format: "webp", quality: DEFAULT_IMAGE_ENCODING.quality })
+    })
+
+    it("should clamp numbers to their limits", () => {
+      const settings = normalizeSettings({
+        uploadConcurrency: 50,
+        maxPages: 0,
+        pageChangeTimeoutMs: 2500.4,
+        slideRenderTimeoutMs: "slow"
+      })
+
+      expect(settings).toMatchObject({
+        uploadConcurrency: 8,
+        maxPages: 1,
+        pageChangeTimeoutMs: 2500,
+        slideRenderTimeoutMs: DEFAULT_SETTINGS.slideRenderTimeoutMs
+      })
+    })
+
+    it("should keep only http(s) frontend URLs, without a trailing slash", () => {
+      expect(
+        normalizeSettings({ frontendUrl: " https://flow.example.com/ " })
+          .frontendUrl
+      ).toBe("https://flow.example.com")
+      expect(
+        normalizeSettings({ frontendUrl: "javascript:alert(1)" }).frontendUrl
+      ).toBe("")
+      expect(normalizeSettings({ frontendUrl: "not a url" }).frontendUrl).toBe(
+        ""
+      )
+    })
+  })
+
+  describe("getSettings", () => {
+    it("should read settings saved under their old keys", async () => {
+      setChromeStorageData({
+        imageEncoding: { format: "jpeg", quality: 0.7 },
+        captureBackend: "tab"
+      })
+
+      expect(await getSettings()).toMatchObject({
+        imageEncoding: { format: "jpeg", quality: 0.7 },
+        captureBackend: "tab"
+      })
+      // Reading doesn't migrate anything in storage
+      expect(getChromeStorageData()[SETTINGS_KEY]).toBeUndefined()
+    })
+  })
+
+  describe("updateSettings", () => {
+    it("should keep both of two changes saved in a row", async () => {
+      await Promise.all([
+        updateSettings({ maxPages: 100 }),
+        updateSettings({ notifications: false })
+      ])
+
+      expect(getChromeStorageData()[SETTINGS_KEY]).toMatchObject({
+        version: SETTINGS_VERSION,
+        maxPages: 100,
+        notifications: false
+      })
+    })
+  })
+
+  describe("migrateStoredSettings", () => {
+    it("should move settings off their old keys", async () => {
+      setChromeStorageData({
+        imageEncoding: { format: "webp", quality: 0.8 },
+        captureBackend: "cdp"
+      })
+
+      await migrateStoredSettings()
+
+      const data = getChromeStorageData()
+      expect(data[SETTINGS_KEY]).toMatchObject({
+        version: SETTINGS_VERSION,
+        imageEncoding: { format: "webp", quality: 0.8 },
+        captureBackend: "cdp"
+      })
+      expect(data.imageEncoding).toBeUndefined()
+      expect(data.captureBackend).toBeUndefined()
+    })
+
+    it("should leave current settings alone", async () => {
+      const settings = { ...DEFAULT_SETTINGS, maxPages: 42 }
+      setChromeStorageData({ [SETTINGS_KEY]: settings })
+
+      await migrateStoredSettings()
+
+      expect(getChromeStorageData()[SETTINGS_KEY]).toEqual(settings)
+    })
+  })
+
+  describe("getWebAppUrl", () => {
+    it("should use the saved frontend URL over the build's", async () => {
+      expect(await getWebAppUrl("/dashboard")).toBe(
+        "http://localhost:3000/dashboard"
+      )
+
+      await updateSettings({ frontendUrl: "https://flow.example.com" })
+
+      expect(await getWebAppUrl("/dashboard")).toBe(
+        "https://flow.example.com/dashboard"
+      )
+    })
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * Extension settings
+ * Every user-adjustable knob lives in one versioned object under
+ * SETTINGS_KEY. Settings saved by an older version are upgraded by the
+ * migrations below when they're read, and written back in their current
+ * shape once the extension is installed or updated. Content scripts watch
+ * the key, so a change applies to a capture that's already running.
+ */
+
+import {
+  CAPTURE_BACKENDS,
+  DEFAULT_CAPTURE_BACKEND,
+  type CaptureBackendPreference
+} from "./capture-backend"
+import {
+  DEFAULT_IMAGE_ENCODING,
+  IMAGE_FORMATS,
+  type ImageEncodingSettings
+} from "./image-encoding"
+import { storage } from "./storage"
+import { createWriteQueue } from "./write-queue"
+
+export const SETTINGS_KEY = "settings"
+
+// Where version 0 kept the image format and screenshot method
+const LEGACY_IMAGE_ENCODING_KEY = "imageEncoding"
+const LEGACY_CAPTURE_BACKEND_KEY = "captureBackend"
+
+export interface Settings {
+  version: number
+  imageEncoding: ImageEncodingSettings
+  captureBackend: CaptureBackendPreference
+  // Pages uploaded to R2 at the same time
+  uploadConcurrency: number
+  // A capture stops once it has this many pages
+  maxPages: number
+  // How long a viewer gets to turn the page, and the new slide to paint
+  pageChangeTimeoutMs: number
+  slideRenderTimeoutMs: number
+  // Desktop notifications when an upload finishes or fails
+  notifications: boolean
+  // Flow web app to upload to; empty uses the one the build points at
+  frontendUrl: string
+}
+
+type SavedSettings = Partial<Record<keyof Settings, unknown>>
+
+// Each step upgrades settings saved by the version before it
+const MIGRATIONS: ((saved: SavedSettings) => Promise<SavedSettings>)[] = [
+  // 0 → 1: the image format and screenshot method had keys of their own
+  async (saved) => ({
+    ...saved,
+    imageEncoding:
+      saved.imageEncoding ?? (await storage.get(LEGACY_IMAGE_ENCODING_KEY)),
+    captureBackend:
+      saved.captureBackend ?? (await storage.get(LEGACY_CAPTURE_BACKEND_KEY))
+  })
+]
+
+export const SETTINGS_VERSION = MIGRATIONS.length
+
+export const DEFAULT_SETTINGS: Settings = {
+  version: SETTINGS_VERSION,
+  imageEncoding: DEFAULT_IMAGE_ENCODING,
+  captureBackend: DEFAULT_CAPTURE_BACKEND,
+  uploadConcurrency: 4,
+  maxPages: 500,
+  pageChangeTimeoutMs: 3000,
+  slideRenderTimeoutMs: 15000,
+  notifications: true,
+  frontendUrl: ""
+}
+
+type NumericSetting =
+  | "uploadConcurrency"
+  | "maxPages"
+  | "pageChangeTimeoutMs"
+  | "slideRenderTimeoutMs"
+
+export const SETTING_LIMITS: Record<
+  NumericSetting,
+  { min: number; max: number }
+> = {
+  uploadConcurrency: { min: 1, max: 8 },
+  maxPages: { min: 1, max: 2000 },
+  pageChangeTimeoutMs: { min: 1000, max: 15000 },
+  slideRenderTimeoutMs: { min: 3000, max: 60000 }
+}
+
+function normalizeNumber(value: unknown, setting: NumericSetting): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return DEFAULT_SETTINGS[setting]
+  }
+  const { min, max } = SETTING_LIMITS[setting]
+  return Math.min(Math.max(Math.round(value), min), max)
+}
+
+function normalizeImageEncoding(value: unknown): ImageEncodingSettings {
+  const encoding = {
+    ...DEFAULT_IMAGE_ENCODING,
+    ...(typeof value === "object" ? value : undefined)
+  }
+  return encoding.format in IMAGE_FORMATS ? encoding : DEFAULT_IMAGE_ENCODING
+}
+
+// Empty, or an http(s) origin without a trailing slash
+function normalizeFrontendUrl(value: unknown): string {
+  if (typeof value !== "string" || !value.trim()) {
+    return ""
+  }
+  try {
+    const url = new URL(value.trim())
+    return ["http:", "https:"].includes(url.protocol)
+      ? `${url.origin}${url.pathname}`.replace(/\/+$/, "")
+      : ""
+  } catch {
+    return ""
+  }
+}
+
+/**
+ * Settings with every missing or invalid field set to its default and
+ * numbers clamped to SETTING_LIMITS
+ */
+export function normalizeSettings(saved: SavedSettings | undefined): Settings {
+  return {
+    version: SETTINGS_VERSION,
+    imageEncoding: normalizeImageEncoding(saved?.imageEncoding),
+    captureBackend:
+      typeof saved?.captureBackend === "string" &&
+      saved.captureBackend in CAPTURE_BACKENDS
+        ? (saved.captureBackend as CaptureBackendPreference)
+        : DEFAULT_SETTINGS.captureBackend,
+    uploadConcurrency: normalizeNumber(
+      saved?.uploadConcurrency,
+      "uploadConcurrency"
+    ),
+    maxPages: normalizeNumber(saved?.maxPages, "maxPages"),
+    pageChangeTimeoutMs: normalizeNumber(
+      saved?.pageChangeTimeoutMs,
+      "pageChangeTimeoutMs"
+    ),
+    slideRenderTimeoutMs: normalizeNumber(
+      saved?.slideRenderTimeoutMs,
+      "slideRenderTimeoutMs"
+    ),
+    notifications:
+      typeof saved?.notifications === "boolean"
+        ? saved.notifications
+        : DEFAULT_SETTINGS.notifications,
+    frontendUrl: normalizeFrontendUrl(saved?.frontendUrl)
+  }
+}
+
+async function migrateSettings(saved: SavedSettings): Promise<SavedSettings> {
+  const version = typeof saved.version === "number" ? saved.version : 0
+  let migrated = saved
+  for (const migrate of MIGRATIONS.slice(version)) {
+    migrated = await migrate(migrated)
+  }
+  return migrated
+}
+
+export async function getSettings(): Promise<Settings> {
+  const saved = (await storage.get<SavedSettings>(SETTINGS_KEY)) ?? {}
+  return normalizeSettings(await migrateSettings(saved))
+}
+
+// Writes are chained so saving two settings in a row keeps both
+const enqueueWrite = createWriteQueue()
+
+/**
+ * Save `changes` over the current settings. Resolves the settings saved.
+ */
+export function updateSettings(changes: Partial<Settings>): Promise<Settings> {
+  return enqueueWrite(async () => {
+    const settings = normalizeSettings({ ...(await getSettings()), ...changes })
+    await storage.set(SETTINGS_KEY, settings)
+    return settings
+  })
+}
+
+/**
+ * Write settings saved by an older version back in the current shape and
+ * drop the keys they used to live under. Run on install and update.
+ */
+export async function migrateStoredSettings(): Promise<void> {
+  const saved = await storage.get<SavedSettings>(SETTINGS_KEY)
+  if (saved?.version === SETTINGS_VERSION) {
+    return
+  }
+  const settings = await updateSettings({})
+  console.log(`[Settings] Migrated settings to version ${settings.version}`)
+
+  for (const key of [LEGACY_IMAGE_ENCODING_KEY, LEGACY_CAPTURE_BACKEND_KEY]) {
+    if ((await storage.get(key)) !== undefined) {
+      await storage.remove(key)
+    }
+  }
+}
+
+/**
+ * Call `callback` with the new settings whenever they're saved. Returns a
+ * function that stops watching.
+ */
+export function watchSettings(
+  callback: (settings: Settings) => void
+): () => void {
+  const callbacks = {
+    [SETTINGS_KEY]: (change: { newValue?: SavedSettings }) =>
+      callback(normalizeSettings(change.newValue))
+  }
+  storage.watch(callbacks)
+  return () => {
+    storage.unwatch(callbacks)
+  }
+}
+
+/**
+ * URL of `path` on the Flow web app
+ */
+export async function getWebAppUrl(path: string = ""): Promise<string> {
+  const { frontendUrl } = await getSettings()
+  return `${frontendUrl || getDefaultFrontendUrl()}${path}`
+}
+
+export function getDefaultFrontendUrl(): string {
+  return process.env.PLASMO_PUBLIC_FRONTEND_URL || "http://localhost:3000"
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest"
+
+import { getSlideClip } from "./slide-bounds"
+
+function createWindow(overrides: Partial<Window> = {}) {
+  return {
+    innerWidth: 1280,
+    innerHeight: 800,
+    devicePixelRatio: 1,
+    scrollX: 0,
+    scrollY: 0,
+    ...overrides
+  } as Window
+}
+
+function withBounds<T extends Element>(
+  element: T,
+  { left, top, width, height }: Record<string, number>
+): T {
+  element.getBoundingClientRect = () =>
+    ({ left, top, width, height }) as DOMRect
+  return element
+}
+
+describe("slide-bounds", () => {
+  describe("getSlideClip", () => {
+    it("should clip to the slide element", () => {
+      const slide = withBounds(document.createElement("div"), {
+        left: 140,
+        top: 60,
+        width: 1000,
+        height: 562.5
+      })
+
+      expect(getSlideClip(slide, createWindow())).toEqual({
+        x: 140,
+        y: 60,
+        width: 1000,
+        height: 563,
+        devicePixelRatio: 1,
+        scrollX: 0,
+        scrollY: 0
+      })
+    })
+
+    it("should snap to device pixels and offset by the page scroll", () => {
+      const slide = withBounds(document.createElement("div"), {
+        left: 10.3,
+        top: 20.6,
+        width: 500,
+        height: 300
+      })
+
+      expect(
+        getSlideClip(
+          slide,
+          createWindow({ devicePixelRatio: 2, scrollX: 0, scrollY: 400 })
+        )
+      ).toEqual({
+        x: 10,
+        y: 420.5,
+        width: 500.5,
+        height: 300.5,
+        devicePixelRatio: 2,
+        scrollX: 0,
+        scrollY: 400
+      })
+    })
+
+    it("should leave out letterboxing around contained images", () => {
+      const img = withBounds(document.createElement("img"), {
+        left: 0,
+        top: 0,
+        width: 1200,
+        height: 800
+      })
+      Object.defineProperty(img, "naturalWidth", { value: 1920 })
+      Object.defineProperty(img, "naturalHeight", { value: 1080 })
+
+      expect(getSlideClip(img, createWindow())).toEqual({
+        x: 0,
+        y: 62,
+        width: 1200,
+        height: 676,
+        devicePixelRatio: 1,
+        scrollX: 0,
+        scrollY: 0
+      })
+    })
+
+    it("should keep only the part inside the viewport", () => {
+      const slide = withBounds(document.createElement("div"), {
+        left: -50,
+        top: 700,
+        width: 600,
+        height: 400
+      })
+
+      expect(getSlideClip(slide, createWindow())).toEqual({
+        x: 0,
+        y: 700,
+        width: 550,
+        height: 100,
+        devicePixelRatio: 1,
+        scrollX: 0,
+        scrollY: 0
+      })
+    })
+
+    it("should return null when the slide can't be used", () => {
+      const hidden = withBounds(document.createElement("div"), {
+        left: 0,
+        top: 0,
+        width: 0,
+        height: 0
+      })
+      const offscreen = withBounds(document.createElement("div"), {
+        left: 0,
+        top: 900,
+        width: 800,
+        height: 450
+      })
+
+      expect(getSlideClip(null, createWindow())).toBeNull()
+      expect(getSlideClip(hidden, createWindow())).toBeNull()
+      expect(getSlideClip(offscreen, createWindow())).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * Slide bounds for cropped captures
+ * Works out where the slide sits on screen so the screenshot can be clipped
+ * to it, leaving out viewer toolbars, margins and cookie banners.
+ */
+
+// "slide" pages were clipped to the slide, "viewport" pages are full
+// viewport screenshots taken when the slide couldn't be located, and
+// "image" pages are the viewer's own page image copied without a screenshot
+export type CaptureMode = "slide" | "viewport" | "image"
+
+/**
+ * Clip rectangle for Page.captureScreenshot, in CSS pixels relative to the
+ * document (the DevTools protocol offsets clips by the page scroll)
+ */
+export interface CaptureClip {
+  x: number
+  y: number
+  width: number
+  height: number
+  // Device pixels per CSS pixel when the bounds were measured
+  devicePixelRatio: number
+  // Page scroll included in x and y, for backends that capture only the
+  // viewport
+  scrollX: number
+  scrollY: number
+}
+
+// Anything smaller is a placeholder or a mis-detected element
+const MIN_SLIDE_SIZE_PX = 100
+
+interface Rect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+// Images scaled with object-fit: contain are letterboxed inside their box;
+// keep only the area the picture covers
+function getRenderedImageRect(img: HTMLImageElement, box: Rect): Rect {
+  const { naturalWidth, naturalHeight } = img
+  if (!naturalWidth || !naturalHeight || !box.width || !box.height) {
+    return box
+  }
+
+  const scale = Math.min(box.width / naturalWidth, box.height / naturalHeight)
+  const width = naturalWidth * scale
+  const height = naturalHeight * scale
+  return {
+    left: box.left + (box.width - width) / 2,
+    top: box.top + (box.height - height) / 2,
+    width,
+    height
+  }
+}
+
+/**
+ * Clip for the visible part of a slide element, or null when it isn't
+ * usable (missing, hidden, scrolled away or too small)
+ */
+export function getSlideClip(
+  element: Element | null,
+  win: Window = window
+): CaptureClip | null {
+  if (!element) {
+    return null
+  }
+
+  const box = element.getBoundingClientRect()
+  const rect =
+    element instanceof HTMLImageElement
+      ? getRenderedImageRect(element, box)
+      : box
+
+  // Only the part inside the viewport is on screen to capture
+  const left = Math.max(rect.left, 0)
+  const top = Math.max(rect.top, 0)
+  const right = Math.min(rect.left + rect.width, win.innerWidth)
+  const bottom = Math.min(rect.top + rect.height, win.innerHeight)
+
+  if (right - left < MIN_SLIDE_SIZE_PX || bottom - top < MIN_SLIDE_SIZE_PX) {
+    return null
+  }
+
+  // Snap to whole device pixels so the crop has no blurred edge
+  const dpr = win.devicePixelRatio || 1
+  const snapDown = (value: number) => Math.floor(value * dpr) / dpr
+  const snapUp = (value: number) => Math.ceil(value * dpr) / dpr
+  const x = snapDown(left)
+  const y = snapDown(top)
+
+  return {
+    x: x + win.scrollX,
+    y: y + win.scrollY,
+    width: snapUp(right) - x,
+    height: snapUp(bottom) - y,
+    devicePixelRatio: dpr,
+    scrollX: win.scrollX,
+    scrollY: win.scrollY
+  }
+}
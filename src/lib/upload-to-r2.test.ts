@@ -1,7 +1,15 @@
 import { beforeEach, describe, expect, it, vi } from "vitest"
 
-import { createMockDataUrl, mockFetchResponse } from "../test/utils"
-import { uploadScreenshots } from "./upload-to-r2"
+import {
+  getChromeStorageData,
+  setChromeStorageData
+} from "../test/mocks/chrome"
+import { createMockImageBlob, mockFetchResponse } from "../test/utils"
+import {
+  abortAbandonedUploads,
+  abortMultipartSessions,
+  uploadScreenshots
+} from "./upload-to-r2"
 
 // Mock environment
 const mockWebAppUrl = "http://localhost:3000"
@@ -17,6 +25,75 @@ vi.mock("./clerk-auth", () => ({
   getAuthHeaders: mockGetAuthHeaders
 }))
 
+vi.mock("./storage", () => ({
+  storage: {
+    set: vi.fn(async (key: string, value: unknown) => {
+      await chrome.storage.local.set({ [key]: value })
+    }),
+    get: vi.fn(async (key: string) => {
+      return new Promise((resolve) => {
+        chrome.storage.local.get([key], (result) => {
+          resolve(result[key])
+        })
+      })
+    })
+  }
+}))
+
+// Two-part layout for the small mock screenshot
+const PART_SIZE = 40
+
+function mockTwoPartUpload({ failPart }: { failPart?: number } = {}) {
+  ;(global.fetch as ReturnType<typeof vi.fn>).mockImplementation(
+    (url: string, init?: RequestInit) => {
+      if (url.includes("/api/upload/create")) {
+        return Promise.resolve(
+          mockFetchResponse({
+            uploadId: "upload-1",
+            key: "key-1",
+            partSize: PART_SIZE,
+            totalParts: 2
+          })
+        )
+      }
+      if (url.includes("/api/upload/sign")) {
+        const partNumber = new URL(url).searchParams.get("partNumber")
+        return Promise.resolve(
+          mockFetchResponse({
+            url: `https://r2.cloudflare.com/part-${partNumber}`
+          })
+        )
+      }
+      if (url.includes("r2.cloudflare.com")) {
+        const partNumber = Number(url.split("part-")[1])
+        if (partNumber === failPart) {
+          return Promise.resolve({
+            ok: false,
+            statusText: "Server Error"
+          } as Response)
+        }
+        return Promise.resolve({
+          ok: true,
+          headers: new Headers({ ETag: `"etag-${partNumber}"` })
+        } as Response)
+      }
+      if (url.includes("/api/upload/complete")) {
+        return Promise.resolve(mockFetchResponse({ success: true }))
+      }
+      if (url.includes("/api/upload/abort") && init?.method === "DELETE") {
+        return Promise.resolve(mockFetchResponse({ success: true }))
+      }
+      return Promise.reject(new Error("Unknown URL"))
+    }
+  )
+}
+
+function fetchCallsTo(fragment: string) {
+  return (global.fetch as ReturnType<typeof vi.fn>).mock.calls.filter(([url]) =>
+    String(url).includes(fragment)
+  )
+}
+
 describe("upload-to-r2", () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -27,10 +104,10 @@ describe("upload-to-r2", () => {
   describe("uploadScreenshots", () => {
     it("should upload multiple screenshots in parallel", async () => {
       const screenshots = [
-        createMockDataUrl(),
-        createMockDataUrl(),
-        createMockDataUrl(),
-        createMockDataUrl()
+        createMockImageBlob(),
+        createMockImageBlob(),
+        createMockImageBlob(),
+        createMockImageBlob()
       ]
 
       // Mock the API responses
@@ -77,6 +154,13 @@ describe("upload-to-r2", () => {
       expect(results[2].filename).toBe("page_3.png")
       expect(results[3].filename).toBe("page_4.png")
 
+      // Verify the mime type sent when creating each upload
+      const [[, createInit]] = fetchCallsTo("/api/upload/create")
+      expect(JSON.parse(createInit.body)).toMatchObject({
+        filename: "page_1.png",
+        mime: "image/png"
+      })
+
       // Verify progress was reported
       expect(onProgress).toHaveBeenCalled()
       const lastProgress =
@@ -86,10 +170,34 @@ describe("upload-to-r2", () => {
       expect(lastProgress.totalFiles).toBe(4)
     })
 
+    it("should send the mime type and extension of encoded images", async () => {
+      mockTwoPartUpload()
+      const screenshots = [
+        new Blob(["webp-page"], { type: "image/webp" }),
+        new Blob(["jpeg-page"], { type: "image/jpeg" })
+      ]
+
+      const results = await uploadScreenshots(screenshots, undefined, 4)
+
+      expect(results.map((result) => result.filename)).toEqual([
+        "page_1.webp",
+        "page_2.jpg"
+      ])
+      const createBodies = fetchCallsTo("/api/upload/create").map(([, init]) =>
+        JSON.parse(init.body)
+      )
+      expect(createBodies).toEqual(
+        expect.arrayContaining([
+          { filename: "page_1.webp", mime: "image/webp", size: 9 },
+          { filename: "page_2.jpg", mime: "image/jpeg", size: 9 }
+        ])
+      )
+    })
+
     it("should respect concurrency limit", async () => {
       const screenshots = Array(10)
         .fill(null)
-        .map(() => createMockDataUrl())
+        .map(() => createMockImageBlob())
       let concurrentRequests = 0
       let maxConcurrent = 0
 
@@ -136,7 +244,7 @@ describe("upload-to-r2", () => {
     it("should maintain file ordering", async () => {
       const screenshots = Array(17)
         .fill(null)
-        .map(() => createMockDataUrl())
+        .map(() => createMockImageBlob())
 
       ;(global.fetch as ReturnType<typeof vi.fn>).mockImplementation(
         (url: string) => {
@@ -179,7 +287,7 @@ describe("upload-to-r2", () => {
     })
 
     it("should retry failed uploads", async () => {
-      const screenshots = [createMockDataUrl()]
+      const screenshots = [createMockImageBlob()]
       let attemptCount = 0
 
       ;(global.fetch as ReturnType<typeof vi.fn>).mockImplementation(
@@ -229,8 +337,8 @@ describe("upload-to-r2", () => {
       expect(attemptCount).toBeGreaterThanOrEqual(3)
     })
 
-    it("should throw error after max retries", async () => {
-      const screenshots = [createMockDataUrl()]
+    it("should report a failed page after max retries", async () => {
+      const screenshots = [createMockImageBlob()]
 
       ;(global.fetch as ReturnType<typeof vi.fn>).mockImplementation(
         (url: string) => {
@@ -262,16 +370,22 @@ describe("upload-to-r2", () => {
         }
       )
 
-      await expect(
-        uploadScreenshots(screenshots, undefined, 4)
-      ).rejects.toThrow()
+      const results = await uploadScreenshots(screenshots, undefined, 4)
+
+      expect(results).toEqual([
+        {
+          status: "failed",
+          filename: "page_1.png",
+          error: "Failed to upload part 1: Server Error"
+        }
+      ])
     })
 
     it("should report accurate progress", async () => {
       const screenshots = [
-        createMockDataUrl(),
-        createMockDataUrl(),
-        createMockDataUrl()
+        createMockImageBlob(),
+        createMockImageBlob(),
+        createMockImageBlob()
       ]
       const progressUpdates: any[] = []
 
@@ -334,47 +448,323 @@ describe("upload-to-r2", () => {
       expect(results).toEqual([])
     })
 
-    it("should abort remaining uploads on failure", async () => {
+    it("should keep uploading other pages when one fails", async () => {
       const screenshots = [
-        createMockDataUrl(),
-        createMockDataUrl(),
-        createMockDataUrl(),
-        createMockDataUrl()
+        createMockImageBlob(),
+        createMockImageBlob(),
+        createMockImageBlob(),
+        createMockImageBlob()
       ]
 
       ;(global.fetch as ReturnType<typeof vi.fn>).mockImplementation(
-        (url: string) => {
+        (url: string, init?: RequestInit) => {
           if (url.includes("/api/upload/create")) {
+            const { filename } = JSON.parse(init?.body as string)
             return Promise.resolve(
               mockFetchResponse({
                 uploadId: "test-upload-id",
-                key: "test-key",
+                key: `key-${filename}`,
                 partSize: 5242880,
                 totalParts: 1
               })
             )
           }
           if (url.includes("/api/upload/sign")) {
+            const key = new URL(url).searchParams.get("key")
             return Promise.resolve(
               mockFetchResponse({
-                url: "https://r2.cloudflare.com/presigned-url"
+                url: `https://r2.cloudflare.com/${key}`
               })
             )
           }
           if (url.includes("r2.cloudflare.com")) {
-            // Fail all uploads after max retries
+            // Every attempt at page 3 fails
+            if (url.endsWith("page_3.png")) {
+              return Promise.resolve({
+                ok: false,
+                statusText: "Server Error"
+              } as Response)
+            }
             return Promise.resolve({
-              ok: false,
-              statusText: "Server Error"
+              ok: true,
+              headers: new Headers({ ETag: '"test-etag"' })
             } as Response)
           }
+          if (url.includes("/api/upload/complete")) {
+            return Promise.resolve(mockFetchResponse({ success: true }))
+          }
           return Promise.reject(new Error("Unknown URL"))
         }
       )
 
+      const results = await uploadScreenshots(screenshots, undefined, 4)
+
+      expect(results).toEqual([
+        { status: "uploaded", key: "key-page_1.png", filename: "page_1.png" },
+        { status: "uploaded", key: "key-page_2.png", filename: "page_2.png" },
+        {
+          status: "failed",
+          filename: "page_3.png",
+          error: "Failed to upload part 1: Server Error"
+        },
+        { status: "uploaded", key: "key-page_4.png", filename: "page_4.png" }
+      ])
+    })
+  })
+
+  describe("multipart session persistence", () => {
+    it("should keep completed parts when a part fails", async () => {
+      mockTwoPartUpload({ failPart: 2 })
+
+      const [result] = await uploadScreenshots(
+        [createMockImageBlob()],
+        undefined,
+        4,
+        { sessionIds: ["capture-1:1"] }
+      )
+
+      expect(result.status).toBe("failed")
+
+      expect(getChromeStorageData().multipartSessions).toMatchObject({
+        "capture-1:1": {
+          uploadId: "upload-1",
+          key: "key-1",
+          totalParts: 2,
+          completedParts: [{ PartNumber: 1, ETag: "etag-1" }]
+        }
+      })
+    })
+
+    it("should only upload missing parts when resuming a session", async () => {
+      const now = new Date().toISOString()
+      setChromeStorageData({
+        multipartSessions: {
+          "capture-1:1": {
+            uploadId: "upload-1",
+            key: "key-1",
+            partSize: PART_SIZE,
+            totalParts: 2,
+            completedParts: [{ PartNumber: 1, ETag: "etag-1" }],
+            createdAt: now,
+            updatedAt: now
+          }
+        }
+      })
+      mockTwoPartUpload()
+
+      const results = await uploadScreenshots(
+        [createMockImageBlob()],
+        undefined,
+        4,
+        { sessionIds: ["capture-1:1"] }
+      )
+
+      expect(results).toEqual([
+        { status: "uploaded", key: "key-1", filename: "page_1.png" }
+      ])
+      expect(fetchCallsTo("/api/upload/create")).toHaveLength(0)
+      expect(fetchCallsTo("r2.cloudflare.com").map(([url]) => url)).toEqual([
+        "https://r2.cloudflare.com/part-2"
+      ])
+
+      const [[, completeInit]] = fetchCallsTo("/api/upload/complete")
+      expect(JSON.parse(completeInit.body)).toEqual({
+        key: "key-1",
+        uploadId: "upload-1",
+        parts: [
+          { PartNumber: 1, ETag: "etag-1" },
+          { PartNumber: 2, ETag: "etag-2" }
+        ]
+      })
+
+      // Completed sessions are forgotten
+      expect(getChromeStorageData().multipartSessions).toEqual({})
+    })
+
+    it("should start a new upload when a resumed session is rejected", async () => {
+      const now = new Date().toISOString()
+      setChromeStorageData({
+        multipartSessions: {
+          "capture-1:1": {
+            uploadId: "upload-expired",
+            key: "key-expired",
+            partSize: PART_SIZE,
+            totalParts: 2,
+            completedParts: [{ PartNumber: 1, ETag: "etag-1" }],
+            createdAt: now,
+            updatedAt: now
+          }
+        }
+      })
+      mockTwoPartUpload()
+      const fetchMock = global.fetch as ReturnType<typeof vi.fn>
+      const respond = fetchMock.getMockImplementation()!
+      // R2 no longer knows the saved upload
+      fetchMock.mockImplementation((url: string, init?: RequestInit) => {
+        if (url.includes("uploadId=upload-expired")) {
+          return Promise.resolve(mockFetchResponse({}, false, 404))
+        }
+        return respond(url, init)
+      })
+
+      const results = await uploadScreenshots(
+        [createMockImageBlob()],
+        undefined,
+        4,
+        { sessionIds: ["capture-1:1"] }
+      )
+
+      expect(results).toEqual([
+        { status: "uploaded", key: "key-1", filename: "page_1.png" }
+      ])
+      expect(fetchCallsTo("/api/upload/create")).toHaveLength(1)
+      const [[, completeInit]] = fetchCallsTo("/api/upload/complete")
+      expect(JSON.parse(completeInit.body)).toMatchObject({
+        key: "key-1",
+        uploadId: "upload-1"
+      })
+      expect(getChromeStorageData().multipartSessions).toEqual({})
+    })
+
+    it("should abort sessions abandoned for longer than the TTL", async () => {
+      const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+      const now = new Date().toISOString()
+      const session = {
+        partSize: PART_SIZE,
+        totalParts: 2,
+        completedParts: []
+      }
+      setChromeStorageData({
+        multipartSessions: {
+          stale: {
+            ...session,
+            uploadId: "upload-stale",
+            key: "key-stale",
+            createdAt: hourAgo,
+            updatedAt: hourAgo
+          },
+          queued: {
+            ...session,
+            uploadId: "upload-queued",
+            key: "key-queued",
+            createdAt: hourAgo,
+            updatedAt: hourAgo
+          },
+          fresh: {
+            ...session,
+            uploadId: "upload-fresh",
+            key: "key-fresh",
+            createdAt: now,
+            updatedAt: now
+          }
+        }
+      })
+      mockTwoPartUpload()
+
+      const aborted = await abortAbandonedUploads(30 * 60 * 1000, ["queued"])
+
+      expect(aborted).toBe(1)
+      const abortCalls = fetchCallsTo("/api/upload/abort")
+      expect(abortCalls).toHaveLength(1)
+      expect(JSON.parse(abortCalls[0][1].body)).toEqual({
+        key: "key-stale",
+        uploadId: "upload-stale"
+      })
+      expect(
+        Object.keys(getChromeStorageData().multipartSessions as object)
+      ).toEqual(["queued", "fresh"])
+    })
+    it("should keep sessions the server failed to abort", async () => {
+      const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+      setChromeStorageData({
+        multipartSessions: {
+          stale: {
+            uploadId: "upload-stale",
+            key: "key-stale",
+            partSize: PART_SIZE,
+            totalParts: 2,
+            completedParts: [],
+            createdAt: hourAgo,
+            updatedAt: hourAgo
+          }
+        }
+      })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue(
+        mockFetchResponse({ error: "Unauthorized" }, false, 401)
+      )
+
+      const aborted = await abortAbandonedUploads(30 * 60 * 1000)
+
+      expect(aborted).toBe(0)
+      expect(getChromeStorageData().multipartSessions).toHaveProperty("stale")
+    })
+  })
+
+  describe("cancellation", () => {
+    it("should stop in-flight requests and keep the session to abort", async () => {
+      mockTwoPartUpload()
+      const controller = new AbortController()
+      const fetchMock = global.fetch as ReturnType<typeof vi.fn>
+      const respond = fetchMock.getMockImplementation()!
+      // Cancel while part 2 is being uploaded
+      fetchMock.mockImplementation((url: string, init?: RequestInit) => {
+        if (url.endsWith("part-2")) {
+          controller.abort()
+          return Promise.reject(new DOMException("Aborted", "AbortError"))
+        }
+        return respond(url, init)
+      })
+
       await expect(
-        uploadScreenshots(screenshots, undefined, 4)
-      ).rejects.toThrow()
+        uploadScreenshots([createMockImageBlob()], undefined, 4, {
+          sessionIds: ["capture-1:1"],
+          signal: controller.signal
+        })
+      ).rejects.toThrow("Upload cancelled")
+
+      expect(fetchCallsTo("/api/upload/complete")).toHaveLength(0)
+      // Not retried once cancelled
+      expect(fetchCallsTo("part-2")).toHaveLength(1)
+      expect(fetchCallsTo("/api/upload/sign")[0][1].signal).toBe(
+        controller.signal
+      )
+      expect(getChromeStorageData().multipartSessions).toHaveProperty(
+        "capture-1:1"
+      )
+    })
+
+    it("should abort the requested multipart sessions", async () => {
+      const now = new Date().toISOString()
+      const session = {
+        partSize: PART_SIZE,
+        totalParts: 2,
+        completedParts: [],
+        createdAt: now,
+        updatedAt: now
+      }
+      setChromeStorageData({
+        multipartSessions: {
+          "capture-1:1": { ...session, uploadId: "upload-1", key: "key-1" },
+          "capture-2:1": { ...session, uploadId: "upload-2", key: "key-2" }
+        }
+      })
+      mockTwoPartUpload()
+
+      const aborted = await abortMultipartSessions([
+        "capture-1:1",
+        "capture-1:2"
+      ])
+
+      expect(aborted).toBe(1)
+      const abortCalls = fetchCallsTo("/api/upload/abort")
+      expect(abortCalls).toHaveLength(1)
+      expect(JSON.parse(abortCalls[0][1].body)).toEqual({
+        key: "key-1",
+        uploadId: "upload-1"
+      })
+      expect(
+        Object.keys(getChromeStorageData().multipartSessions as object)
+      ).toEqual(["capture-2:1"])
     })
   })
 })
@@ -12,11 +12,18 @@ export interface UploadProgress {
   totalFiles: number
 }
 
-export interface ScreenshotUploadResult {
+export interface UploadedScreenshot {
   key: string
   filename: string
 }
 
+/**
+ * Outcome for one screenshot; a failed screenshot doesn't fail the others
+ */
+export type ScreenshotUploadResult =
+  | ({ status: "uploaded" } & UploadedScreenshot)
+  | { status: "failed"; filename: string; error: string }
+
 interface MultipartSession {
   uploadId: string
   key: string
@@ -24,28 +31,40 @@ interface MultipartSession {
   totalParts: number
 }
 
-/**
- * Convert data URL to Blob
- */
-function dataUrlToBlob(dataUrl: string): Blob {
-  const parts = dataUrl.split(",")
-  const contentType = parts[0].match(/:(.*?);/)?.[1] || "image/png"
-  const base64 = parts[1]
-  const binary = atob(base64)
-  const array = new Uint8Array(binary.length)
-  for (let i = 0; i < binary.length; i++) {
-    array[i] = binary.charCodeAt(i)
-  }
-  return new Blob([array], { type: contentType })
+export interface CompletedPart {
+  PartNumber: number
+  ETag: string
 }
 
 /**
- * Get web app URL from environment
+ * Multipart upload in progress, persisted so an interrupted upload can
+ * continue with the parts that are still missing
  */
-function getWebAppUrl(path: string = ""): string {
-  const frontendUrl =
-    process.env.PLASMO_PUBLIC_FRONTEND_URL || "http://localhost:3000"
-  return `${frontendUrl}${path}`
+export interface MultipartState extends MultipartSession {
+  completedParts: CompletedPart[]
+}
+
+export interface UploadScreenshotsOptions {
+  // Defaults to page_<n> by position, with the extension of the image type
+  filenames?: string[]
+  // Persist each screenshot's multipart session under this id (by position)
+  // so a later attempt with the same id resumes it
+  sessionIds?: (string | undefined)[]
+  // Called once a screenshot is fully uploaded
+  onScreenshotUploaded?: (
+    index: number,
+    result: UploadedScreenshot
+  ) => void | Promise<void>
+  // Aborting stops in-flight requests; open multipart sessions are left
+  // persisted for the caller to abort
+  signal?: AbortSignal
+}
+
+interface SessionPersistence {
+  // Continue this session instead of creating a new one
+  saved?: MultipartState
+  onUpdate: (state: MultipartState) => void | Promise<void>
+  onClosed: () => void | Promise<void>
 }
 
 /**
@@ -57,15 +76,16 @@ async function uploadPart(
   partNumber: number,
   data: Blob,
   authHeaders: Record<string, string>,
+  signal?: AbortSignal,
   maxRetries = 3
-): Promise<{ PartNumber: number; ETag: string }> {
+): Promise<CompletedPart> {
   let lastError: Error | null = null
 
   for (let attempt = 0; attempt < maxRetries; attempt++) {
     try {
       // Get presigned URL
       const signResponse = await fetch(
-        getWebAppUrl(
+        await getWebAppUrl(
           `/api/upload/sign?${new URLSearchParams({
             key,
             uploadId,
@@ -74,7 +94,8 @@ async function uploadPart(
         ),
         {
           method: "GET",
-          headers: authHeaders
+          headers: authHeaders,
+          signal
         }
       )
 
@@ -90,7 +111,8 @@ async function uploadPart(
         body: data,
         headers: {
           "Content-Type": "application/octet-stream"
-        }
+        },
+        signal
       })
 
       if (!uploadResponse.ok) {
@@ -109,6 +131,11 @@ async function uploadPart(
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error))
 
+      // Cancelled, not failed
+      if (signal?.aborted) {
+        throw lastError
+      }
+
       // Exponential backoff
       if (attempt < maxRetries - 1) {
         const delay = Math.min(1000 * Math.pow(2, attempt), 10000)
@@ -120,104 +147,259 @@ async function uploadPart(
   throw lastError || new Error("Failed to upload part after retries")
 }
 
+/**
+ * Abort a multipart upload so R2 discards its parts
+ */
+async function abortMultipartUpload(
+  key: string,
+  uploadId: string,
+  authHeaders: Record<string, string>
+) {
+  const response = await fetch(await getWebAppUrl("/api/upload/abort"), {
+    method: "DELETE",
+    headers: { ...authHeaders, "Content-Type": "application/json" },
+    body: JSON.stringify({ key, uploadId })
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to abort upload (HTTP ${response.status})`)
+  }
+}
+
 /**
  * Upload a single screenshot to R2 using multipart upload
+ * A saved session is continued instead of creating a new one, skipping
+ * the parts that already have an ETag
  */
 async function uploadScreenshot(
-  dataUrl: string,
+  blob: Blob,
   filename: string,
   authHeaders: Record<string, string>,
-  onProgress?: (uploaded: number, total: number) => void
+  onProgress?: (uploaded: number, total: number) => void,
+  persistence?: SessionPersistence,
+  signal?: AbortSignal
 ): Promise<string> {
-  const blob = dataUrlToBlob(dataUrl)
   const size = blob.size
+  const savedSession = persistence?.saved
+
+  let session: MultipartSession
+  if (savedSession) {
+    console.log(
+      `[Upload] Resuming ${filename} with ${savedSession.completedParts.length}/${savedSession.totalParts} parts already uploaded`
+    )
+    session = savedSession
+  } else {
+    // Create multipart upload session
+    const createResponse = await fetch(
+      await getWebAppUrl("/api/upload/create"),
+      {
+        method: "POST",
+        headers: { ...authHeaders, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          filename,
+          mime: blob.type || "image/png",
+          size
+        }),
+        signal
+      }
+    )
 
-  // Create multipart upload session
-  const createResponse = await fetch(getWebAppUrl("/api/upload/create"), {
-    method: "POST",
-    headers: { ...authHeaders, "Content-Type": "application/json" },
-    body: JSON.stringify({
-      filename,
-      mime: "image/png",
-      size
-    })
-  })
+    if (!createResponse.ok) {
+      const error = await createResponse.json()
+      throw new Error(error.error || "Failed to create upload session")
+    }
 
-  if (!createResponse.ok) {
-    const error = await createResponse.json()
-    throw new Error(error.error || "Failed to create upload session")
+    const created: MultipartSession = await createResponse.json()
+    session = {
+      uploadId: created.uploadId,
+      key: created.key,
+      partSize: created.partSize,
+      totalParts: created.totalParts
+    }
+    await persistence?.onUpdate({ ...session, completedParts: [] })
   }
 
-  const { uploadId, key, partSize, totalParts }: MultipartSession =
-    await createResponse.json()
+  const { uploadId, key, partSize, totalParts } = session
 
   // Upload parts
-  const completedParts: { PartNumber: number; ETag: string }[] = []
-
-  for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
-    const start = (partNumber - 1) * partSize
-    const end = Math.min(start + partSize, size)
-    const partBlob = blob.slice(start, end)
+  const completedParts: CompletedPart[] = [
+    ...(savedSession?.completedParts ?? [])
+  ]
+  const uploadedPartNumbers = new Set(
+    completedParts.map((part) => part.PartNumber)
+  )
 
-    const part = await uploadPart(key, uploadId, partNumber, partBlob, authHeaders)
-    completedParts.push(part)
+  try {
+    for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
+      if (!uploadedPartNumbers.has(partNumber)) {
+        const start = (partNumber - 1) * partSize
+        const end = Math.min(start + partSize, size)
+        const partBlob = blob.slice(start, end)
+
+        const part = await uploadPart(
+          key,
+          uploadId,
+          partNumber,
+          partBlob,
+          authHeaders,
+          signal
+        )
+        completedParts.push(part)
+        await persistence?.onUpdate({
+          ...session,
+          completedParts: [...completedParts]
+        })
+      }
 
-    // Report progress
-    if (onProgress) {
-      const uploaded = Math.min(partNumber * partSize, size)
-      onProgress(uploaded, size)
+      // Report progress
+      if (onProgress) {
+        const uploaded = Math.min(partNumber * partSize, size)
+        onProgress(uploaded, size)
+      }
+    }
+  } catch (error) {
+    if (!savedSession || signal?.aborted) {
+      throw error
+    }
+    // The server may no longer accept a saved session, e.g. once it expired
+    // or was aborted, and resuming it would fail on every retry: drop it and
+    // start over with a new one
+    console.warn(
+      `[Upload] Saved session for ${filename} was rejected; starting a new upload:`,
+      error
+    )
+    try {
+      await abortMultipartUpload(key, uploadId, authHeaders)
+    } catch (abortError) {
+      console.warn("Failed to abort upload:", abortError)
     }
+    await persistence.onClosed()
+    return uploadScreenshot(
+      blob,
+      filename,
+      authHeaders,
+      onProgress,
+      { ...persistence, saved: undefined },
+      signal
+    )
   }
 
   // Complete multipart upload
-  const completeResponse = await fetch(getWebAppUrl("/api/upload/complete"), {
-    method: "PATCH",
-    headers: { ...authHeaders, "Content-Type": "application/json" },
-    body: JSON.stringify({
-      key,
-      uploadId,
-      parts: completedParts.sort((a, b) => a.PartNumber - b.PartNumber)
-    })
-  })
+  const completeResponse = await fetch(
+    await getWebAppUrl("/api/upload/complete"),
+    {
+      method: "PATCH",
+      headers: { ...authHeaders, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        key,
+        uploadId,
+        parts: completedParts.sort((a, b) => a.PartNumber - b.PartNumber)
+      }),
+      signal
+    }
+  )
 
   if (!completeResponse.ok) {
     // Try to abort the upload
     try {
-      await fetch(getWebAppUrl("/api/upload/abort"), {
-        method: "DELETE",
-        headers: { ...authHeaders, "Content-Type": "application/json" },
-        body: JSON.stringify({ key, uploadId })
-      })
+      await abortMultipartUpload(key, uploadId, authHeaders)
     } catch (abortError) {
       console.warn("Failed to abort upload:", abortError)
     }
+    // Aborted sessions can't be resumed
+    await persistence?.onClosed()
 
     const error = await completeResponse.json()
     throw new Error(error.error || "Failed to complete upload")
   }
 
+  await persistence?.onClosed()
   return key
 }
 
+// Abort the given persisted sessions and forget the ones that were aborted
+async function abortStoredSessions(
+  sessions: [string, MultipartState][]
+): Promise<number> {
+  if (sessions.length === 0) {
+    return 0
+  }
+
+  const authHeaders = await getAuthHeaders()
+  const closed: string[] = []
+
+  for (const [id, session] of sessions) {
+    try {
+      await abortMultipartUpload(session.key, session.uploadId, authHeaders)
+      closed.push(id)
+      console.log(`[Upload] Aborted multipart upload ${id}`)
+    } catch (error) {
+      // Keep it so the next sweep tries again
+      console.warn(`[Upload] Failed to abort multipart upload ${id}:`, error)
+    }
+  }
+
+  await removeMultipartSessions(closed)
+  return closed.length
+}
+
+/**
+ * Abort persisted multipart uploads that haven't made progress within
+ * `ttlMs`, except the ids in `keepIds`. Returns how many were aborted.
+ */
+export async function abortAbandonedUploads(
+  ttlMs = getMultipartSessionTtlMs(),
+  keepIds: string[] = []
+): Promise<number> {
+  const cutoff = Date.now() - ttlMs
+  const abandoned = Object.entries(await getMultipartSessions()).filter(
+    ([id, session]) =>
+      !keepIds.includes(id) && new Date(session.updatedAt).getTime() < cutoff
+  )
+  return abortStoredSessions(abandoned)
+}
+
+/**
+ * Abort the persisted multipart uploads with the given ids, e.g. when the
+ * user cancels. Returns how many were aborted.
+ */
+export async function abortMultipartSessions(ids: string[]): Promise<number> {
+  const open = Object.entries(await getMultipartSessions()).filter(([id]) =>
+    ids.includes(id)
+  )
+  return abortStoredSessions(open)
+}
+
+/**
+ * Saved session for a screenshot, if it still fits the screenshot's size
+ */
+async function loadSavedSession(
+  sessionId: string,
+  blob: Blob
+): Promise<MultipartState | undefined> {
+  const saved = await getMultipartSession(sessionId)
+  if (saved && Math.ceil(blob.size / saved.partSize) !== saved.totalParts) {
+    console.warn(`[Upload] Ignoring saved session ${sessionId} for new data`)
+    return undefined
+  }
+  return saved
+}
+
 /**
  * Upload multiple screenshots to R2 in parallel
- * Returns array of R2 keys in the same order as input
+ * Returns a result per screenshot in the same order as input
  */
 export async function uploadScreenshots(
-  screenshots: string[],
+  screenshots: Blob[],
   onProgress?: (progress: UploadProgress) => void,
-  concurrency = 4
+  concurrency = DEFAULT_SETTINGS.uploadConcurrency,
+  options: UploadScreenshotsOptions = {}
 ): Promise<ScreenshotUploadResult[]> {
   const authHeaders = await getAuthHeaders()
   // Pre-allocate results array to maintain order
-  const results: (ScreenshotUploadResult | null)[] = new Array(
-    screenshots.length
-  ).fill(null)
+  const results: ScreenshotUploadResult[] = new Array(screenshots.length)
 
   // Calculate size of each screenshot
-  const sizePerScreenshot = screenshots.map(
-    (dataUrl) => dataUrlToBlob(dataUrl).size
-  )
+  const sizePerScreenshot = screenshots.map((blob) => blob.size)
   const totalBytes = sizePerScreenshot.reduce((sum, size) => sum + size, 0)
 
   // Track bytes uploaded per screenshot (for aggregating progress)
@@ -228,9 +410,12 @@ export async function uploadScreenshots(
 
   // Worker function to process queue items
   const worker = async () => {
-    while (queue.length > 0) {
+    while (queue.length > 0 && !options.signal?.aborted) {
       const index = queue.shift()!
-      const filename = `page_${index + 1}.png`
+      const filename =
+        options.filenames?.[index] ??
+        `page_${index + 1}.${getFileExtension(screenshots[index].type)}`
+      const sessionId = options.sessionIds?.[index]
 
       try {
         // Upload with per-file progress tracking
@@ -255,11 +440,20 @@ export async function uploadScreenshots(
               currentFile: bytesPerScreenshot.size,
               totalFiles: screenshots.length
             })
-          }
+          },
+          sessionId
+            ? {
+                saved: await loadSavedSession(sessionId, screenshots[index]),
+                onUpdate: (state) => saveMultipartSession(sessionId, state),
+                onClosed: () => removeMultipartSessions([sessionId])
+              }
+            : undefined,
+          options.signal
         )
 
         // Store result in correct position to maintain order
-        results[index] = { key, filename }
+        results[index] = { status: "uploaded", key, filename }
+        await options.onScreenshotUploaded?.(index, { key, filename })
 
         // Mark this screenshot as fully uploaded
         bytesPerScreenshot.set(index, sizePerScreenshot[index])
@@ -268,8 +462,16 @@ export async function uploadScreenshots(
           `[Upload] Completed ${filename} (${bytesPerScreenshot.size}/${screenshots.length})`
         )
       } catch (error) {
+        if (options.signal?.aborted) {
+          return
+        }
         console.error(`[Upload] Failed to upload ${filename}:`, error)
-        throw error // Re-throw to fail the entire upload
+        // Record the failure and keep going so one page doesn't fail the rest
+        results[index] = {
+          status: "failed",
+          filename,
+          error: error instanceof Error ? error.message : String(error)
+        }
       }
     }
   }
@@ -283,11 +485,27 @@ export async function uploadScreenshots(
   const workers = Array.from({ length: numWorkers }, worker)
   await Promise.all(workers)
 
-  // Verify all results are present
-  if (results.some((r) => r === null)) {
-    throw new Error("Some screenshots failed to upload")
+  if (options.signal?.aborted) {
+    console.log("[Upload] Upload cancelled")
+    throw new Error("Upload cancelled")
+  }
+
+  const failed = results.filter((r) => r.status === "failed").length
+  if (failed > 0) {
+    console.warn(
+      `[Upload] ${failed} of ${screenshots.length} screenshots failed to upload`
+    )
   }
 
-  return results as ScreenshotUploadResult[]
+  return results
 }
 import { getAuthHeaders } from "./clerk-auth"
+import { getFileExtension } from "./image-encoding"
+import {
+  getMultipartSession,
+  getMultipartSessions,
+  getMultipartSessionTtlMs,
+  removeMultipartSessions,
+  saveMultipartSession
+} from "./multipart-sessions"
+import { DEFAULT_SETTINGS, getWebAppUrl } from "./settings"
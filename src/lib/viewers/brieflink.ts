@@ -0,0 +1,42 @@
+import { createSlideViewerAdapter } from "./slide-viewer"
+
+export const brieflinkAdapter = createSlideViewerAdapter({
+  id: "brieflink",
+  name: "Brieflink",
+  urlPattern: /^https:\/\/(?:[\w-]+\.)?brieflink\.com\//,
+  fingerprintSelectors: [
+    '[class*="document-viewer"]',
+    '[class*="DocumentViewer"]',
+    '[data-testid*="viewer"]'
+  ],
+  pageIndicatorSelectors: [
+    '[data-testid*="page-indicator"]',
+    '[class*="page-indicator"]',
+    '[class*="PageIndicator"]'
+  ],
+  nextButtonSelectors: [
+    'button[aria-label*="Next"]',
+    'button[aria-label*="next"]',
+    '[data-testid*="next"]'
+  ],
+  prevButtonSelectors: [
+    'button[aria-label*="Previous"]',
+    'button[aria-label*="previous"]',
+    '[data-testid*="prev"]'
+  ],
+  viewerSelectors: [
+    '[class*="document-viewer"]',
+    '[class*="DocumentViewer"]',
+    '[data-testid*="viewer"]'
+  ],
+  pageImageSelectors: [
+    '[class*="document-viewer"] img',
+    '[data-testid*="viewer"] img'
+  ],
+  toolbarAnchors: [
+    { selector: '[class*="viewer-toolbar"]', insertPosition: "afterbegin" },
+    { selector: "header", insertPosition: "beforeend" }
+  ],
+  titleSelectors: ['[class*="document-title"]', "header h1"],
+  titleSuffix: /\s*[|-]\s*Brieflink\s*$/i
+})
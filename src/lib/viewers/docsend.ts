@@ -0,0 +1,79 @@
+import { createSlideViewerAdapter } from "./slide-viewer"
+
+export const docsendAdapter = createSlideViewerAdapter({
+  id: "docsend",
+  name: "DocSend",
+  urlPattern: /^https:\/\/(?:[\w-]+\.)?docsend\.com\//,
+  fingerprintSelectors: [
+    ".toolbar-page-indicator",
+    "#page-number",
+    "img.page-view[data-pagenum]"
+  ],
+  currentPageSelectors: ["#page-number"],
+  pageIndicatorSelectors: [".toolbar-page-indicator"],
+  nextButtonSelectors: [
+    'button[aria-label*="next"]',
+    'button[aria-label*="Next"]',
+    '[role="button"][aria-label*="next"]',
+    '[role="button"][aria-label*="Next"]',
+    '[aria-label*="next page"]',
+    '[aria-label*="Next page"]',
+    '[data-testid*="next"]',
+    '[data-testid*="forward"]',
+    '[data-testid*="right"]',
+    '[class*="next"]',
+    '[class*="Next"]',
+    '[class*="forward"]',
+    '[class*="Forward"]',
+    '[class*="RightArrow"]',
+    '[class*="right-arrow"]'
+  ],
+  prevButtonSelectors: [
+    'button[aria-label*="previous"]',
+    'button[aria-label*="Previous"]',
+    'button[aria-label*="prev"]',
+    'button[aria-label*="Prev"]',
+    '[class*="prev"]'
+  ],
+  viewerSelectors: [
+    '[data-testid*="viewer"]',
+    '[data-testid*="presentation"]',
+    '[class*="viewer"]',
+    '[class*="Viewer"]',
+    '[class*="presentation"]',
+    '[role="presentation"]',
+    '[role="region"][aria-label*="page"]'
+  ],
+  pageImageSelectors: [
+    "img.preso-view.page-view[data-pagenum]",
+    "img.page-view[data-pagenum]",
+    "img.preso-view[data-pagenum]",
+    ".item img.page-view",
+    ".carousel-inner img.page-view"
+  ],
+  getSlideImage: (page) =>
+    document.querySelector<HTMLImageElement>(
+      `img.page-view[data-pagenum="${page}"]`
+    ) ?? document.querySelector<HTMLImageElement>(".item.active img.page-view"),
+  toolbarAnchors: [
+    {
+      selector: ".presentation-toolbar_buttons.pull-right",
+      insertPosition: "afterbegin"
+    }
+  ],
+  titleSelectors: [".presentation-toolbar_title", ".toolbar-title"],
+  titleSuffix: /\s*[|-]\s*DocSend\s*$/i,
+  senderSelectors: [
+    ".presentation-toolbar_company-name",
+    ".toolbar-company-name",
+    ".presentation-toolbar_logo img[alt]"
+  ],
+  viewerEmailSelectors: [
+    ".presentation-toolbar_viewer-email",
+    ".toolbar-viewer-email",
+    '[class*="visitor-email"]'
+  ],
+  scrollContainerSelector: ".carousel-inner, .js-carousel-inner",
+  // Scrollable documents (vs presentations with slides) get a "vertical" body class
+  isScrollable: () => document.body.classList.contains("vertical")
+})
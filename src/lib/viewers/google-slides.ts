@@ -0,0 +1,37 @@
+import { createSlideViewerAdapter } from "./slide-viewer"
+
+// Google Slides "publish to web" viewer (/pub and /embed links)
+export const googleSlidesAdapter = createSlideViewerAdapter({
+  id: "google-slides",
+  name: "Google Slides",
+  urlPattern:
+    /^https:\/\/docs\.google\.com\/presentation\/d\/e\/[\w-]+\/(?:pub|embed)/,
+  fingerprintSelectors: [".punch-viewer-container", ".punch-viewer-content"],
+  pageIndicatorSelectors: [
+    ".punch-viewer-navbar-page-number",
+    ".punch-viewer-navbar-slide-number",
+    '[aria-label*="Slide"][aria-label*="of"]'
+  ],
+  nextButtonSelectors: [
+    ".punch-viewer-navbar-next",
+    '[aria-label="Next"]',
+    '[aria-label*="Next slide"]'
+  ],
+  prevButtonSelectors: [
+    ".punch-viewer-navbar-prev",
+    '[aria-label="Previous"]',
+    '[aria-label*="Previous slide"]'
+  ],
+  viewerSelectors: [".punch-viewer-content", ".punch-viewer-container"],
+  // Slides are rendered as SVG, so there are no page images to extract
+  pageImageSelectors: [],
+  toolbarAnchors: [
+    {
+      selector: ".punch-viewer-nav-rounded-container",
+      insertPosition: "afterbegin"
+    },
+    { selector: ".punch-viewer-navbar", insertPosition: "afterbegin" }
+  ],
+  titleSelectors: [".punch-viewer-title"],
+  titleSuffix: /\s*-\s*Google (?:Slides|Drive)\s*$/i
+})
@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, it } from "vitest"
+
+import { detectViewerAdapter, findViewerAdapterForUrl } from "./index"
+
+describe("viewer adapters", () => {
+  afterEach(() => {
+    document.body.innerHTML = ""
+    document.body.className = ""
+    document.title = ""
+  })
+
+  describe("findViewerAdapterForUrl", () => {
+    it.each([
+      ["https://docsend.com/view/abc123", "docsend"],
+      ["https://acme.docsend.com/view/abc123", "docsend"],
+      ["https://www.papermark.io/view/clx123", "papermark"],
+      ["https://pitch.com/public/1b2c3d", "pitch"],
+      [
+        "https://docs.google.com/presentation/d/e/2PACX-1vQ/pub?start=false",
+        "google-slides"
+      ],
+      ["https://brieflink.com/v/abc", "brieflink"]
+    ])("should match %s to the %s adapter", (url, id) => {
+      expect(findViewerAdapterForUrl(url)?.id).toBe(id)
+    })
+
+    it("should not match unsupported hosts", () => {
+      expect(findViewerAdapterForUrl("https://google.com")).toBeNull()
+      expect(
+        findViewerAdapterForUrl(
+          "https://docs.google.com/presentation/d/abc/edit"
+        )
+      ).toBeNull()
+      expect(findViewerAdapterForUrl(undefined)).toBeNull()
+    })
+  })
+
+  describe("detectViewerAdapter", () => {
+    it("should return null when no adapter matches the URL", () => {
+      expect(detectViewerAdapter("https://example.com/deck")).toBeNull()
+    })
+
+    it("should fall back to the URL match before the viewer renders", () => {
+      expect(detectViewerAdapter("https://docsend.com/view/abc")?.id).toBe(
+        "docsend"
+      )
+    })
+  })
+
+  describe("docsend adapter", () => {
+    const setupPresentation = (currentPage: number, totalPages: number) => {
+      document.title = "Series A Deck | DocSend"
+      document.body.innerHTML = `
+        <div class="presentation-toolbar_buttons pull-right"></div>
+        <div class="toolbar-page-indicator">
+          <span id="page-number">${currentPage}</span> / ${totalPages}
+        </div>
+        <img class="preso-view page-view" data-pagenum="1" />
+        <img class="preso-view page-view" data-pagenum="2" />
+      `
+    }
+
+    const getAdapter = () =>
+      detectViewerAdapter("https://docsend.com/view/abc", document)!
+
+    it("should match the DocSend DOM fingerprint", () => {
+      setupPresentation(1, 2)
+
+      expect(getAdapter().matchesDom(document)).toBe(true)
+    })
+
+    it("should read the current and total page counts", () => {
+      setupPresentation(3, 17)
+      const adapter = getAdapter()
+
+      expect(adapter.getCurrentPage()).toBe(3)
+      expect(adapter.detectTotalPages()).toBe(17)
+    })
+
+    it("should list page images in DOM order", () => {
+      setupPresentation(1, 2)
+
+      const images = getAdapter().listPageImages()
+      expect(images.map((img) => img.getAttribute("data-pagenum"))).toEqual([
+        "1",
+        "2"
+      ])
+    })
+
+    it("should use the page's slide image as the slide element", () => {
+      setupPresentation(2, 2)
+
+      expect(
+        getAdapter().getSlideElement(2)?.getAttribute("data-pagenum")
+      ).toBe("2")
+    })
+
+    it("should anchor the capture button in the toolbar", () => {
+      setupPresentation(1, 2)
+
+      const anchor = getAdapter().getToolbarAnchor()
+      expect(anchor?.element.className).toContain(
+        "presentation-toolbar_buttons"
+      )
+      expect(anchor?.insertPosition).toBe("afterbegin")
+    })
+
+    it("should strip the DocSend suffix from the title", () => {
+      setupPresentation(1, 2)
+
+      expect(getAdapter().getTitle()).toBe("Series A Deck")
+    })
+
+    it("should read the sender and the viewer's email", () => {
+      setupPresentation(1, 2)
+      document.body.insertAdjacentHTML(
+        "beforeend",
+        `
+        <div class="presentation-toolbar_logo"><img alt="Acme Ventures" /></div>
+        <span class="toolbar-viewer-email">Viewing as investor@example.com</span>
+      `
+      )
+
+      expect(getAdapter().getSender()).toBe("Acme Ventures")
+      expect(getAdapter().getViewerEmail()).toBe("investor@example.com")
+    })
+
+    it("should leave out a sender and email the viewer doesn't show", () => {
+      setupPresentation(1, 2)
+
+      expect(getAdapter().getSender()).toBeNull()
+      expect(getAdapter().getViewerEmail()).toBeNull()
+    })
+
+    it("should detect scrollable documents", () => {
+      setupPresentation(1, 2)
+      document.body.classList.add("vertical")
+
+      expect(getAdapter().isScrollable()).toBe(true)
+    })
+
+    it("should resolve immediately when already on the page", async () => {
+      setupPresentation(1, 2)
+
+      await expect(getAdapter().goBackTo(1)).resolves.toBe(true)
+    })
+
+    it("should step back to an earlier page far into the deck", async () => {
+      setupPresentation(90, 100)
+      const pageNumber = document.getElementById("page-number")!
+      const previous = document.createElement("button")
+      previous.setAttribute("aria-label", "previous")
+      // jsdom doesn't lay out, so the button needs a parent to be clickable
+      Object.defineProperty(previous, "offsetParent", { value: document.body })
+      previous.addEventListener("click", () => {
+        pageNumber.textContent = String(Number(pageNumber.textContent) - 1)
+      })
+      document.body.append(previous)
+
+      await expect(getAdapter().goBackTo(20)).resolves.toBe(true)
+      expect(getAdapter().getCurrentPage()).toBe(20)
+    })
+  })
+})
@@ -0,0 +1,47 @@
+import { brieflinkAdapter } from "./brieflink"
+import { docsendAdapter } from "./docsend"
+import { googleSlidesAdapter } from "./google-slides"
+import { papermarkAdapter } from "./papermark"
+import { pitchAdapter } from "./pitch"
+import type { ViewerAdapter } from "./types"
+
+export { setNavigationTimeouts } from "./slide-viewer"
+export type { ToolbarAnchor, ViewerAdapter } from "./types"
+
+// Registered adapters, in priority order
+export const viewerAdapters: ViewerAdapter[] = [
+  docsendAdapter,
+  papermarkAdapter,
+  pitchAdapter,
+  googleSlidesAdapter,
+  brieflinkAdapter
+]
+
+/**
+ * Find the adapter for a URL without looking at the DOM
+ * Used by the popup, which can't inspect the viewer page
+ */
+export function findViewerAdapterForUrl(
+  url: string | undefined
+): ViewerAdapter | null {
+  if (!url) {
+    return null
+  }
+  return viewerAdapters.find((adapter) => adapter.matchesUrl(url)) ?? null
+}
+
+/**
+ * Pick the adapter for the current page by URL and DOM fingerprint
+ * Falls back to a URL-only match while the viewer is still rendering
+ */
+export function detectViewerAdapter(
+  url: string = window.location.href,
+  doc: Document = document
+): ViewerAdapter | null {
+  const urlMatches = viewerAdapters.filter((adapter) => adapter.matchesUrl(url))
+  return (
+    urlMatches.find((adapter) => adapter.matchesDom(doc)) ??
+    urlMatches[0] ??
+    null
+  )
+}
@@ -0,0 +1,270 @@
+/**
+ * Shared DOM navigation helpers for viewer adapters
+ * Click "next"/"previous" controls, fall back to arrow keys and viewer clicks
+ */
+
+export function logViewer(
+  message: string,
+  extra: Record<string, unknown> = {}
+) {
+  console.log(`[Viewer] ${message}`, {
+    url: window.location.href,
+    ...extra
+  })
+}
+
+export function querySelectorFirst<T extends Element = HTMLElement>(
+  selectors: string[]
+): T | null {
+  for (const selector of selectors) {
+    const el = document.querySelector<T>(selector)
+    if (el) {
+      return el
+    }
+  }
+  return null
+}
+
+/**
+ * Parse a "3 / 17" or "3 of 17" style page indicator
+ */
+export function parsePageIndicator(
+  text: string
+): { current: number; total: number } | null {
+  const match = text.match(/(\d+)\s*(?:of|\/)\s*(\d+)/i)
+  if (!match) {
+    return null
+  }
+  return { current: parseInt(match[1], 10), total: parseInt(match[2], 10) }
+}
+
+export function describeButton(button: HTMLElement) {
+  return {
+    text: button.textContent?.trim() ?? null,
+    classList: Array.from(button.classList).join(" ") || null,
+    disabled:
+      (button as HTMLButtonElement).disabled ??
+      button.getAttribute("aria-disabled") === "true",
+    ariaDisabled: button.getAttribute("aria-disabled") ?? null,
+    tabIndex: button.tabIndex,
+    role: button.getAttribute("role") ?? null,
+    dataTestId: button.getAttribute("data-testid") ?? null
+  }
+}
+
+function isClickable(button: HTMLElement): boolean {
+  const isDisabled =
+    (button as HTMLButtonElement).disabled ||
+    button.getAttribute("aria-disabled") === "true"
+  return !isDisabled && button.offsetParent !== null
+}
+
+export function focusViewerElement(
+  viewerSelectors: string[]
+): HTMLElement | null {
+  const viewer = querySelectorFirst(viewerSelectors)
+
+  if (!viewer) {
+    logViewer("Viewer element not found when attempting focus")
+    return null
+  }
+
+  const originalTabIndex = viewer.getAttribute("tabindex")
+  if (viewer.tabIndex < 0) {
+    viewer.setAttribute("data-flow-temp-tabindex", originalTabIndex ?? "")
+    viewer.tabIndex = 0
+  }
+
+  viewer.focus({ preventScroll: true })
+  logViewer("Focused viewer element", {
+    viewerTag: viewer.tagName,
+    classList: viewer.className,
+    tabIndex: viewer.tabIndex,
+    activeElement: document.activeElement?.tagName ?? null
+  })
+
+  return viewer
+}
+
+export function dispatchArrowKey(
+  target: EventTarget,
+  key: "ArrowLeft" | "ArrowRight"
+) {
+  const keyCode = key === "ArrowLeft" ? 37 : 39
+  target.dispatchEvent(
+    new KeyboardEvent("keydown", {
+      key,
+      code: key,
+      keyCode,
+      which: keyCode,
+      bubbles: true,
+      cancelable: true
+    })
+  )
+}
+
+export interface AdvanceOptions {
+  getCurrentPage: () => number
+  nextButtonSelectors: string[]
+  viewerSelectors: string[]
+  // Resolves true once the viewer moved away from `fromPage`
+  waitForChange: (fromPage: number) => Promise<boolean>
+}
+
+/**
+ * Advance one page using, in order: next buttons, ArrowRight, viewer click
+ */
+export async function advancePage({
+  getCurrentPage,
+  nextButtonSelectors,
+  viewerSelectors,
+  waitForChange
+}: AdvanceOptions): Promise<boolean> {
+  const currentPage = getCurrentPage()
+  logViewer("Attempting to advance to the next page", { currentPage })
+
+  const viewerBeforeNavigation = focusViewerElement(viewerSelectors)
+
+  // Method 1: Try clicking "Next" button
+  const nextButtonCandidates: HTMLElement[] = []
+  for (const selector of nextButtonSelectors) {
+    document.querySelectorAll<HTMLElement>(selector).forEach((el) => {
+      nextButtonCandidates.push(el)
+    })
+  }
+
+  const uniqueCandidates = Array.from(new Set(nextButtonCandidates))
+  logViewer("Next button query result", {
+    count: uniqueCandidates.length,
+    selectorsTested: nextButtonSelectors
+  })
+
+  for (const button of uniqueCandidates) {
+    logViewer("Evaluating next button candidate", describeButton(button))
+
+    if (isClickable(button)) {
+      logViewer("Clicking next button", describeButton(button))
+      button.click()
+      await waitForChange(currentPage)
+
+      const newPage = getCurrentPage()
+      if (newPage > currentPage) {
+        logViewer("Next button click advanced page", { newPage })
+        return true
+      }
+
+      logViewer("Next button click did not advance page", {
+        observedPage: newPage
+      })
+    }
+  }
+
+  // Method 2: Try arrow key navigation
+  const activeViewer =
+    viewerBeforeNavigation ?? focusViewerElement(viewerSelectors)
+  logViewer("Dispatching ArrowRight key event", {
+    activeElement: document.activeElement?.tagName ?? null,
+    activeElementClasses:
+      (document.activeElement as HTMLElement | null)?.className ?? null
+  })
+  dispatchArrowKey(activeViewer ?? document.body, "ArrowRight")
+  await waitForChange(currentPage)
+
+  let newPage = getCurrentPage()
+  if (newPage > currentPage) {
+    logViewer("ArrowRight key advanced page", { newPage })
+    return true
+  }
+  logViewer("ArrowRight key did not advance page", { observedPage: newPage })
+
+  // Method 3: Try clicking on the viewer
+  const viewer =
+    activeViewer ?? querySelectorFirst(viewerSelectors) ?? document.body
+  logViewer("Clicking viewer element to advance", {
+    viewerTag: viewer.tagName,
+    classList: viewer.className || null
+  })
+  viewer.click()
+  await waitForChange(currentPage)
+
+  newPage = getCurrentPage()
+  if (newPage > currentPage) {
+    logViewer("Viewer click advanced page", { newPage })
+    return true
+  }
+
+  logViewer("Failed to advance to the next page", {
+    attemptedFromPage: currentPage,
+    observedPage: newPage
+  })
+  return false
+}
+
+export interface RewindOptions {
+  getCurrentPage: () => number
+  prevButtonSelectors: string[]
+  // Resolves once the viewer moved away from `fromPage`
+  waitForChange: (fromPage: number) => Promise<boolean>
+  // Page to step back to
+  targetPage: number
+  // Steps that didn't move the viewer, on top of one per page to go back
+  maxFailedAttempts?: number
+}
+
+/**
+ * Step back to `targetPage` using previous buttons or ArrowLeft
+ */
+export async function rewindToPage({
+  getCurrentPage,
+  prevButtonSelectors,
+  waitForChange,
+  targetPage,
+  maxFailedAttempts = 50 // Safety limit
+}: RewindOptions): Promise<boolean> {
+  const currentPage = getCurrentPage()
+
+  if (currentPage <= targetPage) {
+    logViewer(`Already on page ${currentPage}`, { targetPage })
+    return currentPage === targetPage
+  }
+
+  logViewer(`Navigating from page ${currentPage} to page ${targetPage}...`)
+
+  const maxAttempts = currentPage - targetPage + maxFailedAttempts
+  let attempts = 0
+  while (getCurrentPage() > targetPage && attempts < maxAttempts) {
+    const pageBefore = getCurrentPage()
+    const prevButtons = document.querySelectorAll<HTMLElement>(
+      prevButtonSelectors.join(", ")
+    )
+
+    let clicked = false
+    for (const button of prevButtons) {
+      if (isClickable(button) && !button.getAttribute("aria-disabled")) {
+        button.click()
+        clicked = true
+        await waitForChange(pageBefore)
+        break
+      }
+    }
+
+    if (!clicked) {
+      dispatchArrowKey(document.body, "ArrowLeft")
+      await waitForChange(pageBefore)
+    }
+
+    attempts++
+  }
+
+  const finalPage = getCurrentPage()
+  if (finalPage === targetPage) {
+    logViewer(`Successfully navigated to page ${targetPage}`)
+    return true
+  }
+
+  logViewer(`Failed to navigate to page ${targetPage}`, {
+    finalPage,
+    attempts
+  })
+  return false
+}
@@ -0,0 +1,38 @@
+import { createSlideViewerAdapter } from "./slide-viewer"
+
+export const papermarkAdapter = createSlideViewerAdapter({
+  id: "papermark",
+  name: "Papermark",
+  urlPattern: /^https:\/\/(?:www\.)?papermark\.(?:io|com)\/view\//,
+  fingerprintSelectors: [
+    'img[alt^="Page "]',
+    '[class*="pagination"]',
+    'meta[property="og:site_name"][content="Papermark"]'
+  ],
+  pageIndicatorSelectors: [
+    '[class*="pagination"]',
+    '[class*="page-counter"]',
+    "nav [aria-live]"
+  ],
+  nextButtonSelectors: [
+    'button[aria-label*="Next"]',
+    'button[aria-label*="next"]'
+  ],
+  prevButtonSelectors: [
+    'button[aria-label*="Previous"]',
+    'button[aria-label*="previous"]'
+  ],
+  viewerSelectors: ["main", '[class*="viewer"]'],
+  pageImageSelectors: ['img[alt^="Page "]', "main img"],
+  getSlideImage: (page) =>
+    document.querySelector<HTMLImageElement>(`img[alt="Page ${page}"]`),
+  toolbarAnchors: [
+    {
+      selector: "nav .flex.items-center:last-child",
+      insertPosition: "afterbegin"
+    },
+    { selector: "nav", insertPosition: "beforeend" }
+  ],
+  titleSelectors: ["nav h1", "nav [class*='title']"],
+  titleSuffix: /\s*[|-]\s*Papermark\s*$/i
+})
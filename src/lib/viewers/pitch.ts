@@ -0,0 +1,39 @@
+import { createSlideViewerAdapter } from "./slide-viewer"
+
+export const pitchAdapter = createSlideViewerAdapter({
+  id: "pitch",
+  name: "Pitch",
+  urlPattern: /^https:\/\/pitch\.com\/(?:public|v)\//,
+  fingerprintSelectors: [
+    '[data-test-id*="player"]',
+    '[class*="player-slide"]',
+    '[class*="dash-player"]'
+  ],
+  pageIndicatorSelectors: [
+    '[data-test-id*="slide-number"]',
+    '[class*="slide-number"]',
+    '[class*="SlideNumber"]'
+  ],
+  nextButtonSelectors: [
+    '[data-test-id*="next"]',
+    'button[aria-label*="Next"]',
+    'button[aria-label*="next"]'
+  ],
+  prevButtonSelectors: [
+    '[data-test-id*="prev"]',
+    'button[aria-label*="Previous"]',
+    'button[aria-label*="previous"]'
+  ],
+  viewerSelectors: ['[data-test-id*="player"]', '[class*="player"]'],
+  // Pitch renders slides as DOM, so there are no page images to extract
+  pageImageSelectors: [],
+  toolbarAnchors: [
+    {
+      selector: '[data-test-id*="player-controls"]',
+      insertPosition: "afterbegin"
+    },
+    { selector: '[class*="player-controls"]', insertPosition: "afterbegin" }
+  ],
+  titleSelectors: ['[data-test-id*="presentation-title"]'],
+  titleSuffix: /\s*[|·–-]\s*Pitch\s*$/i
+})
@@ -0,0 +1,230 @@
+import { waitForImageRender, waitForPageTransition } from "../page-transition"
+import {
+  advancePage,
+  logViewer,
+  parsePageIndicator,
+  querySelectorFirst,
+  rewindToPage
+} from "./navigation"
+import type { ToolbarAnchor, ViewerAdapter } from "./types"
+
+const navigationTimeouts = {
+  // How long to wait for the page indicator to react to a navigation attempt
+  pageChangeMs: 3000,
+  // How long to wait for the new slide image to load and paint
+  slideRenderMs: 15000
+}
+
+/**
+ * Change how long slide viewers wait on navigation, e.g. from settings
+ * Applies from the next page turn on
+ */
+export function setNavigationTimeouts(
+  timeouts: Partial<typeof navigationTimeouts>
+) {
+  Object.assign(navigationTimeouts, timeouts)
+}
+
+const fallbackIndicatorSelectors = [
+  '[class*="page"]',
+  '[class*="Page"]',
+  '[aria-label*="page"]'
+]
+
+export interface SlideViewerConfig {
+  id: string
+  name: string
+  urlPattern: RegExp
+  // Any of these being present identifies the viewer
+  fingerprintSelectors: string[]
+  // Elements whose text is just the current page number
+  currentPageSelectors?: string[]
+  // Elements with "3 / 17" or "3 of 17" text
+  pageIndicatorSelectors: string[]
+  nextButtonSelectors: string[]
+  prevButtonSelectors: string[]
+  viewerSelectors: string[]
+  pageImageSelectors: string[]
+  // Image of a given page in presentation mode, waited on after navigation
+  getSlideImage?: (page: number) => HTMLImageElement | null
+  toolbarAnchors: { selector: string; insertPosition: InsertPosition }[]
+  titleSelectors: string[]
+  // Host suffix stripped from document.title, e.g. " | DocSend"
+  titleSuffix?: RegExp
+  // Name or logo of the company or person sharing the document
+  senderSelectors?: string[]
+  // Elements showing the email the document was opened with
+  viewerEmailSelectors?: string[]
+  scrollContainerSelector?: string
+  isScrollable?: () => boolean
+}
+
+function readIndicator(selectors: string[]) {
+  for (const selector of selectors) {
+    const el = document.querySelector(selector)
+    const parsed = el ? parsePageIndicator(el.textContent || "") : null
+    if (parsed) {
+      return parsed
+    }
+  }
+  return null
+}
+
+// Text of the first matching element, or the alt text of a logo
+function readText(selectors: string[] = []): string | null {
+  const el = querySelectorFirst(selectors)
+  const text = el instanceof HTMLImageElement ? el.alt : el?.textContent ?? ""
+  return text.replace(/\s+/g, " ").trim() || null
+}
+
+const EMAIL_PATTERN = /[^\s@]+@[^\s@]+\.[^\s@]+/
+
+/**
+ * Build an adapter for hosts that show one slide at a time with a page
+ * indicator and next/previous controls
+ */
+export function createSlideViewerAdapter(
+  config: SlideViewerConfig
+): ViewerAdapter {
+  const getCurrentPage = (): number => {
+    const currentPageEl = config.currentPageSelectors
+      ? querySelectorFirst(config.currentPageSelectors)
+      : null
+    if (currentPageEl) {
+      const num = parseInt(currentPageEl.textContent || "1", 10)
+      return isNaN(num) ? 1 : num
+    }
+
+    return readIndicator(config.pageIndicatorSelectors)?.current ?? 1
+  }
+
+  // Wait for the viewer to leave `fromPage` and, unless skipped, for the new
+  // slide to be painted. Returns true when the page changed.
+  const waitForPageChange = async (
+    fromPage: number,
+    { waitForRender = true }: { waitForRender?: boolean } = {}
+  ): Promise<boolean> => {
+    const result = await waitForPageTransition({
+      fromPage,
+      getCurrentPage,
+      getActiveImage: waitForRender ? config.getSlideImage : undefined,
+      timeoutMs: navigationTimeouts.pageChangeMs,
+      renderTimeoutMs: navigationTimeouts.slideRenderMs
+    })
+
+    logViewer("Page transition finished", {
+      viewer: config.id,
+      fromPage,
+      ...result
+    })
+    return result.changed
+  }
+
+  return {
+    id: config.id,
+    name: config.name,
+
+    matchesUrl: (url) => config.urlPattern.test(url),
+
+    matchesDom: (doc) =>
+      config.fingerprintSelectors.some(
+        (selector) => doc.querySelector(selector) !== null
+      ),
+
+    isScrollable: () => config.isScrollable?.() ?? false,
+
+    detectTotalPages: () => {
+      const indicator =
+        readIndicator(config.pageIndicatorSelectors) ??
+        readIndicator(fallbackIndicatorSelectors)
+      return indicator?.total ?? null
+    },
+
+    getCurrentPage,
+
+    goNext: () =>
+      advancePage({
+        getCurrentPage,
+        nextButtonSelectors: config.nextButtonSelectors,
+        viewerSelectors: config.viewerSelectors,
+        waitForChange: (fromPage) => waitForPageChange(fromPage)
+      }),
+
+    goBackTo: async (page) => {
+      const startedOnPage = getCurrentPage() === page
+      const reached = await rewindToPage({
+        getCurrentPage,
+        prevButtonSelectors: config.prevButtonSelectors,
+        // Intermediate slides don't need to finish rendering
+        waitForChange: (fromPage) =>
+          waitForPageChange(fromPage, { waitForRender: false }),
+        targetPage: page
+      })
+
+      // Only wait for the page to paint if we actually navigated to it
+      const slide =
+        reached && !startedOnPage ? config.getSlideImage?.(page) : null
+      if (slide) {
+        await waitForImageRender(slide, navigationTimeouts.slideRenderMs)
+      }
+
+      return reached
+    },
+
+    // The slide image where the host renders one, else the viewer itself
+    getSlideElement: (page) =>
+      config.getSlideImage?.(page) ??
+      querySelectorFirst(config.viewerSelectors),
+
+    listPageImages: () => {
+      for (const selector of config.pageImageSelectors) {
+        const images = Array.from(
+          document.querySelectorAll<HTMLImageElement>(selector)
+        )
+        if (images.length > 0) {
+          logViewer("Found page images with selector", {
+            selector,
+            totalImages: images.length
+          })
+          return images
+        }
+      }
+      return []
+    },
+
+    getScrollContainer: () =>
+      config.scrollContainerSelector
+        ? document.querySelector<HTMLElement>(config.scrollContainerSelector)
+        : null,
+
+    getToolbarAnchor: (): ToolbarAnchor | null => {
+      for (const anchor of config.toolbarAnchors) {
+        const element = document.querySelector<HTMLElement>(anchor.selector)
+        if (element) {
+          return { element, insertPosition: anchor.insertPosition }
+        }
+      }
+      return null
+    },
+
+    getTitle: () => {
+      const titleEl = querySelectorFirst(config.titleSelectors)
+      const title =
+        titleEl?.textContent?.trim() ||
+        (config.titleSuffix
+          ? document.title.replace(config.titleSuffix, "")
+          : document.title
+        ).trim()
+      return title || null
+    },
+
+    getSender: () =>
+      readText(config.senderSelectors)?.replace(
+        /^(?:shared|sent|presented) by\s+/i,
+        ""
+      ) ?? null,
+
+    getViewerEmail: () =>
+      readText(config.viewerEmailSelectors)?.match(EMAIL_PATTERN)?.[0] ?? null
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Viewer adapter contract
+ * Each supported document host (DocSend, Papermark, ...) implements this so
+ * the capture loop in content.ts can stay host-agnostic
+ */
+
+export interface ToolbarAnchor {
+  element: HTMLElement
+  insertPosition: InsertPosition
+}
+
+export interface ViewerAdapter {
+  // Stable identifier, sent along with capture metadata
+  id: string
+  // Human readable host name shown in the UI
+  name: string
+  // Cheap check on the page URL (works from the popup too)
+  matchesUrl(url: string): boolean
+  // DOM fingerprint check, only meaningful inside the viewer page
+  matchesDom(doc: Document): boolean
+  // Vertical documents render every page at once and are captured by scrolling
+  isScrollable(): boolean
+  detectTotalPages(): number | null
+  getCurrentPage(): number
+  // Advance one page; resolves once the next page has rendered
+  goNext(): Promise<boolean>
+  // Step back to an earlier page; resolves once that page has rendered
+  goBackTo(page: number): Promise<boolean>
+  // Element showing the given page, whose bounds screenshots are cropped to
+  getSlideElement(page: number): HTMLElement | null
+  // Page images currently in the DOM, in page order
+  listPageImages(): HTMLImageElement[]
+  // Scrollable element holding the pages, used to trigger lazy loading
+  getScrollContainer(): HTMLElement | null
+  // Where the inline capture button is mounted
+  getToolbarAnchor(): ToolbarAnchor | null
+  getTitle(): string | null
+  // Company or person the document was shared by, when the viewer shows it
+  getSender(): string | null
+  // Email the document was opened with, when the viewer asked for one
+  getViewerEmail(): string | null
+}
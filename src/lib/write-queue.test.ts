@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest"
+
+import { createWriteQueue } from "./write-queue"
+
+describe("write-queue", () => {
+  it("should run writes one after another", async () => {
+    const enqueue = createWriteQueue()
+    let stored = 0
+    const increment = () =>
+      enqueue(async () => {
+        const value = stored
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        stored = value + 1
+        return stored
+      })
+
+    await expect(Promise.all([increment(), increment()])).resolves.toEqual([
+      1, 2
+    ])
+    expect(stored).toBe(2)
+  })
+
+  it("should keep going after a failed write", async () => {
+    const enqueue = createWriteQueue()
+
+    const failed = enqueue(() => Promise.reject(new Error("Quota exceeded")))
+    const next = enqueue(async () => "saved")
+
+    await expect(failed).rejects.toThrow("Quota exceeded")
+    await expect(next).resolves.toBe("saved")
+  })
+})
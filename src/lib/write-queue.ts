@@ -0,0 +1,22 @@
+/**
+ * Write queue
+ * Chains the read-modify-writes of a storage key so writes started
+ * together each see the result of the one before. A queue only orders the
+ * writes of the context it lives in: a key written from several contexts
+ * needs one owner, usually the background, that the others message.
+ */
+
+export type WriteQueue = <T>(write: () => Promise<T>) => Promise<T>
+
+/**
+ * Queue that runs each write once the previous one settled. A failed write
+ * rejects its own promise without holding up the ones queued after it.
+ */
+export function createWriteQueue(): WriteQueue {
+  let queue: Promise<unknown> = Promise.resolve()
+  return (write) => {
+    const result = queue.then(write)
+    queue = result.catch(() => undefined)
+    return result
+  }
+}
@@ -0,0 +1,16 @@
+import { SettingsForm } from "./features/settings-form"
+
+import "./style.css"
+
+function OptionsPage() {
+  return (
+    <div className="plasmo-max-w-xl plasmo-mx-auto plasmo-px-4 plasmo-py-6 plasmo-bg-background">
+      <h1 className="plasmo-text-xl plasmo-font-semibold plasmo-text-foreground plasmo-mb-4">
+        Flow settings
+      </h1>
+      <SettingsForm />
+    </div>
+  )
+}
+
+export default OptionsPage
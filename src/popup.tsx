@@ -1,7 +1,10 @@
 import { createMemoryRouter, RouterProvider } from "react-router"
 
 import RootLayout from "./popup/layouts/root-layout"
+import HistoryPage from "./popup/routes/history"
 import HomePage from "./popup/routes/index"
+import ReviewPage from "./popup/routes/review"
+import SettingsPage from "./popup/routes/settings"
 
 import "./style.css"
 
@@ -13,6 +16,18 @@ const router = createMemoryRouter([
       {
         index: true,
         element: <HomePage />
+      },
+      {
+        path: "review",
+        element: <ReviewPage />
+      },
+      {
+        path: "history",
+        element: <HistoryPage />
+      },
+      {
+        path: "settings",
+        element: <SettingsPage />
       }
     ]
   }
@@ -1,20 +1,15 @@
 import { ClerkProvider, SignedIn } from "@clerk/chrome-extension"
 import { Outlet, useNavigate } from "react-router"
 
-// Get web app URL with proper port handling
-function getWebAppUrl(path: string = ""): string {
-  const frontendUrl =
-    process.env.PLASMO_PUBLIC_FRONTEND_URL || "http://localhost:3000"
-  return `${frontendUrl}${path}`
-}
+import { getWebAppUrl } from "~lib/settings"
 
 function RootLayout() {
   const navigate = useNavigate()
   const publishableKey = process.env.PLASMO_PUBLIC_CLERK_PUBLISHABLE_KEY!
   const syncHost = process.env.PLASMO_PUBLIC_CLERK_SYNC_HOST!
 
-  const openSettings = () => {
-    chrome.tabs.create({ url: getWebAppUrl("/dashboard") })
+  const openSettings = async () => {
+    chrome.tabs.create({ url: await getWebAppUrl("/dashboard") })
   }
 
   return (
@@ -30,12 +25,24 @@ function RootLayout() {
             Flow
           </h1>
           <SignedIn>
-            <button
-              onClick={openSettings}
-              className="plasmo-text-sm plasmo-text-muted-foreground hover:plasmo-text-foreground plasmo-flex plasmo-items-center plasmo-gap-1 plasmo-transition-colors">
-              <span>⚙</span>
-              <span>Manage Account</span>
-            </button>
+            <div className="plasmo-flex plasmo-items-center plasmo-gap-3">
+              <button
+                onClick={() => navigate("/history")}
+                className="plasmo-text-sm plasmo-text-muted-foreground hover:plasmo-text-foreground plasmo-transition-colors">
+                History
+              </button>
+              <button
+                onClick={() => navigate("/settings")}
+                className="plasmo-text-sm plasmo-text-muted-foreground hover:plasmo-text-foreground plasmo-transition-colors">
+                Settings
+              </button>
+              <button
+                onClick={openSettings}
+                className="plasmo-text-sm plasmo-text-muted-foreground hover:plasmo-text-foreground plasmo-flex plasmo-items-center plasmo-gap-1 plasmo-transition-colors">
+                <span>⚙</span>
+                <span>Manage Account</span>
+              </button>
+            </div>
           </SignedIn>
         </header>
         <main className="plasmo-p-4">
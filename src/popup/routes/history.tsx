@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react"
+import { Link, useNavigate } from "react-router"
+
+import { useStorage } from "@plasmohq/storage/hook"
+
+import {
+  CAPTURE_HISTORY_KEY,
+  type CaptureHistory,
+  type CaptureHistoryEntry,
+  type CaptureHistoryStatus
+} from "~lib/capture-history"
+import { getDocumentKey } from "~lib/capture-session"
+import { sendMessage, sendTabMessage } from "~lib/messages"
+import { getWebAppUrl } from "~lib/settings"
+import { storage } from "~lib/storage"
+
+const STATUS_LABELS: Record<CaptureHistoryStatus, string> = {
+  uploaded: "Uploaded",
+  failed: "Failed",
+  cancelled: "Cancelled"
+}
+
+const STATUS_CLASSES: Record<CaptureHistoryStatus, string> = {
+  uploaded: "plasmo-bg-green-50 plasmo-text-green-700",
+  failed: "plasmo-bg-red-50 plasmo-text-red-700",
+  cancelled: "plasmo-bg-muted plasmo-text-muted-foreground"
+}
+
+// Title of the captured page, or where it was when it had none
+function getEntryName(entry: CaptureHistoryEntry): string {
+  if (entry.title) {
+    return entry.title
+  }
+  try {
+    const { hostname, pathname } = new URL(entry.url)
+    return `${hostname}${pathname}`
+  } catch {
+    return entry.url
+  }
+}
+
+function HistoryPage() {
+  const navigate = useNavigate()
+  const [history] = useStorage<CaptureHistory>({
+    key: CAPTURE_HISTORY_KEY,
+    instance: storage
+  })
+  const [tab, setTab] = useState<chrome.tabs.Tab | undefined>(undefined)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
+      setTab(tabs[0])
+    })
+  }, [])
+
+  const openInFlow = async (materialId: string) => {
+    chrome.tabs.create({
+      url: await getWebAppUrl(`/dashboard/materials/${materialId}`)
+    })
+  }
+
+  // Captures again in the current tab when it has the document open;
+  // otherwise opens the document to capture from there
+  const recapture = (entry: CaptureHistoryEntry) => {
+    const documentKey = getDocumentKey(entry.url)
+    if (tab?.id && documentKey && getDocumentKey(tab.url) === documentKey) {
+      void sendTabMessage(tab.id, { type: "START_CAPTURE" })
+      navigate("/")
+      return
+    }
+    chrome.tabs.create({ url: entry.url })
+  }
+
+  const retryUpload = async (entry: CaptureHistoryEntry) => {
+    setError(null)
+    const response = await sendMessage({
+      type: "RETRY_UPLOAD",
+      jobId: entry.id
+    }).catch(() => undefined)
+    if (!response?.retrying) {
+      setError("That upload expired. Capture the document again.")
+      return
+    }
+    navigate("/")
+  }
+
+  const entries = history ?? []
+
+  return (
+    <div className="plasmo-min-w-[400px] plasmo-px-4 plasmo-py-3">
+      <div className="plasmo-flex plasmo-items-center plasmo-justify-between plasmo-mb-4">
+        <h2 className="plasmo-text-xl plasmo-font-semibold plasmo-text-foreground">
+          History
+        </h2>
+        <Link
+          to="/"
+          className="plasmo-text-sm plasmo-text-muted-foreground hover:plasmo-text-foreground">
+          ← Back
+        </Link>
+      </div>
+
+      {error && (
+        <p className="plasmo-text-sm plasmo-text-red-700 plasmo-mb-3">
+          {error}
+        </p>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="plasmo-text-sm plasmo-text-muted-foreground">
+          Documents you capture show up here.
+        </p>
+      ) : (
+        <>
+          <ul className="plasmo-space-y-2 plasmo-max-h-96 plasmo-overflow-y-auto">
+            {entries.map((entry) => (
+              <li
+                key={entry.id}
+                className="plasmo-border plasmo-border-border plasmo-rounded-lg plasmo-p-3 plasmo-bg-card">
+                <div className="plasmo-flex plasmo-items-start plasmo-justify-between plasmo-gap-2">
+                  <div className="plasmo-min-w-0">
+                    <p
+                      className="plasmo-font-medium plasmo-text-sm plasmo-text-foreground plasmo-truncate"
+                      title={entry.url}>
+                      {getEntryName(entry)}
+                    </p>
+                    <p className="plasmo-text-xs plasmo-text-muted-foreground">
+                      {entry.pageCount}{" "}
+                      {entry.pageCount === 1 ? "page" : "pages"} ·{" "}
+                      {new Date(entry.capturedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <span
+                    className={`plasmo-text-xs plasmo-px-2 plasmo-py-0.5 plasmo-rounded ${STATUS_CLASSES[entry.status]}`}>
+                    {STATUS_LABELS[entry.status]}
+                  </span>
+                </div>
+
+                {entry.error && (
+                  <p className="plasmo-text-xs plasmo-text-red-700 plasmo-mt-1">
+                    {entry.error}
+                  </p>
+                )}
+
+                <div className="plasmo-flex plasmo-gap-3 plasmo-mt-2 plasmo-text-xs">
+                  {entry.materialId && (
+                    <button
+                      onClick={() => openInFlow(entry.materialId)}
+                      className="plasmo-text-primary hover:plasmo-underline">
+                      Open in Flow
+                    </button>
+                  )}
+                  {entry.failedPages && (
+                    <button
+                      onClick={() => retryUpload(entry)}
+                      className="plasmo-text-primary hover:plasmo-underline">
+                      Retry upload
+                    </button>
+                  )}
+                  <button
+                    onClick={() => recapture(entry)}
+                    className="plasmo-text-primary hover:plasmo-underline">
+                    Re-capture
+                  </button>
+                  <button
+                    onClick={() =>
+                      sendMessage({
+                        type: "REMOVE_HISTORY_ENTRY",
+                        id: entry.id
+                      })
+                    }
+                    className="plasmo-ml-auto plasmo-text-muted-foreground hover:plasmo-text-foreground">
+                    Remove
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <button
+            onClick={() => sendMessage({ type: "CLEAR_CAPTURE_HISTORY" })}
+            className="plasmo-mt-3 plasmo-text-sm plasmo-text-muted-foreground hover:plasmo-text-foreground">
+            Clear history
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default HistoryPage
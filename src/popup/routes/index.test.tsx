@@ -1,13 +1,18 @@
 import { useUser } from "@clerk/chrome-extension"
-import { screen, waitFor } from "@testing-library/react"
+import { act, screen, waitFor } from "@testing-library/react"
+import { MemoryRouter } from "react-router"
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
 
+import {
+  CAPTURE_STATES_KEY,
+  createCaptureState,
+  type TabCaptureState
+} from "../../lib/capture-state"
 import {
   resetChromeStorage,
   resetMessageListeners,
   setChromeStorageData,
-  setupChromeMocks,
-  triggerChromeMessage
+  setupChromeMocks
 } from "../../test/mocks/chrome"
 import { renderWithProviders, userEvent } from "../../test/utils"
 import HomePage from "./index"
@@ -21,6 +26,33 @@ vi.mock("@clerk/chrome-extension", () => ({
   }))
 }))
 
+// States the background keeps per tab, as saved through @plasmohq/storage
+function captureStatesData(state: Partial<TabCaptureState>) {
+  return {
+    [CAPTURE_STATES_KEY]: JSON.stringify({
+      1: { ...createCaptureState(1), ...state }
+    })
+  }
+}
+
+function seedCaptureState(state: Partial<TabCaptureState>) {
+  setChromeStorageData(captureStatesData(state))
+}
+
+// The background saves the tab's state whenever it changes
+async function pushCaptureState(state: Partial<TabCaptureState>) {
+  await act(() => chrome.storage.local.set(captureStatesData(state)))
+}
+
+// The popup routes between pages, e.g. to the review
+function renderHomePage() {
+  return renderWithProviders(
+    <MemoryRouter>
+      <HomePage />
+    </MemoryRouter>
+  )
+}
+
 describe("HomePage", () => {
   beforeEach(() => {
     setupChromeMocks() // Reset Chrome mocks to defaults
@@ -56,17 +88,13 @@ describe("HomePage", () => {
 
   describe("Upload State Display", () => {
     it("should load upload state from storage on mount", async () => {
-      setChromeStorageData({
-        uploadState: {
-          isUploading: true,
-          currentFile: 5,
-          totalFiles: 10,
-          percent: 50,
-          url: "https://docsend.com/view/test"
-        }
+      seedCaptureState({
+        phase: "uploading",
+        url: "https://docsend.com/view/test",
+        upload: { currentFile: 5, totalFiles: 10, percent: 50 }
       })
 
-      renderWithProviders(<HomePage />)
+      renderHomePage()
       await waitForComponentReady()
 
       await waitFor(
@@ -79,19 +107,13 @@ describe("HomePage", () => {
     })
 
     it("should display upload progress when uploading", async () => {
-      renderWithProviders(<HomePage />)
+      renderHomePage()
       await waitForComponentReady()
 
-      // Trigger upload state change message
-      await triggerChromeMessage({
-        type: "UPLOAD_STATE_CHANGED",
-        state: {
-          isUploading: true,
-          currentFile: 3,
-          totalFiles: 10,
-          percent: 30,
-          url: "https://docsend.com/view/test"
-        }
+      await pushCaptureState({
+        phase: "uploading",
+        url: "https://docsend.com/view/test",
+        upload: { currentFile: 3, totalFiles: 10, percent: 30 }
       })
 
       await waitFor(
@@ -104,13 +126,12 @@ describe("HomePage", () => {
     })
 
     it("should show success message after upload completes", async () => {
-      renderWithProviders(<HomePage />)
+      renderHomePage()
       await waitForComponentReady()
 
-      await triggerChromeMessage({
-        type: "UPLOAD_SUCCESS",
-        materialId: "test-material-id",
-        imageCount: 10
+      await pushCaptureState({
+        phase: "done",
+        upload: { currentFile: 10, totalFiles: 10, percent: 100 }
       })
 
       await waitFor(
@@ -124,12 +145,13 @@ describe("HomePage", () => {
     })
 
     it("should show error message on upload failure", async () => {
-      renderWithProviders(<HomePage />)
+      renderHomePage()
       await waitForComponentReady()
 
-      await triggerChromeMessage({
-        type: "UPLOAD_ERROR",
-        error: "Network error"
+      await pushCaptureState({
+        phase: "error",
+        error: "Network error",
+        upload: { currentFile: 0, totalFiles: 10, percent: 0 }
       })
 
       await waitFor(
@@ -142,13 +164,12 @@ describe("HomePage", () => {
     })
 
     it("should auto-dismiss success message after 3 seconds", async () => {
-      renderWithProviders(<HomePage />)
+      renderHomePage()
       await waitForComponentReady()
 
-      await triggerChromeMessage({
-        type: "UPLOAD_SUCCESS",
-        materialId: "test-material-id",
-        imageCount: 10
+      await pushCaptureState({
+        phase: "done",
+        upload: { currentFile: 10, totalFiles: 10, percent: 100 }
       })
 
       await waitFor(
@@ -160,24 +181,26 @@ describe("HomePage", () => {
         { timeout: 1000 }
       )
 
-      // Wait for auto-dismiss (3 seconds + buffer)
+      // The background puts the tab back to idle (3 seconds + buffer)
       await waitFor(
         () => {
-          expect(
-            screen.queryByText(/Uploaded 10 pages to Flow/i)
-          ).not.toBeInTheDocument()
+          expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+            type: "DISMISS_CAPTURE_STATE",
+            tabId: 1
+          })
         },
         { timeout: 3500 }
       )
     })
 
     it("should auto-dismiss error message after 5 seconds", async () => {
-      renderWithProviders(<HomePage />)
+      renderHomePage()
       await waitForComponentReady()
 
-      await triggerChromeMessage({
-        type: "UPLOAD_ERROR",
-        error: "Test error"
+      await pushCaptureState({
+        phase: "error",
+        error: "Test error",
+        upload: { currentFile: 0, totalFiles: 10, percent: 0 }
       })
 
       await waitFor(
@@ -187,10 +210,13 @@ describe("HomePage", () => {
         { timeout: 1000 }
       )
 
-      // Wait for auto-dismiss (5 seconds + buffer)
+      // The background puts the tab back to idle (5 seconds + buffer)
       await waitFor(
         () => {
-          expect(screen.queryByText(/Upload Failed/i)).not.toBeInTheDocument()
+          expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+            type: "DISMISS_CAPTURE_STATE",
+            tabId: 1
+          })
         },
         { timeout: 5500 }
       )
@@ -199,7 +225,7 @@ describe("HomePage", () => {
 
   describe("Capture Controls", () => {
     it("should show DocSend capture section when signed in", async () => {
-      renderWithProviders(<HomePage />)
+      renderHomePage()
       await waitForComponentReady()
 
       expect(screen.getByText(/DocSend Capture/i)).toBeInTheDocument()
@@ -228,14 +254,12 @@ describe("HomePage", () => {
         return Promise.resolve(tabs)
       }) as typeof chrome.tabs.query)
 
-      renderWithProviders(<HomePage />)
+      renderHomePage()
 
       await waitFor(
         () => {
           expect(
-            screen.getByText(
-              /Navigate to a DocSend presentation to enable capture/i
-            )
+            screen.getByText(/Navigate to a DocSend.*to start capture/i)
           ).toBeInTheDocument()
         },
         { timeout: 1000 }
@@ -243,7 +267,7 @@ describe("HomePage", () => {
     })
 
     it("should show start capture button on DocSend page", async () => {
-      renderWithProviders(<HomePage />)
+      renderHomePage()
       await waitForComponentReady()
 
       await waitFor(
@@ -256,7 +280,7 @@ describe("HomePage", () => {
 
     it("should handle start capture button click", async () => {
       const user = userEvent.setup()
-      renderWithProviders(<HomePage />)
+      renderHomePage()
       await waitForComponentReady()
 
       const startButton = await screen.findByText(
@@ -267,28 +291,26 @@ describe("HomePage", () => {
       await user.click(startButton)
 
       // Verify message was sent to content script
-      expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(1, {
-        type: "START_CAPTURE"
-      })
+      expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ type: "START_CAPTURE", resume: false })
+      )
     })
 
     it("should show capturing status during capture", async () => {
-      renderWithProviders(<HomePage />)
+      renderHomePage()
       await waitForComponentReady()
 
-      await triggerChromeMessage({
-        type: "CAPTURE_STATUS",
-        status: {
-          isCapturing: true,
-          currentPage: 5,
-          totalPages: 10,
-          capturedCount: 5
-        }
+      await pushCaptureState({
+        phase: "capturing",
+        currentPage: 5,
+        totalPages: 10,
+        capturedCount: 5
       })
 
       await waitFor(
         () => {
-          expect(screen.getByText(/Capturing in progress/i)).toBeInTheDocument()
+          expect(screen.getByText(/Capturing DocSend/i)).toBeInTheDocument()
           expect(screen.getByText(/Page 5 of 10/i)).toBeInTheDocument()
         },
         { timeout: 1000 }
@@ -296,17 +318,14 @@ describe("HomePage", () => {
     })
 
     it("should show stop capture button during capture", async () => {
-      renderWithProviders(<HomePage />)
+      renderHomePage()
       await waitForComponentReady()
 
-      await triggerChromeMessage({
-        type: "CAPTURE_STATUS",
-        status: {
-          isCapturing: true,
-          currentPage: 3,
-          totalPages: 10,
-          capturedCount: 3
-        }
+      await pushCaptureState({
+        phase: "capturing",
+        currentPage: 3,
+        totalPages: 10,
+        capturedCount: 3
       })
 
       await waitFor(
@@ -319,18 +338,15 @@ describe("HomePage", () => {
 
     it("should handle stop capture button click", async () => {
       const user = userEvent.setup()
-      renderWithProviders(<HomePage />)
+      renderHomePage()
       await waitForComponentReady()
 
       // Start capturing first
-      await triggerChromeMessage({
-        type: "CAPTURE_STATUS",
-        status: {
-          isCapturing: true,
-          currentPage: 3,
-          totalPages: 10,
-          capturedCount: 3
-        }
+      await pushCaptureState({
+        phase: "capturing",
+        currentPage: 3,
+        totalPages: 10,
+        capturedCount: 3
       })
 
       const stopButton = await screen.findByText(
@@ -339,30 +355,28 @@ describe("HomePage", () => {
         { timeout: 1000 }
       )
       await user.click(stopButton)
+      // Pages were captured, so the popup asks what to do with them
+      await user.click(screen.getByText(/Discard captured pages/i))
 
       // Verify message was sent to content script
       expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(1, {
-        type: "STOP_CAPTURE"
+        type: "STOP_CAPTURE",
+        upload: false
       })
     })
 
     it("should show error state when capture fails", async () => {
-      renderWithProviders(<HomePage />)
+      renderHomePage()
       await waitForComponentReady()
 
-      await triggerChromeMessage({
-        type: "CAPTURE_STATUS",
-        status: {
-          isCapturing: false,
-          currentPage: 0,
-          totalPages: 0,
-          capturedCount: 0,
-          error: "Failed to capture page"
-        }
+      await pushCaptureState({
+        phase: "error",
+        error: "Failed to capture page"
       })
 
       await waitFor(
         () => {
+          expect(screen.getByText(/Capture Error/i)).toBeInTheDocument()
           expect(
             screen.getByText(/Failed to capture page/i)
           ).toBeInTheDocument()
@@ -372,21 +386,19 @@ describe("HomePage", () => {
     })
 
     it("should handle captures when total page count is unknown", async () => {
-      renderWithProviders(<HomePage />)
+      renderHomePage()
       await waitForComponentReady()
 
-      await triggerChromeMessage({
-        type: "CAPTURE_STATUS",
-        status: {
-          isCapturing: true,
-          currentPage: 2,
-          totalPages: null,
-          capturedCount: 1
-        }
+      await pushCaptureState({
+        phase: "capturing",
+        currentPage: 2,
+        totalPages: null,
+        capturedCount: 1
       })
 
       await waitFor(
         () => {
+          expect(screen.getByText(/Capturing page 2/i)).toBeInTheDocument()
           expect(screen.queryByText(/of null/i)).toBeNull()
         },
         { timeout: 1000 }
@@ -396,7 +408,7 @@ describe("HomePage", () => {
 
   describe("User Authentication", () => {
     it("should show welcome message with user name", async () => {
-      renderWithProviders(<HomePage />)
+      renderHomePage()
 
       await waitFor(
         () => {
@@ -414,7 +426,7 @@ describe("HomePage", () => {
         user: null
       })
 
-      renderWithProviders(<HomePage />)
+      renderHomePage()
 
       // Should show spinner
       await waitFor(
@@ -429,18 +441,13 @@ describe("HomePage", () => {
 
   describe("Upload Progress Bar", () => {
     it("should render progress bar with correct width", async () => {
-      renderWithProviders(<HomePage />)
+      renderHomePage()
       await waitForComponentReady()
 
-      await triggerChromeMessage({
-        type: "UPLOAD_STATE_CHANGED",
-        state: {
-          isUploading: true,
-          currentFile: 7,
-          totalFiles: 10,
-          percent: 70,
-          url: "https://docsend.com/view/test"
-        }
+      await pushCaptureState({
+        phase: "uploading",
+        url: "https://docsend.com/view/test",
+        upload: { currentFile: 7, totalFiles: 10, percent: 70 }
       })
 
       await waitFor(
@@ -453,20 +460,15 @@ describe("HomePage", () => {
     })
 
     it("should show URL in upload status", async () => {
-      renderWithProviders(<HomePage />)
+      renderHomePage()
       await waitForComponentReady()
 
       const testUrl = "https://docsend.com/view/abc123"
 
-      await triggerChromeMessage({
-        type: "UPLOAD_STATE_CHANGED",
-        state: {
-          isUploading: true,
-          currentFile: 5,
-          totalFiles: 10,
-          percent: 50,
-          url: testUrl
-        }
+      await pushCaptureState({
+        phase: "uploading",
+        url: testUrl,
+        upload: { currentFile: 5, totalFiles: 10, percent: 50 }
       })
 
       await waitFor(
@@ -1,58 +1,113 @@
 import { useUser } from "@clerk/chrome-extension"
 import { useStorage } from "@plasmohq/storage/hook"
 import { useEffect, useState } from "react"
+import { useNavigate } from "react-router"
 
+import {
+  CAPTURE_RESOLUTION_KEY,
+  CAPTURE_RESOLUTIONS,
+  DEFAULT_CAPTURE_RESOLUTION,
+  type CaptureResolution
+} from "~lib/capture-resolution"
+import { requestDebuggerPermission } from "~lib/capture-backend"
+import {
+  CAPTURE_REVIEWS_KEY,
+  findCaptureReview,
+  type CaptureReviews
+} from "~lib/capture-review"
+import {
+  CAPTURE_SESSIONS_KEY,
+  findResumableSession,
+  getResumePage,
+  type CaptureSessions
+} from "~lib/capture-session"
+import {
+  CAPTURE_STATES_KEY,
+  findTabCaptureState,
+  getDismissDelay,
+  isCapturePhase,
+  isUploadPhase,
+  type TabCaptureStates
+} from "~lib/capture-state"
+import { summarizeAnomalies } from "~lib/frame-analysis"
+import {
+  findExistingMaterial,
+  formatCapturedAgo,
+  MATERIAL_LOOKUPS_KEY,
+  type MaterialLookups
+} from "~lib/material-lookup"
+import { sendMessage, sendTabMessage } from "~lib/messages"
+import { parsePageRange } from "~lib/page-range"
+import { getWebAppUrl } from "~lib/settings"
 import { storage } from "~lib/storage"
-
-interface CaptureStatus {
-  isCapturing: boolean
-  currentPage: number
-  totalPages: number | null
-  capturedCount: number
-  error?: string
-}
-
-interface UploadState {
-  isUploading: boolean
-  currentFile: number
-  totalFiles: number
-  percent: number
-  url: string
-  error?: string
-}
-
-type UploadUIState = "idle" | "uploading" | "success" | "error"
-
-// Get web app URL with proper port handling
-function getWebAppUrl(path: string = ""): string {
-  const frontendUrl =
-    process.env.PLASMO_PUBLIC_FRONTEND_URL || "http://localhost:3000"
-  return `${frontendUrl}${path}`
-}
+import { findViewerAdapterForUrl } from "~lib/viewers"
 
 function HomePage() {
   const { isSignedIn, user, isLoaded } = useUser()
+  const navigate = useNavigate()
 
   // Use @plasmohq/storage for automatic state sync across extension contexts
   // IMPORTANT: Use shared storage instance to ensure same storage area ("local")
-  const [status, setStatus] = useStorage<CaptureStatus | null>({
-    key: "captureStatus",
+  // Capture states are kept per tab by the background
+  const [captureStates] = useStorage<TabCaptureStates>({
+    key: CAPTURE_STATES_KEY,
+    instance: storage
+  })
+
+  const [captureSessions] = useStorage<CaptureSessions>({
+    key: CAPTURE_SESSIONS_KEY,
+    instance: storage
+  })
+  const [captureReviews] = useStorage<CaptureReviews>({
+    key: CAPTURE_REVIEWS_KEY,
     instance: storage
   })
-  const [uploadState, setUploadState] = useStorage<UploadState | null>({
-    key: "uploadState",
+  const [materialLookups] = useStorage<MaterialLookups>({
+    key: MATERIAL_LOOKUPS_KEY,
     instance: storage
   })
 
-  const [isDocSendPage, setIsDocSendPage] = useState(false)
-  const [uploadUIState, setUploadUIState] = useState<UploadUIState>("idle")
+  // Remembered so captures started from the inline button use it too
+  const [resolution, setResolution] = useStorage<CaptureResolution>(
+    { key: CAPTURE_RESOLUTION_KEY, instance: storage },
+    DEFAULT_CAPTURE_RESOLUTION
+  )
+
+  // Name of the supported viewer open in the current tab, if any
+  const [viewerName, setViewerName] = useState<string | null>(null)
+  const [tabUrl, setTabUrl] = useState<string | undefined>(undefined)
+  const [tabId, setTabId] = useState<number | undefined>(undefined)
+  // Pages to capture, e.g. "18-25"; empty captures the whole document
+  const [pageRange, setPageRange] = useState("")
+  const [pageRangeError, setPageRangeError] = useState<string | null>(null)
+  // Stop was clicked; asking whether to upload or discard the pages so far
+  const [confirmStop, setConfirmStop] = useState(false)
+
+  // State of the current tab, or of a capture or upload running elsewhere
+  const captureState = findTabCaptureState(captureStates, tabId)
+  const upload = captureState?.upload
+  // Capture controls only act on the current tab
+  const isCapturing =
+    captureState?.tabId === tabId && isCapturePhase(captureState?.phase)
+  // Interrupted capture of the document in the current tab
+  const resumableSession = findResumableSession(captureSessions, tabUrl)
+  // Finished capture of that document waiting to be reviewed and uploaded
+  const captureReview = findCaptureReview(captureReviews, tabUrl)
+  // Material the document in the current tab was captured into before
+  const existingMaterial = findExistingMaterial(materialLookups, tabUrl)
+  // Pages the last capture kept although they looked wrong
+  const anomalySummary = summarizeAnomalies(captureState?.anomalies)
 
   useEffect(() => {
-    // Check if current tab is a DocSend page
+    // Check if current tab is a supported document viewer
     chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
-      const currentTab = tabs[0]
-      if (currentTab?.url?.includes("docsend.com")) {
-        setIsDocSendPage(true)
+      const adapter = findViewerAdapterForUrl(tabs[0]?.url)
+      setViewerName(adapter?.name ?? null)
+      setTabUrl(tabs[0]?.url)
+      setTabId(tabs[0]?.id)
+      // Refreshes the lookup the content script made if it has gone stale
+      if (adapter && tabs[0]?.url) {
+        void sendMessage({ type: "LOOKUP_MATERIAL", url: tabs[0].url })
       }
     })
 
@@ -60,67 +115,114 @@ function HomePage() {
     // No need for manual chrome.storage.local.get() or chrome.runtime.onMessage listeners
   }, [])
 
-  // Update UI state based on upload state changes
+  // Finished uploads are shown for a moment, then put back to idle
   useEffect(() => {
-    if (!uploadState) {
-      setUploadUIState("idle")
+    const delay = getDismissDelay(captureState)
+    if (delay === null) {
       return
     }
+    const timer = setTimeout(() => {
+      void sendMessage({
+        type: "DISMISS_CAPTURE_STATE",
+        tabId: captureState.tabId
+      })
+    }, delay)
+    return () => clearTimeout(timer)
+  }, [captureState?.tabId, captureState?.updatedAt])
+
+  // With `previousMaterialId`, the capture uploads as a new version of it
+  const startCapture = async (resume = false, previousMaterialId?: string) => {
+    const range = resume ? "" : pageRange.trim()
+    if (range) {
+      try {
+        parsePageRange(range)
+      } catch (error) {
+        setPageRangeError(
+          error instanceof Error ? error.message : String(error)
+        )
+        return
+      }
+    }
+    setPageRangeError(null)
+
+    const [tab] = await chrome.tabs.query({
+      active: true,
+      currentWindow: true
+    })
 
-    if (uploadState.error) {
-      setUploadUIState("error")
-      // Auto-dismiss error after 5 seconds and clear from storage
-      const timer = setTimeout(() => {
-        setUploadUIState("idle")
-        setUploadState(null) // Clear from storage
-      }, 5000)
-      return () => clearTimeout(timer)
+    if (tab?.id) {
+      // A resumed capture keeps the resolution and range it was started with
+      void sendTabMessage(tab.id, {
+        type: "START_CAPTURE",
+        resume,
+        resolution,
+        range: range || undefined,
+        previousMaterialId
+      })
     }
+  }
 
-    if (uploadState.isUploading) {
-      setUploadUIState("uploading")
-    } else if (uploadState.percent === 100) {
-      setUploadUIState("success")
-      // Auto-dismiss success after 3 seconds and clear from storage
-      const timer = setTimeout(() => {
-        setUploadUIState("idle")
-        setUploadState(null) // Clear from storage
-      }, 3000)
-      return () => clearTimeout(timer)
+  // Higher resolutions emulate device metrics, which needs the debugger
+  const selectResolution = async (preset: CaptureResolution) => {
+    if (
+      CAPTURE_RESOLUTIONS[preset].metrics &&
+      !(await requestDebuggerPermission())
+    ) {
+      return
     }
-  }, [uploadState, setUploadState])
+    setResolution(preset)
+  }
 
-  const startCapture = async () => {
+  // With `upload`, the pages captured so far are uploaded right away
+  const stopCapture = async (upload = false) => {
     const [tab] = await chrome.tabs.query({
       active: true,
       currentWindow: true
     })
 
     if (tab?.id) {
-      chrome.tabs.sendMessage(tab.id, { type: "START_CAPTURE" })
-      setStatus({
-        isCapturing: true,
-        currentPage: 0,
-        totalPages: null,
-        capturedCount: 0
-      })
+      void sendTabMessage(tab.id, { type: "STOP_CAPTURE", upload })
     }
+    setConfirmStop(false)
   }
 
-  const stopCapture = async () => {
+  const togglePause = async () => {
     const [tab] = await chrome.tabs.query({
       active: true,
       currentWindow: true
     })
 
     if (tab?.id) {
-      chrome.tabs.sendMessage(tab.id, { type: "STOP_CAPTURE" })
-      setStatus(null)
+      void sendTabMessage(tab.id, {
+        type:
+          captureState?.phase === "paused"
+            ? "CONTINUE_CAPTURE"
+            : "PAUSE_CAPTURE"
+      })
     }
   }
 
-  const openWebApp = () => {
-    chrome.tabs.create({ url: getWebAppUrl("/sign-in") })
+  // The background moves the state on, including when the job expired
+  const retryFailedPages = (jobId: string) => {
+    void sendMessage({ type: "RETRY_UPLOAD", jobId })
+  }
+
+  const cancelUpload = (jobId: string) => {
+    void sendMessage({ type: "CANCEL_UPLOAD", jobId })
+  }
+
+  const discardReview = (sessionId: string, reviewTabId: number) => {
+    void sendMessage({ type: "DISCARD_CAPTURE", sessionId, tabId: reviewTabId })
+  }
+
+  const openMaterial = async (materialId: string) => {
+    chrome.tabs.create({
+      url: await getWebAppUrl(`/dashboard/materials/${materialId}`)
+    })
+  }
+
+  const openWebApp = async () => {
+    chrome.tabs.create({ url: await getWebAppUrl("/sign-in") })
   }
 
   // Show loading state while Clerk checks authentication
@@ -159,71 +261,120 @@ function HomePage() {
 
       <div className="plasmo-space-y-4">
         {/* Upload Status (shown across all tabs) */}
-        {uploadUIState === "uploading" && uploadState && (
+        {isUploadPhase(captureState?.phase) && upload && (
           <div className="plasmo-border plasmo-border-blue-200 plasmo-bg-blue-50 plasmo-rounded-lg plasmo-p-4">
             <h3 className="plasmo-font-semibold plasmo-mb-2 plasmo-text-blue-900">
-              Uploading to Flow
+              {captureState.phase === "finalizing"
+                ? "Adding pages to Flow"
+                : "Uploading to Flow"}
             </h3>
             <p className="plasmo-text-sm plasmo-text-blue-700 plasmo-mb-3">
-              {uploadState.currentFile}/{uploadState.totalFiles} files (
-              {uploadState.percent}%)
+              {upload.currentFile}/{upload.totalFiles} files (
+              {upload.percent}%)
             </p>
             <div className="plasmo-w-full plasmo-bg-blue-200 plasmo-rounded-full plasmo-h-2">
               <div
                 className="plasmo-bg-blue-600 plasmo-h-2 plasmo-rounded-full plasmo-transition-all"
-                style={{ width: `${uploadState.percent}%` }}></div>
+                style={{ width: `${upload.percent}%` }}></div>
             </div>
             <p className="plasmo-text-xs plasmo-text-blue-600 plasmo-mt-2 plasmo-truncate">
-              {uploadState.url}
+              {captureState.url}
+            </p>
+            {upload.jobId && (
+              <button
+                onClick={() => cancelUpload(upload.jobId)}
+                className="plasmo-w-full plasmo-mt-3 plasmo-text-sm plasmo-text-blue-700 plasmo-underline">
+                Cancel upload
+              </button>
+            )}
+          </div>
+        )}
+
+        {captureState?.phase === "cancelled" && (
+          <div className="plasmo-border plasmo-border-border plasmo-bg-accent plasmo-rounded-lg plasmo-p-4">
+            <p className="plasmo-text-sm plasmo-text-accent-foreground plasmo-font-medium">
+              Upload cancelled
             </p>
           </div>
         )}
 
-        {uploadUIState === "success" && uploadState && (
+        {captureState?.phase === "done" && upload && (
           <div className="plasmo-border plasmo-border-green-200 plasmo-bg-green-50 plasmo-rounded-lg plasmo-p-4">
             <p className="plasmo-text-sm plasmo-text-green-800 plasmo-font-medium">
-              ✓ Uploaded {uploadState.totalFiles} pages to Flow
+              ✓ Uploaded {upload.totalFiles} pages to Flow
             </p>
+            {anomalySummary && (
+              <p className="plasmo-text-xs plasmo-text-green-700 plasmo-mt-1">
+                {anomalySummary}. Check them in Flow.
+              </p>
+            )}
           </div>
         )}
 
-        {uploadUIState === "error" && uploadState?.error && (
+        {captureState?.phase === "error" && upload && !upload.failedPages && (
           <div className="plasmo-border plasmo-border-red-200 plasmo-bg-red-50 plasmo-rounded-lg plasmo-p-4">
             <p className="plasmo-text-sm plasmo-text-red-800 plasmo-font-medium">
               ⚠ Upload Failed
             </p>
             <p className="plasmo-text-xs plasmo-text-red-600 plasmo-mt-1">
-              {uploadState.error}
+              {captureState.error}
+            </p>
+          </div>
+        )}
+
+        {captureState?.phase === "error" && upload?.failedPages && (
+          <div className="plasmo-border plasmo-border-red-200 plasmo-bg-red-50 plasmo-rounded-lg plasmo-p-4">
+            <p className="plasmo-text-sm plasmo-text-red-800 plasmo-font-medium">
+              ⚠ Upload Incomplete
+            </p>
+            <p className="plasmo-text-xs plasmo-text-red-600 plasmo-mt-1">
+              {captureState.error}
             </p>
+            <button
+              onClick={() => retryFailedPages(upload.jobId)}
+              className="plasmo-w-full plasmo-mt-3 plasmo-bg-destructive plasmo-text-white plasmo-px-4 plasmo-py-2 plasmo-rounded-lg plasmo-font-medium plasmo-transition-opacity hover:plasmo-opacity-90">
+              {upload.failedPages.length > 0
+                ? `Retry ${upload.failedPages.length} failed ${upload.failedPages.length === 1 ? "page" : "pages"}`
+                : "Retry saving to Flow"}
+            </button>
           </div>
         )}
 
         {/* Capture Status (shown across all tabs when active) */}
-        {status?.isCapturing && (
+        {isCapturePhase(captureState?.phase) && (
           <div className="plasmo-border plasmo-border-orange-200 plasmo-bg-orange-50 plasmo-rounded-lg plasmo-p-4">
             <h3 className="plasmo-font-semibold plasmo-mb-2 plasmo-text-orange-900">
-              {isDocSendPage ? "Capturing DocSend" : "Capturing in background"}
+              {captureState.phase === "paused"
+                ? "Capture paused"
+                : captureState.tabId === tabId && viewerName
+                  ? `Capturing ${viewerName}`
+                  : "Capturing in background"}
             </h3>
-            {status.totalPages && status.totalPages > 0 ? (
+            {captureState.phase === "preparing" ? (
+              <p className="plasmo-text-sm plasmo-text-orange-700">
+                Preparing capture...
+              </p>
+            ) : captureState.totalPages && captureState.totalPages > 0 ? (
               <p className="plasmo-text-sm plasmo-text-orange-700">
-                Page {status.currentPage} of {status.totalPages}
+                {captureState.phase === "paused" ? "Paused on page" : "Page"}{" "}
+                {captureState.currentPage} of {captureState.totalPages}
               </p>
             ) : (
               <p className="plasmo-text-sm plasmo-text-orange-700">
-                Capturing page {status.currentPage}
+                Capturing page {captureState.currentPage}
               </p>
             )}
           </div>
         )}
 
         {/* Capture error (shown across all tabs) */}
-        {status?.error && (
+        {captureState?.phase === "error" && !upload && (
           <div className="plasmo-border plasmo-border-red-200 plasmo-bg-red-50 plasmo-rounded-lg plasmo-p-4">
             <p className="plasmo-text-sm plasmo-text-red-800 plasmo-font-medium">
               ⚠ Capture Error
             </p>
             <p className="plasmo-text-xs plasmo-text-red-600 plasmo-mt-1">
-              {status.error}
+              {captureState.error}
             </p>
           </div>
         )}
@@ -233,30 +384,165 @@ function HomePage() {
             DocSend Capture
           </h3>
 
-          {!isDocSendPage ? (
+          {!viewerName ? (
             <div className="plasmo-bg-accent plasmo-border plasmo-border-border plasmo-rounded-lg plasmo-p-3">
               <p className="plasmo-text-sm plasmo-text-accent-foreground">
-                Navigate to a DocSend presentation to start capture
+                Navigate to a DocSend, Papermark, Pitch, Google Slides or
+                Brieflink presentation to start capture
               </p>
             </div>
-          ) : status?.isCapturing ? (
-            <button
-              onClick={stopCapture}
-              className="plasmo-w-full plasmo-bg-destructive plasmo-text-white plasmo-px-4 plasmo-py-2.5 plasmo-rounded-lg plasmo-font-medium plasmo-transition-opacity hover:plasmo-opacity-90">
-              Stop Capture
-            </button>
-          ) : (
+          ) : isCapturing && confirmStop ? (
+            <>
+              <p className="plasmo-text-sm plasmo-text-muted-foreground plasmo-mb-4 plasmo-leading-relaxed">
+                {captureState.capturedCount}{" "}
+                {captureState.capturedCount === 1 ? "page was" : "pages were"}{" "}
+                captured so far
+              </p>
+              <button
+                onClick={() => stopCapture(true)}
+                className="plasmo-w-full plasmo-bg-primary plasmo-text-primary-foreground plasmo-px-4 plasmo-py-2.5 plasmo-rounded-lg plasmo-font-medium plasmo-transition-opacity hover:plasmo-opacity-90">
+                Upload what was captured so far
+              </button>
+              <button
+                onClick={() => stopCapture(false)}
+                className="plasmo-w-full plasmo-mt-2 plasmo-bg-destructive plasmo-text-white plasmo-px-4 plasmo-py-2.5 plasmo-rounded-lg plasmo-font-medium plasmo-transition-opacity hover:plasmo-opacity-90">
+                Discard captured pages
+              </button>
+              <button
+                onClick={() => setConfirmStop(false)}
+                className="plasmo-w-full plasmo-mt-2 plasmo-text-sm plasmo-text-muted-foreground plasmo-underline">
+                Keep capturing
+              </button>
+            </>
+          ) : isCapturing ? (
+            <div className="plasmo-flex plasmo-gap-2">
+              <button
+                onClick={togglePause}
+                className="plasmo-flex-1 plasmo-bg-primary plasmo-text-primary-foreground plasmo-px-4 plasmo-py-2.5 plasmo-rounded-lg plasmo-font-medium plasmo-transition-opacity hover:plasmo-opacity-90">
+                {captureState.phase === "paused" ? "Resume" : "Pause"}
+              </button>
+              <button
+                onClick={() =>
+                  captureState.capturedCount > 0
+                    ? setConfirmStop(true)
+                    : stopCapture(false)
+                }
+                className="plasmo-flex-1 plasmo-bg-destructive plasmo-text-white plasmo-px-4 plasmo-py-2.5 plasmo-rounded-lg plasmo-font-medium plasmo-transition-opacity hover:plasmo-opacity-90">
+                Stop Capture
+              </button>
+            </div>
+          ) : captureReview ? (
+            <>
+              <p className="plasmo-text-sm plasmo-text-muted-foreground plasmo-mb-4 plasmo-leading-relaxed">
+                {captureReview.pageNumbers.length} captured pages are waiting
+                for review before they upload
+              </p>
+              <button
+                onClick={() => navigate("/review")}
+                className="plasmo-w-full plasmo-bg-primary plasmo-text-primary-foreground plasmo-px-4 plasmo-py-2.5 plasmo-rounded-lg plasmo-font-medium plasmo-transition-opacity hover:plasmo-opacity-90">
+                Review pages
+              </button>
+              <button
+                onClick={() =>
+                  discardReview(captureReview.sessionId, captureReview.tabId)
+                }
+                className="plasmo-w-full plasmo-mt-2 plasmo-text-sm plasmo-text-muted-foreground plasmo-underline">
+                Discard capture
+              </button>
+            </>
+          ) : resumableSession ? (
             <>
               <p className="plasmo-text-sm plasmo-text-muted-foreground plasmo-mb-4 plasmo-leading-relaxed">
-                Click the button below to capture all slides from this DocSend
-                presentation
+                {resumableSession.capturedPages.length} of{" "}
+                {resumableSession.pages?.length ?? resumableSession.totalPages}{" "}
+                pages were captured before the capture was interrupted
               </p>
               <button
-                onClick={startCapture}
+                onClick={() => startCapture(true)}
                 className="plasmo-w-full plasmo-bg-primary plasmo-text-primary-foreground plasmo-px-4 plasmo-py-2.5 plasmo-rounded-lg plasmo-font-medium plasmo-transition-opacity hover:plasmo-opacity-90">
-                Start Capture
+                Resume capture from page {getResumePage(resumableSession)}
+              </button>
+              <button
+                onClick={() => startCapture()}
+                className="plasmo-w-full plasmo-mt-2 plasmo-text-sm plasmo-text-muted-foreground plasmo-underline">
+                Start over
               </button>
             </>
+          ) : (
+            <>
+              {existingMaterial && (
+                <div className="plasmo-bg-accent plasmo-border plasmo-border-border plasmo-rounded-lg plasmo-p-3 plasmo-mb-4">
+                  <p className="plasmo-text-sm plasmo-text-accent-foreground plasmo-font-medium">
+                    Already in Flow — captured{" "}
+                    {formatCapturedAgo(existingMaterial.capturedAt)}
+                  </p>
+                  <button
+                    onClick={() => openMaterial(existingMaterial.id)}
+                    className="plasmo-mt-1 plasmo-text-sm plasmo-text-accent-foreground plasmo-underline">
+                    Open existing
+                  </button>
+                </div>
+              )}
+              <p className="plasmo-text-sm plasmo-text-muted-foreground plasmo-mb-4 plasmo-leading-relaxed">
+                Click the button below to capture all slides from this{" "}
+                {viewerName} presentation
+              </p>
+              <label className="plasmo-flex plasmo-items-center plasmo-justify-between plasmo-gap-2 plasmo-mb-3 plasmo-text-sm plasmo-text-foreground">
+                Resolution
+                <select
+                  value={resolution}
+                  onChange={(event) =>
+                    selectResolution(event.target.value as CaptureResolution)
+                  }
+                  className="plasmo-border plasmo-border-border plasmo-rounded-md plasmo-bg-background plasmo-px-2 plasmo-py-1">
+                  {(
+                    Object.keys(CAPTURE_RESOLUTIONS) as CaptureResolution[]
+                  ).map((preset) => (
+                    <option key={preset} value={preset}>
+                      {CAPTURE_RESOLUTIONS[preset].label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="plasmo-flex plasmo-items-center plasmo-justify-between plasmo-gap-2 plasmo-mb-3 plasmo-text-sm plasmo-text-foreground">
+                Pages
+                <input
+                  type="text"
+                  value={pageRange}
+                  onChange={(event) => {
+                    setPageRange(event.target.value)
+                    setPageRangeError(null)
+                  }}
+                  placeholder="All, or e.g. 1-3, 18-25"
+                  className="plasmo-border plasmo-border-border plasmo-rounded-md plasmo-bg-background plasmo-px-2 plasmo-py-1 plasmo-w-48"
+                />
+              </label>
+              {pageRangeError && (
+                <p className="plasmo-text-xs plasmo-text-red-600 plasmo-mb-3">
+                  {pageRangeError}
+                </p>
+              )}
+              {existingMaterial ? (
+                <>
+                  <button
+                    onClick={() => startCapture(false, existingMaterial.id)}
+                    className="plasmo-w-full plasmo-bg-primary plasmo-text-primary-foreground plasmo-px-4 plasmo-py-2.5 plasmo-rounded-lg plasmo-font-medium plasmo-transition-opacity hover:plasmo-opacity-90">
+                    Capture new version
+                  </button>
+                  <button
+                    onClick={() => startCapture()}
+                    className="plasmo-w-full plasmo-mt-2 plasmo-text-sm plasmo-text-muted-foreground plasmo-underline">
+                    Capture anyway
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => startCapture()}
+                  className="plasmo-w-full plasmo-bg-primary plasmo-text-primary-foreground plasmo-px-4 plasmo-py-2.5 plasmo-rounded-lg plasmo-font-medium plasmo-transition-opacity hover:plasmo-opacity-90">
+                  Start Capture
+                </button>
+              )}
+            </>
           )}
         </div>
       </div>
@@ -0,0 +1,267 @@
+import { useEffect, useState } from "react"
+import { Link, useNavigate } from "react-router"
+
+import { useStorage } from "@plasmohq/storage/hook"
+
+import { SaveToFlowDialog } from "~features/save-to-flow-dialog"
+import {
+  CAPTURE_REVIEWS_KEY,
+  findCaptureReview,
+  getReviewUpload,
+  type CaptureReviews,
+  type ReviewEdit
+} from "~lib/capture-review"
+import type { FrameAnomaly } from "~lib/frame-analysis"
+import { sendMessage, sendTabMessage } from "~lib/messages"
+import { getPages } from "~lib/page-store"
+import type { SaveDestination } from "~lib/save-destination"
+import { storage } from "~lib/storage"
+
+const ANOMALY_LABELS: Record<FrameAnomaly, string> = {
+  blank: "Looks blank",
+  duplicate: "Same as previous page"
+}
+
+// Object URLs of the stored page images, reloaded when `version` changes
+function usePageThumbnails(
+  sessionId: string | undefined,
+  version: number
+): Record<number, string> {
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({})
+
+  useEffect(() => {
+    if (!sessionId) {
+      return
+    }
+    let urls: string[] = []
+    let cancelled = false
+
+    getPages(sessionId)
+      .then((pages) => {
+        if (cancelled) {
+          return
+        }
+        const loaded: Record<number, string> = {}
+        pages.forEach((page) => {
+          loaded[page.pageNumber] = URL.createObjectURL(page.blob)
+        })
+        urls = Object.values(loaded)
+        setThumbnails(loaded)
+      })
+      .catch((error) => {
+        console.warn("[Review] Failed to load captured pages:", error)
+      })
+
+    return () => {
+      cancelled = true
+      urls.forEach((url) => URL.revokeObjectURL(url))
+    }
+  }, [sessionId, version])
+
+  return thumbnails
+}
+
+function ReviewPage() {
+  const navigate = useNavigate()
+  const [reviews] = useStorage<CaptureReviews>({
+    key: CAPTURE_REVIEWS_KEY,
+    instance: storage
+  })
+  const [tabUrl, setTabUrl] = useState<string | undefined>(undefined)
+  const [version, setVersion] = useState(0)
+  // Page being captured again, and why the last retake failed
+  const [recapturing, setRecapturing] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // Picking where the capture goes before it uploads
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
+      setTabUrl(tabs[0]?.url)
+    })
+  }, [])
+
+  const review = findCaptureReview(reviews, tabUrl)
+  const thumbnails = usePageThumbnails(review?.sessionId, version)
+
+  // The background owns the review and applies the edit to it as stored
+  const editReview = (edit: ReviewEdit) => {
+    if (review) {
+      void sendMessage({
+        type: "UPDATE_CAPTURE_REVIEW",
+        sessionId: review.sessionId,
+        edit
+      })
+    }
+  }
+
+  const recapture = (pageNumber: number) => {
+    if (!review) return
+    setRecapturing(pageNumber)
+    setError(null)
+
+    sendTabMessage(review.tabId, {
+      type: "RECAPTURE_PAGE",
+      sessionId: review.sessionId,
+      pageNumber
+    })
+      .catch(() => undefined)
+      .then((response) => {
+        setRecapturing(null)
+        if (!response?.success) {
+          setError(
+            response?.error ??
+              "Flow couldn't reach the document. Keep its tab open and try again."
+          )
+          return
+        }
+
+        editReview({ type: "retake", pageNumber, anomaly: response.anomaly })
+        setVersion((v) => v + 1)
+      })
+  }
+
+  const confirmUpload = (destination: SaveDestination) => {
+    if (!review) return
+    void sendMessage(getReviewUpload(review, destination))
+    navigate("/")
+  }
+
+  const discard = () => {
+    if (!review) return
+    void sendMessage({
+      type: "DISCARD_CAPTURE",
+      sessionId: review.sessionId,
+      tabId: review.tabId
+    })
+    navigate("/")
+  }
+
+  const anomalyOf = (pageNumber: number) =>
+    review?.anomalies?.find((a) => a.pageNumber === pageNumber)?.kind
+
+  return (
+    <div className="plasmo-min-w-[400px] plasmo-px-4 plasmo-py-3">
+      <div className="plasmo-flex plasmo-items-center plasmo-justify-between plasmo-mb-4">
+        <h2 className="plasmo-text-xl plasmo-font-semibold plasmo-text-foreground">
+          Review pages
+        </h2>
+        <Link
+          to="/"
+          className="plasmo-text-sm plasmo-text-muted-foreground hover:plasmo-text-foreground">
+          ← Back
+        </Link>
+      </div>
+
+      {review && saving ? (
+        <SaveToFlowDialog
+          review={review}
+          onSave={confirmUpload}
+          onCancel={() => setSaving(false)}
+        />
+      ) : !review ? (
+        <div className="plasmo-bg-accent plasmo-border plasmo-border-border plasmo-rounded-lg plasmo-p-3">
+          <p className="plasmo-text-sm plasmo-text-accent-foreground">
+            No capture of this document is waiting for review
+          </p>
+        </div>
+      ) : (
+        <>
+          <p className="plasmo-text-sm plasmo-text-muted-foreground plasmo-mb-3">
+            Pages upload in this order. Delete, move or retake pages before
+            uploading.
+          </p>
+
+          {error && (
+            <p className="plasmo-text-xs plasmo-text-red-600 plasmo-mb-3">
+              {error}
+            </p>
+          )}
+
+          <ol className="plasmo-space-y-2 plasmo-max-h-[360px] plasmo-overflow-y-auto plasmo-mb-4">
+            {review.pageNumbers.map((pageNumber, index) => {
+              const anomaly = anomalyOf(pageNumber)
+              return (
+                <li
+                  key={pageNumber}
+                  className="plasmo-flex plasmo-items-center plasmo-gap-3 plasmo-border plasmo-border-border plasmo-rounded-lg plasmo-p-2 plasmo-bg-card">
+                  {thumbnails[pageNumber] ? (
+                    <img
+                      src={thumbnails[pageNumber]}
+                      alt={`Page ${pageNumber}`}
+                      className="plasmo-w-24 plasmo-h-16 plasmo-object-contain plasmo-bg-accent plasmo-rounded"
+                    />
+                  ) : (
+                    <div className="plasmo-w-24 plasmo-h-16 plasmo-bg-accent plasmo-rounded" />
+                  )}
+                  <div className="plasmo-flex-1 plasmo-min-w-0">
+                    <p className="plasmo-text-sm plasmo-font-medium plasmo-text-foreground">
+                      {index + 1}. Page {pageNumber}
+                    </p>
+                    {anomaly && (
+                      <p className="plasmo-text-xs plasmo-text-orange-700">
+                        {ANOMALY_LABELS[anomaly]}
+                      </p>
+                    )}
+                    <div className="plasmo-flex plasmo-gap-2 plasmo-mt-1 plasmo-text-xs plasmo-text-muted-foreground">
+                      <button
+                        onClick={() =>
+                          editReview({ type: "move", pageNumber, offset: -1 })
+                        }
+                        disabled={index === 0 || recapturing !== null}
+                        aria-label={`Move page ${pageNumber} up`}
+                        className="hover:plasmo-text-foreground disabled:plasmo-opacity-40">
+                        ↑
+                      </button>
+                      <button
+                        onClick={() =>
+                          editReview({ type: "move", pageNumber, offset: 1 })
+                        }
+                        disabled={
+                          index === review.pageNumbers.length - 1 ||
+                          recapturing !== null
+                        }
+                        aria-label={`Move page ${pageNumber} down`}
+                        className="hover:plasmo-text-foreground disabled:plasmo-opacity-40">
+                        ↓
+                      </button>
+                      <button
+                        onClick={() => recapture(pageNumber)}
+                        disabled={recapturing !== null}
+                        className="hover:plasmo-text-foreground disabled:plasmo-opacity-40">
+                        {recapturing === pageNumber ? "Retaking..." : "Retake"}
+                      </button>
+                      <button
+                        onClick={() =>
+                          editReview({ type: "delete", pageNumber })
+                        }
+                        disabled={recapturing !== null}
+                        className="hover:plasmo-text-red-600 disabled:plasmo-opacity-40">
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              )
+            })}
+          </ol>
+
+          <button
+            onClick={() => setSaving(true)}
+            disabled={review.pageNumbers.length === 0 || recapturing !== null}
+            className="plasmo-w-full plasmo-bg-primary plasmo-text-primary-foreground plasmo-px-4 plasmo-py-2.5 plasmo-rounded-lg plasmo-font-medium plasmo-transition-opacity hover:plasmo-opacity-90 disabled:plasmo-opacity-50">
+            Upload {review.pageNumbers.length}{" "}
+            {review.pageNumbers.length === 1 ? "page" : "pages"} to Flow
+          </button>
+          <button
+            onClick={discard}
+            className="plasmo-w-full plasmo-mt-2 plasmo-text-sm plasmo-text-muted-foreground plasmo-underline">
+            Discard capture
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default ReviewPage
@@ -0,0 +1,24 @@
+import { Link } from "react-router"
+
+import { SettingsForm } from "~features/settings-form"
+
+function SettingsPage() {
+  return (
+    <div className="plasmo-min-w-[400px] plasmo-px-4 plasmo-py-3">
+      <div className="plasmo-flex plasmo-items-center plasmo-justify-between plasmo-mb-4">
+        <h2 className="plasmo-text-xl plasmo-font-semibold plasmo-text-foreground">
+          Settings
+        </h2>
+        <Link
+          to="/"
+          className="plasmo-text-sm plasmo-text-muted-foreground hover:plasmo-text-foreground">
+          ← Back
+        </Link>
+      </div>
+
+      <SettingsForm />
+    </div>
+  )
+}
+
+export default SettingsPage
@@ -3,6 +3,8 @@
  * Mocks essential Chrome extension APIs used by the extension
  */
 
+import type { Message, MessageType } from "../../lib/messages"
+
 interface StorageData {
   [key: string]: unknown
 }
@@ -18,6 +20,22 @@ interface MessageListener {
 const storageData: StorageData = {}
 const messageListeners: Set<MessageListener> = new Set()
 
+// Registered alarms and lifecycle listeners (kept across setupChromeMocks
+// calls, like message listeners, since modules register them once)
+const alarms: Map<string, chrome.alarms.AlarmCreateInfo> = new Map()
+const alarmListeners: Set<(alarm: chrome.alarms.Alarm) => void> = new Set()
+const startupListeners: Set<() => void> = new Set()
+const installedListeners: Set<() => void> = new Set()
+const tabRemovedListeners: Set<(tabId: number) => void> = new Set()
+const tabUpdatedListeners: Set<
+  (tabId: number, changeInfo: chrome.tabs.TabChangeInfo) => void
+> = new Set()
+
+// Debugger detach listeners (sessions ended by Chrome)
+const debuggerDetachListeners: Set<
+  (source: chrome.debugger.Debuggee, reason: string) => void
+> = new Set()
+
 // Storage change listeners
 const storageChangeListeners: Set<(changes: any, areaName: string) => void> = new Set()
 
@@ -169,6 +187,19 @@ export function setupChromeMocks() {
           // External message listener mock
         })
       },
+      onStartup: {
+        addListener: vi.fn((listener: () => void) => {
+          startupListeners.add(listener)
+        }),
+        removeListener: vi.fn((listener: () => void) => {
+          startupListeners.delete(listener)
+        })
+      },
+      onInstalled: {
+        addListener: vi.fn((listener: () => void) => {
+          installedListeners.add(listener)
+        })
+      },
       getURL: vi.fn((path: string) => `chrome-extension://fake-id/${path}`),
       getManifest: vi.fn(() => ({
         version: "0.0.1",
@@ -199,7 +230,51 @@ export function setupChromeMocks() {
           responseCallback({ success: true })
         }
         return Promise.resolve({ success: true })
-      })
+      }),
+      // Mock screenshot of the visible tab
+      captureVisibleTab: vi.fn(() => {
+        return Promise.resolve(
+          "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=="
+        )
+      }),
+      onRemoved: {
+        addListener: vi.fn((listener: (tabId: number) => void) => {
+          tabRemovedListeners.add(listener)
+        })
+      },
+      onUpdated: {
+        addListener: vi.fn(
+          (
+            listener: (
+              tabId: number,
+              changeInfo: chrome.tabs.TabChangeInfo
+            ) => void
+          ) => {
+            tabUpdatedListeners.add(listener)
+          }
+        )
+      }
+    },
+
+    // Mock chrome.alarms (upload queue keepalive)
+    alarms: {
+      create: vi.fn((name: string, info: chrome.alarms.AlarmCreateInfo) => {
+        alarms.set(name, info)
+        return Promise.resolve()
+      }),
+      clear: vi.fn((name: string) => {
+        return Promise.resolve(alarms.delete(name))
+      }),
+      onAlarm: {
+        addListener: vi.fn((listener: (alarm: chrome.alarms.Alarm) => void) => {
+          alarmListeners.add(listener)
+        }),
+        removeListener: vi.fn(
+          (listener: (alarm: chrome.alarms.Alarm) => void) => {
+            alarmListeners.delete(listener)
+          }
+        )
+      }
     },
 
     // Mock chrome.notifications
@@ -228,7 +303,26 @@ export function setupChromeMocks() {
           })
         }
         return Promise.resolve({})
-      })
+      }),
+      onDetach: {
+        addListener: vi.fn((listener) => {
+          debuggerDetachListeners.add(listener)
+        }),
+        removeListener: vi.fn((listener) => {
+          debuggerDetachListeners.delete(listener)
+        }),
+        hasListener: vi.fn((listener) => debuggerDetachListeners.has(listener))
+      }
+    },
+
+    // Mock chrome.permissions (debugger is an optional permission)
+    permissions: {
+      contains: vi.fn(() => Promise.resolve(true)),
+      request: vi.fn(() => Promise.resolve(true)),
+      onAdded: {
+        addListener: vi.fn(),
+        removeListener: vi.fn()
+      }
     }
   } as unknown as typeof chrome
 }
@@ -244,9 +338,64 @@ export function resetMessageListeners() {
   messageListeners.clear()
 }
 
+// Helper to forget alarms and lifecycle listeners, e.g. before simulating
+// a service worker restart
+export function resetLifecycleListeners() {
+  alarms.clear()
+  alarmListeners.clear()
+  startupListeners.clear()
+  installedListeners.clear()
+  tabRemovedListeners.clear()
+  tabUpdatedListeners.clear()
+  debuggerDetachListeners.clear()
+}
+
+// Helper to get the currently registered alarms
+export function getChromeAlarms() {
+  return new Map(alarms)
+}
+
+// Helper to fire an alarm
+export function triggerChromeAlarm(name: string) {
+  alarmListeners.forEach((listener) =>
+    listener({ name, scheduledTime: Date.now() })
+  )
+}
+
+// Helper to fire runtime.onStartup
+export function triggerChromeStartup() {
+  startupListeners.forEach((listener) => listener())
+}
+
+// Helper to fire runtime.onInstalled, e.g. after an update
+export function triggerChromeInstalled() {
+  installedListeners.forEach((listener) => listener())
+}
+
+// Helper to fire tabs.onRemoved, e.g. when the user closes a tab
+export function triggerTabRemoved(tabId: number) {
+  tabRemovedListeners.forEach((listener) => listener(tabId))
+}
+
+// Helper to fire tabs.onUpdated, e.g. with { status: "loading" } on reload
+export function triggerTabUpdated(
+  tabId: number,
+  changeInfo: chrome.tabs.TabChangeInfo
+) {
+  tabUpdatedListeners.forEach((listener) => listener(tabId, changeInfo))
+}
+
+// Helper to simulate Chrome ending a debugger session
+export function triggerDebuggerDetach(
+  source: chrome.debugger.Debuggee,
+  reason: string
+) {
+  debuggerDetachListeners.forEach((listener) => listener(source, reason))
+}
+
 // Helper to trigger a message to all listeners
-export async function triggerChromeMessage(
-  message: unknown,
+export async function triggerChromeMessage<T extends MessageType>(
+  message: Message<T>,
   sender?: chrome.runtime.MessageSender
 ) {
   const mockSender =
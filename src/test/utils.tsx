@@ -40,6 +40,15 @@ export function createMockDataUrl(size: number = 100): string {
   return `data:image/png;base64,${base64}`
 }
 
+/**
+ * Create a mock captured page (PNG Blob, as read back from the page store)
+ */
+export function createMockImageBlob(): Blob {
+  const binary = atob(createMockDataUrl().split(",")[1])
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0))
+  return new Blob([bytes], { type: "image/png" })
+}
+
 /**
  * Mock fetch response
  */
@@ -19,8 +19,7 @@ export default defineConfig({
     }
   },
   resolve: {
-    alias: {
-      "~": path.resolve(__dirname, "./src")
-    }
+    // Mirrors the "~*" path in tsconfig.json, e.g. "~lib/storage"
+    alias: [{ find: /^~/, replacement: `${path.resolve(__dirname, "./src")}/` }]
   }
 })